@@ -22,6 +22,7 @@ import MessagesPage from '@/pages/MessagesPage';
 import DashboardPage from '@/pages/DashboardPage';
 import AuthPage from '@/pages/AuthPage';
 import ManualStudioPage from '@/pages/ManualStudioPage';
+import AlertsPage from '@/pages/AlertsPage';
 import type { Page, UserParams, Signal, UserPost, Strategy, DirectMessage, Notification, PageContext, UserProfile } from '@/types';
 import { useStore } from '@/store';
 import { useSocialStore } from '@/store/socialStore';
@@ -29,17 +30,19 @@ import { useScreenerStore } from '@/store/screenerStore';
 import { ChatWidget } from '@/components/chat/ChatWidget';
 import { useChat } from '@/hooks/useChat';
 import { useSignalGenerator } from '@/hooks/useSignalGenerator';
+import { useSignalResolver } from '@/hooks/useSignalResolver';
 import { Toast } from '@/components/ui/Toast';
 import { SharePostModal } from '@/components/messages/SharePostModal';
 import { ViewPostModal } from '@/components/profile/ViewPostModal';
 import { OnboardingTour } from '@/components/onboarding/OnboardingTour';
+import { AlertEngine } from '@/components/alerts/AlertEngine';
 import { sessionManager } from '@/utils/sessionManager';
 
 export default function App() {
   const {
     // State
     isAuthenticated,
-    bybitApiKey, bybitApiSecret, currentPage, isSidebarOpen,
+    currentPage, isSidebarOpen,
     theme, audioAlertsEnabled, contextualChatEnabled,
     functionCallingEnabled, chatIcon, isChatOpen, toast,
     isTourActive, isTourCompleted,
@@ -108,6 +111,9 @@ export default function App() {
     document.documentElement.dataset.theme = themeName;
   }, [theme]);
 
+  // Settle pending signals from candles, whichever page is open
+  useSignalResolver(isAuthenticated);
+
   // Prune old screener runs on initial app load
   useEffect(() => {
     pruneOldScans();
@@ -235,8 +241,6 @@ export default function App() {
       case 'signal-gen':
         return (
           <SignalGenPage
-            bybitApiKey={bybitApiKey}
-            bybitApiSecret={bybitApiSecret}
             controller={signalGenerator.signalGenController}
             onShareSignalAsPost={(signal) => handleShareSignalAsPost(signal, setCurrentPage)}
           />
@@ -246,14 +250,14 @@ export default function App() {
       case 'scalping':
         return (
           <ScalpingPage
-            bybitApiKey={bybitApiKey}
-            bybitApiSecret={bybitApiSecret}
             controller={signalGenerator.scalpController}
             onShareSignalAsPost={(signal) => handleShareSignalAsPost(signal, setCurrentPage)}
           />
         );
       case 'memes-scalp':
         return <MemesScalpPage />;
+      case 'alerts':
+        return <AlertsPage />;
       case 'screener':
         return <ScreenerPage
             onGenerateSignal={signalGenerator.triggerSignalGeneration}
@@ -298,6 +302,7 @@ export default function App() {
     <div className="relative flex min-h-screen bg-black text-gray-100 font-sans">
       {isTourActive && <OnboardingTour />}
       {toast && <Toast message={toast.message} variant={toast.variant} onClose={() => setToast(null)} />}
+      <AlertEngine />
       <Sidebar />
 
       <div className="flex-1 flex flex-col min-w-0 lg:ml-64">
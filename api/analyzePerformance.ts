@@ -1,4 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
+import { getServerLlmProvider } from '@/services/llm/server';
 import type { PerpTrade, SpotTrade } from "@/types";
 
 export default async function handler(req: any, res: any) {
@@ -8,7 +8,7 @@ export default async function handler(req: any, res: any) {
 
     try {
         const { perpTrades, spotTrades }: { perpTrades: PerpTrade[], spotTrades: SpotTrade[] } = req.body;
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const provider = getServerLlmProvider('gemini-2.5-flash');
 
         const recentPerpTrades = perpTrades.filter(t => t.status === 'Closed').slice(0, 50);
         const recentSpotTrades = spotTrades.slice(0, 50);
@@ -26,15 +26,13 @@ export default async function handler(req: any, res: any) {
             Provide a concise performance review in markdown format with sections: "Overall Summary", "Strengths", "Areas for Improvement", and "Actionable Advice". Be constructive and encouraging.
         `;
 
-        const response = await ai.models.generateContent({
+        const text = await provider.generateText({
             model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: "You are a helpful and insightful trading coach who provides clear, structured analysis of a user's trade history.",
-            },
+            prompt,
+            systemInstruction: "You are a helpful and insightful trading coach who provides clear, structured analysis of a user's trade history.",
         });
         
-        res.status(200).json({ analysis: response.text.trim() });
+        res.status(200).json({ analysis: text });
 
     } catch (error: any) {
         console.error("Error in /api/analyzePerformance:", error);
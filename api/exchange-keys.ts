@@ -0,0 +1,45 @@
+import type { CredentialExchange } from '@/services/brokers/types';
+import { deleteExchangeCredentials, getRequestUser, listLinkedExchanges, saveExchangeCredentials } from '@/services/brokers/credentialVault';
+
+const SUPPORTED_EXCHANGES: CredentialExchange[] = ['bybit', 'binance'];
+
+/**
+ * Manages the signed-in user's exchange API keys. Keys are write-only: GET lists which exchanges
+ * are linked (with a key hint), but secrets never leave the server again.
+ */
+export default async function handler(req: any, res: any) {
+    try {
+        const user = await getRequestUser(req);
+        if (!user) {
+            return res.status(401).json({ message: 'Sign in to manage exchange API keys.' });
+        }
+
+        if (req.method === 'GET') {
+            return res.status(200).json(await listLinkedExchanges(user.id));
+        }
+
+        const { exchange, apiKey, apiSecret }: { exchange: CredentialExchange; apiKey?: string; apiSecret?: string } = req.body ?? {};
+        if (!SUPPORTED_EXCHANGES.includes(exchange)) {
+            return res.status(400).json({ message: `Unsupported exchange: ${exchange}` });
+        }
+
+        if (req.method === 'POST') {
+            if (!apiKey?.trim() || !apiSecret?.trim()) {
+                return res.status(400).json({ message: 'Both an API key and an API secret are required.' });
+            }
+            await saveExchangeCredentials(user.id, exchange, { apiKey: apiKey.trim(), apiSecret: apiSecret.trim() });
+            return res.status(200).json(await listLinkedExchanges(user.id));
+        }
+
+        if (req.method === 'DELETE') {
+            await deleteExchangeCredentials(user.id, exchange);
+            return res.status(200).json(await listLinkedExchanges(user.id));
+        }
+
+        res.status(405).json({ message: 'Method not allowed' });
+
+    } catch (error: any) {
+        console.error("Error in /api/exchange-keys:", error);
+        res.status(500).json({ message: error.message || 'An internal server error occurred.' });
+    }
+}
@@ -0,0 +1,37 @@
+import type { SignedRequest } from '@/services/brokers/types';
+import { forwardSignedRequest, isAllowedRequest } from '@/services/brokers/signing';
+import { getExchangeCredentials, getRequestUser } from '@/services/brokers/credentialVault';
+
+/**
+ * Backend-for-Frontend proxy for live brokers: signs the request with the signed-in user's
+ * exchange keys and relays the exchange's response (status and body) unchanged.
+ */
+export default async function handler(req: any, res: any) {
+    if (req.method !== 'POST') {
+        return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    try {
+        const user = await getRequestUser(req);
+        if (!user) {
+            return res.status(401).json({ message: 'Sign in to trade on a live exchange.' });
+        }
+
+        const { exchange, method, path, params = {} }: SignedRequest = req.body;
+        if (!isAllowedRequest({ exchange, method, path, params })) {
+            return res.status(403).json({ message: `${method} ${path} is not an allowed ${exchange} endpoint.` });
+        }
+
+        const credentials = await getExchangeCredentials(user.id, exchange);
+        if (!credentials) {
+            return res.status(400).json({ message: `No ${exchange} API keys are linked to your account. Add them in Settings.` });
+        }
+
+        const { status, body } = await forwardSignedRequest({ exchange, method, path, params }, credentials);
+        res.status(status).json(body);
+
+    } catch (error: any) {
+        console.error("Error in /api/execute-trade:", error);
+        res.status(500).json({ message: error.message || 'An internal server error occurred.' });
+    }
+}
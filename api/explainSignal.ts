@@ -1,4 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
+import { getServerLlmProvider } from '@/services/llm/server';
 
 export default async function handler(req: any, res: any) {
     if (req.method !== 'POST') {
@@ -7,7 +7,7 @@ export default async function handler(req: any, res: any) {
 
     try {
         const { symbol, reasoning }: { symbol: string, reasoning: string } = req.body;
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const provider = getServerLlmProvider('gemini-2.5-flash');
 
         const prompt = `
             As a trading educator, explain the concepts mentioned in the following trade analysis for ${symbol}. 
@@ -21,15 +21,13 @@ export default async function handler(req: any, res: any) {
             ---
         `;
 
-        const response = await ai.models.generateContent({
+        const text = await provider.generateText({
             model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: "You are a helpful and insightful trading analyst who excels at explaining complex topics simply.",
-            },
+            prompt,
+            systemInstruction: "You are a helpful and insightful trading analyst who excels at explaining complex topics simply.",
         });
 
-        res.status(200).json({ explanation: response.text.trim() });
+        res.status(200).json({ explanation: text });
 
     } catch (error: any) {
         console.error("Error in /api/explainSignal:", error);
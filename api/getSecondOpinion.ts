@@ -1,4 +1,5 @@
-import { GoogleGenAI, Type } from "@google/genai";
+import { getServerLlmProvider } from '@/services/llm/server';
+import type { LlmSchema } from '@/services/llm/types';
 import type { TradeIdea, AIFeedback, CandleStick } from "@/types";
 
 export default async function handler(req: any, res: any) {
@@ -8,7 +9,7 @@ export default async function handler(req: any, res: any) {
 
     try {
         const { tradeIdea, marketData }: { tradeIdea: TradeIdea, marketData: CandleStick[] } = req.body;
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const provider = getServerLlmProvider('gemini-2.5-flash');
         
         const systemInstruction = `You are an AI trading co-pilot. Your task is to analyze a user-provided trade idea against the current market data. You must provide a confidence score, a balanced rationale (pros and cons), and optionally, suggest refinements. Be objective and focus on risk and probability. Do not generate a new trade idea; only analyze the one provided.`;
 
@@ -28,28 +29,22 @@ export default async function handler(req: any, res: any) {
             Based on the market data, provide your analysis of the user's idea in the specified JSON format.
         `;
 
-        const secondOpinionSchema = {
-            type: Type.OBJECT,
+        const secondOpinionSchema: LlmSchema = {
+            type: 'object',
             properties: {
-                confidence: { type: Type.NUMBER, description: "Your confidence score (0-100) in the user's provided trade idea." },
-                rationale: { type: Type.STRING, description: "A concise analysis of the user's trade idea (pros and cons)." },
-                refinements: { type: Type.STRING, description: "Optional: Suggest one or two specific, actionable improvements." }
+                confidence: { type: 'number', description: "Your confidence score (0-100) in the user's provided trade idea." },
+                rationale: { type: 'string', description: "A concise analysis of the user's trade idea (pros and cons)." },
+                refinements: { type: 'string', description: "Optional: Suggest one or two specific, actionable improvements." }
             },
             required: ["confidence", "rationale"]
         };
 
-        const response = await ai.models.generateContent({
+        const parsed = await provider.generateJson<AIFeedback>({
             model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction,
-                responseMimeType: "application/json",
-                responseSchema: secondOpinionSchema,
-            },
+            prompt,
+            systemInstruction,
+            schema: secondOpinionSchema,
         });
-
-        const jsonString = response.text.trim();
-        const parsed = JSON.parse(jsonString) as AIFeedback;
         
         if (typeof parsed.confidence !== 'number' || !parsed.rationale) {
             throw new Error("Received malformed second opinion from AI.");
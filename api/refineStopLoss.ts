@@ -1,4 +1,4 @@
-import { GoogleGenAI } from "@google/genai";
+import { getServerLlmProvider } from '@/services/llm/server';
 import type { CandleStick } from "@/types";
 
 export default async function handler(req: any, res: any) {
@@ -10,7 +10,7 @@ export default async function handler(req: any, res: any) {
         const { symbol, direction, entryPrice, currentSL, recentCandles }: {
             symbol: string, direction: 'LONG' | 'SHORT', entryPrice: number, currentSL: number, recentCandles: CandleStick[]
         } = req.body;
-        const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        const provider = getServerLlmProvider('gemini-2.5-flash');
 
         const prompt = `
             You are an expert scalping analyst. A trade has just been executed. Your task is to re-evaluate the stop-loss based on immediate micro-volatility.
@@ -31,15 +31,12 @@ export default async function handler(req: any, res: any) {
             Provide ONLY the single, refined, optimal stop-loss price as a number. Do not include any other text, explanation, or formatting. Example: 64810.5
         `;
 
-        const response = await ai.models.generateContent({
+        const text = await provider.generateText({
             model: 'gemini-2.5-flash',
-            contents: prompt,
-            config: {
-                systemInstruction: "You are a precise trading analyst that responds with only a single number as requested.",
-            },
+            prompt,
+            systemInstruction: "You are a precise trading analyst that responds with only a single number as requested.",
         });
         
-        const text = response.text.trim();
         const refinedPrice = parseFloat(text);
 
         if (isNaN(refinedPrice)) {
@@ -4,7 +4,7 @@ import { useStore } from '@/store';
 import { useSocialStore } from '@/store/socialStore';
 import {
     TrendingUp, Zap, Newspaper, History, TestTube2, BarChartBig, Calculator, Book, FileText, Shield, Layers, User,
-    Bot, Settings, Sparkles, Lightbulb, MessageSquare, Compass, Mail, Home, ScanLine, LogOut, Pencil, Flame
+    Bot, Settings, Sparkles, Lightbulb, MessageSquare, Compass, Mail, Home, ScanLine, LogOut, Pencil, Flame, BellRing
 } from 'lucide-react';
 
 
@@ -113,6 +113,7 @@ export const Sidebar = () => {
                 <NavLink icon={<Flame className="w-5 h-5" />} label="Memes Scalp" page="memes-scalp" currentPage={currentPage} onClick={handleNavigation} />
                 <NavLink icon={<Pencil className="w-5 h-5" />} label="Man Signal" page="manual-studio" currentPage={currentPage} onClick={handleNavigation} />
                 <NavLink icon={<ScanLine className="w-5 h-5" />} label="Screener" page="screener" currentPage={currentPage} onClick={handleNavigation} />
+                <NavLink icon={<BellRing className="w-5 h-5" />} label="Alerts" page="alerts" currentPage={currentPage} onClick={handleNavigation} />
                 <NavLink icon={<Newspaper className="w-5 h-5" />} label="News" page="news" currentPage={currentPage} onClick={handleNavigation} />
                 <NavLink icon={<History className="w-5 h-5" />} label="AI Signal History" page="history" currentPage={currentPage} onClick={handleNavigation} />
                 <NavLink icon={<TestTube2 className="w-5 h-5" />} label="Simulation" page="simulation" currentPage={currentPage} onClick={handleNavigation} />
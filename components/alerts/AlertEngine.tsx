@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { AlertCondition, CandleStick, Exchange, MarketAlert, Notification, Timeframe } from '@/types';
+import { useStore } from '@/store';
+import { useAlertsStore } from '@/store/alertsStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { useSocialStore } from '@/store/socialStore';
+import { useExchangeWebSocket } from '@/hooks/useExchangeWebSocket';
+import * as exchangeService from '@/services/exchangeService';
+import { ALERT_CANDLE_LIMIT, alertStreamKey, conditionState, describeAlert, isAlertArmed, isMarketCondition, isTriggered, mergeCandle, unhandledSignalEvents } from '@/services/alertEngine';
+import { formatPrice } from '@/utils/formatting';
+import { playSound } from '@/utils/audio';
+
+const alertSound = ({ condition }: MarketAlert) => {
+    if (condition.type !== 'signal_event') return 'alert';
+    return condition.event === 'entry' ? 'new-signal' : 'tp-hit';
+};
+
+/**
+ * Sends a triggered alert to the notification bell, a toast, the alert sound (when audio alerts are
+ * on) and a browser notification (when the user allowed them), then records the trigger.
+ */
+function deliverAlert(alert: MarketAlert, price: number) {
+    const time = Date.now();
+    const message = `${describeAlert(alert)} (at ${formatPrice(price)})${alert.note ? ` — ${alert.note}` : ''}`;
+
+    useAlertsStore.getState().recordTrigger(alert.id, time);
+    const notification: Notification = {
+        id: crypto.randomUUID(),
+        type: 'alert',
+        fromUsername: alert.symbol,
+        relatedEntityId: alert.id,
+        message,
+        timestamp: time,
+        isRead: false,
+    };
+    useSocialStore.getState().setNotifications(prev => [notification, ...prev]);
+
+    const { audioAlertsEnabled, setToast } = useStore.getState();
+    setToast({ message: `Alert: ${message}`, variant: 'success' });
+    if (audioAlertsEnabled) playSound(alertSound(alert));
+    if ('Notification' in window && window.Notification.permission === 'granted') {
+        new window.Notification(`${alert.symbol} alert`, { body: message, tag: alert.id });
+    }
+}
+
+interface AlertStreamProps {
+    exchange: Exchange;
+    symbol: string;
+    timeframe: Timeframe;
+}
+
+/**
+ * One live candle stream shared by every market alert on the same exchange, symbol and timeframe.
+ * Seeds the candles from REST, then re-evaluates the stream's alerts on every candle update.
+ */
+const AlertStream = ({ exchange, symbol, timeframe }: AlertStreamProps) => {
+    const candlesRef = useRef<CandleStick[]>([]);
+    // Last state of each alert, with the condition it was computed for so an edit starts over
+    const statesRef = useRef(new Map<string, { condition: AlertCondition; state: boolean | null }>());
+    const [isSeeded, setIsSeeded] = useState(false);
+
+    const evaluate = useCallback(() => {
+        const candles = candlesRef.current;
+        const price = candles[candles.length - 1]?.close;
+        if (price === undefined) return;
+        const key = alertStreamKey({ exchange, symbol, timeframe });
+        const now = Date.now();
+
+        for (const alert of useAlertsStore.getState().alerts) {
+            if (!isMarketCondition(alert.condition) || alertStreamKey(alert) !== key) continue;
+            if (alert.status !== 'active') {
+                statesRef.current.delete(alert.id);
+                continue;
+            }
+            const last = statesRef.current.get(alert.id);
+            const previous = last?.condition === alert.condition ? last.state : null;
+            const current = conditionState(alert.condition, candles);
+            statesRef.current.set(alert.id, { condition: alert.condition, state: current });
+
+            if (isAlertArmed(alert, now) && isTriggered(alert.condition, previous, current)) {
+                deliverAlert(alert, price);
+            }
+        }
+    }, [exchange, symbol, timeframe]);
+
+    useEffect(() => {
+        let isCancelled = false;
+        setIsSeeded(false);
+        exchangeService.fetchData(exchange, symbol, timeframe, ALERT_CANDLE_LIMIT)
+            .then(candles => {
+                if (isCancelled) return;
+                candlesRef.current = candles;
+                evaluate();
+                setIsSeeded(true);
+            })
+            .catch(error => console.warn(`Could not load ${symbol} ${timeframe} candles for alerts:`, error));
+        return () => { isCancelled = true; };
+    }, [exchange, symbol, timeframe, evaluate]);
+
+    const handleCandle = useCallback((candle: CandleStick) => {
+        candlesRef.current = mergeCandle(candlesRef.current, candle);
+        evaluate();
+    }, [evaluate]);
+
+    useExchangeWebSocket({ exchange, symbol, type: 'kline', interval: timeframe, onMessage: handleCandle, enabled: isSeeded });
+
+    return null;
+};
+
+/**
+ * Evaluates the user's alerts in the background, whichever page is open: market alerts on shared
+ * live candle streams, and signal event alerts whenever signal history records an entry or a take
+ * profit.
+ */
+export const AlertEngine = () => {
+    const alerts = useAlertsStore(state => state.alerts);
+    const signalHistory = useHistoryStore(state => state.signalHistory);
+
+    // Paused and triggered alerts don't hold a stream open
+    const streams = useMemo(() => {
+        const byKey = new Map<string, AlertStreamProps>();
+        alerts.forEach(alert => {
+            if (alert.status === 'active' && isMarketCondition(alert.condition)) {
+                byKey.set(alertStreamKey(alert), { exchange: alert.exchange, symbol: alert.symbol, timeframe: alert.timeframe });
+            }
+        });
+        return [...byKey.entries()];
+    }, [alerts]);
+
+    useEffect(() => {
+        const now = Date.now();
+        alerts.forEach(alert => {
+            const { condition } = alert;
+            if (condition.type !== 'signal_event' || alert.status === 'triggered') return;
+            const signal = signalHistory.find(s => s.id === condition.signalId);
+            const events = signal ? unhandledSignalEvents(condition, signal) : [];
+            if (events.length === 0) return;
+
+            // Events seen while paused or snoozed are marked handled without being delivered
+            useAlertsStore.getState().updateAlert(alert.id, { condition: { ...condition, handledEvents: condition.handledEvents + events.length } });
+            if (isAlertArmed(alert, now)) deliverAlert(alert, events[events.length - 1].price);
+        });
+    }, [alerts, signalHistory]);
+
+    return (
+        <>
+            {streams.map(([key, stream]) => <AlertStream key={key} {...stream} />)}
+        </>
+    );
+};
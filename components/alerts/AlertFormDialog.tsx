@@ -0,0 +1,267 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AlertCondition, Exchange, MarketAlert, SavedSignal, Timeframe } from '@/types';
+import { useAlertsStore, type NewAlert } from '@/store/alertsStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { useSignalGenStore } from '@/store/signalGenStore';
+import { getExchangeOptions } from '@/services/exchangeService';
+import { isUnresolved } from '@/services/signalResolver';
+import { matchingSignalEvents, validateAlertCondition } from '@/services/alertEngine';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
+import { Dialog } from '@/components/ui/Dialog';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Label } from '@/components/ui/Label';
+import { Select } from '@/components/ui/Select';
+import { Switch } from '@/components/ui/Switch';
+
+const CONDITION_OPTIONS: { value: AlertCondition['type']; label: string }[] = [
+  { value: 'price_cross', label: 'Price crosses a level' },
+  { value: 'percent_move', label: 'Price moves by a percentage' },
+  { value: 'rsi', label: 'RSI crosses a level' },
+  { value: 'ma_cross', label: 'Moving average cross' },
+  { value: 'signal_event', label: 'Signal event' },
+];
+
+const DEFAULT_CONDITIONS: Record<AlertCondition['type'], AlertCondition> = {
+  price_cross: { type: 'price_cross', price: NaN, direction: 'either' },
+  percent_move: { type: 'percent_move', percent: 3, direction: 'either' },
+  rsi: { type: 'rsi', period: 14, level: 70, direction: 'above' },
+  ma_cross: { type: 'ma_cross', maType: 'EMA', fastPeriod: 9, slowPeriod: 21, direction: 'bullish' },
+  signal_event: { type: 'signal_event', signalId: '', event: 'entry', handledEvents: 0 },
+};
+
+const TIMEFRAMES = Object.keys(TIMEFRAME_SECONDS) as Timeframe[];
+
+// Empty inputs are kept as NaN so validation can reject them
+const numberValue = (value: number) => (Number.isNaN(value) ? '' : value);
+const parseNumber = (value: string) => (value.trim() === '' ? NaN : Number(value));
+
+const signalLabel = (signal: SavedSignal) =>
+  `${signal.symbol} ${signal.timeframe} ${signal.direction} · ${new Date(signal.timestamp).toLocaleString()}`;
+
+interface AlertFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  alert?: MarketAlert | null; // Edits this alert; creates a new one when missing
+}
+
+export const AlertFormDialog = ({ isOpen, onClose, alert }: AlertFormDialogProps) => {
+  const { addAlert, updateAlert } = useAlertsStore();
+  const signalHistory = useHistoryStore(state => state.signalHistory);
+  const defaultExchange = useSignalGenStore(state => state.formData.exchange) ?? 'binance';
+
+  const [draft, setDraft] = useState<NewAlert>({ exchange: defaultExchange, symbol: '', timeframe: '1h', condition: DEFAULT_CONDITIONS.price_cross });
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setDraft(alert
+      ? { exchange: alert.exchange, symbol: alert.symbol, timeframe: alert.timeframe, condition: alert.condition, note: alert.note, repeat: alert.repeat }
+      : { exchange: defaultExchange, symbol: '', timeframe: '1h', condition: DEFAULT_CONDITIONS.price_cross, repeat: false });
+  }, [isOpen, alert, defaultExchange]);
+
+  // Signals that can still enter or hit a take profit, plus the one being edited
+  const watchableSignals = useMemo(() => signalHistory.filter(signal =>
+    isUnresolved(signal) || (draft.condition.type === 'signal_event' && signal.id === draft.condition.signalId)
+  ), [signalHistory, draft.condition]);
+
+  const { condition } = draft;
+  const updateCondition = (changes: Partial<AlertCondition>) => {
+    setDraft(prev => ({ ...prev, condition: { ...prev.condition, ...changes } as AlertCondition }));
+  };
+
+  // Events that already happened don't trigger a new signal event alert
+  const watchSignal = (signalId: string, event: 'entry' | 'take_profit') => {
+    const signal = signalHistory.find(s => s.id === signalId);
+    if (!signal) {
+      updateCondition({ signalId: '', event });
+      return;
+    }
+    setDraft(prev => ({
+      ...prev,
+      exchange: signal.exchange ?? 'binance',
+      symbol: signal.symbol,
+      timeframe: signal.timeframe,
+      condition: { type: 'signal_event', signalId, event, handledEvents: matchingSignalEvents(signal, event).length },
+    }));
+  };
+
+  const handleSave = () => {
+    const symbol = draft.symbol.trim().toUpperCase();
+    const issue = !symbol && condition.type !== 'signal_event' ? 'Enter a symbol.' : validateAlertCondition(condition);
+    if (issue) {
+      setError(issue);
+      return;
+    }
+    const note = draft.note?.trim() || undefined;
+    if (alert) {
+      updateAlert(alert.id, { ...draft, symbol, note });
+    } else {
+      addAlert({ ...draft, symbol, note });
+    }
+    onClose();
+  };
+
+  const footer = (
+    <div className="flex justify-end gap-3">
+      <Button variant="outline" onClick={onClose}>Cancel</Button>
+      <Button onClick={handleSave}>{alert ? 'Save Changes' : 'Create Alert'}</Button>
+    </div>
+  );
+
+  return (
+    <Dialog isOpen={isOpen} onClose={onClose} title={alert ? 'Edit Alert' : 'New Alert'} footer={footer}>
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="alert-condition">Condition</Label>
+          <Select
+            id="alert-condition"
+            value={condition.type}
+            onValueChange={(value) => setDraft(prev => ({ ...prev, condition: DEFAULT_CONDITIONS[value as AlertCondition['type']] }))}
+          >
+            {CONDITION_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </Select>
+        </div>
+
+        {condition.type === 'signal_event' ? (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="alert-signal">Signal</Label>
+              <Select id="alert-signal" value={condition.signalId} onValueChange={(value) => watchSignal(value, condition.event)}>
+                <option value="">Choose a signal...</option>
+                {watchableSignals.map(signal => <option key={signal.id} value={signal.id}>{signalLabel(signal)}</option>)}
+              </Select>
+              {watchableSignals.length === 0 && <p className="text-xs text-gray-500">No open signals in your history.</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-signal-event">Event</Label>
+              <Select id="alert-signal-event" value={condition.event} onValueChange={(value) => watchSignal(condition.signalId, value as 'entry' | 'take_profit')}>
+                <option value="entry">Entry filled</option>
+                <option value="take_profit">Take profit hit</option>
+              </Select>
+            </div>
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="alert-exchange">Exchange</Label>
+                <Select id="alert-exchange" value={draft.exchange} onValueChange={(value) => setDraft(prev => ({ ...prev, exchange: value as Exchange }))}>
+                  {getExchangeOptions().map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="alert-symbol">Symbol</Label>
+                <Input id="alert-symbol" placeholder="BTCUSDT" value={draft.symbol} onChange={(e) => setDraft(prev => ({ ...prev, symbol: e.target.value }))} />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-timeframe">Candles</Label>
+              <Select id="alert-timeframe" value={draft.timeframe} onValueChange={(value) => setDraft(prev => ({ ...prev, timeframe: value as Timeframe }))}>
+                {TIMEFRAMES.map(tf => <option key={tf} value={tf}>{tf}</option>)}
+              </Select>
+            </div>
+          </>
+        )}
+
+        {condition.type === 'price_cross' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-direction">Crosses</Label>
+              <Select id="alert-direction" value={condition.direction} onValueChange={(value) => updateCondition({ direction: value as 'above' | 'below' | 'either' })}>
+                <option value="either">Either way</option>
+                <option value="above">Above</option>
+                <option value="below">Below</option>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-price">Price</Label>
+              <Input id="alert-price" type="number" step="any" value={numberValue(condition.price)} onChange={(e) => updateCondition({ price: parseNumber(e.target.value) })} />
+            </div>
+          </div>
+        )}
+
+        {condition.type === 'percent_move' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-direction">Direction</Label>
+              <Select id="alert-direction" value={condition.direction} onValueChange={(value) => updateCondition({ direction: value as 'up' | 'down' | 'either' })}>
+                <option value="either">Up or down</option>
+                <option value="up">Up</option>
+                <option value="down">Down</option>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-percent">Move (%)</Label>
+              <Input id="alert-percent" type="number" step="any" value={numberValue(condition.percent)} onChange={(e) => updateCondition({ percent: parseNumber(e.target.value) })} />
+            </div>
+            <p className="col-span-2 text-xs text-gray-500">Measured from the open of the current {draft.timeframe} candle.</p>
+          </div>
+        )}
+
+        {condition.type === 'rsi' && (
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-rsi-period">Period</Label>
+              <Input id="alert-rsi-period" type="number" value={numberValue(condition.period)} onChange={(e) => updateCondition({ period: parseNumber(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-direction">Crosses</Label>
+              <Select id="alert-direction" value={condition.direction} onValueChange={(value) => updateCondition({ direction: value as 'above' | 'below' })}>
+                <option value="above">Above</option>
+                <option value="below">Below</option>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-rsi-level">Level</Label>
+              <Input id="alert-rsi-level" type="number" step="any" value={numberValue(condition.level)} onChange={(e) => updateCondition({ level: parseNumber(e.target.value) })} />
+            </div>
+          </div>
+        )}
+
+        {condition.type === 'ma_cross' && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="alert-ma-type">Average</Label>
+              <Select id="alert-ma-type" value={condition.maType} onValueChange={(value) => updateCondition({ maType: value as 'SMA' | 'EMA' })}>
+                <option value="EMA">EMA</option>
+                <option value="SMA">SMA</option>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-direction">Cross</Label>
+              <Select id="alert-direction" value={condition.direction} onValueChange={(value) => updateCondition({ direction: value as 'bullish' | 'bearish' })}>
+                <option value="bullish">Bullish (fast above slow)</option>
+                <option value="bearish">Bearish (fast below slow)</option>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-ma-fast">Fast period</Label>
+              <Input id="alert-ma-fast" type="number" value={numberValue(condition.fastPeriod)} onChange={(e) => updateCondition({ fastPeriod: parseNumber(e.target.value) })} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="alert-ma-slow">Slow period</Label>
+              <Input id="alert-ma-slow" type="number" value={numberValue(condition.slowPeriod)} onChange={(e) => updateCondition({ slowPeriod: parseNumber(e.target.value) })} />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor="alert-note">Note (optional)</Label>
+          <Input id="alert-note" placeholder="e.g. Breakout retest" value={draft.note ?? ''} onChange={(e) => setDraft(prev => ({ ...prev, note: e.target.value }))} />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="alert-repeat">Repeat</Label>
+            <p className="text-xs text-gray-500">Keep the alert active after it triggers.</p>
+          </div>
+          <Switch id="alert-repeat" checked={draft.repeat ?? false} onCheckedChange={(checked) => setDraft(prev => ({ ...prev, repeat: checked }))} />
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+    </Dialog>
+  );
+};
@@ -0,0 +1,87 @@
+import React from 'react';
+import type { MarketAlert } from '@/types';
+import { describeAlert } from '@/services/alertEngine';
+import { formatDistanceToNow } from '@/utils/date';
+import { Badge } from '@/components/ui/Badge';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/DropdownMenu';
+import { BellOff, Clock, MoreHorizontal, Pause, Pencil, Play, Trash2 } from 'lucide-react';
+
+const SNOOZE_OPTIONS = [
+  { label: '15 minutes', ms: 15 * 60 * 1000 },
+  { label: '1 hour', ms: 60 * 60 * 1000 },
+  { label: '4 hours', ms: 4 * 60 * 60 * 1000 },
+  { label: '1 day', ms: 24 * 60 * 60 * 1000 },
+];
+
+interface AlertListItemProps {
+  alert: MarketAlert;
+  now: number;
+  onEdit: () => void;
+  onDelete: () => void;
+  onSnooze: (until: number) => void;
+  onSetPaused: (paused: boolean) => void;
+}
+
+const StatusBadge = ({ alert, now }: { alert: MarketAlert; now: number }) => {
+  if (alert.status === 'paused') return <Badge>Paused</Badge>;
+  if (alert.status === 'triggered') return <Badge variant="warning">Triggered</Badge>;
+  if (alert.snoozedUntil !== undefined && alert.snoozedUntil > now) {
+    return <Badge><Clock className="w-3 h-3" /> Snoozed until {new Date(alert.snoozedUntil).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</Badge>;
+  }
+  return <Badge variant="success">Active</Badge>;
+};
+
+export const AlertListItem = ({ alert, now, onEdit, onDelete, onSnooze, onSetPaused }: AlertListItemProps) => {
+  const isSnoozed = alert.snoozedUntil !== undefined && alert.snoozedUntil > now;
+  const details = [
+    alert.condition.type === 'signal_event' ? null : `${alert.exchange} · ${alert.timeframe}`,
+    alert.repeat ? 'Repeats' : 'Once',
+    alert.lastTriggeredAt ? `Triggered ${alert.triggerCount}× · last ${formatDistanceToNow(alert.lastTriggeredAt)}` : `Created ${formatDistanceToNow(alert.createdAt)}`,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="flex items-start justify-between gap-4 p-4 bg-gray-900/50 rounded-lg border border-gray-700/50">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="font-semibold text-gray-200">{describeAlert(alert)}</p>
+          <StatusBadge alert={alert} now={now} />
+        </div>
+        <p className="text-xs text-gray-500">{details}</p>
+        {alert.note && <p className="text-sm text-gray-400">{alert.note}</p>}
+      </div>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button className="p-2 -mr-2 rounded-md hover:bg-gray-700" aria-label="Alert actions">
+            <MoreHorizontal className="w-5 h-5" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          <DropdownMenuItem onClick={onEdit}>
+            <Pencil className="w-4 h-4 mr-2" /> Edit
+          </DropdownMenuItem>
+          {alert.status === 'active' && (isSnoozed ? (
+            <DropdownMenuItem onClick={() => onSnooze(now)}>
+              <BellOff className="w-4 h-4 mr-2" /> End Snooze
+            </DropdownMenuItem>
+          ) : SNOOZE_OPTIONS.map(option => (
+            <DropdownMenuItem key={option.label} onClick={() => onSnooze(now + option.ms)}>
+              <Clock className="w-4 h-4 mr-2" /> Snooze {option.label}
+            </DropdownMenuItem>
+          )))}
+          {alert.status === 'active' ? (
+            <DropdownMenuItem onClick={() => onSetPaused(true)}>
+              <Pause className="w-4 h-4 mr-2" /> Pause
+            </DropdownMenuItem>
+          ) : (
+            <DropdownMenuItem onClick={() => onSetPaused(false)}>
+              <Play className="w-4 h-4 mr-2" /> {alert.status === 'triggered' ? 'Re-arm' : 'Resume'}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={onDelete} className="text-red-400 hover:text-red-300">
+            <Trash2 className="w-4 h-4 mr-2" /> Delete
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
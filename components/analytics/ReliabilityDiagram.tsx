@@ -0,0 +1,45 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ChartPlaceholder } from '@/components/analytics/ChartPlaceholder';
+import type { CalibrationBucket } from '@/utils/signalCalibration';
+
+interface ReliabilityDiagramProps {
+  buckets: CalibrationBucket[];
+}
+
+const CustomTooltip = ({ active, payload }: any) => {
+  if (active && payload && payload.length) {
+    const data: CalibrationBucket = payload[0].payload;
+    return (
+      <div className="bg-gray-900/80 p-3 border border-gray-600 rounded-md text-sm shadow-lg">
+        <p className="text-gray-300 font-bold">{`Confidence ${data.range}`}</p>
+        <p className="text-cyan-400">{`Win Rate: ${data.winRate.toFixed(1)}%`}</p>
+        <p className="text-gray-400">{`Avg. Confidence: ${data.avgConfidence.toFixed(1)}%`}</p>
+        <p className="text-gray-400">{`Signals: ${data.signals}`}</p>
+      </div>
+    );
+  }
+  return null;
+};
+
+export const ReliabilityDiagram = ({ buckets }: ReliabilityDiagramProps) => {
+  if (buckets.length === 0) {
+    return <ChartPlaceholder message="No signals have hit a TP or SL yet." />;
+  }
+
+  return (
+    <div style={{ width: '100%', height: 320 }}>
+      <ResponsiveContainer>
+        <LineChart data={buckets} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="avgConfidence" type="number" domain={[0, 100]} stroke="#9ca3af" tick={{ fontSize: 12 }} tickFormatter={(value) => `${value}%`} />
+          <YAxis domain={[0, 100]} stroke="#9ca3af" tick={{ fontSize: 12 }} tickFormatter={(value) => `${value}%`} />
+          <Tooltip content={<CustomTooltip />} />
+          {/* Perfect calibration: win rate equals confidence */}
+          <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 100, y: 100 }]} stroke="#6b7280" strokeDasharray="4 4" />
+          <Line type="monotone" dataKey="winRate" name="Win Rate" stroke="#22d3ee" strokeWidth={2} dot={{ r: 4 }} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
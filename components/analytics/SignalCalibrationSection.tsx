@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { Target, Gauge, Hourglass, Percent } from 'lucide-react';
+import type { SavedSignal } from '@/types';
+import { buildCalibrationReport, type CalibrationDimension } from '@/utils/signalCalibration';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { Select } from '@/components/ui/Select';
+import { StatCard } from '@/components/analytics/StatCard';
+import { ReliabilityDiagram } from '@/components/analytics/ReliabilityDiagram';
+
+interface SignalCalibrationSectionProps {
+    signals: SavedSignal[];
+}
+
+const dimensionLabels: Record<CalibrationDimension, string> = {
+    model: 'AI Model',
+    timeframe: 'Timeframe',
+    symbol: 'Symbol',
+    type: 'Signal Type',
+    tradingStyle: 'Trading Style',
+    biasSource: 'Bias Source',
+    promptVersion: 'Prompt Version',
+};
+
+// Win rate minus confidence, in points: positive means the signals were underconfident
+const formatGap = (winRate: number, confidence: number) => {
+    const gap = winRate - confidence;
+    return `${gap >= 0 ? '+' : ''}${gap.toFixed(1)}`;
+};
+
+export const SignalCalibrationSection = ({ signals }: SignalCalibrationSectionProps) => {
+    const report = useMemo(() => buildCalibrationReport(signals), [signals]);
+    const [dimension, setDimension] = useState<CalibrationDimension>('model');
+    const rows = report.breakdowns[dimension];
+
+    const beatsBaseline = report.brierScore !== null && report.baselineBrierScore !== null && report.brierScore < report.baselineBrierScore;
+
+    return (
+        <section>
+            <h2 className="text-2xl font-semibold mb-4 border-b border-gray-700 pb-2">AI Signal Calibration</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6">
+                <StatCard
+                    title="Resolved Signals"
+                    value={report.resolved.toString()}
+                    icon={<Target className="w-5 h-5" />}
+                    description="Signals that hit a TP or their SL."
+                />
+                <StatCard
+                    title="Win Rate vs Confidence"
+                    value={`${report.winRate.toFixed(1)}%`}
+                    icon={<Percent className="w-5 h-5" />}
+                    valueClassName={report.winRate >= report.avgConfidence ? 'text-green-400' : 'text-red-400'}
+                    description={`Average confidence ${report.avgConfidence.toFixed(1)}%.`}
+                />
+                <StatCard
+                    title="Brier Score"
+                    value={report.brierScore !== null ? report.brierScore.toFixed(3) : '—'}
+                    icon={<Gauge className="w-5 h-5" />}
+                    valueClassName={report.brierScore === null ? undefined : beatsBaseline ? 'text-green-400' : 'text-red-400'}
+                    description={report.baselineBrierScore !== null ? `Lower is better. Guessing the win rate scores ${report.baselineBrierScore.toFixed(3)}.` : 'Lower is better.'}
+                />
+                <StatCard
+                    title="Awaiting Outcome"
+                    value={report.unresolved.toString()}
+                    icon={<Hourglass className="w-5 h-5" />}
+                    description="Pending signals, resolved in the background."
+                />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Reliability Diagram</CardTitle>
+                        <CardDescription>Realised win rate per confidence bucket. Points on the dashed line are perfectly calibrated; below it, the AI was overconfident.</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <ReliabilityDiagram buckets={report.buckets} />
+                    </CardContent>
+                </Card>
+                <Card>
+                    <CardHeader>
+                        <div className="flex items-start justify-between gap-4">
+                            <div>
+                                <CardTitle>Win Rate Breakdown</CardTitle>
+                                <CardDescription>Which models and settings to trust.</CardDescription>
+                            </div>
+                            <div className="w-40 shrink-0">
+                                <Select id="calibration-dimension" value={dimension} onValueChange={(v) => setDimension(v as CalibrationDimension)}>
+                                    {(Object.keys(dimensionLabels) as CalibrationDimension[]).map(key => (
+                                        <option key={key} value={key}>{dimensionLabels[key]}</option>
+                                    ))}
+                                </Select>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <div className="rounded-md border border-gray-700 max-h-80 overflow-y-auto">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>{dimensionLabels[dimension]}</TableHead>
+                                        <TableHead className="text-right">Signals</TableHead>
+                                        <TableHead className="text-right">Win Rate</TableHead>
+                                        <TableHead className="text-right">Avg. Conf.</TableHead>
+                                        <TableHead className="text-right">Gap</TableHead>
+                                        <TableHead className="text-right">Brier</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {rows.map(row => (
+                                        <TableRow key={row.key}>
+                                            <TableCell className="font-medium">{row.key}</TableCell>
+                                            <TableCell className="text-right">{row.signals} <span className="text-gray-500">({row.wins}W/{row.losses}L)</span></TableCell>
+                                            <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                                            <TableCell className="text-right text-gray-400">{row.avgConfidence.toFixed(1)}%</TableCell>
+                                            <TableCell className={`text-right font-mono ${row.winRate >= row.avgConfidence ? 'text-green-400' : 'text-red-400'}`}>{formatGap(row.winRate, row.avgConfidence)}</TableCell>
+                                            <TableCell className="text-right font-mono">{row.brierScore.toFixed(3)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {rows.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="text-center text-gray-500">No resolved signals yet.</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+        </section>
+    );
+};
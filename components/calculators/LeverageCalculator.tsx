@@ -3,6 +3,9 @@ import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter }
 import { Label } from '@/components/ui/Label';
 import { NumberInput } from '@/components/ui/NumberInput';
 import { Select } from '@/components/ui/Select';
+import type { Exchange } from '@/types';
+import { getExchangeOptions } from '@/services/exchangeService';
+import { VENUE_FEE_TIERS, computePerpPnl, getFeeTier, liquidationPrice } from '@/services/perpAccounting';
 
 export const LeverageCalculator = () => {
     const [capital, setCapital] = useState('1000');
@@ -10,6 +13,13 @@ export const LeverageCalculator = () => {
     const [exitPrice, setExitPrice] = useState('');
     const [leverage, setLeverage] = useState('25');
     const [position, setPosition] = useState<'long' | 'short'>('long');
+    const [exchange, setExchange] = useState<Exchange>('binance');
+    const [feeTier, setFeeTier] = useState(VENUE_FEE_TIERS.binance[0].name);
+
+    const handleExchangeChange = (value: string) => {
+        setExchange(value as Exchange);
+        setFeeTier(VENUE_FEE_TIERS[value as Exchange][0].name);
+    };
 
     const result = useMemo(() => {
         const cap = parseFloat(capital || '0');
@@ -18,17 +28,17 @@ export const LeverageCalculator = () => {
         const lev = parseInt(leverage, 10);
 
         if (!cap || !entry || !exit || !lev || entry === 0) {
-            return { pnl: 0, percentage: 0, liquidation: 0 };
+            return { pnl: 0, percentage: 0, grossPnl: 0, fees: 0, liquidation: 0 };
         }
 
-        const priceChange = position === 'long' ? (exit - entry) / entry : (entry - exit) / entry;
-        const pnl = cap * priceChange * lev;
-        const percentage = priceChange * lev * 100;
-        // Simplified liquidation formula. Note: Real liquidation includes fees and maintenance margin, which varies.
-        const liquidation = position === 'long' ? entry * (1 - 1 / lev) : entry * (1 + 1 / lev);
+        const side = position === 'long' ? 'LONG' as const : 'SHORT' as const;
+        const { taker } = getFeeTier(exchange, feeTier);
+        // Market orders on both sides, at the venue's taker fee
+        const breakdown = computePerpPnl({ side, entryPrice: entry, exitPrice: exit, quantity: cap * lev / entry, margin: cap, entryFeeRate: taker, exitFeeRate: taker });
+        const liquidation = liquidationPrice({ side, entryPrice: entry, leverage: lev });
 
-        return { pnl, percentage, liquidation };
-    }, [capital, entryPrice, exitPrice, leverage, position]);
+        return { pnl: breakdown.netPnl, percentage: breakdown.roe, grossPnl: breakdown.grossPnl, fees: breakdown.fees, liquidation };
+    }, [capital, entryPrice, exitPrice, leverage, position, exchange, feeTier]);
 
     const formatCurrency = (value: number) =>
         new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(value);
@@ -40,7 +50,7 @@ export const LeverageCalculator = () => {
                     <span className="text-cyan-400 font-bold text-xl">⚡</span>
                     Leverage P&L Calculator
                 </CardTitle>
-                <CardDescription>Calculate potential profit, loss, and liquidation price.</CardDescription>
+                <CardDescription>Calculate potential profit and loss after fees, and the liquidation price.</CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
                 <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -67,13 +77,25 @@ export const LeverageCalculator = () => {
                         <Label htmlFor="leverage-pnl">Leverage (x)</Label>
                         <NumberInput id="leverage-pnl" value={leverage} onValueChange={setLeverage} placeholder="e.g., 25" />
                     </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="venue-pnl">Exchange</Label>
+                        <Select id="venue-pnl" value={exchange} onValueChange={handleExchangeChange}>
+                            {getExchangeOptions().map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="fee-tier-pnl">Fee Tier</Label>
+                        <Select id="fee-tier-pnl" value={feeTier} onValueChange={setFeeTier}>
+                            {VENUE_FEE_TIERS[exchange].map(tier => <option key={tier.name} value={tier.name}>{tier.name} ({(tier.taker * 100).toFixed(3)}% taker)</option>)}
+                        </Select>
+                    </div>
                 </div>
             </CardContent>
             <CardFooter>
                 <div className="w-full space-y-3">
                     <div className="w-full bg-gray-900/70 p-3 rounded-lg shadow-inner">
                         <div className="flex justify-between items-center text-xs text-gray-400 mb-1">
-                            <span>Profit / Loss</span>
+                            <span>Net Profit / Loss</span>
                             <span className={`font-bold ${result.percentage >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                                 {result.percentage.toFixed(2)}%
                             </span>
@@ -81,9 +103,12 @@ export const LeverageCalculator = () => {
                         <p className={`text-xl font-bold font-mono truncate ${result.pnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>
                             {formatCurrency(result.pnl)}
                         </p>
+                        <p className="text-xs text-gray-500 mt-1">
+                            {formatCurrency(result.grossPnl)} before {formatCurrency(result.fees)} in fees
+                        </p>
                     </div>
                     <div className="w-full bg-gray-900/70 p-3 rounded-lg shadow-inner">
-                        <p className="text-xs text-gray-400 mb-1">Est. Liquidation Price</p>
+                        <p className="text-xs text-gray-400 mb-1">Est. Liquidation Price (Isolated)</p>
                         <p className="text-xl font-bold font-mono text-yellow-400 truncate">
                             ~{formatCurrency(result.liquidation)}
                         </p>
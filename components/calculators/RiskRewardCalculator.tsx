@@ -5,6 +5,9 @@ import { Select } from '@/components/ui/Select';
 import { TrendingUp, TrendingDown } from 'lucide-react';
 import { NumberInput } from '@/components/ui/NumberInput';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/Tabs';
+import type { Exchange } from '@/types';
+import { getExchangeOptions } from '@/services/exchangeService';
+import { getFeeTier, liquidationPrice as perpLiquidationPrice } from '@/services/perpAccounting';
 
 const formatDisplay = (value: number | undefined, decimals = 2) => {
   if (value === undefined || isNaN(value) || !isFinite(value)) return '-'
@@ -37,6 +40,7 @@ export function RiskRewardCalculator() {
   const [leverageSelection, setLeverageSelection] = useState<string>('20');
   const [tpPercentage, setTpPercentage] = useState<string>('');
   const [tpSelection, setTpSelection] = useState<string>('custom');
+  const [exchange, setExchange] = useState<Exchange>('binance');
   
   // Isolated State
   const [iso_capital, setIsoCapital] = useState<string>('');
@@ -89,16 +93,15 @@ export function RiskRewardCalculator() {
       return { error: 'Please fill all required fields.' };
     }
 
+    const side = positionType === 'long' ? 'LONG' as const : 'SHORT' as const;
     let margin = 0;
     let potentialLoss = 0;
-    let liquidationPrice = 0;
     let fullAccountLiqPrice = 0;
 
     if (marginMode === 'isolated') {
       const numRiskAmount = parseFloat(iso_riskAmount || '0');
       if (!numRiskAmount) return { error: 'Please fill all required fields.' };
       margin = numRiskAmount;
-      liquidationPrice = positionType === 'long' ? numEntry * (1 - 1 / numLeverage) : numEntry * (1 + 1 / numLeverage);
     } else { // Cross Margin
       const numAccountCapital = parseFloat(cross_accountCapital || '0');
       const numTradePercent = parseFloat(cross_tradeCapitalPercent || '0');
@@ -106,17 +109,19 @@ export function RiskRewardCalculator() {
       margin = numAccountCapital * (numTradePercent / 100);
       const positionValue = margin * numLeverage;
       if (positionValue === 0) return { error: 'Cannot calculate with zero position value.' };
-      const priceMovePercent = numAccountCapital / positionValue;
-      fullAccountLiqPrice = positionType === 'long' ? numEntry * (1 - priceMovePercent) : numEntry * (1 + priceMovePercent);
-      // In cross-margin, the isolated liq price is technically irrelevant, but we can show it for context
-      liquidationPrice = positionType === 'long' ? numEntry * (1 - 1 / numLeverage) : numEntry * (1 + 1 / numLeverage);
+      fullAccountLiqPrice = perpLiquidationPrice({ side, entryPrice: numEntry, leverage: numLeverage, marginMode: 'cross', quantity: positionValue / numEntry, accountBalance: numAccountCapital });
     }
+    // In cross-margin, the isolated liq price is technically irrelevant, but we can show it for context
+    const liquidationPrice = perpLiquidationPrice({ side, entryPrice: numEntry, leverage: numLeverage });
 
     const positionValue = margin * numLeverage;
     const positionSizeInCoins = positionValue / numEntry;
     const actualStopLoss = numStopLoss > 0 ? numStopLoss : (positionType === 'long' ? numEntry - (margin / positionSizeInCoins) : numEntry + (margin / positionSizeInCoins));
     const stopDistance = Math.abs(numEntry - actualStopLoss);
-    potentialLoss = stopDistance * positionSizeInCoins;
+    // Market entry and exit at the venue's base taker fee
+    const { taker } = getFeeTier(exchange);
+    const feesAt = (exitPrice: number) => (numEntry + exitPrice) * positionSizeInCoins * taker;
+    potentialLoss = stopDistance * positionSizeInCoins + feesAt(actualStopLoss);
 
     const effectiveLiqPrice = marginMode === 'cross' ? fullAccountLiqPrice : liquidationPrice;
 
@@ -143,9 +148,9 @@ export function RiskRewardCalculator() {
     }
 
     const takeProfits = TAKE_PROFIT_RATIOS.map(tp => {
-      const profitAmount = potentialLoss * tp.value;
       const rewardDistance = stopDistance * tp.value;
       const exitPrice = positionType === 'long' ? numEntry + rewardDistance : numEntry - rewardDistance;
+      const profitAmount = rewardDistance * positionSizeInCoins - feesAt(exitPrice);
       const roe = margin > 0 ? (profitAmount / margin) * 100 : 0;
       return { ...tp, exitPrice, profitAmount, roe };
     });
@@ -154,7 +159,8 @@ export function RiskRewardCalculator() {
     const numTpPercentage = parseFloat(tpPercentage || '0');
     if (numTpPercentage > 0 && margin > 0 && positionSizeInCoins > 0) {
         const profitAmount = margin * (numTpPercentage / 100);
-        const profitPerCoin = profitAmount / positionSizeInCoins;
+        // Price move that nets the target ROE once the fees on both fills are paid
+        const profitPerCoin = (profitAmount / positionSizeInCoins + 2 * numEntry * taker) / (positionType === 'long' ? 1 - taker : 1 + taker);
         const exitPrice = positionType === 'long' ? numEntry + profitPerCoin : numEntry - profitPerCoin;
         customTakeProfit = { exitPrice, profitAmount, roe: numTpPercentage };
     }
@@ -164,6 +170,7 @@ export function RiskRewardCalculator() {
       positionValue,
       stopLossPrice: actualStopLoss,
       potentialLoss,
+      stopFees: feesAt(actualStopLoss),
       liquidationPrice, // Isolated liq price
       fullAccountLiqPrice,
       safetyZone,
@@ -171,7 +178,7 @@ export function RiskRewardCalculator() {
       takeProfits,
       customTakeProfit,
     };
-  }, [entryPrice, leverage, stopLossPrice, positionType, marginMode, iso_capital, iso_riskPercentage, iso_riskAmount, cross_accountCapital, cross_tradeCapitalPercent, tpPercentage]);
+  }, [entryPrice, leverage, stopLossPrice, positionType, marginMode, iso_capital, iso_riskPercentage, iso_riskAmount, cross_accountCapital, cross_tradeCapitalPercent, tpPercentage, exchange]);
 
   return (
     <div className="grid grid-cols-1 gap-6 xl:col-span-2">
@@ -235,6 +242,12 @@ export function RiskRewardCalculator() {
                 <option value="short">Short</option>
             </Select>
           </div>
+          <div className="space-y-2 col-span-1 sm:col-span-2">
+            <Label>Exchange (Fees)</Label>
+            <Select value={exchange} onValueChange={(v: string) => setExchange(v as Exchange)}>
+                {getExchangeOptions().map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+            </Select>
+          </div>
           <div className="space-y-2 col-span-1 sm:col-span-2">
             <Label>Custom Take Profit (ROE %)</Label>
              <Select value={tpSelection} onValueChange={handleTpChange}>
@@ -270,6 +283,10 @@ export function RiskRewardCalculator() {
                   <span className="text-gray-400">Potential Loss at SL</span>
                   <span className="font-mono text-red-500">${formatDisplay(results.potentialLoss)}</span>
                 </div>
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-gray-400">...of which Fees</span>
+                  <span className="font-mono text-gray-500">${formatDisplay(results.stopFees)}</span>
+                </div>
                 {marginMode === 'isolated' ? (
                   <div className="flex justify-between items-center text-sm">
                     <span className="text-gray-400">Isolated Liq. Price</span>
@@ -34,11 +34,14 @@ interface ChartControlsProps {
   setShowMA200: (show: boolean) => void;
   showRSI: boolean;
   setShowRSI: (show: boolean) => void;
+  showVolume: boolean;
+  setShowVolume: (show: boolean) => void;
 }
 
 export const ChartControls = ({
   chartType, setChartType, timeRange, setTimeRange,
-  showMA20, setShowMA20, showMA200, setShowMA200, showRSI, setShowRSI
+  showMA20, setShowMA20, showMA200, setShowMA200, showRSI, setShowRSI,
+  showVolume, setShowVolume
 }: ChartControlsProps) => {
   return (
     <div className="flex flex-wrap items-center justify-end gap-4">
@@ -72,6 +75,10 @@ export const ChartControls = ({
                     <span>RSI (14)</span>
                     {showRSI && <CheckIcon className="w-4 h-4 text-cyan-400" />}
                 </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => setShowVolume(!showVolume)} className="flex items-center justify-between cursor-pointer hover:bg-gray-700 py-2 px-3">
+                    <span>Volume</span>
+                    {showVolume && <CheckIcon className="w-4 h-4 text-cyan-400" />}
+                </DropdownMenuItem>
             </DropdownMenuContent>
         </DropdownMenu>
 
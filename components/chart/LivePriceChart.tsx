@@ -41,9 +41,10 @@ export const LivePriceChart = ({
   const [showRSI, setShowRSI] = useState(false);
   const [showMA20, setShowMA20] = useState(false);
   const [showMA200, setShowMA200] = useState(false);
+  const [showVolume, setShowVolume] = useState(false);
 
   // Custom hook for chart logic
-  const { chart, mainSeries } = useLightweightChart(chartContainerRef, chartType, data, showMA20, showMA200, showRSI);
+  const { chart, mainSeries } = useLightweightChart(chartContainerRef, chartType, data, showMA20, showMA200, showRSI, showVolume);
 
   // Time range zoom handling
   useEffect(() => {
@@ -257,6 +258,7 @@ export const LivePriceChart = ({
               showMA20={showMA20} setShowMA20={setShowMA20}
               showMA200={showMA200} setShowMA200={setShowMA200}
               showRSI={showRSI} setShowRSI={setShowRSI}
+              showVolume={showVolume} setShowVolume={setShowVolume}
           />
         </div>
       </CardHeader>
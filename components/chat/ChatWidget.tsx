@@ -25,6 +25,8 @@ import { MessageSquareIcon } from '@/components/icons/MessageSquareIcon';
 import { DropdownMenu, DropdownMenuItem } from '@/components/ui/DropdownMenu';
 import { MoreHorizontalIcon } from '@/components/icons/MoreHorizontalIcon';
 import { UserIcon } from '@/components/icons/UserIcon';
+import { StopIcon } from '@/components/icons/StopIcon';
+import { ToolCallCard } from '@/components/chat/ToolCallCard';
 
 
 interface ChatWidgetProps {
@@ -56,6 +58,7 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
     selectConversation,
     startNewConversation,
     sendMessage,
+    cancelRequest,
     renameConversation,
     deleteConversation,
     editMessageAndResend,
@@ -143,6 +146,10 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
     };
   }, [isDragging, setChatFabPosition]);
   
+  // The typing dots stand in for the model's turn until its first text or tool call arrives
+  const lastMessage = currentConversation?.messages[currentConversation.messages.length - 1];
+  const isAwaitingModel = isLoading && lastMessage?.role === 'model' && !lastMessage.content && !lastMessage.toolCalls?.length;
+
   const handleFabClick = () => {
     if (!wasDragged.current) {
       onOpen();
@@ -236,7 +243,7 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
             <button onClick={onClose} className="p-2 rounded-full hover:bg-gray-700"><CloseIcon className="w-5 h-5" /></button>
           </header>
           <main className="flex-1 overflow-y-auto p-4 space-y-6">
-            {currentConversation?.messages.map((msg, index) => (
+            {currentConversation?.messages.map((msg, index) => msg.role === 'model' && !msg.content && !msg.toolCalls?.length ? null : (
               <div key={index} className={`flex items-start gap-3 ${msg.role === 'user' ? 'justify-end' : ''}`}>
                  {msg.role === 'model' && <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0"><ChatBotIcon className="w-5 h-5 text-cyan-400" /></div>}
                 <div className="group relative max-w-xl">
@@ -249,11 +256,16 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
                             </div>
                         </div>
                     ) : (
-                        <div className={`px-4 py-2 rounded-xl ${msg.role === 'user' ? 'bg-lime-600 rounded-br-none' : 'bg-gray-700 rounded-bl-none'}`}>
-                            {msg.role === 'model' ? <FormattedReasoning text={msg.content} onNavigate={onNavigate} /> : <p className="text-white whitespace-pre-wrap">{msg.content}</p>}
+                        <div className="space-y-2">
+                            {msg.content && (
+                                <div className={`px-4 py-2 rounded-xl ${msg.role === 'user' ? 'bg-lime-600 rounded-br-none' : 'bg-gray-700 rounded-bl-none'}`}>
+                                    {msg.role === 'model' ? <FormattedReasoning text={msg.content} onNavigate={onNavigate} /> : <p className="text-white whitespace-pre-wrap">{msg.content}</p>}
+                                </div>
+                            )}
+                            {msg.toolCalls?.map(call => <ToolCallCard key={call.id} call={call} />)}
                         </div>
                     )}
-                    {msg.role === 'model' && (
+                    {msg.role === 'model' && msg.content && (
                         <div className="absolute -right-8 top-1 opacity-0 group-hover:opacity-100 transition-opacity">
                             <button onClick={() => handleCopy(msg.content, index)} className="p-1 text-gray-400 hover:text-white">
                                 {copiedIndex === index ? <CheckIcon className="w-3 h-3 text-green-400"/> : <CopyIcon className="w-3 h-3"/>}
@@ -271,7 +283,7 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
                 {msg.role === 'user' && <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0"><UserIcon className="w-5 h-5 text-gray-400" /></div>}
               </div>
             ))}
-            {isLoading && (
+            {isAwaitingModel && (
               <div className="flex items-start gap-3">
                 <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0"><ChatBotIcon className="w-5 h-5 text-cyan-400" /></div>
                 <div className="px-4 py-3 bg-gray-700 rounded-xl flex items-center gap-2">
@@ -295,9 +307,15 @@ export const ChatWidget = ({ isOpen, onClose, onOpen, context, chatController, c
                 style={{minHeight: '48px', maxHeight: '150px'}}
                 disabled={isLoading}
               />
-              <button onClick={handleSend} disabled={isLoading || !input.trim()} className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-lime-500 hover:bg-lime-600 disabled:bg-gray-600 disabled:cursor-not-allowed">
-                <SendIcon className="w-5 h-5 text-gray-900" />
-              </button>
+              {isLoading ? (
+                <button onClick={cancelRequest} className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-gray-600 hover:bg-gray-500" aria-label="Stop generating" title="Stop generating">
+                  <StopIcon className="w-5 h-5 text-white" />
+                </button>
+              ) : (
+                <button onClick={handleSend} disabled={!input.trim()} className="absolute right-3 top-1/2 -translate-y-1/2 p-2 rounded-lg bg-lime-500 hover:bg-lime-600 disabled:bg-gray-600 disabled:cursor-not-allowed">
+                  <SendIcon className="w-5 h-5 text-gray-900" />
+                </button>
+              )}
             </div>
           </footer>
         </div>
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import type { ChatToolCall } from '@/types';
+import { Ban, CheckCircle2, ChevronDown, ChevronRight, Loader2, Wrench, XCircle } from 'lucide-react';
+
+const TOOL_LABELS: Record<string, string> = {
+  generateSignal: 'Generate signal',
+  generateScalpingSignal: 'Generate scalping signal',
+  createStrategy: 'Create strategy',
+  createPost: 'Create post',
+  summarizeNews: 'Search news',
+  getLivePnl: 'Check live P&L',
+  setPriceAlert: 'Set price alert',
+  getTutorialContent: 'Read tutorial',
+  searchKnowledge: 'Search tutorials & docs',
+  querySignalHistory: 'Read signal history',
+  getPerpTradeStats: 'Read Perp Log stats',
+  getSpotHoldings: 'Read spot holdings',
+  listStrategies: 'List strategies',
+  getSimulationResults: 'Read simulation results',
+  getChartSnapshot: 'Read chart',
+};
+
+const StatusIcon = ({ status }: { status: ChatToolCall['status'] }) => {
+  switch (status) {
+    case 'running': return <Loader2 className="w-4 h-4 text-cyan-400 animate-spin" />;
+    case 'done': return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+    case 'error': return <XCircle className="w-4 h-4 text-red-400" />;
+    case 'cancelled': return <Ban className="w-4 h-4 text-gray-500" />;
+  }
+};
+
+const formatArgs = (args: Record<string, unknown>) =>
+  Object.entries(args).map(([key, value]) => `${key}: ${typeof value === 'string' ? value : JSON.stringify(value)}`).join(', ');
+
+const formatResult = (result: unknown) => typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+/**
+ * One tool the assistant called, shown in the transcript. The result the model received can be expanded.
+ */
+export const ToolCallCard = ({ call }: { call: ChatToolCall }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const args = formatArgs(call.args);
+  const canExpand = call.result !== undefined;
+
+  return (
+    <div className="rounded-lg border border-gray-600 bg-gray-800/60 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={!canExpand}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left disabled:cursor-default"
+      >
+        <Wrench className="w-3.5 h-3.5 text-gray-400 flex-shrink-0" />
+        <span className="font-semibold text-gray-200">{TOOL_LABELS[call.name] ?? call.name}</span>
+        {args && <span className="text-gray-400 truncate min-w-0">{args}</span>}
+        <span className="ml-auto flex items-center gap-1 flex-shrink-0">
+          <StatusIcon status={call.status} />
+          {canExpand && (isExpanded ? <ChevronDown className="w-3.5 h-3.5 text-gray-400" /> : <ChevronRight className="w-3.5 h-3.5 text-gray-400" />)}
+        </span>
+      </button>
+      {isExpanded && canExpand && (
+        <pre className="px-3 pb-3 max-h-48 overflow-auto text-gray-400 whitespace-pre-wrap break-words">{formatResult(call.result)}</pre>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,5 @@
 import React from 'react';
+import type { AutoExecutionBasis } from '@/types';
 import { Label } from '@/components/ui/Label';
 import { Switch } from '@/components/ui/Switch';
 import { Select } from '@/components/ui/Select';
@@ -12,6 +13,8 @@ interface AutoExecutionControlsProps {
   setAutoExecutionThreshold: (threshold: number) => void;
   autoExecutionType: 'market' | 'trailing';
   setAutoExecutionType: (type: 'market' | 'trailing') => void;
+  autoExecutionBasis: AutoExecutionBasis;
+  setAutoExecutionBasis: (basis: AutoExecutionBasis) => void;
   isDisabled?: boolean;
   onToggle?: (checked: boolean) => void;
 }
@@ -23,6 +26,8 @@ export const AutoExecutionControls = ({
   setAutoExecutionThreshold,
   autoExecutionType,
   setAutoExecutionType,
+  autoExecutionBasis,
+  setAutoExecutionBasis,
   isDisabled,
   onToggle,
 }: AutoExecutionControlsProps) => {
@@ -34,6 +39,14 @@ export const AutoExecutionControls = ({
     }
   }
 
+  const isConsensus = autoExecutionBasis === 'consensus';
+
+  const handleBasisChange = (basis: AutoExecutionBasis) => {
+    setAutoExecutionBasis(basis);
+    // Ensembles of a few runs only reach a handful of consensus levels, so the range is wider
+    setAutoExecutionThreshold(basis === 'consensus' ? Math.max(autoExecutionThreshold, 60) : Math.min(Math.max(autoExecutionThreshold, 75), 95));
+  };
+
   return (
     <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg border border-gray-700/50">
       <div className="flex items-center justify-between">
@@ -43,13 +56,21 @@ export const AutoExecutionControls = ({
         </Label>
         <Switch id="auto-execution" checked={isAutoExecutionEnabled} onCheckedChange={handleToggle} disabled={isDisabled} />
       </div>
-      <p className="text-xs text-gray-500">Automatically execute trades if confidence meets the threshold.</p>
+      <p className="text-xs text-gray-500">Automatically execute trades if {isConsensus ? 'ensemble consensus' : 'confidence'} meets the threshold.</p>
+      <div className="pt-2">
+        <Label htmlFor="execution-basis" className="text-xs font-semibold text-gray-400 mb-2">Threshold Based On</Label>
+        <Select id="execution-basis" value={autoExecutionBasis} onValueChange={(v) => handleBasisChange(v as AutoExecutionBasis)} disabled={isDisabled || !isAutoExecutionEnabled}>
+          <option value="confidence">AI Confidence</option>
+          <option value="consensus">Ensemble Consensus</option>
+        </Select>
+        {isConsensus && <p className="text-xs text-gray-500 mt-1">Signals from a single model fall back to their confidence.</p>}
+      </div>
       <div className="pt-2 space-y-2">
         <div className="flex justify-between items-center">
-          <Label htmlFor="confidence-threshold" className="text-xs font-semibold text-gray-400 mb-0">Confidence Threshold</Label>
+          <Label htmlFor="confidence-threshold" className="text-xs font-semibold text-gray-400 mb-0">{isConsensus ? 'Consensus Threshold' : 'Confidence Threshold'}</Label>
           <span className="text-sm font-mono text-cyan-400">{autoExecutionThreshold}%</span>
         </div>
-        <input id="confidence-threshold" type="range" min="75" max="95" step="1" value={autoExecutionThreshold} onChange={(e) => setAutoExecutionThreshold(Number(e.target.value))} disabled={isDisabled || !isAutoExecutionEnabled} />
+        <input id="confidence-threshold" type="range" min={isConsensus ? 50 : 75} max={isConsensus ? 100 : 95} step="1" value={autoExecutionThreshold} onChange={(e) => setAutoExecutionThreshold(Number(e.target.value))} disabled={isDisabled || !isAutoExecutionEnabled} />
       </div>
       <div className="pt-2">
         <Label htmlFor="execution-type" className="text-xs font-semibold text-gray-400 mb-2">Execution Type</Label>
@@ -61,7 +82,7 @@ export const AutoExecutionControls = ({
       {isAutoExecutionEnabled && (
         <div className="text-xs text-cyan-400 flex items-center gap-2 pt-1">
           <ZapIcon className="w-3 h-3" />
-          <span>Armed. Will execute trades ≥ {autoExecutionThreshold}% confidence.</span>
+          <span>Armed. Will execute trades ≥ {autoExecutionThreshold}% {isConsensus ? 'consensus' : 'confidence'}.</span>
         </div>
       )}
     </div>
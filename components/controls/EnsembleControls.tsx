@@ -0,0 +1,68 @@
+import React from 'react';
+import type { EnsembleSettings, UserParams } from '@/types';
+import { AI_MODELS } from '@/constants';
+import { ensembleRuns, MAX_ENSEMBLE_RUNS } from '@/services/ensemble';
+import { Label } from '@/components/ui/Label';
+import { Switch } from '@/components/ui/Switch';
+import { Select } from '@/components/ui/Select';
+import { Layers } from 'lucide-react';
+
+interface EnsembleControlsProps {
+  formData: Partial<UserParams>;
+  setFormData: (fn: (prev: Partial<UserParams>) => Partial<UserParams>) => void; // The Signal Gen and Scalping stores' setter
+  isDisabled?: boolean;
+}
+
+const DEFAULT_ENSEMBLE: EnsembleSettings = { enabled: false, models: [], samplesPerModel: 1 };
+
+export const EnsembleControls = ({ formData, setFormData, isDisabled }: EnsembleControlsProps) => {
+  const settings = formData.ensemble ?? DEFAULT_ENSEMBLE;
+
+  const update = (changes: Partial<EnsembleSettings>) => {
+    setFormData(prev => ({ ...prev, ensemble: { ...(prev.ensemble ?? DEFAULT_ENSEMBLE), ...changes } }));
+  };
+
+  const toggleModel = (modelId: string, checked: boolean) => {
+    update({ models: checked ? [...settings.models, modelId] : settings.models.filter(id => id !== modelId) });
+  };
+
+  const runCount = formData.model ? ensembleRuns({ ...formData, ensemble: settings } as UserParams).length : 0;
+
+  return (
+    <div className="space-y-3 p-4 bg-gray-900/50 rounded-lg border border-gray-700/50">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="ensemble-mode" className="flex items-center gap-2 font-semibold text-gray-300 mb-0">
+          <Layers className="w-4 h-4 text-cyan-400" />
+          Ensemble Mode
+        </Label>
+        <Switch id="ensemble-mode" checked={settings.enabled} onCheckedChange={(checked) => update({ enabled: checked })} disabled={isDisabled} />
+      </div>
+      <p className="text-xs text-gray-500">Run the same analysis on several models or several times, then merge the results by majority and median levels.</p>
+      {settings.enabled && (
+        <div className="pt-2 space-y-3">
+          <div className="space-y-2">
+            <Label className="text-xs font-semibold text-gray-400 mb-0">Models</Label>
+            {AI_MODELS.map(model => (
+              <div key={model.id} className="flex items-center justify-between">
+                <span className="text-sm text-gray-300">{model.name}</span>
+                <Switch id={`ensemble-${model.id}`} checked={settings.models.includes(model.id)} onCheckedChange={(checked) => toggleModel(model.id, checked)} disabled={isDisabled} />
+              </div>
+            ))}
+            {settings.models.length === 0 && <p className="text-xs text-gray-500">No models selected: the AI Model below is used.</p>}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="ensemble-samples" className="text-xs font-semibold text-gray-400 mb-0">Samples per Model</Label>
+            <Select id="ensemble-samples" value={String(settings.samplesPerModel)} onValueChange={(v) => update({ samplesPerModel: Number(v) })} disabled={isDisabled}>
+              {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+            </Select>
+          </div>
+          <p className={`text-xs ${runCount > 1 ? 'text-cyan-400' : 'text-yellow-400'}`}>
+            {runCount > 1
+              ? `${runCount} runs per signal (max ${MAX_ENSEMBLE_RUNS}).`
+              : 'Select a second model or more samples to build an ensemble.'}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { formatDistanceToNow } from '../../utils/date';
 import { MailIcon } from '../icons/MailIcon';
 import { UserPlusIcon } from '../icons/UserPlusIcon';
 import { HeartIcon } from '../icons/HeartIcon';
+import { BellIcon } from '../icons/BellIcon';
 
 interface NotificationDropdownProps {
   notifications: Notification[];
@@ -28,6 +29,10 @@ const NotificationItem = ({ notification, user, onClick }: { notification: Notif
         post_like: {
             icon: <HeartIcon className="w-5 h-5 text-red-400" />,
             text: <><span className="font-bold">{user?.name || fromUsername}</span> liked your post.</>
+        },
+        alert: {
+            icon: <BellIcon className="w-5 h-5 text-yellow-400" />,
+            text: <>{notification.message}</>
         }
     }[type];
 
@@ -56,6 +61,9 @@ export const NotificationDropdown = ({ notifications, users, onNavigate, onMarkA
             case 'new_follower':
                 onNavigate('profile', notification.fromUsername);
                 break;
+            case 'alert':
+                onNavigate('alerts', notification.relatedEntityId);
+                break;
             // case 'post_like':
             //     onNavigate('post', notification.relatedEntityId);
             //     break;
@@ -1,5 +1,6 @@
 import React, { useMemo } from 'react';
 import type { Signal, Exchange, Timeframe } from '@/types';
+import { getExchangeOptions } from '@/services/exchangeService';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/Card';
 import { Label } from '@/components/ui/Label';
@@ -87,7 +88,7 @@ const ManualControls = ({ formData, setFormData, symbols, setManualSignal, isSta
             </CardHeader>
             <CardContent className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
-                    <div className="space-y-2"><Label>Exchange</Label><Select value={formData.exchange} onValueChange={(v) => handleChange('exchange', v as Exchange)}><option value="binance">Binance</option><option value="bybit">Bybit</option></Select></div>
+                    <div className="space-y-2"><Label>Exchange</Label><Select value={formData.exchange} onValueChange={(v) => handleChange('exchange', v as Exchange)}>{getExchangeOptions().map(({ value, label }) => <option key={value} value={value}>{label}</option>)}</Select></div>
                     <div className="space-y-2"><Label>Direction</Label><Select value={formData.direction} onValueChange={(v) => handleChange('direction', v as 'LONG' | 'SHORT')}><option value="LONG">Long</option><option value="SHORT">Short</option></Select></div>
                 </div>
                 <div className="space-y-2"><Label>Symbol</Label><Combobox symbols={symbols} value={formData.symbol} onSelect={(v) => handleChange('symbol', v)} favorites={favorites} setFavorites={setFavorites}/></div>
@@ -2,7 +2,9 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import type { PerpTrade } from '@/types';
+import type { Exchange, PerpTrade } from '@/types';
+import { fetchFundingHistory, getExchangeOptions } from '@/services/exchangeService';
+import { fundingBetween, getFeeTier, liquidationPrice } from '@/services/perpAccounting';
 import { Dialog } from '@/components/ui/Dialog';
 import { Label } from '@/components/ui/Label';
 import { Select } from '@/components/ui/Select';
@@ -35,6 +37,9 @@ const getInitialState = (trade: PerpTrade | null) => ({
     margin: trade?.margin?.toString() || '',
     leverage: trade?.leverage?.toString() || '20',
     fees: trade?.fees?.toString() || '',
+    fundingFees: trade?.fundingFees?.toString() || '',
+    exchange: trade?.exchange || 'binance',
+    marginMode: trade?.marginMode || 'isolated',
     notes: trade?.notes || '',
     strategyTags: trade?.strategyTags?.join(', ') || '',
     chartImageUrl: trade?.chartImageUrl || '',
@@ -44,6 +49,8 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
     const [formData, setFormData] = useState(getInitialState(tradeToEdit));
     const [errors, setErrors] = useState<Record<string, string>>({});
     const [isSaving, setIsSaving] = useState(false);
+    const [isFetchingFunding, setIsFetchingFunding] = useState(false);
+    const [fundingError, setFundingError] = useState('');
     const [favorites, setFavorites] = useLocalStorage<string[]>('perpFavoriteSymbols', ['BTCUSDT', 'ETHUSDT']);
     
     const { strategies } = useSocialStore();
@@ -52,8 +59,16 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
     useEffect(() => {
         setFormData(getInitialState(tradeToEdit));
         setErrors({});
+        setFundingError('');
     }, [tradeToEdit, isOpen]);
 
+    const side = formData.side === 'Long' ? 'LONG' as const : 'SHORT' as const;
+
+    // Cross margin draws on the whole account balance, which the log doesn't know
+    const estimatedLiquidation = useMemo(() => formData.marginMode === 'isolated'
+        ? liquidationPrice({ side, entryPrice: parseFloat(formData.entryPrice) || 0, leverage: parseInt(formData.leverage, 10) || 0 })
+        : null, [side, formData.marginMode, formData.entryPrice, formData.leverage]);
+
     useEffect(() => {
         const price = parseFloat(formData.entryPrice);
         const margin = parseFloat(formData.margin);
@@ -77,6 +92,34 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
         if (errors[field]) setErrors(prev => ({ ...prev, [field]: undefined }));
     };
     
+    // Taker fees on both fills, since the log doesn't record whether the orders were limit or market
+    const handleEstimateFees = () => {
+        const quantity = parseFloat(formData.quantity) || 0;
+        const tier = getFeeTier(formData.exchange as Exchange);
+        const fees = (parseFloat(formData.entryPrice) || 0) * quantity * tier.taker + (parseFloat(formData.exitPrice) || 0) * quantity * tier.taker;
+        handleChange('fees', fees.toFixed(2));
+    };
+
+    const handleFetchFunding = async () => {
+        const entryTime = new Date(formData.entryDate).getTime();
+        const exitTime = formData.status === 'Closed' && formData.exitDate ? new Date(formData.exitDate).getTime() : Date.now();
+        if (!entryTime || exitTime <= entryTime) {
+            setFundingError('Set the entry and exit dates first.');
+            return;
+        }
+        setIsFetchingFunding(true);
+        setFundingError('');
+        try {
+            const rates = await fetchFundingHistory(formData.exchange as Exchange, formData.symbol, entryTime, exitTime);
+            const funding = fundingBetween(rates, side, parseFloat(formData.quantity) || 0, entryTime, exitTime, parseFloat(formData.entryPrice) || 0);
+            handleChange('fundingFees', funding.toFixed(2));
+        } catch (e) {
+            setFundingError(e instanceof Error ? e.message : 'Could not fetch funding history.');
+        } finally {
+            setIsFetchingFunding(false);
+        }
+    };
+
     const addTag = (tag: string) => {
         setFormData(prev => {
             const currentTags = prev.strategyTags.split(',').map(t => t.trim()).filter(Boolean);
@@ -122,6 +165,9 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
                 margin: parseFloat(formData.margin),
                 leverage: parseInt(formData.leverage, 10),
                 fees: parseFloat(formData.fees || '0'),
+                fundingFees: formData.fundingFees ? parseFloat(formData.fundingFees) : undefined,
+                exchange: formData.exchange as Exchange,
+                marginMode: formData.marginMode as 'isolated' | 'cross',
                 notes: formData.notes,
                 strategyTags: tags.length > 0 ? tags : undefined,
                 chartImageUrl: formData.chartImageUrl.trim() || undefined,
@@ -177,6 +223,19 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
                                 <option value="Closed">Closed</option>
                             </Select>
                         </div>
+                        <div className="space-y-2">
+                            <Label>Exchange</Label>
+                            <Select value={formData.exchange} onValueChange={(v) => handleChange('exchange', v)}>
+                                {getExchangeOptions().map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label>Margin Mode</Label>
+                            <Select value={formData.marginMode} onValueChange={(v) => handleChange('marginMode', v)}>
+                                <option value="isolated">Isolated</option>
+                                <option value="cross">Cross</option>
+                            </Select>
+                        </div>
                     </div>
                   </div>
                 </div>
@@ -209,9 +268,30 @@ export const PerpTradeModal = ({ isOpen, onClose, onSave, tradeToEdit, symbols }
                             <Input type="datetime-local" value={formData.entryDate} onChange={(e) => handleChange('entryDate', e.target.value)} />
                         </div>
                         <div className="space-y-2">
-                            <Label>Fees ($)</Label>
+                            <Label>Est. Liquidation Price</Label>
+                            <Input
+                                value={estimatedLiquidation === null ? 'Depends on account balance' : estimatedLiquidation > 0 ? estimatedLiquidation.toFixed(4) : ''}
+                                readOnly
+                                className="bg-gray-900 border-gray-700 cursor-default text-yellow-400"
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Fees ($)</Label>
+                                <button type="button" onClick={handleEstimateFees} className="text-xs text-cyan-400 hover:text-cyan-300">Estimate</button>
+                            </div>
                             <NumberInput value={formData.fees} onValueChange={(v) => handleChange('fees', v)} />
                         </div>
+                        <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                                <Label>Funding ($)</Label>
+                                <button type="button" onClick={handleFetchFunding} disabled={isFetchingFunding} className="text-xs text-cyan-400 hover:text-cyan-300 disabled:text-gray-500">
+                                    {isFetchingFunding ? 'Fetching...' : 'Fetch'}
+                                </button>
+                            </div>
+                            <NumberInput value={formData.fundingFees} onValueChange={(v) => handleChange('fundingFees', v)} />
+                            {fundingError && <p className="text-sm text-red-400">{fundingError}</p>}
+                        </div>
                     </div>
                 </div>
 
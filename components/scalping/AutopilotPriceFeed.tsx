@@ -0,0 +1,18 @@
+import type { Exchange } from '@/types';
+import type { AutopilotEngine } from '@/services/autopilotEngine';
+import { useExchangeWebSocket } from '@/hooks/useExchangeWebSocket';
+
+/**
+ * Streams 1m klines for the autopilot's open position while the page shows another symbol, so the
+ * engine keeps checking its stop loss, take profit and the session drawdown.
+ */
+export const AutopilotPriceFeed = ({ engine, exchange, symbol }: { engine: AutopilotEngine; exchange: Exchange; symbol: string }) => {
+  useExchangeWebSocket({
+    exchange,
+    symbol,
+    type: 'kline',
+    interval: '1m',
+    onMessage: (candle) => engine.onPrice(symbol, candle.close),
+  });
+  return null;
+};
@@ -6,6 +6,7 @@ import { ArrowUp, ArrowDown, Loader2, Pencil, Save, X } from 'lucide-react';
 import { Badge } from '@/components/ui/Badge';
 import { NumberInput } from '@/components/ui/NumberInput';
 import { Label } from '@/components/ui/Label';
+import { getBroker } from '@/services/executionService';
 
 interface LivePositionCardProps {
   position: LivePosition;
@@ -95,6 +96,7 @@ export const LivePositionCard = ({ position, livePrice, onClose, onModify }: Liv
     };
     
     const isLong = position.side === 'Long';
+    const brokerLabel = !position.broker ? 'SIMULATED' : position.broker === 'paper' ? 'PAPER POSITION' : `LIVE · ${getBroker(position.broker).displayName.toUpperCase()}`;
     const pnlColor = pnl >= 0 ? 'text-green-400' : 'text-red-400';
     const positionValue = position.entryPrice * position.quantity;
 
@@ -108,7 +110,7 @@ export const LivePositionCard = ({ position, livePrice, onClose, onModify }: Liv
                         {position.side}
                     </Badge>
                 </div>
-                <Badge variant="default" className="bg-cyan-500/20 text-cyan-300">LIVE POSITION</Badge>
+                <Badge variant="default" className="bg-cyan-500/20 text-cyan-300">{brokerLabel}</Badge>
             </CardHeader>
             <CardContent className="grid grid-cols-2 md:grid-cols-3 gap-y-4 gap-x-6">
                 <div>
@@ -168,7 +170,7 @@ export const LivePositionCard = ({ position, livePrice, onClose, onModify }: Liv
                             <Button onClick={() => setIsEditing(true)} disabled={isClosing} className="bg-transparent border border-purple-500 text-purple-400 hover:bg-purple-500/10 font-semibold p-2.5">
                                 <Pencil className="w-4 h-4"/>
                             </Button>
-                            <Button onClick={handleClose} disabled={isClosing || livePrice === null} className="w-full bg-red-600 hover:bg-red-500 text-white flex-1">
+                            <Button onClick={handleClose} disabled={isClosing || (livePrice === null && !position.broker)} className="w-full bg-red-600 hover:bg-red-500 text-white flex-1">
                                 {isClosing ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Closing...</> : 'Close Position'}
                             </Button>
                          </>
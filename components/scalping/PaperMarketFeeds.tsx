@@ -0,0 +1,42 @@
+import React, { useEffect, useState } from 'react';
+import type { Exchange } from '@/types';
+import { paperBroker } from '@/services/brokers/paperBroker';
+import { useExchangeWebSocket } from '@/hooks/useExchangeWebSocket';
+
+const PaperSymbolFeed = ({ exchange, symbol }: { exchange: Exchange; symbol: string }) => {
+  useExchangeWebSocket({
+    exchange,
+    symbol,
+    type: 'depth',
+    onMessage: (book) => paperBroker.onOrderBook(symbol, book),
+  });
+  useExchangeWebSocket({
+    exchange,
+    symbol,
+    type: 'trade',
+    onMessage: (trade) => (Array.isArray(trade) ? trade : [trade]).forEach(t => paperBroker.onTrade(symbol, t)),
+  });
+  return null;
+};
+
+/**
+ * Streams the book and trades of every symbol with an open paper position or resting order, so they
+ * keep filling and triggering while the page shows another symbol. `currentSymbol` is skipped when the page
+ * already streams it to the paper broker.
+ */
+export const PaperMarketFeeds = ({ exchange, currentSymbol }: { exchange: Exchange; currentSymbol?: string }) => {
+  const [symbols, setSymbols] = useState(() => paperBroker.getActiveSymbols());
+
+  useEffect(() => {
+    setSymbols(paperBroker.getActiveSymbols());
+    return paperBroker.subscribe(() => setSymbols(paperBroker.getActiveSymbols()));
+  }, []);
+
+  return (
+    <>
+      {symbols.filter(symbol => symbol !== currentSymbol).map(symbol => (
+        <PaperSymbolFeed key={`${exchange}:${symbol}`} exchange={exchange} symbol={symbol} />
+      ))}
+    </>
+  );
+};
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
-import type { UserParams, AiModel } from '@/types';
+import type { UserParams, AiModel, AutopilotLogEntry, AutoExecutionBasis } from '@/types';
 import { AI_MODELS } from '@/constants';
+import { useBroker } from '@/hooks/useBroker';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Zap, Loader2, X, Star } from 'lucide-react';
 import { PresetControls } from '@/components/controls/PresetControls';
 import { AutoExecutionControls } from '@/components/controls/AutoExecutionControls';
+import { EnsembleControls } from '@/components/controls/EnsembleControls';
 import { AutopilotControls } from './controls/AutopilotControls';
 import { OneClickTradingControls } from './controls/OneClickTradingControls';
 import { CoreParams } from './controls/CoreParams';
@@ -29,6 +31,8 @@ interface ScalpingControlsProps {
   setAutoExecutionThreshold: (threshold: number) => void;
   autoExecutionType: 'market' | 'trailing';
   setAutoExecutionType: (type: 'market' | 'trailing') => void;
+  autoExecutionBasis: AutoExecutionBasis;
+  setAutoExecutionBasis: (basis: AutoExecutionBasis) => void;
   oneClickTradingEnabled: boolean;
   setOneClickTradingEnabled: (enabled: boolean) => void;
   autopilotState: any;
@@ -36,8 +40,7 @@ interface ScalpingControlsProps {
   autopilotSettings: any;
   onAutopilotSettingsChange: (settings: any) => void;
   autopilotSessionStats: any;
-  bybitApiKey: string;
-  bybitApiSecret: string;
+  autopilotSessionLog: AutopilotLogEntry[];
   setToast: (toast: { message: string; variant: 'success' | 'warning' | 'error' }) => void;
   autopilotScanMode: any;
   setAutopilotScanMode: (mode: any) => void;
@@ -56,6 +59,7 @@ const validateForm = (data: Partial<UserParams>): Record<string, string> => {
 export const ScalpingControls = (props: ScalpingControlsProps) => {
   const { isAnalyzing, onSubmit, onCancel, formData, setFormData, onClose, onToggleFavoritesWindow, autopilotState } = props;
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const { broker, credentialsMissing } = useBroker();
   const isAutopilotActive = autopilotState !== 'inactive' && autopilotState !== 'stopped';
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -74,8 +78,8 @@ export const ScalpingControls = (props: ScalpingControlsProps) => {
   };
 
   const handleAutoExecToggle = (checked: boolean) => {
-    if (checked && (!props.bybitApiKey || !props.bybitApiSecret)) {
-        props.setToast({ message: 'Set Bybit API keys in Settings to enable Auto Execution.', variant: 'error' });
+    if (checked && credentialsMissing) {
+        props.setToast({ message: `Set ${broker.displayName} API keys in Settings to enable Auto Execution.`, variant: 'error' });
         return;
     }
     props.setIsAutoExecutionEnabled(checked);
@@ -115,6 +119,8 @@ export const ScalpingControls = (props: ScalpingControlsProps) => {
               setAutoExecutionThreshold={props.setAutoExecutionThreshold}
               autoExecutionType={props.autoExecutionType}
               setAutoExecutionType={props.setAutoExecutionType}
+              autoExecutionBasis={props.autoExecutionBasis}
+              setAutoExecutionBasis={props.setAutoExecutionBasis}
               isDisabled={isAnalyzing || isAutopilotActive}
               onToggle={handleAutoExecToggle}
             />
@@ -124,6 +130,7 @@ export const ScalpingControls = (props: ScalpingControlsProps) => {
               autopilotSettings={props.autopilotSettings}
               onAutopilotSettingsChange={props.onAutopilotSettingsChange}
               autopilotSessionStats={props.autopilotSessionStats}
+              autopilotSessionLog={props.autopilotSessionLog}
               autopilotScanMode={props.autopilotScanMode}
               setAutopilotScanMode={props.setAutopilotScanMode}
               isDisabled={isAutopilotActive}
@@ -144,6 +151,11 @@ export const ScalpingControls = (props: ScalpingControlsProps) => {
               errors={errors}
               isDisabled={isAnalyzing || isAutopilotActive}
             />
+            <EnsembleControls
+              formData={formData}
+              setFormData={setFormData}
+              isDisabled={isAnalyzing || isAutopilotActive}
+            />
           </CardContent>
         </div>
         <CardFooter>
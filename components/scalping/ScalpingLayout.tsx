@@ -46,8 +46,6 @@ interface ScalpingLayoutProps extends ScalpingState {
   handleToggleMinimizeTracker: (id: string) => void;
   handleTrackerPositionChange: (id: string, pos: { x: number; y: number }) => void;
   handleRestoreSignal: (id: string) => void;
-  bybitApiKey: string; // Needed for controls
-  bybitApiSecret: string; // Needed for controls
   onToggleAutopilot: () => void; // Pass down toggle handler
 
   liveTrades: LiveTrade[];
@@ -75,6 +73,8 @@ export const ScalpingLayout = (props: ScalpingLayoutProps) => {
           setAutoExecutionThreshold={props.setAutoExecutionThreshold}
           autoExecutionType={props.autoExecutionType}
           setAutoExecutionType={props.setAutoExecutionType}
+          autoExecutionBasis={props.autoExecutionBasis}
+          setAutoExecutionBasis={props.setAutoExecutionBasis}
           oneClickTradingEnabled={props.oneClickTradingEnabled}
           setOneClickTradingEnabled={props.setOneClickTradingEnabled}
           autopilotState={props.autopilotState}
@@ -82,8 +82,7 @@ export const ScalpingLayout = (props: ScalpingLayoutProps) => {
           autopilotSettings={props.autopilotSettings}
           onAutopilotSettingsChange={props.setAutopilotSettings}
           autopilotSessionStats={props.autopilotSessionStats}
-          bybitApiKey={props.bybitApiKey}
-          bybitApiSecret={props.bybitApiSecret}
+          autopilotSessionLog={props.autopilotSessionLog}
           setToast={props.setToast}
           autopilotScanMode={props.autopilotScanMode}
           setAutopilotScanMode={props.setAutopilotScanMode}
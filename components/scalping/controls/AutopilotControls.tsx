@@ -1,5 +1,5 @@
 import React from 'react';
-import type { AutopilotState, AutopilotSettings, AutopilotSessionStats, AutopilotScanMode } from '@/types';
+import type { AutopilotState, AutopilotSettings, AutopilotSessionStats, AutopilotScanMode, AutopilotLogEntry, AutopilotLogKind } from '@/types';
 import { Label } from '@/components/ui/Label';
 import { Select } from '@/components/ui/Select';
 import { NumberInput } from '@/components/ui/NumberInput';
@@ -9,6 +9,8 @@ import { PlayCircleIcon } from '@/components/icons/PlayCircleIcon';
 import { StopCircleIcon } from '@/components/icons/StopCircleIcon';
 import { SlidersHorizontalIcon } from '@/components/icons/SlidersHorizontalIcon';
 import { Loader2Icon } from '@/components/icons/Loader2Icon';
+import { ListIcon } from '@/components/icons/ListIcon';
+import { DownloadIcon } from '@/components/icons/DownloadIcon';
 
 interface AutopilotControlsProps {
   autopilotState: AutopilotState;
@@ -16,6 +18,7 @@ interface AutopilotControlsProps {
   autopilotSettings: AutopilotSettings;
   onAutopilotSettingsChange: (settings: AutopilotSettings) => void;
   autopilotSessionStats: AutopilotSessionStats;
+  autopilotSessionLog: AutopilotLogEntry[];
   autopilotScanMode: AutopilotScanMode;
   setAutopilotScanMode: (mode: AutopilotScanMode) => void;
   isDisabled?: boolean;
@@ -27,12 +30,36 @@ const formatPnl = (pnl: number, initialCapital: number) => {
     return `${pnl.toLocaleString('en-US', { style: 'currency', currency: 'USD' })} (${percentage.toFixed(2)}%)`;
 };
 
+const logKindClasses: Record<AutopilotLogKind, string> = {
+  session: 'text-cyan-300',
+  scan: 'text-gray-400',
+  signal: 'text-gray-300',
+  skip: 'text-yellow-400',
+  entry: 'text-green-400',
+  exit: 'text-blue-300',
+  limit: 'text-orange-400',
+  error: 'text-red-400',
+};
+
+const exportSessionLog = (entries: AutopilotLogEntry[]) => {
+  const blob = new Blob([JSON.stringify(entries, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = `autopilot_session_log_${new Date().toISOString().split('T')[0]}.json`;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
 export const AutopilotControls = ({
   autopilotState,
   onToggleAutopilot,
   autopilotSettings,
   onAutopilotSettingsChange,
   autopilotSessionStats,
+  autopilotSessionLog,
   autopilotScanMode,
   setAutopilotScanMode,
   isDisabled,
@@ -91,6 +118,26 @@ export const AutopilotControls = ({
           <div className="space-y-2"><Label>Stop After X Trades</Label><NumberInput value={autopilotSettings.maxTrades} onValueChange={v => handleSettingsChange('maxTrades', Number(v))} disabled={isDisabled} /></div>
         </div>
       </Accordion>
+      <Accordion trigger={<div className="flex items-center gap-2"><ListIcon className="w-4 h-4" /><span>Session Log ({autopilotSessionLog.length})</span></div>}>
+        {autopilotSessionLog.length === 0 ? (
+          <p className="text-xs text-gray-500">Every scan, signal, entry, exit and limit of the session is recorded here.</p>
+        ) : (
+          <div className="space-y-2">
+            <div className="max-h-64 overflow-y-auto space-y-1 font-mono text-xs">
+              {[...autopilotSessionLog].reverse().map(entry => (
+                <div key={entry.id} className="flex gap-2">
+                  <span className="text-gray-500 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+                  <span className={`uppercase shrink-0 w-12 ${logKindClasses[entry.kind]}`}>{entry.kind}</span>
+                  <span className="text-gray-300 break-words min-w-0">{entry.message}</span>
+                </div>
+              ))}
+            </div>
+            <Button onClick={() => exportSessionLog(autopilotSessionLog)} className="h-8 px-3 text-xs bg-transparent hover:bg-gray-700 border border-gray-600 text-white">
+              <DownloadIcon className="w-4 h-4 mr-2" />Export Log
+            </Button>
+          </div>
+        )}
+      </Accordion>
     </div>
   );
 };
\ No newline at end of file
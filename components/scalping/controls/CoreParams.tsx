@@ -1,6 +1,7 @@
 import React from 'react';
 import type { Timeframe, UserParams, Exchange } from '@/types';
 import { AI_MODELS } from '@/constants';
+import { getExchangeOptions } from '@/services/exchangeService';
 import { Select } from '@/components/ui/Select';
 import { Label } from '@/components/ui/Label';
 import { Combobox } from '@/components/ui/Combobox';
@@ -38,8 +39,7 @@ export const CoreParams = ({ formData, setFormData, errors, symbols, favorites,
       <div className="space-y-2">
         <Label htmlFor="exchange">Exchange</Label>
         <Select id="exchange" value={formData.exchange} onValueChange={(value) => handleChange('exchange', value as Exchange)} disabled={isDisabled}>
-          <option value="binance">Binance</option>
-          <option value="bybit">Bybit</option>
+          {getExchangeOptions().map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
         </Select>
       </div>
 
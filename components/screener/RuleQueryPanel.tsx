@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import type { SavedScreenerQuery } from '@/types';
+import { compileQuery } from '@/utils/screenerQuery';
+import { Input } from '@/components/ui/Input';
+import { Button } from '@/components/ui/Button';
+import { Loader2Icon } from '@/components/icons/Loader2Icon';
+import { FilterIcon } from '@/components/icons/FilterIcon';
+import { SaveIcon } from '@/components/icons/SaveIcon';
+import { CloseIcon } from '@/components/icons/CloseIcon';
+
+const exampleRules = [
+    'rsi(14,1h) < 30 and close > ema(200,4h)',
+    'change(24h) > 5% and relvol(1h) > 2',
+    'bbwidth(4h) < 4 and adx(1d) < 20',
+];
+
+interface RuleQueryPanelProps {
+    query: string;
+    onQueryChange: (query: string) => void;
+    onRun: () => void;
+    onSave: () => void;
+    savedQueries: SavedScreenerQuery[];
+    onDeleteSaved: (id: string) => void;
+    isScanning: boolean;
+}
+
+/**
+ * Input for the rule-based screener with live validation and saved queries.
+ */
+export const RuleQueryPanel = ({ query, onQueryChange, onRun, onSave, savedQueries, onDeleteSaved, isScanning }: RuleQueryPanelProps) => {
+    const parseError = useMemo(() => {
+        if (!query.trim()) return null;
+        try {
+            compileQuery(query);
+            return null;
+        } catch (err: any) {
+            return err.message as string;
+        }
+    }, [query]);
+
+    const canRun = !!query.trim() && !parseError && !isScanning;
+
+    return (
+        <div className="space-y-4">
+            <div>
+                <Input
+                    icon={<FilterIcon className="w-4 h-4" />}
+                    value={query}
+                    onChange={(e) => onQueryChange(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && canRun) onRun(); }}
+                    placeholder="e.g. rsi(14,1h) < 30 and close > ema(200,4h) and change(24h) > 5%"
+                    className="font-mono"
+                    disabled={isScanning}
+                />
+                {parseError && <p className="mt-2 text-xs text-red-400 font-mono">{parseError}</p>}
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2 justify-center">
+                <Button onClick={onRun} disabled={!canRun} className="w-full sm:w-auto">
+                    {isScanning ? <Loader2Icon className="w-4 h-4 mr-2 animate-spin" /> : <FilterIcon className="w-4 h-4 mr-2" />}
+                    {isScanning ? 'Screening...' : 'Run Rules'}
+                </Button>
+                <Button onClick={onSave} disabled={!query.trim() || !!parseError} className="w-full sm:w-auto bg-transparent hover:bg-gray-700 border border-gray-600 text-white">
+                    <SaveIcon className="w-4 h-4 mr-2" /> Save Query
+                </Button>
+            </div>
+            <div className="space-y-2">
+                <p className="text-xs text-gray-500 uppercase font-semibold tracking-wider text-center">{savedQueries.length > 0 ? 'Saved queries' : 'Examples'}</p>
+                <div className="flex flex-wrap justify-center gap-2">
+                    {savedQueries.length > 0 ? savedQueries.map(saved => (
+                        <span key={saved.id} className="inline-flex items-center bg-gray-700 rounded-md text-sm text-gray-300">
+                            <button onClick={() => onQueryChange(saved.query)} disabled={isScanning} className="px-3 py-1.5 font-mono hover:text-white disabled:opacity-50">
+                                {saved.query}
+                            </button>
+                            <button onClick={() => onDeleteSaved(saved.id)} className="pr-2 text-gray-500 hover:text-red-400" aria-label="Delete saved query">
+                                <CloseIcon className="w-3 h-3" />
+                            </button>
+                        </span>
+                    )) : exampleRules.map(rule => (
+                        <button key={rule} onClick={() => onQueryChange(rule)} disabled={isScanning} className="bg-gray-700 hover:bg-gray-600 px-3 py-1.5 rounded-md text-sm font-mono text-gray-300 transition-colors disabled:opacity-50">
+                            {rule}
+                        </button>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import type { ScreenerMetrics, Timeframe } from '@/types';
+
+interface ScreenerResultMetricsProps {
+    metrics: ScreenerMetrics;
+}
+
+const formatValue = (value: number | null | undefined, suffix = '') => value === null || value === undefined ? '-' : `${value}${suffix}`;
+
+/**
+ * Compact view of the computed metrics that backed a screener match.
+ */
+export const ScreenerResultMetrics = ({ metrics }: ScreenerResultMetricsProps) => {
+    const timeframes = Object.keys(metrics.timeframes) as Timeframe[];
+    const changeColor = metrics.change24hPct === null ? 'text-gray-400' : metrics.change24hPct >= 0 ? 'text-green-400' : 'text-red-400';
+
+    return (
+        <div className="mt-3 space-y-2 text-xs">
+            <div className="flex justify-between text-gray-400">
+                <span>Price <span className="font-mono text-gray-200">{metrics.price}</span></span>
+                <span>24h <span className={`font-mono ${changeColor}`}>{formatValue(metrics.change24hPct, '%')}</span></span>
+            </div>
+            <table className="w-full text-left">
+                <thead>
+                    <tr className="text-gray-500">
+                        <th className="font-medium">TF</th>
+                        <th className="font-medium">RSI</th>
+                        <th className="font-medium">EMA200</th>
+                        <th className="font-medium">ADX</th>
+                        <th className="font-medium">RVol</th>
+                    </tr>
+                </thead>
+                <tbody className="font-mono text-gray-300">
+                    {timeframes.map(tf => {
+                        const m = metrics.timeframes[tf]!;
+                        return (
+                            <tr key={tf}>
+                                <td className="text-gray-500">{tf}</td>
+                                <td>{formatValue(m.rsi14)}</td>
+                                <td>{formatValue(m.ema200DistancePct, '%')}</td>
+                                <td>{formatValue(m.adx)}</td>
+                                <td>{formatValue(m.relativeVolume, 'x')}</td>
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+        </div>
+    );
+};
@@ -10,6 +10,7 @@ import { CloseIcon } from '@/components/icons/CloseIcon';
 import { StarIcon } from '@/components/icons/StarIcon';
 import { PresetControls } from '@/components/controls/PresetControls';
 import { AutoExecutionControls } from '@/components/controls/AutoExecutionControls';
+import { EnsembleControls } from '@/components/controls/EnsembleControls';
 import { ScannerControls } from './controls/ScannerControls';
 import { CoreParams } from './controls/CoreParams';
 import { AdvancedParams } from './controls/AdvancedParams';
@@ -99,6 +100,8 @@ export const Controls = ({ symbols, isAnalyzing, onSubmit, onCancel }: ControlsP
               setAutoExecutionThreshold={store.setAutoExecutionThreshold}
               autoExecutionType={store.autoExecutionType}
               setAutoExecutionType={store.setAutoExecutionType}
+              autoExecutionBasis={store.autoExecutionBasis}
+              setAutoExecutionBasis={store.setAutoExecutionBasis}
               isDisabled={isAnalyzing}
             />
             <CoreParams
@@ -116,6 +119,11 @@ export const Controls = ({ symbols, isAnalyzing, onSubmit, onCancel }: ControlsP
               errors={errors}
               isDisabled={isAnalyzing}
             />
+            <EnsembleControls
+              formData={store.formData}
+              setFormData={store.setFormData}
+              isDisabled={isAnalyzing}
+            />
           </CardContent>
         </div>
         
@@ -14,6 +14,7 @@ import { SignalCardHeader } from './sections/SignalCardHeader';
 import { SignalCardLevels } from './sections/SignalCardLevels';
 import { SignalCardMetrics } from './sections/SignalCardMetrics';
 import { SignalCardBias } from './sections/SignalCardBias';
+import { SignalCardEnsemble } from './sections/SignalCardEnsemble';
 import { SignalCardAnalysis } from './sections/SignalCardAnalysis';
 import { SignalCardFooter } from './SignalCardFooter';
 import { SignalExecutionModal } from './SignalExecutionModal';
@@ -155,6 +156,7 @@ export const SignalCard = ({
                 <SignalCardMetrics signal={signal} />
             </div>
             <SignalCardBias biasSummary={signal.biasSummary} />
+            <SignalCardEnsemble ensemble={signal.ensemble} direction={signal.direction} />
             <SignalCardAnalysis reasoning={signal.reasoning} />
         </CardContent>
 
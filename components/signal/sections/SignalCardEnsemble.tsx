@@ -0,0 +1,63 @@
+import React from 'react';
+import type { EnsembleMember, Signal } from '@/types';
+import { AI_MODELS } from '@/constants';
+
+interface SignalCardEnsembleProps {
+    ensemble: Signal['ensemble'];
+    direction: Signal['direction'];
+}
+
+const modelName = (id: string) => AI_MODELS.find(model => model.id === id)?.name ?? id;
+
+const formatLevels = (member: EnsembleMember) => {
+    if (!member.entryRange || member.stopLoss === undefined) return '';
+    const tps = member.takeProfit?.join(' / ') ?? '—';
+    return `Entry ${member.entryRange[0]}–${member.entryRange[1]} · TP ${tps} · SL ${member.stopLoss}`;
+};
+
+export const SignalCardEnsemble = ({ ensemble, direction }: SignalCardEnsembleProps) => {
+    if (!ensemble) return null;
+
+    const consensusColor = ensemble.consensus >= 80 ? 'text-green-400' : ensemble.consensus >= 60 ? 'text-yellow-400' : 'text-red-400';
+
+    return (
+        <div>
+            <div className="flex justify-between items-center mb-2">
+                <h4 className="text-base font-semibold text-gray-300 uppercase tracking-wider">Ensemble Breakdown</h4>
+                <span className={`text-sm font-mono font-semibold ${consensusColor}`}>{ensemble.consensus}% consensus</span>
+            </div>
+            <div className="space-y-2">
+                {ensemble.members.map(member => {
+                    const agrees = member.direction === direction;
+                    return (
+                        <div key={`${member.model}-${member.sample}`} className="bg-gray-900/50 p-3 rounded-lg border border-gray-700/50">
+                            <div className="flex justify-between items-center text-sm">
+                                <span className="font-semibold text-gray-300">
+                                    {modelName(member.model)} <span className="text-gray-500 font-normal">#{member.sample}</span>
+                                </span>
+                                {member.error ? (
+                                    <span className="text-xs text-gray-500">Failed</span>
+                                ) : (
+                                    <span className={agrees ? 'text-green-400' : 'text-red-400'}>
+                                        {member.direction} · {member.confidence}%{!agrees && ' · Dissent'}
+                                    </span>
+                                )}
+                            </div>
+                            <p className="text-xs text-gray-400 mt-1">{member.error ?? formatLevels(member)}</p>
+                        </div>
+                    );
+                })}
+            </div>
+            {ensemble.dissent.length > 0 && (
+                <div className="mt-3 space-y-2">
+                    <p className="text-xs font-bold text-gray-500 uppercase">Dissenting Opinions</p>
+                    {ensemble.dissent.map(member => (
+                        <p key={`${member.model}-${member.sample}`} className="text-xs text-gray-400 border-l-2 border-red-500/50 pl-2 line-clamp-3">
+                            <span className="text-gray-300 font-semibold">{modelName(member.model)} #{member.sample}:</span> {member.reasoning}
+                        </p>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,240 @@
+import React, { useMemo, useState } from 'react';
+import type { SavedSignal, Timeframe } from '@/types';
+import { useHistoryStore } from '@/store/historyStore';
+import { useSimulationStore } from '@/store/simulationStore';
+import { DEFAULT_BACKTEST_CONFIG, runBacktest } from '@/services/backtest/engine';
+import { loadBacktestCandles, toBacktestSignal } from '@/services/backtest/loader';
+import type { BacktestConfig, EquityPoint } from '@/services/backtest/types';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { Label } from '@/components/ui/Label';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import { StatCard } from '@/components/analytics/StatCard';
+import { CumulativePnlChart } from '@/components/analytics/CumulativePnlChart';
+import { AnalyticsIcon } from '@/components/icons/AnalyticsIcon';
+import { ChartIcon } from '@/components/icons/ChartIcon';
+import { TrendingUpIcon } from '@/components/icons/TrendingUpIcon';
+import { TrendingDownIcon } from '@/components/icons/TrendingDownIcon';
+import { Loader2, Play } from 'lucide-react';
+
+const MAX_CHART_POINTS = 300;
+const formatUsd = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+const formatProfitFactor = (value: number | null) => value === null ? '∞' : value.toFixed(2);
+
+// Keeps every n-th point (and the last one) so long backtests stay cheap to chart
+function downsample(points: EquityPoint[]): EquityPoint[] {
+    if (points.length <= MAX_CHART_POINTS) return points;
+    const step = Math.ceil(points.length / MAX_CHART_POINTS);
+    return points.filter((_, i) => i % step === 0 || i === points.length - 1);
+}
+
+export const BacktestPanel = () => {
+    const { signalHistory } = useHistoryStore();
+    const { exchange, backtestResult, setBacktestResult } = useSimulationStore();
+
+    const [form, setForm] = useState({
+        type: 'all',
+        minConfidence: '0',
+        timeframe: '5m',
+        startingEquity: String(DEFAULT_BACKTEST_CONFIG.startingEquity),
+        marginPerTrade: String(DEFAULT_BACKTEST_CONFIG.marginPerTrade),
+        maxOpenPositions: String(DEFAULT_BACKTEST_CONFIG.maxOpenPositions),
+        takerFeePercent: String(DEFAULT_BACKTEST_CONFIG.takerFeeRate * 100),
+        makerFeePercent: String(DEFAULT_BACKTEST_CONFIG.makerFeeRate * 100),
+        slippageBps: String(DEFAULT_BACKTEST_CONFIG.slippageBps),
+        fundingPercent: String(DEFAULT_BACKTEST_CONFIG.fundingRatePer8h * 100),
+    });
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState('');
+
+    const selectedSignals = useMemo(() => signalHistory.filter((signal: SavedSignal) =>
+        (form.type === 'all' || (signal.type ?? 'Swing') === form.type) &&
+        signal.confidence >= (parseFloat(form.minConfidence) || 0)
+    ), [signalHistory, form.type, form.minConfidence]);
+
+    const handleChange = (field: keyof typeof form, value: string) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+        if (error) setError('');
+    };
+
+    const handleRun = async () => {
+        if (selectedSignals.length === 0) {
+            setError('No saved signals match these filters.');
+            return;
+        }
+        const config: BacktestConfig = {
+            ...DEFAULT_BACKTEST_CONFIG,
+            startingEquity: parseFloat(form.startingEquity) || DEFAULT_BACKTEST_CONFIG.startingEquity,
+            marginPerTrade: parseFloat(form.marginPerTrade) || DEFAULT_BACKTEST_CONFIG.marginPerTrade,
+            maxOpenPositions: parseInt(form.maxOpenPositions, 10) || DEFAULT_BACKTEST_CONFIG.maxOpenPositions,
+            takerFeeRate: (parseFloat(form.takerFeePercent) || 0) / 100,
+            makerFeeRate: (parseFloat(form.makerFeePercent) || 0) / 100,
+            slippageBps: parseFloat(form.slippageBps) || 0,
+            fundingRatePer8h: (parseFloat(form.fundingPercent) || 0) / 100,
+        };
+        setIsRunning(true);
+        setError('');
+        try {
+            const signals = selectedSignals.map(toBacktestSignal);
+            const candles = await loadBacktestCandles(exchange, signals, form.timeframe as Timeframe, config);
+            setBacktestResult(runBacktest(signals, candles, config));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'The backtest failed.');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const chartData = useMemo(() => backtestResult
+        ? downsample(backtestResult.equityCurve).map(point => ({
+            name: String(point.time),
+            date: new Date(point.time).toLocaleDateString(),
+            pnl: point.equity - backtestResult.metrics.startingEquity,
+        }))
+        : [], [backtestResult]);
+
+    const metrics = backtestResult?.metrics;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Signal History Backtest</CardTitle>
+                <CardDescription>
+                    Replays your saved signals together against {exchange} candles, with fees, slippage, funding and partial take profits.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-type">Signal Type</Label>
+                        <Select id="bt-type" value={form.type} onValueChange={(v) => handleChange('type', v)}>
+                            <option value="all">All</option>
+                            <option value="Scalp">Scalp</option>
+                            <option value="Swing">Swing</option>
+                            <option value="Manual">Manual</option>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-confidence">Min Confidence (%)</Label>
+                        <Input id="bt-confidence" type="number" value={form.minConfidence} onChange={(e) => handleChange('minConfidence', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-timeframe">Candles</Label>
+                        <Select id="bt-timeframe" value={form.timeframe} onValueChange={(v) => handleChange('timeframe', v)}>
+                            <option value="1m">1m</option>
+                            <option value="5m">5m</option>
+                            <option value="15m">15m</option>
+                            <option value="1h">1h</option>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-equity">Starting Equity</Label>
+                        <Input id="bt-equity" type="number" value={form.startingEquity} onChange={(e) => handleChange('startingEquity', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-margin">Margin per Trade (%)</Label>
+                        <Input id="bt-margin" type="number" value={form.marginPerTrade} onChange={(e) => handleChange('marginPerTrade', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-max-open">Max Open Positions</Label>
+                        <Input id="bt-max-open" type="number" value={form.maxOpenPositions} onChange={(e) => handleChange('maxOpenPositions', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-taker">Taker Fee (%)</Label>
+                        <Input id="bt-taker" type="number" step="any" value={form.takerFeePercent} onChange={(e) => handleChange('takerFeePercent', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-maker">Maker Fee (%)</Label>
+                        <Input id="bt-maker" type="number" step="any" value={form.makerFeePercent} onChange={(e) => handleChange('makerFeePercent', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-slippage">Slippage (bps)</Label>
+                        <Input id="bt-slippage" type="number" step="any" value={form.slippageBps} onChange={(e) => handleChange('slippageBps', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="bt-funding">Funding per 8h (%)</Label>
+                        <Input id="bt-funding" type="number" step="any" value={form.fundingPercent} onChange={(e) => handleChange('fundingPercent', e.target.value)} />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <Button onClick={handleRun} disabled={isRunning}>
+                        {isRunning ? <Loader2 className="w-5 h-5 mr-2 animate-spin" /> : <Play className="w-5 h-5 mr-2" />}
+                        {isRunning ? 'Running...' : 'Run Backtest'}
+                    </Button>
+                    <span className="text-sm text-gray-400">{selectedSignals.length} of {signalHistory.length} saved signals selected.</span>
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {metrics && (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                            <StatCard
+                                title="Net P/L"
+                                value={formatUsd(metrics.netPnl)}
+                                icon={<AnalyticsIcon className="w-5 h-5" />}
+                                valueClassName={metrics.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}
+                                description={`${metrics.returnPct.toFixed(2)}% after ${formatUsd(metrics.totalFees)} fees and ${formatUsd(metrics.totalFunding)} funding.`}
+                            />
+                            <StatCard
+                                title="Win Rate"
+                                value={`${metrics.winRate.toFixed(2)}%`}
+                                icon={<ChartIcon className="w-5 h-5" />}
+                                description={`${metrics.totalTrades} trades, ${metrics.unfilledSignals} unfilled, ${metrics.skippedSignals} skipped.`}
+                            />
+                            <StatCard
+                                title="Profit Factor"
+                                value={formatProfitFactor(metrics.profitFactor)}
+                                icon={<TrendingUpIcon className="w-5 h-5" />}
+                                description={`Expectancy ${formatUsd(metrics.expectancy)} per trade.`}
+                            />
+                            <StatCard
+                                title="Max Drawdown"
+                                value={`${metrics.maxDrawdownPct.toFixed(2)}%`}
+                                icon={<TrendingDownIcon className="w-5 h-5" />}
+                                valueClassName="text-red-400"
+                                description={formatUsd(metrics.maxDrawdown)}
+                            />
+                        </div>
+
+                        <CumulativePnlChart data={chartData} />
+
+                        <div className="rounded-md border border-gray-700">
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>Symbol</TableHead>
+                                        <TableHead className="text-right">Trades</TableHead>
+                                        <TableHead className="text-right">Win Rate</TableHead>
+                                        <TableHead className="text-right">Profit Factor</TableHead>
+                                        <TableHead className="text-right">Expectancy</TableHead>
+                                        <TableHead className="text-right">Net P/L</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {metrics.bySymbol.map(row => (
+                                        <TableRow key={row.key}>
+                                            <TableCell className="font-medium">{row.key}</TableCell>
+                                            <TableCell className="text-right">{row.trades}</TableCell>
+                                            <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                                            <TableCell className="text-right">{formatProfitFactor(row.profitFactor)}</TableCell>
+                                            <TableCell className="text-right">{formatUsd(row.expectancy)}</TableCell>
+                                            <TableCell className={`text-right font-mono ${row.netPnl >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatUsd(row.netPnl)}</TableCell>
+                                        </TableRow>
+                                    ))}
+                                    {metrics.bySymbol.length === 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={6} className="text-center text-gray-500">No signal was filled.</TableCell>
+                                        </TableRow>
+                                    )}
+                                </TableBody>
+                            </Table>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
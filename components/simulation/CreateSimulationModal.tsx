@@ -1,6 +1,7 @@
 import React, { useState, useMemo } from 'react';
 import { useLocalStorage } from '@/hooks/useLocalStorage';
-import type { SimulationSetup, Exchange } from '@/types';
+import type { SimulationSetup, Exchange, IntrabarPolicy, Timeframe } from '@/types';
+import { getExchangeOptions } from '@/services/exchangeService';
 import { Dialog } from '@/components/ui/Dialog';
 import { Label } from '@/components/ui/Label';
 import { NumberInput } from '@/components/ui/NumberInput';
@@ -8,6 +9,9 @@ import { Select } from '@/components/ui/Select';
 import { Button } from '@/components/ui/Button';
 import { Combobox } from '@/components/ui/Combobox';
 import { Input } from '@/components/ui/Input';
+import { Switch } from '@/components/ui/Switch';
+import { DEFAULT_POSITION_SCALING } from '@/utils/simulationTrade';
+import { DEFAULT_SLIPPAGE_BPS, VENUE_FEE_TIERS } from '@/services/perpAccounting';
 import { PlayIcon } from '@/components/icons/PlayIcon';
 import { SaveIcon } from '@/components/icons/SaveIcon';
 
@@ -33,7 +37,15 @@ export const CreateSimulationModal = ({ isOpen, onClose, symbols, onSave, exchan
         mode: 'replay',
         timestamp: new Date().toISOString().slice(0, 16),
         endTime: new Date(new Date().getTime() + 8 * 60 * 60 * 1000).toISOString().slice(0, 16),
+        tp1Allocation: String(DEFAULT_POSITION_SCALING.tpAllocation[0]),
+        trailingStop: DEFAULT_POSITION_SCALING.trailingStop as string,
+        trailingDistance: String(DEFAULT_POSITION_SCALING.trailingDistance),
+        replayTimeframe: '1m',
+        intrabarPolicy: 'pessimistic',
+        feeTier: '',
+        slippageBps: String(DEFAULT_SLIPPAGE_BPS),
     });
+    const [breakevenAfterTp1, setBreakevenAfterTp1] = useState(DEFAULT_POSITION_SCALING.breakevenAfterTp1);
 
     const [error, setError] = useState('');
     const [favorites, setFavorites] = useLocalStorage<string[]>('simulationFavoriteSymbols', ['BTCUSDT', 'ETHUSDT']);
@@ -107,12 +119,33 @@ export const CreateSimulationModal = ({ isOpen, onClose, symbols, onSave, exchan
             setError('Symbol, Entry, TP1, and Stop Loss are required.');
             return;
         }
+        const tp1Allocation = parseFloat(formData.tp1Allocation);
+        const trailingDistance = parseFloat(formData.trailingDistance);
+        if (isNaN(tp1Allocation) || tp1Allocation <= 0 || tp1Allocation > 100) {
+            setError('The share closed at TP1 must be between 1% and 100%.');
+            return;
+        }
+        if (formData.trailingStop !== 'none' && (!trailingDistance || trailingDistance <= 0)) {
+            setError('The trailing distance must be a positive number.');
+            return;
+        }
         const leverageValue = formData.leverage === 'custom' ? customLeverageVal : parseInt(formData.leverage, 10);
         const newSetup: SimulationSetup = {
             id: `manual-${crypto.randomUUID()}`, exchange: exchange, symbol: formData.symbol, direction: formData.direction as 'LONG' | 'SHORT',
             entryRange: [entry, entry], takeProfit: [formData.tp1, formData.tp2].map(parseFloat).filter(v => !isNaN(v)),
             stopLoss: sl, leverage: leverageValue, timestamp: startTime, endTime: endTime,
             mode: formData.mode as 'replay' | 'live', status: 'pending',
+            replayTimeframe: formData.mode === 'replay' ? formData.replayTimeframe as Timeframe : undefined,
+            intrabarPolicy: formData.intrabarPolicy as IntrabarPolicy,
+            feeTier: formData.feeTier || undefined,
+            slippageBps: Math.max(0, parseFloat(formData.slippageBps) || 0),
+            scaling: {
+                ...DEFAULT_POSITION_SCALING,
+                tpAllocation: [tp1Allocation, 100 - tp1Allocation],
+                breakevenAfterTp1,
+                trailingStop: formData.trailingStop as 'none' | 'percent' | 'atr',
+                trailingDistance: trailingDistance || DEFAULT_POSITION_SCALING.trailingDistance,
+            },
         };
         onSave(newSetup, startImmediately);
     };
@@ -134,8 +167,7 @@ export const CreateSimulationModal = ({ isOpen, onClose, symbols, onSave, exchan
                 <div className="space-y-2">
                     <Label htmlFor="exchange-sim">Exchange</Label>
                     <Select id="exchange-sim" value={exchange} onValueChange={(v) => setExchange(v as Exchange)}>
-                        <option value="binance">Binance</option>
-                        <option value="bybit">Bybit</option>
+                        {getExchangeOptions().map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
                     </Select>
                 </div>
                 <div className="space-y-2">
@@ -175,10 +207,62 @@ export const CreateSimulationModal = ({ isOpen, onClose, symbols, onSave, exchan
                     <Select id="leverage" value={formData.leverage} onValueChange={(val) => handleChange('leverage', val)}><option value="10">10x</option><option value="20">20x</option><option value="50">50x</option><option value="custom">Custom</option></Select>
                 </div>
                 {formData.leverage === 'custom' && (<div className="space-y-2 pl-2 border-l-2 border-gray-700"><Label htmlFor="custom-leverage">Custom Leverage</Label><NumberInput id="custom-leverage" value={formData.customLeverage} onValueChange={(val) => handleChange('customLeverage', val)} onIncrement={() => handleNumericChange('customLeverage', 1)} onDecrement={() => handleNumericChange('customLeverage', -1)} placeholder="e.g., 100" /></div>)}
+                <div className="space-y-3 p-3 rounded-md border border-gray-700">
+                    <p className="text-sm font-semibold text-gray-300">Position Management</p>
+                    <div className="space-y-2">
+                        <Label htmlFor="tp1-allocation">Close at TP1 (%)</Label>
+                        <Input id="tp1-allocation" type="number" min="1" max="100" value={formData.tp1Allocation} onChange={(e) => handleChange('tp1Allocation', e.target.value)} />
+                        <p className="text-xs text-gray-500">The rest of the position is closed at TP2, when set.</p>
+                    </div>
+                    <div className="flex items-center justify-between">
+                        <Label htmlFor="breakeven-after-tp1" className="mb-0">Move stop to breakeven after TP1</Label>
+                        <Switch id="breakeven-after-tp1" checked={breakevenAfterTp1} onCheckedChange={setBreakevenAfterTp1} />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="trailing-stop">Trailing Stop</Label>
+                            <Select id="trailing-stop" value={formData.trailingStop} onValueChange={(val) => handleChange('trailingStop', val)}>
+                                <option value="none">Off</option>
+                                <option value="percent">Percent</option>
+                                <option value="atr">ATR</option>
+                            </Select>
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="trailing-distance">{formData.trailingStop === 'atr' ? 'Distance (x ATR)' : 'Distance (%)'}</Label>
+                            <Input id="trailing-distance" type="number" step="any" value={formData.trailingDistance} onChange={(e) => handleChange('trailingDistance', e.target.value)} disabled={formData.trailingStop === 'none'} />
+                        </div>
+                    </div>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="fee-tier">Fee Tier</Label>
+                        <Select id="fee-tier" value={formData.feeTier || VENUE_FEE_TIERS[exchange][0].name} onValueChange={(val) => handleChange('feeTier', val)}>
+                            {VENUE_FEE_TIERS[exchange].map(tier => (
+                                <option key={tier.name} value={tier.name}>{tier.name} ({(tier.maker * 100).toFixed(3)}% / {(tier.taker * 100).toFixed(3)}%)</option>
+                            ))}
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="slippage-bps">Stop Slippage (bps)</Label>
+                        <Input id="slippage-bps" type="number" min="0" step="any" value={formData.slippageBps} onChange={(e) => handleChange('slippageBps', e.target.value)} />
+                    </div>
+                </div>
                 <div className="space-y-2">
                     <Label>Simulation Mode</Label>
                     <Select value={formData.mode} onValueChange={(val) => handleChange('mode', val)}><option value="replay">Replay Simulation</option><option value="live">Live Simulation</option></Select>
                 </div>
+                <div className="grid grid-cols-2 gap-4">
+                    {formData.mode === 'replay' && (
+                        <div className="space-y-2">
+                            <Label htmlFor="replay-timeframe">Replay Candles</Label>
+                            <Select id="replay-timeframe" value={formData.replayTimeframe} onValueChange={(val) => handleChange('replayTimeframe', val)}><option value="1m">1m</option><option value="5m">5m</option><option value="15m">15m</option><option value="1h">1h</option></Select>
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label htmlFor="intrabar-policy">Stop & Target in One Candle</Label>
+                        <Select id="intrabar-policy" value={formData.intrabarPolicy} onValueChange={(val) => handleChange('intrabarPolicy', val)}><option value="pessimistic">Stop First</option><option value="optimistic">Target First</option><option value="ohlc">OHLC Path</option></Select>
+                    </div>
+                </div>
                 <div className="space-y-2"><Label htmlFor="timestamp">Start Timestamp</Label><Input id="timestamp" type="datetime-local" value={formData.timestamp} onChange={(e) => handleChange('timestamp', e.target.value)} /></div>
                 <div className="space-y-2"><Label htmlFor="endTime">End Timestamp</Label><Input id="endTime" type="datetime-local" value={formData.endTime} onChange={(e) => handleChange('endTime', e.target.value)} /></div>
                 {error && <p className="text-sm text-red-400">{error}</p>}
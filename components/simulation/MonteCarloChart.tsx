@@ -0,0 +1,48 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { ChartPlaceholder } from '@/components/analytics/ChartPlaceholder';
+import type { MonteCarloBand } from '@/services/backtest/types';
+
+interface MonteCarloChartProps {
+  bands: MonteCarloBand[];
+  ruinDrawdown: number;
+}
+
+const CustomTooltip = ({ active, payload, label }: any) => {
+  if (active && payload && payload.length) {
+    return (
+      <div className="bg-gray-900/80 p-3 border border-gray-600 rounded-md text-sm shadow-lg">
+        <p className="text-gray-300 font-semibold">{`After ${label} trades`}</p>
+        {payload.map((entry: any) => (
+          <p key={entry.dataKey} style={{ color: entry.color }}>{`${entry.name}: ${entry.value.toFixed(2)}%`}</p>
+        ))}
+      </div>
+    );
+  }
+  return null;
+};
+
+export const MonteCarloChart = ({ bands, ruinDrawdown }: MonteCarloChartProps) => {
+  if (bands.length < 2) {
+    return <ChartPlaceholder message="At least one completed trade is needed to resample equity paths." />;
+  }
+
+  return (
+    <div style={{ width: '100%', height: 300 }}>
+      <ResponsiveContainer>
+        <LineChart data={bands} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="trade" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+          <YAxis stroke="#9ca3af" tick={{ fontSize: 12 }} tickFormatter={(value) => `${Number(value).toFixed(0)}%`} />
+          <Tooltip content={<CustomTooltip />} />
+          <ReferenceLine y={-ruinDrawdown} stroke="#ef4444" strokeDasharray="4 4" />
+          <Line type="monotone" dataKey="p95" name="95th" stroke="#22c55e" strokeDasharray="3 3" strokeWidth={1} dot={false} />
+          <Line type="monotone" dataKey="p75" name="75th" stroke="#22d3ee" strokeWidth={1} dot={false} />
+          <Line type="monotone" dataKey="p50" name="Median" stroke="#e5e7eb" strokeWidth={2} dot={false} />
+          <Line type="monotone" dataKey="p25" name="25th" stroke="#22d3ee" strokeWidth={1} dot={false} />
+          <Line type="monotone" dataKey="p5" name="5th" stroke="#ef4444" strokeDasharray="3 3" strokeWidth={1} dot={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
@@ -0,0 +1,239 @@
+import React, { useMemo, useState } from 'react';
+import { useSimulationStore } from '@/store/simulationStore';
+import { useSimulationAnalytics } from '@/hooks/useSimulationAnalytics';
+import { DEFAULT_ROBUSTNESS_CONFIG, buildRobustnessReport, outcomesFromBacktest } from '@/services/backtest/robustness';
+import type { ExpectancyEstimate, RobustnessReport } from '@/services/backtest/types';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
+import { Label } from '@/components/ui/Label';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Button } from '@/components/ui/Button';
+import { Badge } from '@/components/ui/Badge';
+import { StatCard } from '@/components/analytics/StatCard';
+import { MonteCarloChart } from '@/components/simulation/MonteCarloChart';
+import { AnalyticsIcon } from '@/components/icons/AnalyticsIcon';
+import { ChartIcon } from '@/components/icons/ChartIcon';
+import { TrendingUpIcon } from '@/components/icons/TrendingUpIcon';
+import { TrendingDownIcon } from '@/components/icons/TrendingDownIcon';
+import { Download, Sigma } from 'lucide-react';
+
+const formatPct = (value: number | null) => value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+const formatDate = (time: number) => new Date(time).toLocaleDateString();
+
+const verdictDisplay: Record<ExpectancyEstimate['verdict'], { variant: 'success' | 'danger' | 'default'; text: string }> = {
+    edge: { variant: 'success', text: 'Edge' },
+    negative: { variant: 'danger', text: 'Negative' },
+    noise: { variant: 'default', text: 'Noise' },
+};
+
+export const RobustnessPanel = () => {
+    const { simulations, backtestResult } = useSimulationStore();
+    const { outcomes: simulationOutcomes } = useSimulationAnalytics(simulations);
+
+    const [form, setForm] = useState({
+        source: 'simulations' as RobustnessReport['source'],
+        paths: String(DEFAULT_ROBUSTNESS_CONFIG.paths),
+        marginPerTrade: String(DEFAULT_ROBUSTNESS_CONFIG.marginPerTrade),
+        ruinDrawdown: String(DEFAULT_ROBUSTNESS_CONFIG.ruinDrawdown),
+        folds: String(DEFAULT_ROBUSTNESS_CONFIG.folds),
+    });
+    const [report, setReport] = useState<RobustnessReport | null>(null);
+    const [error, setError] = useState('');
+
+    const outcomes = useMemo(() => form.source === 'backtest'
+        ? (backtestResult ? outcomesFromBacktest(backtestResult) : [])
+        : simulationOutcomes, [form.source, backtestResult, simulationOutcomes]);
+
+    const handleChange = (field: keyof typeof form, value: string) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+        if (error) setError('');
+    };
+
+    const handleRun = () => {
+        if (outcomes.length < 2) {
+            setError(form.source === 'backtest' ? 'Run a backtest with at least two filled trades first.' : 'Complete at least two simulations first.');
+            return;
+        }
+        setReport(buildRobustnessReport(form.source, outcomes, {
+            paths: parseInt(form.paths, 10) || DEFAULT_ROBUSTNESS_CONFIG.paths,
+            marginPerTrade: parseFloat(form.marginPerTrade) || DEFAULT_ROBUSTNESS_CONFIG.marginPerTrade,
+            ruinDrawdown: parseFloat(form.ruinDrawdown) || DEFAULT_ROBUSTNESS_CONFIG.ruinDrawdown,
+            folds: parseInt(form.folds, 10) || DEFAULT_ROBUSTNESS_CONFIG.folds,
+        }));
+    };
+
+    const handleExport = () => {
+        if (!report) return;
+        const dataStr = JSON.stringify(report, null, 2);
+        const blob = new Blob([dataStr], { type: "application/json" });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement("a");
+        link.download = `robustness_${report.source}_${new Date(report.generatedAt).toISOString().split('T')[0]}.json`;
+        link.href = url;
+        document.body.appendChild(link);
+        link.click();
+        document.body.removeChild(link);
+        URL.revokeObjectURL(url);
+    };
+
+    const monteCarlo = report?.monteCarlo;
+    const walkForward = report?.walkForward;
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>Edge Robustness</CardTitle>
+                <CardDescription>
+                    Resamples your completed simulations or last backtest to tell a real edge from luck: Monte Carlo equity paths, risk of ruin, expectancy bands and walk-forward splits.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                    <div className="space-y-2">
+                        <Label htmlFor="rb-source">Trades</Label>
+                        <Select id="rb-source" value={form.source} onValueChange={(v) => handleChange('source', v)}>
+                            <option value="simulations">Completed Simulations</option>
+                            <option value="backtest">Last Backtest</option>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="rb-paths">Monte Carlo Paths</Label>
+                        <Input id="rb-paths" type="number" value={form.paths} onChange={(e) => handleChange('paths', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="rb-margin">Margin per Trade (%)</Label>
+                        <Input id="rb-margin" type="number" step="any" value={form.marginPerTrade} onChange={(e) => handleChange('marginPerTrade', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="rb-ruin">Ruin at Drawdown (%)</Label>
+                        <Input id="rb-ruin" type="number" step="any" value={form.ruinDrawdown} onChange={(e) => handleChange('ruinDrawdown', e.target.value)} />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="rb-folds">Walk-Forward Folds</Label>
+                        <Input id="rb-folds" type="number" min="1" value={form.folds} onChange={(e) => handleChange('folds', e.target.value)} />
+                    </div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-4">
+                    <Button onClick={handleRun}>
+                        <Sigma className="w-5 h-5 mr-2" /> Run Analysis
+                    </Button>
+                    <Button onClick={handleExport} disabled={!report} className="bg-transparent hover:bg-gray-700 border border-gray-600 text-white font-semibold">
+                        <Download className="w-4 h-4 mr-2" /> Export
+                    </Button>
+                    <span className="text-sm text-gray-400">{outcomes.length} closed trades available.</span>
+                </div>
+                {error && <p className="text-sm text-red-400">{error}</p>}
+
+                {report && monteCarlo && walkForward && (
+                    <>
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+                            <StatCard
+                                title="Risk of Ruin"
+                                value={`${monteCarlo.riskOfRuin.toFixed(1)}%`}
+                                icon={<TrendingDownIcon className="w-5 h-5" />}
+                                valueClassName={monteCarlo.riskOfRuin > 5 ? 'text-red-400' : 'text-green-400'}
+                                description={`Paths losing ${report.config.ruinDrawdown}% within ${monteCarlo.horizon} trades.`}
+                            />
+                            <StatCard
+                                title="Median Return"
+                                value={formatPct(monteCarlo.finalReturn.p50)}
+                                icon={<TrendingUpIcon className="w-5 h-5" />}
+                                valueClassName={monteCarlo.finalReturn.p50 >= 0 ? 'text-green-400' : 'text-red-400'}
+                                description={`90% of paths between ${formatPct(monteCarlo.finalReturn.p5)} and ${formatPct(monteCarlo.finalReturn.p95)}.`}
+                            />
+                            <StatCard
+                                title="Probability of Loss"
+                                value={`${monteCarlo.probabilityOfLoss.toFixed(1)}%`}
+                                icon={<ChartIcon className="w-5 h-5" />}
+                                description={`Across ${monteCarlo.paths} resampled paths.`}
+                            />
+                            <StatCard
+                                title="Max Drawdown (95th)"
+                                value={`${monteCarlo.maxDrawdown.p95.toFixed(2)}%`}
+                                icon={<AnalyticsIcon className="w-5 h-5" />}
+                                valueClassName="text-red-400"
+                                description={`Median path: ${monteCarlo.maxDrawdown.p50.toFixed(2)}%.`}
+                            />
+                        </div>
+
+                        <MonteCarloChart bands={monteCarlo.bands} ruinDrawdown={report.config.ruinDrawdown} />
+
+                        <div>
+                            <h4 className="text-sm font-semibold mb-2 text-gray-400">Expectancy ({Math.round(report.config.confidence * 100)}% confidence, per trade on margin)</h4>
+                            <div className="rounded-md border border-gray-700">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Signal Type</TableHead>
+                                            <TableHead className="text-right">Trades</TableHead>
+                                            <TableHead className="text-right">Win Rate</TableHead>
+                                            <TableHead className="text-right">Expectancy</TableHead>
+                                            <TableHead className="text-right">Band</TableHead>
+                                            <TableHead className="text-right">Verdict</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {report.expectancy.map(row => (
+                                            <TableRow key={row.key}>
+                                                <TableCell className="font-medium">{row.key}</TableCell>
+                                                <TableCell className="text-right">{row.trades}</TableCell>
+                                                <TableCell className="text-right">{row.winRate.toFixed(1)}%</TableCell>
+                                                <TableCell className={`text-right font-mono ${row.expectancy >= 0 ? 'text-green-400' : 'text-red-400'}`}>{formatPct(row.expectancy)}</TableCell>
+                                                <TableCell className="text-right font-mono text-gray-400">{formatPct(row.low)} to {formatPct(row.high)}</TableCell>
+                                                <TableCell className="text-right">
+                                                    <Badge variant={verdictDisplay[row.verdict].variant}>{verdictDisplay[row.verdict].text}</Badge>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+
+                        <div>
+                            <h4 className="text-sm font-semibold mb-2 text-gray-400">
+                                Walk-Forward: out of sample {formatPct(walkForward.outOfSampleExpectancy)} per trade
+                                {walkForward.efficiency !== null && `, ${(walkForward.efficiency * 100).toFixed(0)}% of in-sample`}
+                            </h4>
+                            <div className="rounded-md border border-gray-700">
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead>Fold</TableHead>
+                                            <TableHead>Train</TableHead>
+                                            <TableHead>Test</TableHead>
+                                            <TableHead>Traded</TableHead>
+                                            <TableHead className="text-right">In Sample</TableHead>
+                                            <TableHead className="text-right">Out of Sample</TableHead>
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {walkForward.folds.map(fold => (
+                                            <TableRow key={fold.fold}>
+                                                <TableCell className="font-medium">{fold.fold}</TableCell>
+                                                <TableCell className="text-gray-400">{formatDate(fold.trainFrom)} – {formatDate(fold.trainTo)} ({fold.trainTrades})</TableCell>
+                                                <TableCell className="text-gray-400">{formatDate(fold.testFrom)} – {formatDate(fold.testTo)} ({fold.testTrades})</TableCell>
+                                                <TableCell>{fold.selected.length > 0 ? fold.selected.join(', ') : 'Nothing'}</TableCell>
+                                                <TableCell className="text-right font-mono">{formatPct(fold.inSampleExpectancy)}</TableCell>
+                                                <TableCell className={`text-right font-mono ${(fold.outOfSampleExpectancy ?? 0) >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                                                    {formatPct(fold.outOfSampleExpectancy)} <span className="text-gray-500">({fold.outOfSampleTrades})</span>
+                                                </TableCell>
+                                            </TableRow>
+                                        ))}
+                                        {walkForward.folds.length === 0 && (
+                                            <TableRow>
+                                                <TableCell colSpan={6} className="text-center text-gray-500">Not enough trades for {report.config.folds} folds.</TableCell>
+                                            </TableRow>
+                                        )}
+                                    </TableBody>
+                                </Table>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </Card>
+    );
+};
@@ -3,6 +3,7 @@ import type { SimulationSetup } from '@/types';
 import type { useSimulation } from '@/hooks/useSimulation';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Button } from '@/components/ui/Button';
+import { liquidationPrice } from '@/services/perpAccounting';
 import { PlayIcon } from '@/components/icons/PlayIcon';
 import { PauseIcon } from '@/components/icons/PauseIcon';
 import { RestartIcon } from '@/components/icons/RestartIcon';
@@ -23,6 +24,7 @@ const StatItem = ({ label, value, className }: { label: string; value: string |
 
 export const SimulationControlPanel = ({ simulation, state, displayState, controls }: SimulationControlPanelProps) => {
     const isLong = simulation.direction === 'LONG';
+    const liquidation = liquidationPrice({ side: simulation.direction, entryPrice: simulation.entryRange[0], leverage: simulation.leverage });
     const pnlColor = displayState.pnl > 0 ? 'text-green-400' : displayState.pnl < 0 ? 'text-red-400' : 'text-white';
     const speedOptions = [ {label: '1x', value: 1}, {label: '2x', value: 2}, {label: '5x', value: 5}, {label: '10x', value: 10}, ];
     const isLiveMode = simulation.mode === 'live';
@@ -54,6 +56,9 @@ export const SimulationControlPanel = ({ simulation, state, displayState, contro
                 <StatItem label="Entry Price" value={`$${simulation.entryRange[0].toFixed(2)}`} />
                 <StatItem label="Current Price" value={`$${displayState.currentCandle?.close.toFixed(2) ?? '...'}`} />
                 <StatItem label="Unrealized PnL" value={`${displayState.pnl.toFixed(2)}%`} className={pnlColor} />
+                <StatItem label="Stop" value={`$${displayState.stop.toFixed(2)}`} className={displayState.stop !== simulation.stopLoss ? 'text-yellow-400' : ''} />
+                <StatItem label="Liq. Price (Isolated)" value={liquidation > 0 ? `$${liquidation.toFixed(2)}` : 'None'} className="text-yellow-400" />
+                <StatItem label="Open Size" value={`${displayState.openPercent.toFixed(0)}%`} />
                 <StatItem label="Duration" value={displayState.elapsedTime} />
                 <StatItem label="Status" value={<span className="capitalize text-cyan-400">{currentOutcome}</span>} />
             </CardContent>
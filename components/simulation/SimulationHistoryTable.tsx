@@ -1,5 +1,5 @@
 import React from 'react';
-import type { SimulationSetup } from '@/types';
+import type { IntrabarPolicy, SimulationSetup } from '@/types';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/Card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/Table';
 import { Badge } from '@/components/ui/Badge';
@@ -22,6 +22,12 @@ const statusVariant: Record<SimulationSetup['status'], 'default' | 'success' | '
     completed: 'success',
 };
 
+const intrabarPolicyLabels: Record<IntrabarPolicy, string> = {
+    pessimistic: 'Pessimistically',
+    optimistic: 'Optimistically',
+    ohlc: 'By OHLC Path',
+};
+
 const getOutcomeDisplay = (outcome: SimulationSetup['result']['outcome']) => {
     switch (outcome) {
         case 'TP1 Hit':
@@ -30,6 +36,8 @@ const getOutcomeDisplay = (outcome: SimulationSetup['result']['outcome']) => {
             return { variant: 'success' as const, text: outcome };
         case 'SL Hit':
             return { variant: 'danger' as const, text: 'Stop Loss' };
+        case 'Liquidated':
+            return { variant: 'danger' as const, text: 'Liquidated' };
         case 'Stopped':
             return { variant: 'danger' as const, text: 'Stopped' };
         case 'Expired':
@@ -80,6 +88,16 @@ export const SimulationHistoryTable = ({ simulations, onDelete, onStart, isLoadi
                                                     }`}>
                                                         {sim.result.pnl > 0 ? '+' : ''}{sim.result.pnl.toFixed(2)}%
                                                     </span>
+                                                    {sim.result.costs && (
+                                                        <p className="text-xs text-gray-500 mt-1">
+                                                            Incl. {sim.result.costs.fees.toFixed(2)}% fees, {sim.result.costs.funding.toFixed(2)}% funding
+                                                        </p>
+                                                    )}
+                                                    {sim.result.intrabar && sim.result.intrabar.ambiguousCandles > sim.result.intrabar.resolvedByData && (
+                                                        <p className="text-xs text-gray-500 mt-1">
+                                                            {sim.result.intrabar.ambiguousCandles - sim.result.intrabar.resolvedByData} ambiguous candle(s) resolved {intrabarPolicyLabels[sim.result.intrabar.policy].toLowerCase()}
+                                                        </p>
+                                                    )}
                                                 </>
                                             ) : (
                                                 <Badge variant={statusVariant[sim.status]} className="capitalize">{sim.status}</Badge>
@@ -13,4 +13,10 @@ export const AI_MODELS: AiModel[] = [
     provider: 'gemini',
     description: "Google's most capable model, for advanced reasoning and complex analysis."
   },
+  {
+    id: 'local',
+    name: 'Local Model',
+    provider: 'openai-compatible',
+    description: 'Any OpenAI-compatible server, such as Ollama or LM Studio, set with VITE_LLM_BASE_URL and VITE_LLM_MODEL.'
+  },
 ];
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import type { LivePosition, Signal, UserParams } from '@/types';
+import { AutopilotEngine } from '@/services/autopilotEngine';
+import { generateScalpingSignal } from '@/services/geminiService';
+import { fetchData } from '@/services/exchangeService';
+import { useScalpingStore } from '@/store/scalpingStore';
+
+interface UseAutopilotEngineProps {
+    openPosition: (symbol: string, signal: Signal, margin: number, price: number) => Promise<LivePosition>;
+    closePosition: (position: LivePosition) => Promise<void>;
+}
+
+/**
+ * Creates the page's autopilot engine and mirrors its state, session stats and decision log into the
+ * scalping store. Settings are read from the store whenever the engine needs them, and the engine is
+ * stopped when the page unmounts.
+ */
+export function useAutopilotEngine({ openPosition, closePosition }: UseAutopilotEngineProps): AutopilotEngine {
+    // The engine outlives renders, so it always calls the latest callbacks
+    const callbacksRef = useRef({ openPosition, closePosition });
+    callbacksRef.current = { openPosition, closePosition };
+
+    const engineRef = useRef<AutopilotEngine | null>(null);
+    if (!engineRef.current) {
+        engineRef.current = new AutopilotEngine({
+            getConfig: () => {
+                const state = useScalpingStore.getState();
+                return {
+                    settings: state.autopilotSettings,
+                    scanMode: state.autopilotScanMode,
+                    currentSymbol: state.formData.symbol || 'BTCUSDT',
+                    favoriteSymbols: state.favoriteScalpSymbols,
+                    autoExecutionThreshold: state.autoExecutionThreshold,
+                    autoExecutionBasis: state.autoExecutionBasis,
+                };
+            },
+            generateSignal: async (symbol) => {
+                const params = { ...useScalpingStore.getState().formData, symbol } as UserParams;
+                const [signal, candles] = await Promise.all([
+                    generateScalpingSignal(params, [], [], null, []),
+                    fetchData(params.exchange, symbol, '1m', 1),
+                ]);
+                const price = candles[candles.length - 1]?.close;
+                if (!price) throw new Error(`No current price for ${symbol}.`);
+                return { signal, price };
+            },
+            openPosition: (...args) => callbacksRef.current.openPosition(...args),
+            closePosition: (position) => callbacksRef.current.closePosition(position),
+            onUpdate: ({ state, stats, activePositionId }) => {
+                const store = useScalpingStore.getState();
+                store.setAutopilotState(state);
+                store.setAutopilotSessionStats(() => stats);
+                store.setActiveAutopilotPositionId(activePositionId);
+            },
+            onLog: (entry) => useScalpingStore.getState().appendAutopilotLogEntry(entry),
+        });
+    }
+
+    useEffect(() => {
+        const engine = engineRef.current;
+        return () => engine?.stop('Session stopped: left the scalping page.');
+    }, []);
+
+    return engineRef.current;
+}
@@ -0,0 +1,20 @@
+import { useStore } from '@/store';
+import { getBroker } from '@/services/executionService';
+import type { Broker } from '@/services/brokers/types';
+import type { BrokerId } from '@/types';
+
+interface SelectedBroker {
+  brokerId: BrokerId;
+  broker: Broker;
+  credentialsMissing: boolean;
+}
+
+/**
+ * Returns the broker selected in Settings, and whether the API keys it needs have not been linked yet.
+ */
+export const useBroker = (): SelectedBroker => {
+  const { brokerId, linkedExchanges } = useStore();
+  const broker = getBroker(brokerId);
+  const hasKeys = linkedExchanges.some(linked => linked.exchange === brokerId);
+  return { brokerId, broker, credentialsMissing: broker.requiresCredentials && !hasKeys };
+};
@@ -1,27 +1,74 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { GoogleGenAI, Chat } from "@google/genai";
 import type { PageContext } from '@/types';
-import type { ChatConversation, ChatMessage, UserParams, Strategy, UserPost } from '@/types';
+import type { ChatConversation, ChatMessage, ChatToolCall, UserParams, Strategy, UserPost } from '@/types';
 import { useChatStore } from '@/store/chatStore';
-import { generateChatTitle, generateSignalFunctionDeclaration, generateScalpingSignalFunctionDeclaration, createStrategyFunctionDeclaration, createPostFunctionDeclaration, SYSTEM_INSTRUCTION, summarizeNewsFunctionDeclaration, getLivePnlFunctionDeclaration, setPriceAlertFunctionDeclaration, getTutorialContentFunctionDeclaration } from '@/services/chatService';
+import { useAlertsStore } from '@/store/alertsStore';
+import { useScalpingStore } from '@/store/scalpingStore';
+import { useHistoryStore } from '@/store/historyStore';
+import { useSocialStore } from '@/store/socialStore';
+import { useSimulationStore } from '@/store/simulationStore';
+import { useStore } from '@/store';
+import { CHAT_MODEL, generateChatTitle, generateSignalFunctionDeclaration, generateScalpingSignalFunctionDeclaration, createStrategyFunctionDeclaration, createPostFunctionDeclaration, SYSTEM_INSTRUCTION, summarizeNewsFunctionDeclaration, getLivePnlFunctionDeclaration, setPriceAlertFunctionDeclaration, getTutorialContentFunctionDeclaration, searchKnowledgeFunctionDeclaration, querySignalHistoryFunctionDeclaration, getPerpTradeStatsFunctionDeclaration, getSpotHoldingsFunctionDeclaration, listStrategiesFunctionDeclaration, getSimulationResultsFunctionDeclaration, getChartSnapshotFunctionDeclaration } from '@/services/chatService';
+import { getLlmProvider } from '@/services/llm/registry';
+import type { LlmChatRequest, LlmMessage, LlmToolCall, LlmToolResult } from '@/services/llm/types';
+import { computeLivePnl } from '@/services/livePnl';
+import { CHART_SNAPSHOT_CANDLES, getChartSnapshot, getPerpTradeStats, getSimulationResults, getSpotHoldings, isChartTimeframe, listStrategies, querySignalHistory } from '@/services/chatDataTools';
+import { searchKnowledge } from '@/services/knowledgeBase';
+import { fetchData, fetchLivePrice } from '@/services/exchangeService';
 import { MOCK_ANALYZED_NEWS } from '@/store/newsStore';
 import { tutorialsData } from '@/data/tutorialData';
 
-// Define the type for import.meta.env to resolve TypeScript error
-declare global {
-  interface ImportMeta {
-    env: Record<string, string>;
+const CHAT_TOOLS = [generateSignalFunctionDeclaration, generateScalpingSignalFunctionDeclaration, createStrategyFunctionDeclaration, createPostFunctionDeclaration, summarizeNewsFunctionDeclaration, getLivePnlFunctionDeclaration, setPriceAlertFunctionDeclaration, getTutorialContentFunctionDeclaration, searchKnowledgeFunctionDeclaration, querySignalHistoryFunctionDeclaration, getPerpTradeStatsFunctionDeclaration, getSpotHoldingsFunctionDeclaration, listStrategiesFunctionDeclaration, getSimulationResultsFunctionDeclaration, getChartSnapshotFunctionDeclaration];
+
+// Model turns that may call tools before it has to answer in text
+const MAX_TOOL_STEPS = 5;
+
+/**
+ * Streams one model turn, reporting the text so far after every chunk. Stops with an AbortError as
+ * soon as the request's signal is aborted.
+ */
+async function streamChatTurn(request: LlmChatRequest, onText: (text: string) => void): Promise<{ text: string; toolCalls: LlmToolCall[] }> {
+  let text = '';
+  const toolCalls: LlmToolCall[] = [];
+  for await (const chunk of getLlmProvider(request.model).streamChat(request)) {
+    request.signal?.throwIfAborted();
+    if (chunk.type === 'text') {
+      text += chunk.text;
+      onText(text);
+    } else {
+      toolCalls.push(...chunk.toolCalls);
+    }
   }
+  return { text, toolCalls };
 }
 
-// Get API key from environment - in browser, this will be processed by Vite
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.API_KEY;
-
-if (!API_KEY) {
-  console.error("Gemini API key is not set. Please set VITE_GEMINI_API_KEY in your .env file");
+/**
+ * Turns the saved transcript back into model history. Tool calls are replayed with the results the
+ * model saw, so follow-up questions can build on them.
+ */
+function toLlmHistory(messages: ChatMessage[]): LlmMessage[] {
+  return messages.flatMap((msg): LlmMessage[] => {
+    if (msg.role === 'user') return [{ role: 'user', text: msg.content }];
+    if (!msg.toolCalls?.length) return msg.content ? [{ role: 'model', text: msg.content }] : [];
+    return [
+      { role: 'model', text: msg.content, toolCalls: msg.toolCalls.map(({ id, name, args }) => ({ id, name, args })) },
+      {
+        role: 'tool',
+        results: msg.toolCalls.map(call => ({
+          id: call.id,
+          name: call.name,
+          response: call.status === 'done' ? { result: call.result } : call.status === 'error' ? call.result as Record<string, unknown> : { error: 'Cancelled by the user.' },
+        })),
+      },
+    ];
+  });
 }
 
-const ai = new GoogleGenAI({ apiKey: API_KEY || "" });
+// Same username the Strategy Hub stamps on the strategies the user creates
+const currentUsername = () => {
+  const user = useStore.getState().user;
+  return user ? user.user_metadata?.user_name || user.email?.split('@')[0] || user.id : null;
+};
 
 export function useChat(
   context: PageContext,
@@ -40,7 +87,10 @@ export function useChat(
   } = useChatStore();
 
   const [isLoading, setIsLoading] = useState(false);
-  const chatRef = useRef<Chat | null>(null);
+  // The reply being streamed. It only reaches the persisted store once its model turn ends.
+  const [streaming, setStreaming] = useState<{ conversationId: string; text: string } | null>(null);
+  const historyRef = useRef<LlmMessage[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const startNewConversation = useCallback(() => {
     const newConvo: ChatConversation = {
@@ -63,27 +113,17 @@ export function useChat(
   }, [conversations, currentConversationId, setCurrentConversationId, startNewConversation]);
 
   const currentConversation = conversations.find(c => c.id === currentConversationId) || null;
+  // What the chat shows: the stored conversation with the streamed text in its last message
+  const displayedConversation = currentConversation && streaming?.conversationId === currentConversation.id && currentConversation.messages.length > 0
+    ? { ...currentConversation, messages: [...currentConversation.messages.slice(0, -1), { ...currentConversation.messages[currentConversation.messages.length - 1], content: streaming.text }] }
+    : currentConversation;
 
-  // Re-initialize chat instance when conversation or context changes
+  // Keep the history sent with the next message in sync with the selected conversation
   useEffect(() => {
     if (currentConversation) {
-      const geminiHistory = currentConversation.messages.map(msg => ({
-        role: msg.role,
-        parts: [{ text: msg.content }]
-      }));
-
-      chatRef.current = ai.chats.create({
-        model: 'gemini-2.5-flash',
-        config: {
-          systemInstruction: SYSTEM_INSTRUCTION,
-          tools: context.functionCallingEnabled
-            ? [{ functionDeclarations: [generateSignalFunctionDeclaration, generateScalpingSignalFunctionDeclaration, createStrategyFunctionDeclaration, createPostFunctionDeclaration, summarizeNewsFunctionDeclaration, getLivePnlFunctionDeclaration, setPriceAlertFunctionDeclaration, getTutorialContentFunctionDeclaration] }]
-            : undefined,
-        },
-        history: geminiHistory
-      });
+      historyRef.current = toLlmHistory(currentConversation.messages);
     }
-  }, [currentConversationId, conversations, context.functionCallingEnabled]);
+  }, [currentConversationId, conversations]);
 
 
   const updateConversation = useCallback((id: string, updates: Partial<ChatConversation> | ((c: ChatConversation) => Partial<ChatConversation>)) => {
@@ -119,8 +159,7 @@ export function useChat(
   }, [setConversations, currentConversationId, setCurrentConversationId]);
 
   const sendMessage = useCallback(async (prompt: string) => {
-    const chat = chatRef.current;
-    if (!currentConversationId || !chat) return;
+    if (!currentConversationId) return;
 
     let fullPrompt = prompt;
     if (context.contextualChatEnabled && context.signal && (context.page === 'signal-gen' || context.page === 'scalping')) {
@@ -145,129 +184,146 @@ USER QUESTION:
     updateConversation(currentConversationId, c => ({ messages: [...c.messages, userMessage, placeholderModelMessage] }));
     setIsLoading(true);
 
-    try {
-      const stream = await chat.sendMessageStream({ message: fullPrompt });
-
-      let aggregatedText = '';
-      let functionCalls: any[] = [];
-      let finalChunk: any = null;
-
-      for await (const chunk of stream) {
-        // Manually aggregate text from parts to avoid the .text getter warning
-        let chunkText = '';
-        if (chunk.candidates?.[0]?.content?.parts) {
-            for (const part of chunk.candidates[0].content.parts) {
-                if (part.text) {
-                    chunkText += part.text;
-                }
-            }
-        }
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-        if (chunkText) {
-          aggregatedText += chunkText;
-          updateConversation(currentConversationId, c => {
-            const newMessages = [...c.messages];
-            if (newMessages.length > 0) {
-              newMessages[newMessages.length - 1].content = aggregatedText;
-            }
-            return { messages: newMessages };
+    const updateLastMessage = (update: (message: ChatMessage) => ChatMessage) => {
+      updateConversation(currentConversationId, c => {
+        if (c.messages.length === 0) return {};
+        return { messages: [...c.messages.slice(0, -1), update(c.messages[c.messages.length - 1])] };
+      });
+    };
+    const setLastMessageContent = (content: string) => updateLastMessage(message => ({ ...message, content }));
+    let streamedText = '';
+    const showStreamedText = (text: string) => {
+      streamedText = text;
+      setStreaming({ conversationId: currentConversationId, text });
+    };
+    const setToolCall = (id: string, changes: Partial<ChatToolCall>) => updateLastMessage(message => ({
+      ...message,
+      toolCalls: message.toolCalls?.map(call => call.id === id ? { ...call, ...changes } : call),
+    }));
+
+    const runTool = async (fc: LlmToolCall): Promise<unknown> => {
+      switch(fc.name) {
+        case 'generateSignal':
+          triggerSignalGeneration(fc.args as Partial<UserParams>);
+          return `Signal generation started for ${fc.args.symbol}. The user can view the progress on the 'Signal Gen' page.`;
+        case 'generateScalpingSignal':
+          triggerScalpGeneration(fc.args as Partial<UserParams>);
+          return `Scalping signal generation started for ${fc.args.symbol}. The user can view the progress on the 'Scalping' page.`;
+        case 'createStrategy':
+          createStrategy(fc.args as Omit<Strategy, 'id' | 'createdAt' | 'authorUsername'>);
+          return `A new strategy titled "${fc.args.title}" has been created and saved. The user can view it on the 'Strategies' page.`;
+        case 'createPost':
+          createPost(fc.args as Pick<UserPost, 'content'>);
+          return `A new post has been created and saved. The user can view it on their 'Profile' page.`;
+        case 'summarizeNews':
+          const topic = fc.args.topic || '';
+          const relevantArticles = MOCK_ANALYZED_NEWS.filter(a => a.title.toLowerCase().includes(topic.toLowerCase()) || a.description.toLowerCase().includes(topic.toLowerCase()));
+          if (relevantArticles.length > 0) {
+              const summary = relevantArticles.slice(0, 3).map(a => `- Title: ${a.title}, Source: ${a.source}, URL: ${a.url}`).join('\n');
+              return `I found ${relevantArticles.length} articles about ${topic}. Here are the top ones:\n${summary}`;
+          }
+          return `I couldn't find any recent news about ${topic}.`;
+        case 'getLivePnl':
+          return computeLivePnl({
+            livePositions: useScalpingStore.getState().livePositions,
+            perpTrades: useHistoryStore.getState().perpTrades,
+            scalpingExchange: useScalpingStore.getState().formData.exchange ?? 'binance',
+          }, fetchLivePrice);
+        case 'querySignalHistory':
+          return querySignalHistory(useHistoryStore.getState().signalHistory, fc.args);
+        case 'getPerpTradeStats':
+          return getPerpTradeStats(useHistoryStore.getState().perpTrades, fc.args);
+        case 'getSpotHoldings':
+          return { holdings: getSpotHoldings(useHistoryStore.getState().spotTrades, fc.args) };
+        case 'listStrategies':
+          const { mine, ...strategyFilter } = fc.args;
+          return { strategies: listStrategies(useSocialStore.getState().strategies, { ...strategyFilter, author: mine ? currentUsername() ?? undefined : undefined }) };
+        case 'getSimulationResults':
+          const { simulations, backtestResult } = useSimulationStore.getState();
+          return getSimulationResults(simulations, backtestResult?.metrics ?? null, fc.args);
+        case 'getChartSnapshot':
+          const chartSymbol = String(fc.args.symbol).toUpperCase();
+          const timeframe = fc.args.timeframe;
+          if (!isChartTimeframe(timeframe)) throw new Error(`Unsupported timeframe "${timeframe}".`);
+          const exchange = context.params?.exchange ?? 'binance';
+          const candles = await fetchData(exchange, chartSymbol, timeframe, CHART_SNAPSHOT_CANDLES);
+          return getChartSnapshot(candles, { exchange, symbol: chartSymbol, timeframe });
+        case 'setPriceAlert':
+          const symbol = String(fc.args.symbol).toUpperCase();
+          const price = Number(fc.args.price);
+          const direction = fc.args.direction === 'above' || fc.args.direction === 'below' ? fc.args.direction : 'either';
+          if (!(price > 0)) throw new Error(`${fc.args.price} is not a valid price.`);
+          useAlertsStore.getState().addAlert({
+            exchange: context.params?.exchange ?? 'binance',
+            symbol,
+            timeframe: '1m',
+            condition: { type: 'price_cross', price, direction },
           });
-        }
-
-        // The library conveniently aggregates function calls, so we can keep using this.
-        if (chunk.functionCalls) {
-          functionCalls.push(...chunk.functionCalls);
-        }
-        finalChunk = chunk;
+          setToast({ message: `Price alert set for ${symbol} at $${price}`, variant: 'success' });
+          return `I've set a price alert for ${symbol} when it crosses ${direction === 'either' ? '' : `${direction} `}$${price}. The user can view, edit or snooze it on the 'Alerts' page.`;
+        case 'searchKnowledge':
+          const results = searchKnowledge(String(fc.args.query ?? ''), useSocialStore.getState().strategies, fc.args.limit);
+          return results.length > 0 ? { results } : `Nothing in the tutorials, docs or Strategy Hub matches "${fc.args.query}".`;
+        case 'getTutorialContent':
+          const tutorialTitle = fc.args.title;
+          let foundTutorial = null;
+          // Search through all categories to find the tutorial
+          for (const category in tutorialsData) {
+              const tutorial = tutorialsData[category as keyof typeof tutorialsData].find(t => t.title === tutorialTitle);
+              if (tutorial) {
+                  foundTutorial = tutorial;
+                  break;
+              }
+          }
+          if (foundTutorial) {
+              return `Here is the content for "${foundTutorial.title}":\n\n${foundTutorial.content}`;
+          }
+          return `I could not find a tutorial with the exact title "${tutorialTitle}". I can still try to answer your question from my general knowledge.`;
+        default:
+          throw new Error(`Unknown tool "${fc.name}".`);
       }
+    };
 
-      const finalFunctionCalls = finalChunk?.functionCalls || functionCalls;
-
-      if (finalFunctionCalls && finalFunctionCalls.length > 0) {
-        const fc = finalFunctionCalls[0];
-
-        let toolResultMessage = 'Action initiated.';
-        switch(fc.name) {
-          case 'generateSignal':
-            triggerSignalGeneration(fc.args as Partial<UserParams>);
-            toolResultMessage = `Signal generation started for ${fc.args.symbol}. The user can view the progress on the 'Signal Gen' page.`;
-            break;
-          case 'generateScalpingSignal':
-            triggerScalpGeneration(fc.args as Partial<UserParams>);
-            toolResultMessage = `Scalping signal generation started for ${fc.args.symbol}. The user can view the progress on the 'Scalping' page.`;
-            break;
-          case 'createStrategy':
-            createStrategy(fc.args as Omit<Strategy, 'id' | 'createdAt' | 'authorUsername'>);
-            toolResultMessage = `A new strategy titled "${fc.args.title}" has been created and saved. The user can view it on the 'Strategies' page.`;
-            break;
-          case 'createPost':
-            createPost(fc.args as Pick<UserPost, 'content'>);
-            toolResultMessage = `A new post has been created and saved. The user can view it on their 'Profile' page.`;
-            break;
-          case 'summarizeNews':
-            const topic = fc.args.topic || '';
-            const relevantArticles = MOCK_ANALYZED_NEWS.filter(a => a.title.toLowerCase().includes(topic.toLowerCase()) || a.description.toLowerCase().includes(topic.toLowerCase()));
-            if (relevantArticles.length > 0) {
-                const summary = relevantArticles.slice(0, 3).map(a => `- Title: ${a.title}, Source: ${a.source}, URL: ${a.url}`).join('\n');
-                toolResultMessage = `I found ${relevantArticles.length} articles about ${topic}. Here are the top ones:\n${summary}`;
-            } else {
-                toolResultMessage = `I couldn't find any recent news about ${topic}.`;
-            }
-            break;
-          case 'getLivePnl':
-            toolResultMessage = "Based on a mock calculation, your current unrealized P/L across all live positions is +$245.80. This feature is for demonstration purposes as I cannot access live account data.";
-            break;
-          case 'setPriceAlert':
-            const { symbol, price } = fc.args;
-            setToast({ message: `Price alert set for ${symbol} at $${price}`, variant: 'success' });
-            toolResultMessage = `I've set a price alert for ${symbol} at $${price}.`;
-            break;
-          case 'getTutorialContent':
-            const tutorialTitle = fc.args.title;
-            let foundTutorial = null;
-            // Search through all categories to find the tutorial
-            for (const category in tutorialsData) {
-                const tutorial = tutorialsData[category as keyof typeof tutorialsData].find(t => t.title === tutorialTitle);
-                if (tutorial) {
-                    foundTutorial = tutorial;
-                    break;
-                }
-            }
-            if (foundTutorial) {
-                toolResultMessage = `Here is the content for "${foundTutorial.title}":\n\n${foundTutorial.content}`;
-            } else {
-                toolResultMessage = `I could not find a tutorial with the exact title "${tutorialTitle}". I can still try to answer your question from my general knowledge.`;
-            }
-            break;
+    try {
+      const messages: LlmMessage[] = [...historyRef.current, { role: 'user', text: fullPrompt }];
+
+      // Each step streams one model turn; its tool calls are run and answered until it replies with text only
+      for (let step = 0; ; step++) {
+        streamedText = '';
+        const { text, toolCalls } = await streamChatTurn({
+          model: CHAT_MODEL,
+          systemInstruction: `${SYSTEM_INSTRUCTION}\n\nToday's date is ${new Date().toISOString().slice(0, 10)}.`,
+          // The last step goes without tools, so the model has to answer
+          tools: context.functionCallingEnabled && step < MAX_TOOL_STEPS ? CHAT_TOOLS : undefined,
+          messages,
+          signal: controller.signal,
+        }, showStreamedText);
+        setLastMessageContent(text);
+        setStreaming(null);
+        if (toolCalls.length === 0) break;
+
+        updateLastMessage(message => ({ ...message, toolCalls: toolCalls.map(call => ({ ...call, status: 'running' })) }));
+        const results: LlmToolResult[] = [];
+        for (const call of toolCalls) {
+          controller.signal.throwIfAborted();
+          try {
+            const result = await runTool(call);
+            setToolCall(call.id, { status: 'done', result });
+            results.push({ id: call.id, name: call.name, response: { result } });
+          } catch (error) {
+            // Returned to the model, so it can explain the failure or call the tool again
+            const failure = { error: error instanceof Error ? error.message : String(error) };
+            setToolCall(call.id, { status: 'error', result: failure });
+            results.push({ id: call.id, name: call.name, response: failure });
+          }
         }
+        controller.signal.throwIfAborted();
 
-        const toolResponseResultStream = await chat.sendMessageStream({
-          message: [ { functionResponse: { name: fc.name, response: { result: toolResultMessage } } } ],
-        });
-
-        const toolResponsePlaceholder: ChatMessage = { role: 'model', content: '' };
-        updateConversation(currentConversationId, c => ({ messages: [...c.messages, toolResponsePlaceholder] }));
-
-        let toolAggregatedText = '';
-        for await (const chunk of toolResponseResultStream) {
-            let chunkText = '';
-            if (chunk.candidates?.[0]?.content?.parts) {
-                for (const part of chunk.candidates[0].content.parts) {
-                    if (part.text) {
-                        chunkText += part.text;
-                    }
-                }
-            }
-
-            if (chunkText) {
-                toolAggregatedText += chunkText;
-                updateConversation(currentConversationId, c => {
-                    const newMessages = [...c.messages];
-                    newMessages[newMessages.length - 1].content = toolAggregatedText;
-                    return { messages: newMessages };
-                });
-            }
-        }
+        messages.push({ role: 'model', text, toolCalls }, { role: 'tool', results });
+        updateConversation(currentConversationId, c => ({ messages: [...c.messages, { role: 'model', content: '' }] }));
       }
 
       if (isFirstUserMessage) {
@@ -277,6 +333,15 @@ USER QUESTION:
       }
 
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        updateLastMessage(message => ({
+          ...message,
+          content: message.content || streamedText || (message.toolCalls ? '' : 'Response stopped.'),
+          toolCalls: message.toolCalls?.map(call => call.status === 'running' ? { ...call, status: 'cancelled' } : call),
+        }));
+        return;
+      }
+
       console.error("Chat Error:", error);
       let friendlyMessage = "Sorry, an unexpected error occurred. Please try again later.";
       const errorMessage = error.message?.toLowerCase() || '';
@@ -293,18 +358,18 @@ USER QUESTION:
          friendlyMessage = "The AI model couldn't process that request. Please try again or rephrase your question.";
       }
 
-      updateConversation(currentConversationId, c => {
-        const newMessages = [...c.messages];
-        if (newMessages.length > 0) {
-          newMessages[newMessages.length - 1].content = friendlyMessage;
-        }
-        return { messages: newMessages };
-      });
+      setLastMessageContent(friendlyMessage);
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setStreaming(null);
       setIsLoading(false);
     }
   }, [currentConversationId, currentConversation, updateConversation, triggerSignalGeneration, triggerScalpGeneration, createStrategy, createPost, context, setToast]);
 
+  const cancelRequest = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
 
   const editMessageAndResend = useCallback(async (messageIndex: number, newContent: string) => {
     if (!currentConversationId || !currentConversation) return;
@@ -334,11 +399,12 @@ USER QUESTION:
 
   return {
     conversations,
-    currentConversation,
+    currentConversation: displayedConversation,
     isLoading,
     selectConversation,
     startNewConversation,
     sendMessage,
+    cancelRequest,
     renameConversation,
     deleteConversation,
     editMessageAndResend,
@@ -1,5 +1,8 @@
 import { useEffect, useRef, useCallback } from 'react';
 import type { CandleStick, Exchange, Timeframe, OrderBookUpdate, LiveTrade } from '@/types';
+import { okxBarMap, toOkxInstId, parseOkxKline } from '@/services/exchanges/okx';
+import { bitgetGranularityMap, parseBitgetKline } from '@/services/exchanges/bitget';
+import { toCoinbaseProductId } from '@/services/exchanges/coinbase';
 
 type StreamType = 'kline' | 'depth' | 'trade';
 type StreamData<T extends StreamType> = T extends 'kline' ? CandleStick : T extends 'depth' ? OrderBookUpdate : LiveTrade;
@@ -18,7 +21,16 @@ const RECONNECT_DELAY = 5000;
 
 const bybitIntervalMap: Record<Timeframe, string> = { '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30', '1h': '60', '2h': '120', '4h': '240', '1d': 'D', '1w': 'W' };
 
-const exchangeConfigs = {
+interface ExchangeStreamConfig {
+    getUrl: (symbol: string, type: StreamType, interval?: Timeframe) => string;
+    getSubscribeMessage: (symbol: string, type: StreamType, interval?: Timeframe) => string | null;
+    getHeartbeatMessage?: () => string;
+    // Streams the exchange cannot provide; all streams are assumed supported when omitted
+    supports?: (type: StreamType, interval?: Timeframe) => boolean;
+    parseMessage: (event: MessageEvent, type: StreamType) => any | null;
+}
+
+const exchangeConfigs: Record<Exchange, ExchangeStreamConfig> = {
     binance: {
         getUrl: (symbol: string, type: StreamType, interval?: Timeframe) => {
             const streamName = {
@@ -32,7 +44,10 @@ const exchangeConfigs = {
         parseMessage: (event: MessageEvent, type: StreamType): any | null => {
             const msg = JSON.parse(event.data);
             if (type === 'kline' && msg.k) {
-                return { time: msg.k.t / 1000, open: parseFloat(msg.k.o), high: parseFloat(msg.k.h), low: parseFloat(msg.k.l), close: parseFloat(msg.k.c) };
+                return {
+                    time: msg.k.t / 1000, open: parseFloat(msg.k.o), high: parseFloat(msg.k.h), low: parseFloat(msg.k.l), close: parseFloat(msg.k.c),
+                    volume: parseFloat(msg.k.v), quoteVolume: parseFloat(msg.k.q), trades: msg.k.n,
+                };
             }
             if (type === 'depth') {
                 return { bids: msg.b, asks: msg.a };
@@ -60,7 +75,10 @@ const exchangeConfigs = {
 
             if (type === 'kline' && msg.topic?.startsWith('kline')) {
                 const candle = msg.data[0];
-                return { time: parseInt(candle.start) / 1000, open: parseFloat(candle.open), high: parseFloat(candle.high), low: parseFloat(candle.low), close: parseFloat(candle.close) };
+                return {
+                    time: parseInt(candle.start) / 1000, open: parseFloat(candle.open), high: parseFloat(candle.high), low: parseFloat(candle.low), close: parseFloat(candle.close),
+                    volume: parseFloat(candle.volume), quoteVolume: parseFloat(candle.turnover),
+                };
             }
             if (type === 'depth' && msg.topic?.startsWith('orderbook')) {
                 return { type: msg.type, bids: msg.data.b, asks: msg.data.a };
@@ -77,6 +95,117 @@ const exchangeConfigs = {
             return null;
         }
     },
+    okx: {
+        // Candles are served from the "business" endpoint, everything else from "public"
+        getUrl: (_symbol: string, type: StreamType) => `wss://ws.okx.com:8443/ws/v5/${type === 'kline' ? 'business' : 'public'}`,
+        getSubscribeMessage: (symbol: string, type: StreamType, interval?: Timeframe) => {
+            const channel = {
+                kline: `candle${okxBarMap[interval!]}`,
+                depth: 'books5',
+                trade: 'trades',
+            }[type];
+            return JSON.stringify({ op: 'subscribe', args: [{ channel, instId: toOkxInstId(symbol) }] });
+        },
+        getHeartbeatMessage: () => 'ping',
+        parseMessage: (event: MessageEvent, type: StreamType): any | null => {
+            if (event.data === 'pong') return null;
+            const msg = JSON.parse(event.data);
+            if (msg.event || !msg.data) return null;
+
+            const channel: string = msg.arg?.channel ?? '';
+            if (type === 'kline' && channel.startsWith('candle')) {
+                return parseOkxKline(msg.data[0]);
+            }
+            if (type === 'depth' && channel === 'books5') {
+                const book = msg.data[0];
+                return { bids: book.bids.map((l: string[]) => [l[0], l[1]]), asks: book.asks.map((l: string[]) => [l[0], l[1]]) };
+            }
+            if (type === 'trade' && channel === 'trades') {
+                return msg.data.map((trade: any) => ({
+                    id: Number(trade.tradeId),
+                    price: trade.px,
+                    quantity: trade.sz,
+                    time: parseInt(trade.ts),
+                    isBuyerMaker: trade.side === 'sell',
+                }));
+            }
+            return null;
+        }
+    },
+    bitget: {
+        getUrl: () => `wss://ws.bitget.com/v2/ws/public`,
+        getSubscribeMessage: (symbol: string, type: StreamType, interval?: Timeframe) => {
+            const channel = {
+                kline: `candle${bitgetGranularityMap[interval!]}`,
+                depth: 'books5',
+                trade: 'trade',
+            }[type];
+            return JSON.stringify({ op: 'subscribe', args: [{ instType: 'USDT-FUTURES', channel, instId: symbol }] });
+        },
+        getHeartbeatMessage: () => 'ping',
+        supports: (type: StreamType, interval?: Timeframe) => type !== 'kline' || !!bitgetGranularityMap[interval!],
+        parseMessage: (event: MessageEvent, type: StreamType): any | null => {
+            if (event.data === 'pong') return null;
+            const msg = JSON.parse(event.data);
+            if (msg.event || !msg.data) return null;
+
+            const channel: string = msg.arg?.channel ?? '';
+            if (type === 'kline' && channel.startsWith('candle')) {
+                // Snapshots carry the recent history; only the newest row is the live candle
+                return parseBitgetKline(msg.data[msg.data.length - 1]);
+            }
+            if (type === 'depth' && channel === 'books5') {
+                const book = msg.data[0];
+                return { bids: book.bids, asks: book.asks };
+            }
+            if (type === 'trade' && channel === 'trade') {
+                return msg.data.map((trade: any) => ({
+                    id: Number(trade.tradeId),
+                    price: trade.price,
+                    quantity: trade.size,
+                    time: parseInt(trade.ts),
+                    isBuyerMaker: trade.side === 'sell',
+                }));
+            }
+            return null;
+        }
+    },
+    coinbase: {
+        getUrl: () => `wss://advanced-trade-ws.coinbase.com`,
+        getSubscribeMessage: (symbol: string, type: StreamType) => {
+            const channel = type === 'kline' ? 'candles' : 'market_trades';
+            return JSON.stringify({ type: 'subscribe', product_ids: [toCoinbaseProductId(symbol)], channel });
+        },
+        // The public feed only streams 5-minute candles, and its level2 book is incremental,
+        // which the order book window does not support
+        supports: (type: StreamType, interval?: Timeframe) => type === 'trade' || (type === 'kline' && interval === '5m'),
+        parseMessage: (event: MessageEvent, type: StreamType): any | null => {
+            const msg = JSON.parse(event.data);
+            if (!Array.isArray(msg.events)) return null;
+
+            if (type === 'kline' && msg.channel === 'candles') {
+                return msg.events
+                    .flatMap((e: any) => e.candles ?? [])
+                    .map((candle: any) => ({
+                        time: parseInt(candle.start), open: parseFloat(candle.open), high: parseFloat(candle.high), low: parseFloat(candle.low), close: parseFloat(candle.close),
+                        volume: parseFloat(candle.volume),
+                    }))
+                    .sort((a: CandleStick, b: CandleStick) => a.time - b.time);
+            }
+            if (type === 'trade' && msg.channel === 'market_trades') {
+                return msg.events
+                    .flatMap((e: any) => e.trades ?? [])
+                    .map((trade: any) => ({
+                        id: Number(trade.trade_id),
+                        price: trade.price,
+                        quantity: trade.size,
+                        time: Date.parse(trade.time),
+                        isBuyerMaker: trade.side === 'SELL', // side is the taker's side
+                    }));
+            }
+            return null;
+        }
+    },
 };
 
 export function useExchangeWebSocket<T extends StreamType>({ exchange, symbol, type, interval, onMessage, onConnectionError, enabled = true }: UseExchangeWebSocketProps<T>) {
@@ -99,11 +228,15 @@ export function useExchangeWebSocket<T extends StreamType>({ exchange, symbol, t
         if (!symbol || !exchange || (type === 'kline' && !interval)) return;
         clearTimers();
 
-        const config = exchangeConfigs[exchange as keyof typeof exchangeConfigs];
+        const config = exchangeConfigs[exchange];
         if (!config) {
             console.error(`WebSocket not implemented for ${exchange}`);
             return;
         }
+        if (config.supports && !config.supports(type, interval)) {
+            console.warn(`Live ${type} stream${interval ? ` (${interval})` : ''} is not available on ${exchange}.`);
+            return;
+        }
 
         const ws = new WebSocket(config.getUrl(symbol, type, interval));
         wsRef.current = ws;
@@ -112,7 +245,7 @@ export function useExchangeWebSocket<T extends StreamType>({ exchange, symbol, t
             const subMsg = config.getSubscribeMessage(symbol, type, interval);
             if (subMsg) ws.send(subMsg);
 
-            const heartbeatMsg = (config as any).getHeartbeatMessage?.();
+            const heartbeatMsg = config.getHeartbeatMessage?.();
             if (heartbeatMsg) {
                 pingIntervalRef.current = window.setInterval(() => {
                     if (ws.readyState === WebSocket.OPEN) {
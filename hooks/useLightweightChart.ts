@@ -11,6 +11,15 @@ import {
   VertAlign,
 } from 'lightweight-charts';
 import type { CandleStick } from '@/types';
+import { SMA, RSI } from '@/utils/indicators';
+
+interface ChartIndicatorEngine {
+  ma20: SMA;
+  ma200: SMA;
+  rsi: RSI;
+  lastFed: CandleStick; // The last candle object fed to the indicators
+  lastClosed?: CandleStick; // The candle before it, used to recognise in-place revisions
+}
 
 const chartOptions = {
     layout: { background: { color: 'transparent' }, textColor: '#e0e0e0', fontSize: 12 },
@@ -27,13 +36,18 @@ export function useLightweightChart(
   data: CandleStick[],
   showMA20: boolean,
   showMA200: boolean,
-  showRSI: boolean
+  showRSI: boolean,
+  showVolume: boolean = false
 ) {
   const chartRef = useRef<IChartApi | null>(null);
   const mainSeriesRef = useRef<ISeriesApi<any> | null>(null);
   const ma20SeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const ma200SeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
   const rsiSeriesRef = useRef<ISeriesApi<'Line'> | null>(null);
+  const volumeSeriesRef = useRef<ISeriesApi<'Histogram'> | null>(null);
+  const indicatorEngineRef = useRef<ChartIndicatorEngine | null>(null);
+  // Set when an indicator series is (re)created so the next data pass fills it from scratch.
+  const indicatorSeriesDirtyRef = useRef(true);
 
   // Chart creation and resize handling
   useEffect(() => {
@@ -93,6 +107,7 @@ export function useLightweightChart(
   useEffect(() => {
     const chart = chartRef.current; if (!chart) return;
     const chartAny = chart as any; // Cast to any for series methods
+    indicatorSeriesDirtyRef.current = true;
     // MA20
     if (showMA20 && !ma20SeriesRef.current) {
         ma20SeriesRef.current = chartAny.addLineSeries({ color: '#fb923c', lineWidth: 2, crosshairMarkerVisible: false, lastValueVisible: false, priceLineVisible: false });
@@ -135,7 +150,20 @@ export function useLightweightChart(
         rsiSeriesRef.current = null;
         // FIX: Removed incorrect `applyOptions` call. Removing the series is sufficient to remove the pane.
     }
-  }, [showMA20, showMA200, showRSI]);
+    // Volume histogram, overlaid on the bottom fifth of the main pane
+    if (showVolume && !volumeSeriesRef.current) {
+        const volumeSeries = chartAny.addHistogramSeries({ priceScaleId: 'volume', priceFormat: { type: 'volume' }, lastValueVisible: false, priceLineVisible: false });
+        volumeSeries.priceScale().applyOptions({ scaleMargins: { top: 0.8, bottom: 0 } });
+        volumeSeriesRef.current = volumeSeries;
+    } else if (!showVolume && volumeSeriesRef.current) {
+        try {
+          chart.removeSeries(volumeSeriesRef.current);
+        } catch (e) {
+          // Suppress the error since removing an already removed series is not an actual error condition
+        }
+        volumeSeriesRef.current = null;
+    }
+  }, [showMA20, showMA200, showRSI, showVolume]);
 
   // Data updates
   useEffect(() => {
@@ -144,36 +172,51 @@ export function useLightweightChart(
     const singleValueData = data.map(d => ({ time: d.time as UTCTimestamp, value: d.close }));
     if (mainSeriesRef.current) mainSeriesRef.current.setData(chartType === 'Candlestick' ? chartData : singleValueData);
 
-    const calculateMA = (period: number) => {
-        const maData = [];
-        for (let i = period - 1; i < data.length; i++) {
-            let sum = 0; for (let j = 0; j < period; j++) { sum += data[i - j].close; }
-            maData.push({ time: data[i].time as UTCTimestamp, value: sum / period });
-        }
-        return maData;
-    };
-    if (ma20SeriesRef.current) ma20SeriesRef.current.setData(calculateMA(20));
-    if (ma200SeriesRef.current) ma200SeriesRef.current.setData(calculateMA(200));
-
-    if (rsiSeriesRef.current) {
-        const rsiData = []; const period = 14; let gains = 0, losses = 0;
-        for (let i = 1; i < data.length; i++) {
-            const change = data[i].close - data[i - 1].close;
-            if (i < period) { if (change > 0) gains += change; else losses -= change; }
-            else {
-                if (i === period) { gains /= period; losses /= period; }
-                else {
-                    const currentGain = change > 0 ? change : 0; const currentLoss = change < 0 ? -change : 0;
-                    gains = (gains * (period - 1) + currentGain) / period;
-                    losses = (losses * (period - 1) + currentLoss) / period;
-                }
-                const rs = losses > 0 ? gains / losses : 100; const rsi = 100 - (100 / (1 + rs));
-                rsiData.push({ time: data[i].time as UTCTimestamp, value: rsi });
-            }
-        }
-        rsiSeriesRef.current.setData(rsiData);
+    // Indicator overlays are fed through the shared incremental engine. When the only change is a
+    // revised or newly appended last candle, a single point is updated instead of replaying history.
+    const toPoint = (time: number, value: number | null) => value === null ? null : { time: time as UTCTimestamp, value };
+    const last = data[data.length - 1];
+    const previous = data.length > 1 ? data[data.length - 2] : undefined;
+    let engine = indicatorEngineRef.current;
+    const canContinue = !!engine && !indicatorSeriesDirtyRef.current && previous !== undefined && last.time >= engine.lastFed.time &&
+      (previous === engine.lastFed || (last.time === engine.lastFed.time && previous === engine.lastClosed));
+
+    if (engine && canContinue) {
+      const revising = last.time === engine.lastFed.time;
+      const updates: [ISeriesApi<'Line'> | null, { time: UTCTimestamp; value: number } | null][] = [
+        [ma20SeriesRef.current, toPoint(last.time, engine.ma20.update(last))],
+        [ma200SeriesRef.current, toPoint(last.time, engine.ma200.update(last))],
+        [rsiSeriesRef.current, toPoint(last.time, engine.rsi.update(last))],
+      ];
+      updates.forEach(([series, point]) => { if (series && point) series.update(point); });
+      if (!revising) engine.lastClosed = engine.lastFed;
+      engine.lastFed = last;
+    } else {
+      engine = { ma20: new SMA(20), ma200: new SMA(200), rsi: new RSI(14), lastFed: last, lastClosed: previous };
+      const ma20Data = [], ma200Data = [], rsiData = [];
+      for (const candle of data) {
+        const ma20Point = toPoint(candle.time, engine.ma20.update(candle));
+        const ma200Point = toPoint(candle.time, engine.ma200.update(candle));
+        const rsiPoint = toPoint(candle.time, engine.rsi.update(candle));
+        if (ma20Point) ma20Data.push(ma20Point);
+        if (ma200Point) ma200Data.push(ma200Point);
+        if (rsiPoint) rsiData.push(rsiPoint);
+      }
+      if (ma20SeriesRef.current) ma20SeriesRef.current.setData(ma20Data);
+      if (ma200SeriesRef.current) ma200SeriesRef.current.setData(ma200Data);
+      if (rsiSeriesRef.current) rsiSeriesRef.current.setData(rsiData);
+      indicatorEngineRef.current = engine;
+      indicatorSeriesDirtyRef.current = false;
+    }
+
+    if (volumeSeriesRef.current) {
+        volumeSeriesRef.current.setData(data.map(d => ({
+            time: d.time as UTCTimestamp,
+            value: d.volume,
+            color: d.close >= d.open ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)',
+        })));
     }
-  }, [data, chartType, showMA20, showMA200, showRSI]);
+  }, [data, chartType, showMA20, showMA200, showRSI, showVolume]);
 
   // We can't use React hooks (like useState) inside a custom hook definition like this.
   // Instead, we'll just return chart and mainSeries directly
@@ -86,7 +86,7 @@ export function useSignalGenerator(
       updateScalpingGenerationState({ signal: generatedSignal, currentPrice: livePrice, lastDataTimestamp: null, generationTimestamp: timestamp });
       if (audioAlertsEnabled) playSound('new-signal');
 
-      const newScalp: SavedSignal = { ...generatedSignal, id: crypto.randomUUID(), symbol: params.symbol, timeframe: params.timeframe, timestamp, status: 'Pending', currentPrice: livePrice, type: 'Scalp', hitTps: [] };
+      const newScalp: SavedSignal = { ...generatedSignal, id: crypto.randomUUID(), symbol: params.symbol, timeframe: params.timeframe, exchange: params.exchange, model: model.id, tradingStyle: params.tradingStyle, timestamp, status: 'Pending', currentPrice: livePrice, type: 'Scalp', hitTps: [] };
       setSignalHistory(prev => [newScalp, ...prev]);
 
     } catch (err: any) {
@@ -136,6 +136,9 @@ export function useSignalGenerator(
                 id: crypto.randomUUID(),
                 symbol: successfulParams.symbol,
                 timeframe: successfulParams.timeframe,
+                exchange: successfulParams.exchange,
+                model: successfulParams.model,
+                tradingStyle: successfulParams.tradingStyle,
                 timestamp,
                 status: 'Pending',
                 currentPrice: lastClose,
@@ -46,6 +46,9 @@ export function useSignalHitDetection({
             // For a SHORT, we wait for price to come UP to the entry zone (rally).
             if ((isLong && livePrice <= entryEnd) || (!isLong && livePrice >= entryStart)) {
                 setIsSignalEntered(true);
+                if (!historySignal.events?.some(event => event.type === 'Entry')) {
+                    setSignalHistory(prev => prev.map(s => s.id === historySignal.id ? { ...s, events: [...(s.events ?? []), { type: 'Entry', time: Date.now(), price: livePrice, source: 'live' }] } : s));
+                }
                 setToast({ message: `${currentParams.symbol} signal is now active! Entry price reached.`, variant: 'success' });
                 if (audioAlertsEnabled) playSound('new-signal');
                 // Return here to process SL/TP on the *next* price update, not this one.
@@ -55,13 +58,19 @@ export function useSignalHitDetection({
         
         // If entry is hit, proceed to check SL/TP.
         // Do not continue if the trade is already resolved.
-        if (historySignal.status === 'Loss' || historySignal.status === 'Closed') {
+        if (historySignal.status === 'Loss' || historySignal.status === 'Closed' || historySignal.resolvedAt !== undefined) {
             return;
         }
 
         // 2. Check for Stop Loss hit
         if ((isLong && livePrice <= signal.stopLoss) || (!isLong && livePrice >= signal.stopLoss)) {
-            setSignalHistory(prev => prev.map(s => s.id === historySignal.id ? { ...s, status: 'Loss' } : s));
+            const time = Date.now();
+            setSignalHistory(prev => prev.map(s => s.id === historySignal.id ? {
+                ...s,
+                status: 'Loss',
+                events: [...(s.events ?? []), { type: 'Stop Loss', time, price: livePrice, source: 'live' }],
+                resolvedAt: time,
+            } : s));
             setToast({ message: `SL hit for ${currentParams.symbol}. Status set to LOSS.`, variant: 'warning' });
             if (audioAlertsEnabled) playSound('sl-hit');
             return; // Stop further checks once SL is hit
@@ -84,8 +93,16 @@ export function useSignalHitDetection({
         if (newlyHitTpIndices.length > 0) {
             setSignalHistory(prev => prev.map(s => {
                 if (s.id === historySignal.id) {
+                    const time = Date.now();
                     const updatedHitTps = [...(s.hitTps || []), ...newlyHitTpIndices].sort((a, b) => a - b);
-                    return { ...s, status: 'Win', hitTps: updatedHitTps };
+                    const tpEvents = newlyHitTpIndices.map(index => ({ type: 'Take Profit' as const, time, price: livePrice, tpIndex: index, source: 'live' as const }));
+                    return {
+                        ...s,
+                        status: 'Win',
+                        hitTps: updatedHitTps,
+                        events: [...(s.events ?? []), ...tpEvents],
+                        resolvedAt: updatedHitTps.length === s.takeProfit.length ? time : s.resolvedAt,
+                    };
                 }
                 return s;
             }));
@@ -0,0 +1,48 @@
+import { useEffect } from 'react';
+import { useHistoryStore } from '@/store/historyStore';
+import { useStore } from '@/store';
+import { isUnresolved, resolvePendingSignals } from '@/services/signalResolver';
+
+const RESOLVE_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Resolves the outcome of every unresolved signal in history from historical candles, once on mount
+ * and then every few minutes, and notifies when any of them is decided.
+ */
+export function useSignalResolver(enabled: boolean) {
+    useEffect(() => {
+        if (!enabled) return;
+        let isRunning = false;
+        let isCancelled = false;
+
+        const resolve = async () => {
+            if (isRunning) return;
+            isRunning = true;
+            try {
+                const updates = await resolvePendingSignals(useHistoryStore.getState().signalHistory);
+                if (isCancelled || updates.size === 0) return;
+
+                const decided: string[] = [];
+                useHistoryStore.getState().setSignalHistory(prev => prev.map(signal => {
+                    const update = updates.get(signal.id);
+                    // Live hit detection or the user may have settled the signal while candles were loading
+                    if (!update || !isUnresolved(signal)) return signal;
+                    if (update.status !== signal.status) decided.push(`${signal.symbol} ${update.status.toUpperCase()}`);
+                    return { ...signal, ...update };
+                }));
+                if (decided.length > 0) {
+                    useStore.getState().setToast({ message: `Signal outcomes updated: ${decided.join(', ')}`, variant: 'success' });
+                }
+            } finally {
+                isRunning = false;
+            }
+        };
+
+        resolve();
+        const timer = window.setInterval(resolve, RESOLVE_INTERVAL_MS);
+        return () => {
+            isCancelled = true;
+            window.clearInterval(timer);
+        };
+    }, [enabled]);
+}
@@ -1,5 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import type { SimulationSetup, CandleStick } from '@/types';
+import { fetchHistoricalData } from '@/services/exchangeService';
+import { createSimulatedTrade, closeSimulatedTrade, isIntrabarAmbiguous, priceMovementSince, simulatedPnl, stepSimulatedTrade } from '@/utils/simulationTrade';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
 
 interface UseSimulationProps {
     simulation: SimulationSetup;
@@ -12,6 +15,8 @@ interface UseSimulationProps {
 const VISIBLE_CANDLE_COUNT = 100; // Number of candles to display on the chart at once
 const FRAME_RATE = 30; // UI updates per second
 
+const candleMinutes = (sim: SimulationSetup) => TIMEFRAME_SECONDS[sim.replayTimeframe ?? '1m'] / 60;
+
 export function useSimulation({ simulation, onComplete, onPause, onResume, autoPlay = false }: UseSimulationProps) {
     const [state, setState] = useState({
         status: 'loading' as 'loading' | 'running' | 'paused' | 'completed',
@@ -28,6 +33,8 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         pnl: 0,
         elapsedTime: '0m',
         displayIndex: -1,
+        stop: simulation.stopLoss,
+        openPercent: 0,
     });
     
     const fullHistoricalData = useRef<CandleStick[]>([]);
@@ -44,12 +51,10 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         simulationRef.current = simulation;
     }, [simulation]);
 
-    const tradeStateRef = useRef({
-        isActive: false,
-        entryPrice: 0,
-        entryCandleIndex: -1,
-        hitTpLevels: [] as number[],
-    });
+    const tradeStateRef = useRef(createSimulatedTrade(simulation));
+    // 1m candles of replay candles that touched both the stop and a take profit, keyed by candle time
+    const intrabarRef = useRef({ isFetching: false, subCandles: new Map<number, CandleStick[]>() });
+    const lastLiveCandleRef = useRef<CandleStick | null>(null);
 
     const stopInterval = useCallback(() => {
         if (intervalRef.current) {
@@ -62,7 +67,7 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         stopInterval();
         const currentSim = simulationRef.current;
         const elapsedMs = Date.now() - currentSim.timestamp;
-        const finalElapsedMinutes = currentSim.mode === 'live' ? Math.floor(elapsedMs / 60000) : finalIndex + 1;
+        const finalElapsedMinutes = currentSim.mode === 'live' ? Math.floor(elapsedMs / 60000) : (finalIndex + 1) * candleMinutes(currentSim);
         const finalElapsedTime = `${finalElapsedMinutes}m`;
 
         const finalState = {
@@ -72,12 +77,23 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
                 outcome: outcome as any,
                 duration: finalElapsedTime,
                 pnl,
+                exits: tradeStateRef.current.exits,
+                costs: {
+                    fees: tradeStateRef.current.fees,
+                    funding: tradeStateRef.current.funding,
+                    liquidationPrice: tradeStateRef.current.liquidationPrice,
+                },
+                intrabar: {
+                    policy: currentSim.intrabarPolicy ?? 'pessimistic',
+                    ambiguousCandles: tradeStateRef.current.ambiguousCandles,
+                    resolvedByData: tradeStateRef.current.resolvedByData,
+                },
             }
         };
 
         if (stateRef.current.status !== 'completed') {
             setState(prev => ({...prev, status: 'completed', outcome, isPlaying: false }));
-            setDisplayState(prev => ({...prev, pnl, elapsedTime: finalElapsedTime}));
+            setDisplayState(prev => ({...prev, pnl, elapsedTime: finalElapsedTime, openPercent: 0}));
             onComplete(finalState);
         }
     }, [onComplete, stopInterval]);
@@ -88,13 +104,8 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         const candle = fullHistoricalData.current[index];
         const currentSim = simulationRef.current;
 
-        const { isActive, entryPrice } = tradeStateRef.current;
-        const isLong = currentSim.direction === 'LONG';
-        let pnl = 0;
-        
-        if (isActive) {
-            pnl = ((candle.close - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-        }
+        const trade = tradeStateRef.current;
+        const pnl = simulatedPnl(trade, currentSim, candle.close);
         
         const windowStart = Math.max(0, index - VISIBLE_CANDLE_COUNT + 1);
         const chartData = fullHistoricalData.current.slice(windowStart, index + 1);
@@ -103,11 +114,30 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
             chartData,
             currentCandle: candle,
             pnl,
-            elapsedTime: `${index + 1}m`,
+            elapsedTime: `${(index + 1) * candleMinutes(currentSim)}m`,
             displayIndex: index,
+            stop: trade.stop,
+            openPercent: trade.openPercent,
         };
     }, []);
 
+    // Fetches the 1m candles inside an ambiguous replay candle; the replay waits on that candle meanwhile
+    const loadSubCandles = useCallback((candle: CandleStick) => {
+        const intrabar = intrabarRef.current;
+        if (intrabar.isFetching) return;
+        const sim = simulationRef.current;
+        const endTime = candle.time + TIMEFRAME_SECONDS[sim.replayTimeframe ?? '1m'];
+        intrabar.isFetching = true;
+        fetchHistoricalData(sim.exchange, sim.symbol, '1m', candle.time * 1000, endTime * 1000 - 1)
+            .then(candles => intrabar.subCandles.set(candle.time, candles.filter(c => c.time >= candle.time && c.time < endTime)))
+            .catch(error => {
+                // Without the 1m data the intrabar policy decides
+                console.error('Failed to fetch 1m candles for intrabar resolution:', error);
+                intrabar.subCandles.set(candle.time, []);
+            })
+            .finally(() => { intrabar.isFetching = false; });
+    }, []);
+
     const tick = useCallback(() => {
         const currentState = stateRef.current;
         if (currentState.status !== 'running' || !currentState.isPlaying) {
@@ -133,53 +163,29 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
 
             if (nextIndex >= fullHistoricalData.current.length) {
                 const lastCandle = fullHistoricalData.current[fullHistoricalData.current.length - 1];
-                let finalPnl = 0;
-                if (tradeStateRef.current.isActive) {
-                    const { entryPrice } = tradeStateRef.current;
-                    const isLong = simulationRef.current.direction === 'LONG';
-                    finalPnl = ((lastCandle.close - entryPrice) / entryPrice) * 100 * simulationRef.current.leverage * (isLong ? 1 : -1);
-                }
-                completeSimulation("Expired", finalPnl, nextIndex - 1);
+                closeSimulatedTrade(tradeStateRef.current, simulationRef.current, 'Expired', lastCandle.close, lastCandle.time);
+                completeSimulation("Expired", tradeStateRef.current.realizedPnl, nextIndex - 1);
                 return;
             }
 
             const candle = fullHistoricalData.current[nextIndex];
             const currentSim = simulationRef.current;
-            const { isActive, entryPrice, hitTpLevels } = tradeStateRef.current;
-            const isLong = currentSim.direction === 'LONG';
-            
-            if (!isActive) {
-                if ((isLong && candle.low <= currentSim.entryRange[0]) || (!isLong && candle.high >= currentSim.entryRange[0])) {
-                    tradeStateRef.current.isActive = true;
-                    tradeStateRef.current.entryPrice = currentSim.entryRange[0];
-                    tradeStateRef.current.entryCandleIndex = nextIndex;
-                }
+            const subCandles = intrabarRef.current.subCandles.get(candle.time);
+            if ((currentSim.replayTimeframe ?? '1m') !== '1m' && !subCandles && isIntrabarAmbiguous(tradeStateRef.current, currentSim, candle)) {
+                loadSubCandles(candle);
+                nextIndex--;
+                break;
             }
-            
-            if (tradeStateRef.current.isActive) {
-                if ((isLong && candle.low <= currentSim.stopLoss) || (!isLong && candle.high >= currentSim.stopLoss)) {
-                    const finalPnl = ((currentSim.stopLoss - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-                    completeSimulation("SL Hit", finalPnl, nextIndex);
-                    return;
-                }
-                
-                const remainingTps = currentSim.takeProfit.filter(tp => !hitTpLevels.includes(tp));
-                if (remainingTps.length > 0) {
-                    const nextTp = isLong ? Math.min(...remainingTps) : Math.max(...remainingTps);
-                    if ((isLong && candle.high >= nextTp) || (!isLong && candle.low <= nextTp)) {
-                        tradeStateRef.current.hitTpLevels.push(nextTp);
-                        const hitTpIndex = currentSim.takeProfit.indexOf(nextTp) + 1;
-                        const newOutcome = `TP${hitTpIndex} Hit`;
-
-                        if (remainingTps.length === 1) {
-                            const finalPnl = ((nextTp - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-                            completeSimulation(newOutcome, finalPnl, nextIndex);
-                            return;
-                        } else {
-                            setState(prev => ({ ...prev, outcome: newOutcome }));
-                        }
-                    }
-                }
+            const step = stepSimulatedTrade(tradeStateRef.current, currentSim, candle, nextIndex, {
+                policy: currentSim.intrabarPolicy ?? 'pessimistic',
+                subCandles,
+            });
+            if (step.isComplete) {
+                completeSimulation(step.outcome!, tradeStateRef.current.realizedPnl, nextIndex);
+                return;
+            }
+            if (step.outcome) {
+                setState(prev => ({ ...prev, outcome: step.outcome }));
             }
         }
         
@@ -187,7 +193,7 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         setDisplayState(prev => ({...prev, ...newDisplayState}));
         setState(prev => ({ ...prev, candleIndex: nextIndex }));
 
-    }, [completeSimulation, calculateDisplayStateForIndex, stopInterval]);
+    }, [completeSimulation, calculateDisplayStateForIndex, stopInterval, loadSubCandles]);
 
     const liveUpdate = useCallback((candle: CandleStick) => {
         const currentSim = simulationRef.current;
@@ -199,45 +205,22 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
             onResume();
         }
 
-        const { isActive, entryPrice, hitTpLevels } = tradeStateRef.current;
-        const isLong = currentSim.direction === 'LONG';
-
-        if (!isActive) {
-            if ((isLong && candle.low <= currentSim.entryRange[0]) || (!isLong && candle.high >= currentSim.entryRange[0])) {
-                tradeStateRef.current.isActive = true;
-                tradeStateRef.current.entryPrice = currentSim.entryRange[0];
-            }
+        const trade = tradeStateRef.current;
+        const previous = lastLiveCandleRef.current;
+        lastLiveCandleRef.current = candle;
+        const step = stepSimulatedTrade(trade, currentSim, candle, 0, {
+            policy: currentSim.intrabarPolicy ?? 'pessimistic',
+            movement: previous?.time === candle.time ? priceMovementSince(previous, candle) : undefined,
+        });
+        if (step.isComplete) {
+            completeSimulation(step.outcome!, trade.realizedPnl, 0);
+            return;
         }
-
-        if (tradeStateRef.current.isActive) {
-            if ((isLong && candle.low <= currentSim.stopLoss) || (!isLong && candle.high >= currentSim.stopLoss)) {
-                const finalPnl = ((currentSim.stopLoss - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-                completeSimulation("SL Hit", finalPnl, 0);
-                return;
-            }
-
-            const remainingTps = currentSim.takeProfit.filter(tp => !hitTpLevels.includes(tp));
-            if (remainingTps.length > 0) {
-                const nextTp = isLong ? Math.min(...remainingTps) : Math.max(...remainingTps);
-                if ((isLong && candle.high >= nextTp) || (!isLong && candle.low <= nextTp)) {
-                    tradeStateRef.current.hitTpLevels.push(nextTp);
-                    const hitTpIndex = currentSim.takeProfit.indexOf(nextTp) + 1;
-                    const newOutcome = `TP${hitTpIndex} Hit`;
-                    if (remainingTps.length === 1) {
-                        const finalPnl = ((nextTp - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-                        completeSimulation(newOutcome, finalPnl, 0);
-                        return;
-                    } else {
-                        setState(prev => ({ ...prev, outcome: newOutcome }));
-                    }
-                }
-            }
+        if (step.outcome) {
+            setState(prev => ({ ...prev, outcome: step.outcome }));
         }
 
-        let pnl = 0;
-        if (tradeStateRef.current.isActive) {
-            pnl = ((candle.close - entryPrice) / entryPrice) * 100 * currentSim.leverage * (isLong ? 1 : -1);
-        }
+        const pnl = simulatedPnl(trade, currentSim, candle.close);
         const elapsedMs = Date.now() - currentSim.timestamp;
         const elapsedMins = Math.floor(elapsedMs / 60000);
         
@@ -246,6 +229,8 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
             currentCandle: candle,
             pnl,
             elapsedTime: `${elapsedMins}m`,
+            stop: trade.stop,
+            openPercent: trade.openPercent,
         }));
     }, [completeSimulation, onResume]);
 
@@ -272,21 +257,23 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
 
     useEffect(() => {
         stopInterval();
-        tradeStateRef.current = { isActive: false, entryPrice: 0, hitTpLevels: [], entryCandleIndex: -1 };
+        tradeStateRef.current = createSimulatedTrade(simulation);
+        intrabarRef.current = { isFetching: false, subCandles: new Map() };
+        lastLiveCandleRef.current = null;
         
         if (simulation.mode === 'replay' && simulation.historicalData) {
             fullHistoricalData.current = simulation.historicalData;
             setState({ status: 'paused', candleIndex: -1, outcome: null, isPlaying: false, speed: 1 });
             setDisplayState({
                 chartData: simulation.historicalData.slice(0, VISIBLE_CANDLE_COUNT),
-                currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1,
+                currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1, stop: simulation.stopLoss, openPercent: 0,
             });
             if (autoPlay) setTimeout(() => startSimulation(), 100);
 
         } else if (simulation.mode === 'live') {
             setState({ status: 'paused', candleIndex: -1, outcome: null, isPlaying: autoPlay, speed: 1 });
             setDisplayState({
-                chartData: [], currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1,
+                chartData: [], currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1, stop: simulation.stopLoss, openPercent: 0,
             });
             if (autoPlay) onResume();
         }
@@ -299,17 +286,20 @@ export function useSimulation({ simulation, onComplete, onPause, onResume, autoP
         reset: () => {
             if (simulationRef.current.mode === 'live') return;
             stopInterval();
-            tradeStateRef.current = { isActive: false, entryPrice: 0, hitTpLevels: [], entryCandleIndex: -1 };
+            tradeStateRef.current = createSimulatedTrade(simulationRef.current);
             setState({ status: 'paused', isPlaying: false, candleIndex: -1, speed: 1, outcome: null });
             setDisplayState({
                 chartData: fullHistoricalData.current.slice(0, VISIBLE_CANDLE_COUNT),
-                currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1,
+                currentCandle: null, pnl: 0, elapsedTime: '0m', displayIndex: -1, stop: simulationRef.current.stopLoss, openPercent: 0,
             });
         },
         setSpeed: (speed: number) => setState(prev => ({...prev, speed})),
         stop: () => {
             if (stateRef.current.status !== 'completed') {
-                completeSimulation('Stopped', displayState.pnl, state.candleIndex);
+                const candle = simulationRef.current.mode === 'live' ? displayState.currentCandle : fullHistoricalData.current[state.candleIndex];
+                const trade = tradeStateRef.current;
+                if (candle) closeSimulatedTrade(trade, simulationRef.current, 'Stopped', candle.close, candle.time);
+                completeSimulation('Stopped', trade.isActive ? trade.realizedPnl : 0, state.candleIndex);
             }
         },
         scrubTo: (index: number) => {
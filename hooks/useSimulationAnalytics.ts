@@ -1,5 +1,6 @@
 import { useMemo } from 'react';
 import type { SimulationSetup } from '@/types';
+import { outcomesFromSimulations } from '@/services/backtest/robustness';
 
 export function useSimulationAnalytics(simulations: SimulationSetup[]) {
     const stats = useMemo(() => {
@@ -14,6 +15,7 @@ export function useSimulationAnalytics(simulations: SimulationSetup[]) {
                 averagePnlPercent: 0,
                 bestTradePnl: 0,
                 worstTradePnl: 0,
+                outcomes: [],
             };
         }
 
@@ -35,6 +37,7 @@ export function useSimulationAnalytics(simulations: SimulationSetup[]) {
             averagePnlPercent,
             bestTradePnl,
             worstTradePnl,
+            outcomes: outcomesFromSimulations(completedSims), // For Monte Carlo and walk-forward analysis
         };
     }, [simulations]);
 
@@ -0,0 +1,117 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { MarketAlert } from '@/types';
+import { useAlertsStore } from '@/store/alertsStore';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { AlertDialog } from '@/components/ui/AlertDialog';
+import { AlertFormDialog } from '@/components/alerts/AlertFormDialog';
+import { AlertListItem } from '@/components/alerts/AlertListItem';
+import { BellRing, Plus } from 'lucide-react';
+
+const canUseBrowserNotifications = () => typeof window !== 'undefined' && 'Notification' in window;
+
+export default function AlertsPage() {
+    const { alerts, deleteAlert, snoozeAlert, setAlertPaused } = useAlertsStore();
+
+    const [isFormOpen, setIsFormOpen] = useState(false);
+    const [alertToEdit, setAlertToEdit] = useState<MarketAlert | null>(null);
+    const [alertToDelete, setAlertToDelete] = useState<string | null>(null);
+    const [browserPermission, setBrowserPermission] = useState(() => canUseBrowserNotifications() ? window.Notification.permission : 'denied');
+    const [now, setNow] = useState(() => Date.now());
+
+    // Keeps snooze badges current
+    useEffect(() => {
+        const timer = window.setInterval(() => setNow(Date.now()), 30_000);
+        return () => window.clearInterval(timer);
+    }, []);
+
+    const { active, inactive } = useMemo(() => ({
+        active: alerts.filter(alert => alert.status === 'active'),
+        inactive: alerts.filter(alert => alert.status !== 'active'),
+    }), [alerts]);
+
+    const openForm = (alert: MarketAlert | null) => {
+        setAlertToEdit(alert);
+        setIsFormOpen(true);
+    };
+
+    const requestBrowserNotifications = async () => {
+        if (!canUseBrowserNotifications()) return;
+        setBrowserPermission(await window.Notification.requestPermission());
+    };
+
+    const renderList = (list: MarketAlert[]) => (
+        <div className="space-y-3">
+            {list.map(alert => (
+                <AlertListItem
+                    key={alert.id}
+                    alert={alert}
+                    now={now}
+                    onEdit={() => openForm(alert)}
+                    onDelete={() => setAlertToDelete(alert.id)}
+                    onSnooze={(until) => { snoozeAlert(alert.id, until); setNow(Date.now()); }}
+                    onSetPaused={(paused) => setAlertPaused(alert.id, paused)}
+                />
+            ))}
+        </div>
+    );
+
+    return (
+        <div className="space-y-8">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold">Alerts</h1>
+                    <p className="text-gray-400 mt-1">Get notified on price levels, big moves, indicator crosses and signal events.</p>
+                </div>
+                <div className="flex flex-wrap gap-3">
+                    {browserPermission !== 'granted' && canUseBrowserNotifications() && (
+                        <Button variant="outline" onClick={requestBrowserNotifications} disabled={browserPermission === 'denied'}>
+                            {browserPermission === 'denied' ? 'Browser notifications blocked' : 'Enable browser notifications'}
+                        </Button>
+                    )}
+                    <Button onClick={() => openForm(null)}>
+                        <Plus className="w-5 h-5" />
+                        New Alert
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>Active Alerts</CardTitle>
+                    <CardDescription>Watched live in the background, whichever page is open.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {active.length > 0 ? renderList(active) : (
+                        <div className="text-center py-16 border-2 border-dashed border-gray-700 rounded-lg">
+                            <BellRing className="mx-auto h-12 w-12 text-gray-500" />
+                            <h3 className="mt-2 text-lg font-medium text-white">No Active Alerts</h3>
+                            <p className="mt-1 text-sm text-gray-400">
+                                Click "New Alert", or ask the AI Assistant to set a price alert.
+                            </p>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            {inactive.length > 0 && (
+                <Card>
+                    <CardHeader>
+                        <CardTitle>Paused & Triggered</CardTitle>
+                        <CardDescription>Resume or re-arm an alert to watch it again.</CardDescription>
+                    </CardHeader>
+                    <CardContent>{renderList(inactive)}</CardContent>
+                </Card>
+            )}
+
+            <AlertFormDialog isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} alert={alertToEdit} />
+            <AlertDialog
+                isOpen={!!alertToDelete}
+                onClose={() => setAlertToDelete(null)}
+                onConfirm={() => { if (alertToDelete) deleteAlert(alertToDelete); setAlertToDelete(null); }}
+                title="Delete Alert?"
+                description="This alert will stop watching and be removed."
+            />
+        </div>
+    );
+}
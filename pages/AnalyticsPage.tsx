@@ -11,10 +11,11 @@ import { Button } from '@/components/ui/Button';
 import { FormattedReasoning } from '@/components/FormattedReasoning';
 import { analyzeTradingPerformance } from '@/services/geminiService';
 import { ErrorMessage } from '@/components/ErrorMessage';
+import { SignalCalibrationSection } from '@/components/analytics/SignalCalibrationSection';
 
 
 const AnalyticsPage = () => {
-    const { spotTrades, perpTrades } = useHistoryStore();
+    const { spotTrades, perpTrades, signalHistory } = useHistoryStore();
     
     const { perpStats, spotStats, cumulativePnlData, pnlBySymbolData } = useAnalytics(perpTrades, spotTrades);
 
@@ -145,6 +146,8 @@ const AnalyticsPage = () => {
                 </Card>
             </section>
 
+            <SignalCalibrationSection signals={signalHistory} />
+
              <section>
                 <h2 className="text-2xl font-semibold mb-4 border-b border-gray-700 pb-2">Spot Activity</h2>
                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -7,13 +7,14 @@ import { HistoryTable } from '@/components/HistoryTable';
 import { SignalDetailModal } from '@/components/SignalDetailModal';
 import { useSignalGenStore } from '@/store/signalGenStore';
 import { useScalpingStore } from '@/store/scalpingStore';
+import { scalingForExecutionType } from '@/utils/simulationTrade';
 
 export default function HistoryPage() {
   const { setCurrentPage, setToast } = useStore();
   const { signalHistory, setSignalHistory } = useHistoryStore();
   const { setSimulations } = useSimulationStore();
-  const { setFormData: setSignalGenFormData } = useSignalGenStore();
-  const { setFormData: setScalpFormData } = useScalpingStore();
+  const { setFormData: setSignalGenFormData, autoExecutionType: signalGenExecutionType } = useSignalGenStore();
+  const { setFormData: setScalpFormData, autoExecutionType: scalpExecutionType } = useScalpingStore();
 
   const [selectedSignal, setSelectedSignal] = useState<SavedSignal | null>(null);
 
@@ -43,6 +44,9 @@ export default function HistoryPage() {
         endTime: Date.now() + 8 * 60 * 60 * 1000, // 8 hours from now
         mode: 'replay',
         status: 'pending',
+        signalType: signal.type ?? 'Swing',
+        // Manage the position the way the page that produced the signal would execute it
+        scaling: scalingForExecutionType(signal.type === 'Scalp' ? scalpExecutionType : signalGenExecutionType),
     };
     setSimulations(prev => [newSimulation, ...prev]);
     setCurrentPage('simulation');
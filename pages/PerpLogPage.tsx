@@ -2,6 +2,7 @@ import React, { useState, useRef, useEffect } from 'react';
 import { useHistoryStore } from '@/store/historyStore';
 import type { PerpTrade } from '@/types';
 import * as exchangeService from '@/services/exchangeService';
+import { computePerpPnl } from '@/services/perpAccounting';
 import { PerpTradeTable } from '@/components/perp-log/PerpTradeTable';
 import { PerpTradeModal } from '@/components/perp-log/PerpTradeModal';
 import { Button } from '@/components/ui/Button';
@@ -37,12 +38,18 @@ export default function PerpLogPage() {
         setTrades(prev => {
             let pnl, pnlPercentage;
             if (tradeData.status === 'Closed' && tradeData.exitPrice) {
-                const entryValue = tradeData.entryPrice * tradeData.quantity;
-                const exitValue = tradeData.exitPrice * tradeData.quantity;
-                const grossPnl = tradeData.side === 'Long' ? exitValue - entryValue : entryValue - exitValue;
-                pnl = grossPnl - tradeData.fees;
+                const breakdown = computePerpPnl({
+                    side: tradeData.side === 'Long' ? 'LONG' : 'SHORT',
+                    entryPrice: tradeData.entryPrice,
+                    exitPrice: tradeData.exitPrice,
+                    quantity: tradeData.quantity,
+                    margin: tradeData.margin,
+                    fees: tradeData.fees,
+                    funding: tradeData.fundingFees ?? 0,
+                });
+                pnl = breakdown.netPnl;
                 if (tradeData.margin > 0) {
-                    pnlPercentage = (pnl / tradeData.margin) * 100;
+                    pnlPercentage = breakdown.roe;
                 }
             }
 
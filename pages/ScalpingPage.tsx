@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import type { UserParams, Signal, SavedSignal, AiModel, CandleStick, OrderBookUpdate, LiveTrade, LivePosition, PerpTrade, TrackedSignal } from '@/types';
-import { executeBybitTrade, closeBybitPosition, BybitTradeDetails, modifyBybitTrade } from '../services/executionService';
+import type { UserParams, Signal, SavedSignal, AiModel, CandleStick, OrderBookUpdate, LiveTrade, LivePosition, PerpTrade, TrackedSignal, BrokerId } from '@/types';
+import { BybitTradeDetails, getBroker, toOrderRequest } from '../services/executionService';
+import { paperBroker } from '../services/brokers/paperBroker';
+import { useBroker } from '../hooks/useBroker';
 import { useExchangeWebSocket } from '../hooks/useExchangeWebSocket';
 import { useSignalHitDetection } from '../hooks/useSignalHitDetection';
+import { useAutopilotEngine } from '../hooks/useAutopilotEngine';
 import { AI_MODELS } from '../constants';
 import { playSound } from '../utils/audio';
 import { useStore } from '../store';
@@ -12,10 +15,11 @@ import { useChartDataQuery } from '../hooks/useChartDataQuery';
 import { useHistoryStore } from '../store/historyStore';
 import { ScalpingLayout } from '@/components/scalping/ScalpingLayout';
 import { chartConnectionManager } from '@/services/chartConnectionManager';
+import { PaperMarketFeeds } from '@/components/scalping/PaperMarketFeeds';
+import { AutopilotPriceFeed } from '@/components/scalping/AutopilotPriceFeed';
+import { mergeOrderBook } from '@/utils/orderBook';
 
 interface ScalpingPageProps {
-  bybitApiKey: string;
-  bybitApiSecret: string;
   controller: {
       generationState: any; // Simplified for this context
       setGenerationState: (updates: Partial<any>) => void;
@@ -28,12 +32,11 @@ interface ScalpingPageProps {
 
 const MAX_CHART_CANDLES = 1440;
 const MAX_LIVE_TRADES = 20;
+const POSITION_SYNC_INTERVAL_MS = 15_000;
 
 const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 6 });
 
 export default function ScalpingPage({
-  bybitApiKey,
-  bybitApiSecret,
   controller,
   onShareSignalAsPost,
 }: ScalpingPageProps) {
@@ -41,20 +44,25 @@ export default function ScalpingPage({
   const { generationState, setGenerationState, generate, cancel, audioAlertsEnabled } = controller;
   const { signalHistory, setSignalHistory } = useHistoryStore();
   const scalpingStore = useScalpingStore();
-
-  const simulationIntervalRef = useRef<number | null>(null);
+  const { broker, brokerId, credentialsMissing } = useBroker();
 
   const {
     formData, setFormData, setLivePositions, setPerpTrades, setActivePositionIds,
     setTrackedSignals, setIsCurrentSignalExecuted, isSignalEntered, setIsSignalEntered,
-    setActiveAutopilotPositionId, setAutopilotSessionStats, setAutopilotState,
+    clearAutopilotSessionLog, activeAutopilotPositionId,
     setSelectedSignal, setIsModalOpen, setIsNewSignal,
-    livePositions, activePositionIds, trackedSignals, activeAutopilotPositionId,
+    livePositions, activePositionIds, trackedSignals,
     setIsControlsOpen,
     oneClickTradingEnabled, setOneClickTradingEnabled, // One-click trading state
-    autopilotState, autopilotSettings, autoExecutionThreshold,
   } = scalpingStore;
 
+  // The engine calls back into handlers declared further down, after this render has finished
+  const autopilot = useAutopilotEngine({
+    openPosition: (symbol, autopilotSignal, margin, price) => openAutopilotPosition(symbol, autopilotSignal, margin, price),
+    closePosition: async (position) => { await handleClosePosition(position); },
+  });
+  const autopilotSymbol = livePositions.find(position => position.id === activeAutopilotPositionId)?.symbol;
+
   const { data: symbols = [] } = useSymbolsQuery(formData.exchange);
 
   const { data: initialChartData, isLoading: isChartLoadingInitial } = useChartDataQuery(formData.exchange, formData.symbol);
@@ -80,6 +88,8 @@ export default function ScalpingPage({
   }, [formData.symbol, formData.exchange]);
 
   const livePrice = chartData.length > 0 ? chartData[chartData.length - 1].close : null;
+  const livePriceRef = useRef(livePrice);
+  livePriceRef.current = livePrice;
 
   const klineWebSocket = useExchangeWebSocket({
     exchange: formData.exchange || 'binance',
@@ -87,6 +97,10 @@ export default function ScalpingPage({
     type: 'kline',
     interval: '1m',
     onMessage: (candle) => {
+      if (formData.symbol) {
+        paperBroker.onPrice(formData.symbol, candle.close);
+        autopilot.onPrice(formData.symbol, candle.close);
+      }
       setChartData(prevData => {
         const lastCandle = prevData[prevData.length - 1];
         if (lastCandle && candle.time === lastCandle.time) {
@@ -107,10 +121,14 @@ export default function ScalpingPage({
     symbol: formData.symbol || 'BTCUSDT',
     type: 'depth',
     onMessage: (data) => {
-      if (data && 'bids' in data && 'asks' in data) setOrderBookData(data as OrderBookUpdate);
+      if (data && 'bids' in data && 'asks' in data) {
+        setOrderBookData(prev => mergeOrderBook(prev, data as OrderBookUpdate));
+        if (formData.symbol) paperBroker.onOrderBook(formData.symbol, data as OrderBookUpdate);
+      }
     },
     onConnectionError: (message) => setToast({ message, variant: 'warning' }),
-    enabled: !!formData.symbol && !!formData.exchange && scalpingStore.windowsState.orderBook.isOpen,
+    // The paper broker fills against the live book, so keep it streaming while paper trading
+    enabled: !!formData.symbol && !!formData.exchange && (scalpingStore.windowsState.orderBook.isOpen || brokerId === 'paper'),
   });
 
   const tradeWebSocket = useExchangeWebSocket({
@@ -119,10 +137,11 @@ export default function ScalpingPage({
     type: 'trade',
     onMessage: (trade) => {
       const newTrades = Array.isArray(trade) ? trade : [trade];
+      if (formData.symbol) newTrades.forEach(t => paperBroker.onTrade(formData.symbol!, t));
       setLiveTrades(prev => [...newTrades, ...prev].slice(0, MAX_LIVE_TRADES));
     },
     onConnectionError: (message) => setToast({ message, variant: 'warning' }),
-    enabled: !!formData.symbol && !!formData.exchange && scalpingStore.windowsState.timeAndSales.isOpen,
+    enabled: !!formData.symbol && !!formData.exchange && (scalpingStore.windowsState.timeAndSales.isOpen || brokerId === 'paper'),
   });
 
   // Manage WebSocket lifecycle with chart connection manager
@@ -192,56 +211,118 @@ export default function ScalpingPage({
     currentSymbol: formData.symbol, isSignalEntered, setIsSignalEntered, setToast,
   });
 
+  // Books a closed position into the perp log and the autopilot session
+  const recordClosedPosition = useCallback((position: LivePosition, exitPrice: number, fees: number, notes: string) => {
+    const pnl = (exitPrice - position.entryPrice) * position.quantity * (position.side === 'Long' ? 1 : -1);
+    const pnlPercentage = position.margin > 0 ? (pnl / position.margin) * 100 : 0;
+    setPerpTrades(prev => [{
+      id: position.id, symbol: position.symbol, side: position.side, status: 'Closed', entryDate: position.entryDate, exitDate: Date.now(), entryPrice: position.entryPrice,
+      exitPrice, quantity: position.quantity, margin: position.margin, leverage: position.leverage, pnl, pnlPercentage, fees, notes
+    }, ...prev]);
+    setLivePositions(prev => prev.filter(p => p.id !== position.id));
+    setActivePositionIds(prev => prev.filter(id => id !== position.id));
+
+    autopilot.onPositionClosed(position.id, pnl, exitPrice);
+    return { pnl, pnlPercentage };
+  }, [setLivePositions, setPerpTrades, setActivePositionIds, autopilot]);
+
   const handleClosePosition = useCallback(async (position: LivePosition, exitPriceOverride?: number) => {
-    const exitPrice = exitPriceOverride ?? livePrice;
-    if (exitPrice === null) { setToast({ message: 'Error: Cannot close position, exit price unavailable.', variant: 'error' }); throw new Error('Live price unavailable'); }
     try {
-      // await closeBybitPosition(position.symbol, String(position.quantity), position.side === 'Long' ? 'Sell' : 'Buy'); // MOCK
-      const pnl = (exitPrice - position.entryPrice) * position.quantity * (position.side === 'Long' ? 1 : -1);
-      const pnlPercentage = position.margin > 0 ? (pnl / position.margin) * 100 : 0;
-      setPerpTrades(prev => [{
-        id: position.id, symbol: position.symbol, side: position.side, status: 'Closed', entryDate: position.entryDate, exitDate: Date.now(), entryPrice: position.entryPrice,
-        exitPrice, quantity: position.quantity, margin: position.margin, leverage: position.leverage, pnl, pnlPercentage, fees: 0, notes: exitPriceOverride ? 'Closed by SL/TP.' : 'Closed manually.'
-      }, ...prev]);
-      setLivePositions(prev => prev.filter(p => p.id !== position.id));
-      setActivePositionIds(prev => prev.filter(id => id !== position.id));
-
-      if (position.id === activeAutopilotPositionId) {
-        setActiveAutopilotPositionId(null);
-        setAutopilotSessionStats(prev => {
-            const newCapital = prev.currentCapital + pnl; const newPnl = prev.pnl + pnl;
-            const pnlPercentOfInitial = newPnl / prev.initialCapital * 100;
-            const newDrawdown = Math.min(prev.drawdown, pnlPercentOfInitial);
-            return { ...prev, currentCapital: newCapital, pnl: newPnl, tradesExecuted: prev.tradesExecuted + 1, drawdown: newDrawdown, statusMessage: 'Position closed. Cooling down...' };
-        });
-        if(scalpingStore.autopilotState === 'monitoring') setAutopilotState('cooldown');
+      let exitPrice = exitPriceOverride ?? livePrice;
+      let fees = 0;
+      if (position.broker && exitPriceOverride === undefined) {
+        const order = await getBroker(position.broker).closePosition(position.symbol);
+        if (order?.status === 'Rejected') throw new Error(order.rejectReason || 'Close order rejected');
+        exitPrice = order?.avgFillPrice ?? exitPrice;
+        fees = order?.fee ?? 0;
       }
-      return { pnl, pnlPercentage };
+      if (exitPrice === null) throw new Error('Live price unavailable');
+      return recordClosedPosition(position, exitPrice, fees, exitPriceOverride ? 'Closed by SL/TP.' : 'Closed manually.');
     } catch (error: any) {
       setToast({ message: `Error closing position: ${error.message}`, variant: 'error' });
-      if (position.id === activeAutopilotPositionId) setAutopilotState('stopped');
       throw error;
     }
-  }, [livePrice, setLivePositions, setPerpTrades, activeAutopilotPositionId, setActiveAutopilotPositionId, setActivePositionIds, setAutopilotSessionStats, setAutopilotState, setToast, scalpingStore.autopilotState]);
+  }, [livePrice, recordClosedPosition, setToast]);
+
+  // Paper positions close themselves when their take profit or stop loss triggers
+  useEffect(() => {
+    return paperBroker.subscribe(event => {
+      if (event.type !== 'positionClosed') return;
+      const closed = useScalpingStore.getState().livePositions.filter(p => p.broker === 'paper' && p.symbol === event.symbol);
+      const isTakeProfit = event.reason === 'TakeProfit';
+      closed.forEach(position => {
+        const { pnl } = recordClosedPosition(position, event.exitPrice, event.fee, isTakeProfit ? 'Closed by TP.' : 'Closed by SL.');
+        setToast({ message: `${position.symbol} ${isTakeProfit ? 'take profit' : 'stop loss'} hit. P/L: ${pnl.toFixed(2)}`, variant: pnl >= 0 ? 'success' : 'warning' });
+      });
+    });
+  }, [recordClosedPosition, setToast]);
+
+  // Live brokers cannot push events, so poll them for positions that were closed on the exchange (TP/SL, liquidation)
+  const polledBrokerIds = useMemo(() => [...new Set(livePositions.map(p => p.broker))]
+    .filter((id): id is BrokerId => !!id && !getBroker(id).subscribe), [livePositions]);
+
+  useEffect(() => {
+    if (polledBrokerIds.length === 0) return;
+    const syncPositions = async () => {
+      for (const id of polledBrokerIds) {
+        const remote = getBroker(id);
+        try {
+          const openSymbols = new Set((await remote.getPositions()).map(p => p.symbol));
+          const gone = useScalpingStore.getState().livePositions.filter(p => p.broker === id && !openSymbols.has(p.symbol));
+          for (const position of gone) {
+            const pending = await remote.getOpenOrders(position.symbol);
+            if (pending.some(o => o.id === position.id)) continue; // Entry order not filled yet
+            const [lastFill] = await remote.getFills(position.symbol, 1);
+            recordClosedPosition(position, lastFill?.price ?? livePriceRef.current ?? position.entryPrice, lastFill?.fee ?? 0, 'Closed on the exchange.');
+          }
+        } catch (error) {
+          console.warn(`Could not sync ${remote.displayName} positions:`, error);
+        }
+      }
+    };
+    const timer = window.setInterval(syncPositions, POSITION_SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [polledBrokerIds, recordClosedPosition]);
+
+  // Places the order with the selected broker and tracks the resulting position
+  const openBrokerPosition = useCallback(async (tradeDetails: BybitTradeDetails, execSignal: Signal, margin: number): Promise<LivePosition> => {
+    if (credentialsMissing) throw new Error(`${broker.displayName} API keys are not set in Settings.`);
+    const order = await broker.placeOrder(toOrderRequest(tradeDetails, execSignal.leverage));
+    if (order.status === 'Rejected') throw new Error(order.rejectReason || 'Order rejected');
+    const newPosition: LivePosition = {
+      id: order.id, symbol: tradeDetails.symbol, side: tradeDetails.side === 'Buy' ? 'Long' : 'Short', entryPrice: order.avgFillPrice ?? order.price ?? execSignal.entryRange[0],
+      quantity: order.qty, margin, leverage: (execSignal.leverage || 0),
+      entryDate: Date.now(), takeProfit: execSignal.takeProfit[0], stopLoss: execSignal.stopLoss, broker: brokerId,
+    };
+    setLivePositions(prev => [...prev, newPosition]);
+    return newPosition;
+  }, [broker, brokerId, credentialsMissing, setLivePositions]);
 
   const handleExecuteTrade = useCallback(async (tradeDetails: BybitTradeDetails, execSignal: Signal, execParams: UserParams): Promise<LivePosition> => {
-    if (!bybitApiKey || !bybitApiSecret) {
-      const msg = 'Error: Bybit API keys are not set in Settings.';
-      setToast({ message: msg, variant: 'error' }); throw new Error(msg);
-    }
-    setToast({ message: 'Sending order to backend...', variant: 'success' });
+    setToast({ message: `Sending order to ${broker.displayName}...`, variant: 'success' });
     try {
-      const result = await executeBybitTrade(tradeDetails);
-      const newPosition: LivePosition = {
-        id: result.result.orderId, symbol: tradeDetails.symbol, side: tradeDetails.side === 'Buy' ? 'Long' : 'Short', entryPrice: execSignal.entryRange[0],
-        quantity: parseFloat(tradeDetails.qty), margin: (execParams.margin || 0), leverage: (execSignal.leverage || 0),
-        entryDate: Date.now(), takeProfit: execSignal.takeProfit[0], stopLoss: execSignal.stopLoss,
-      };
-      setLivePositions(prev => [...prev, newPosition]);
+      const newPosition = await openBrokerPosition(tradeDetails, execSignal, execParams.margin || 0);
       setIsCurrentSignalExecuted(true);
       return newPosition;
     } catch (error: any) { setToast({ message: `Error executing trade: ${error.message}`, variant: 'error' }); throw error; }
-  }, [bybitApiKey, bybitApiSecret, setLivePositions, setIsCurrentSignalExecuted, setToast]);
+  }, [broker, openBrokerPosition, setIsCurrentSignalExecuted, setToast]);
+
+  // Autopilot entries are market orders sized from the session's trade size and the signal's leverage
+  const openAutopilotPosition = useCallback(async (symbol: string, autopilotSignal: Signal, margin: number, price: number) => {
+    const leverage = autopilotSignal.leverage || 1;
+    const position = await openBrokerPosition({
+      symbol,
+      side: autopilotSignal.direction === 'LONG' ? 'Buy' : 'Sell',
+      orderType: 'Market',
+      qty: String(Number((margin * leverage / price).toPrecision(6))),
+      takeProfit: autopilotSignal.takeProfit[0]?.toString(),
+      stopLoss: autopilotSignal.stopLoss.toString(),
+    }, { ...autopilotSignal, leverage }, margin);
+    // Follow the traded symbol; AutopilotPriceFeed keeps the engine priced if the user switches away
+    if (symbol !== formData.symbol) setFormData(prev => ({ ...prev, symbol }));
+    setToast({ message: `Autopilot opened ${position.side} ${symbol} at ${position.entryPrice}.`, variant: 'success' });
+    return position;
+  }, [openBrokerPosition, formData.symbol, setFormData, setToast]);
 
   const handleManualClose = useCallback(async (position: LivePosition) => {
       const result = await handleClosePosition(position);
@@ -251,105 +332,32 @@ export default function ScalpingPage({
   const handleModifyPosition = useCallback(async (positionId: string, newTp?: number, newSl?: number) => {
     const position = livePositions.find(p => p.id === positionId);
     if (!position) { setToast({ message: 'Position not found.', variant: 'error' }); return; }
-    await modifyBybitTrade(position.id, position.symbol, newTp?.toString(), newSl?.toString());
+    if (position.broker) {
+      try {
+        await getBroker(position.broker).setPositionProtection(position.symbol, { takeProfit: newTp, stopLoss: newSl });
+      } catch (error: any) {
+        setToast({ message: `Error updating position: ${error.message}`, variant: 'error' });
+        return;
+      }
+    }
     setLivePositions(prev => prev.map(p => p.id === positionId ? { ...p, takeProfit: newTp, stopLoss: newSl } : p));
     setToast({ message: 'Position updated!', variant: 'success' });
   }, [livePositions, setLivePositions, setToast]);
   
-  // --- AUTOPILOT SIMULATION LOGIC ---
-  const clearSimulationTimers = useCallback(() => {
-    if (simulationIntervalRef.current) {
-        clearTimeout(simulationIntervalRef.current);
-        simulationIntervalRef.current = null;
-    }
-  }, []);
-
   const handleToggleAutopilot = useCallback(() => {
-    if (autopilotState === 'inactive' || autopilotState === 'stopped') {
-        setAutopilotSessionStats(() => ({
-            initialCapital: autopilotSettings.sessionCapital,
-            currentCapital: autopilotSettings.sessionCapital,
-            startTime: Date.now(),
-            pnl: 0, tradesExecuted: 0, drawdown: 0,
-            statusMessage: 'Starting...'
-        }));
-        setAutopilotState('searching');
-        setToast({ message: "Autopilot session started!", variant: 'success' });
-    } else {
-        setAutopilotState('stopped');
-        setAutopilotSessionStats(prev => ({ ...prev, statusMessage: 'Session stopped by user.' }));
-        clearSimulationTimers();
+    if (autopilot.isRunning) {
+        autopilot.stop();
         setToast({ message: "Autopilot session stopped.", variant: 'warning' });
+        return;
     }
-  }, [autopilotState, autopilotSettings.sessionCapital, setAutopilotState, setAutopilotSessionStats, clearSimulationTimers, setToast]);
-  
-  useEffect(() => {
-    const runSimulationStep = () => {
-        if (simulationIntervalRef.current) clearTimeout(simulationIntervalRef.current);
-        const { tradesExecuted, drawdown } = scalpingStore.autopilotSessionStats;
-        const { maxTrades, maxSessionDrawdown } = autopilotSettings;
-        if (tradesExecuted >= maxTrades || Math.abs(drawdown) >= maxSessionDrawdown) {
-            setAutopilotState('stopped');
-            setAutopilotSessionStats(prev => ({ ...prev, statusMessage: 'Session ended due to limits.' }));
-            return;
-        }
-
-        switch (scalpingStore.autopilotState) {
-            case 'searching':
-                setAutopilotSessionStats(prev => ({ ...prev, statusMessage: `Scanning ${formData.symbol}...` }));
-                simulationIntervalRef.current = window.setTimeout(() => {
-                    const mockConfidence = 70 + Math.random() * 25; // Random confidence between 70-95%
-                    if (mockConfidence >= autoExecutionThreshold) {
-                        const isLong = Math.random() > 0.5;
-                        const entry = livePrice ?? 0;
-                        const slDistance = entry * 0.002; // 0.2% SL
-                        const tpDistance = slDistance * 1.5; // 1.5 R:R
-                        const mockSignal: Signal = {
-                            direction: isLong ? 'LONG' : 'SHORT', entryRange: [entry, entry], stopLoss: isLong ? entry - slDistance : entry + slDistance,
-                            takeProfit: [isLong ? entry + tpDistance : entry - tpDistance], confidence: mockConfidence, rrRatio: 1.5, leverage: 20,
-                            tradeDuration: '1m-5m', reasoning: 'Autopilot simulated signal.',
-                        };
-                        const positionSize = autopilotSettings.tradeSizeMode === 'fixed' ? autopilotSettings.tradeSizeValue : scalpingStore.autopilotSessionStats.currentCapital * (autopilotSettings.tradeSizeValue / 100);
-                        const mockPosition: LivePosition = {
-                            id: `sim_${Date.now()}`, symbol: formData.symbol!, side: isLong ? 'Long' : 'Short', entryPrice: entry, quantity: entry > 0 ? positionSize / entry : 0,
-                            margin: positionSize, leverage: 20, entryDate: Date.now(), takeProfit: mockSignal.takeProfit[0], stopLoss: mockSignal.stopLoss,
-                        };
-                        setLivePositions(prev => [...prev, mockPosition]);
-                        setActiveAutopilotPositionId(mockPosition.id);
-                        setAutopilotState('monitoring');
-                    } else {
-                        // Loop back to searching
-                        runSimulationStep();
-                    }
-                }, 2000 + Math.random() * 3000); // Scan for 2-5 seconds
-                break;
-
-            case 'monitoring':
-                setAutopilotSessionStats(prev => ({ ...prev, statusMessage: 'Monitoring position...' }));
-                simulationIntervalRef.current = window.setTimeout(() => {
-                    const activePosition = scalpingStore.livePositions.find(p => p.id === scalpingStore.activeAutopilotPositionId);
-                    if (activePosition) {
-                        const isWin = Math.random() > 0.4; // 60% win rate
-                        const exitPrice = isWin ? activePosition.takeProfit! : activePosition.stopLoss!;
-                        handleClosePosition(activePosition, exitPrice);
-                    }
-                }, 5000 + Math.random() * 5000); // Monitor for 5-10 seconds
-                break;
-
-            case 'cooldown':
-                simulationIntervalRef.current = window.setTimeout(() => {
-                    setAutopilotState('searching');
-                }, autopilotSettings.cooldownMinutes * 60 * 1000);
-                break;
-        }
-    };
-
-    if (autopilotState !== 'inactive' && autopilotState !== 'stopped') {
-        runSimulationStep();
+    if (credentialsMissing) {
+        setToast({ message: `Error: ${broker.displayName} API keys are not set in Settings.`, variant: 'error' });
+        return;
     }
-    
-    return () => clearSimulationTimers();
-  }, [autopilotState, livePrice]);
+    clearAutopilotSessionLog();
+    autopilot.start();
+    setToast({ message: "Autopilot session started!", variant: 'success' });
+  }, [autopilot, broker, credentialsMissing, clearAutopilotSessionLog, setToast]);
 
   const handleSubmit = (params: UserParams, model: AiModel) => {
     setIsSignalEntered(false);
@@ -387,54 +395,58 @@ export default function ScalpingPage({
   const displaySignal = signal && currentParams && generationTimestamp ? { ...signal, symbol: currentParams.symbol, currentPrice: livePrice || generationState.currentPrice, timestamp: generationTimestamp, lastDataTimestamp: lastDataTimestamp ?? undefined, type: 'Scalp' as const, } : null;
 
   return (
-    <ScalpingLayout
-      {...scalpingStore}
-      setToast={setToast}
-      symbols={symbols}
-      isAnalyzing={isAnalyzing}
-      chartData={chartData}
-      livePrice={livePrice}
-      isChartLoading={isChartLoading}
-      signal={signal}
-      currentParams={currentParams}
-      hitTpPricesForChart={hitTpPricesForChart}
-      displaySignal={displaySignal}
-      liveTrades={liveTrades}
-      orderBookData={orderBookData}
-      signalHistory={signalHistory}
+    <>
+      <PaperMarketFeeds exchange={formData.exchange || 'binance'} currentSymbol={brokerId === 'paper' ? formData.symbol : undefined} />
+      {autopilotSymbol && autopilotSymbol !== formData.symbol && (
+        <AutopilotPriceFeed engine={autopilot} exchange={formData.exchange || 'binance'} symbol={autopilotSymbol} />
+      )}
+      <ScalpingLayout
+        {...scalpingStore}
+        setToast={setToast}
+        symbols={symbols}
+        isAnalyzing={isAnalyzing}
+        chartData={chartData}
+        livePrice={livePrice}
+        isChartLoading={isChartLoading}
+        signal={signal}
+        currentParams={currentParams}
+        hitTpPricesForChart={hitTpPricesForChart}
+        displaySignal={displaySignal}
+        liveTrades={liveTrades}
+        orderBookData={orderBookData}
+        signalHistory={signalHistory}
       
-      // Handlers
-      handleSubmit={handleSubmit}
-      handleCancel={cancel}
-      handleExecuteTrade={handleExecuteTrade}
-      handleManualClose={handleManualClose}
-      handleModifyPosition={handleModifyPosition}
-      handleUpdateSignal={(updates) => {
-        if (!generationState.signal) return;
-        const newSignal = { ...generationState.signal, ...updates };
-        setGenerationState({ signal: newSignal });
-        setSignalHistory(prev => prev.map(s => s.timestamp === generationTimestamp ? { ...s, ...newSignal } : s));
-      }}
-      handleSignalExpire={() => {
-        if (generationState.signal) setGenerationState({ signal: null, currentParams: null });
-      }}
-      handleShare={handleShare}
-      handleHistoryDelete={(id) => setSignalHistory(prev => prev.filter(s => s.id !== id))}
-      handleHistoryUpdateStatus={(id, status) => setSignalHistory(prev => prev.map(s => (s.id === id ? { ...s, status } : s)))}
-      handleRestoreFromHistory={(sig) => {
-        setFormData(prev => ({ ...prev, symbol: sig.symbol, timeframe: sig.timeframe }));
-        setGenerationState({ signal: sig, currentParams: { ...formData, symbol: sig.symbol, timeframe: sig.timeframe } as UserParams, generationTimestamp: sig.timestamp });
-      }}
-      handleSelectFavorite={handleSelectFavorite}
-      handleGenerateForFavorite={handleGenerateForFavorite}
-      handleCloseTracker={(id) => setTrackedSignals(prev => prev.filter(ts => ts.id !== id))}
-      handleToggleMinimizeTracker={(id) => setTrackedSignals(prev => prev.map(ts => ts.id === id ? { ...ts, windowState: { ...ts.windowState, isMinimized: !ts.windowState.isMinimized } } : ts))}
-      handleTrackerPositionChange={(id, pos) => setTrackedSignals(prev => prev.map(ts => ts.id === id ? { ...ts, windowState: { ...ts.windowState, position: pos } } : ts))}
-      handleRestoreSignal={handleRestoreSignal}
-      onToggleAutopilot={handleToggleAutopilot}
-      bybitApiKey={bybitApiKey}
-      bybitApiSecret={bybitApiSecret}
-      handleHistoryViewDetails={(sig) => { setSelectedSignal(sig); setIsModalOpen(true); }}
-    />
+        // Handlers
+        handleSubmit={handleSubmit}
+        handleCancel={cancel}
+        handleExecuteTrade={handleExecuteTrade}
+        handleManualClose={handleManualClose}
+        handleModifyPosition={handleModifyPosition}
+        handleUpdateSignal={(updates) => {
+          if (!generationState.signal) return;
+          const newSignal = { ...generationState.signal, ...updates };
+          setGenerationState({ signal: newSignal });
+          setSignalHistory(prev => prev.map(s => s.timestamp === generationTimestamp ? { ...s, ...newSignal } : s));
+        }}
+        handleSignalExpire={() => {
+          if (generationState.signal) setGenerationState({ signal: null, currentParams: null });
+        }}
+        handleShare={handleShare}
+        handleHistoryDelete={(id) => setSignalHistory(prev => prev.filter(s => s.id !== id))}
+        handleHistoryUpdateStatus={(id, status) => setSignalHistory(prev => prev.map(s => (s.id === id ? { ...s, status } : s)))}
+        handleRestoreFromHistory={(sig) => {
+          setFormData(prev => ({ ...prev, symbol: sig.symbol, timeframe: sig.timeframe }));
+          setGenerationState({ signal: sig, currentParams: { ...formData, symbol: sig.symbol, timeframe: sig.timeframe } as UserParams, generationTimestamp: sig.timestamp });
+        }}
+        handleSelectFavorite={handleSelectFavorite}
+        handleGenerateForFavorite={handleGenerateForFavorite}
+        handleCloseTracker={(id) => setTrackedSignals(prev => prev.filter(ts => ts.id !== id))}
+        handleToggleMinimizeTracker={(id) => setTrackedSignals(prev => prev.map(ts => ts.id === id ? { ...ts, windowState: { ...ts.windowState, isMinimized: !ts.windowState.isMinimized } } : ts))}
+        handleTrackerPositionChange={(id, pos) => setTrackedSignals(prev => prev.map(ts => ts.id === id ? { ...ts, windowState: { ...ts.windowState, position: pos } } : ts))}
+        handleRestoreSignal={handleRestoreSignal}
+        onToggleAutopilot={handleToggleAutopilot}
+        handleHistoryViewDetails={(sig) => { setSelectedSignal(sig); setIsModalOpen(true); }}
+      />
+    </>
   );
 }
\ No newline at end of file
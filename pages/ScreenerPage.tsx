@@ -1,8 +1,10 @@
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import type { UserParams } from '@/types';
+import type { UserParams, ScreenerMode } from '@/types';
 import { useStore } from '@/store';
 import { useScreenerStore } from '@/store/screenerStore';
+import { useSignalGenStore } from '@/store/signalGenStore';
 import { runMarketScreener } from '@/services/geminiService';
+import { runRuleScreen } from '@/services/screenerService';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
 import { Textarea } from '@/components/ui/Textarea';
 import { Input } from '@/components/ui/Input';
@@ -19,6 +21,12 @@ import { Trash2Icon } from '@/components/icons/Trash2Icon';
 import { MoreHorizontalIcon } from '@/components/icons/MoreHorizontalIcon';
 import { DropdownMenu, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuContent } from '@/components/ui/DropdownMenu';
 import { SearchIcon } from '@/components/icons/SearchIcon';
+import { FilterIcon } from '@/components/icons/FilterIcon';
+import { ScreenerResultMetrics } from '@/components/screener/ScreenerResultMetrics';
+import { RuleQueryPanel } from '@/components/screener/RuleQueryPanel';
+import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/Tabs';
+import { Badge } from '@/components/ui/Badge';
+import { Progress } from '@/components/ui/Progress';
 
 const exampleQueries = [
     "Find trending assets that are currently overbought on the 4-hour RSI.",
@@ -40,9 +48,12 @@ interface ScreenerPageProps {
 
 export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: ScreenerPageProps) {
     const { setCurrentPage } = useStore();
-    const { runs, startScan, completeScan, failScan, deleteScan, clearHistory } = useScreenerStore();
+    const { runs, savedQueries, startScan, updateProgress, completeScan, failScan, deleteScan, clearHistory, saveQuery, deleteSavedQuery } = useScreenerStore();
+    const exchange = useSignalGenStore(state => state.formData.exchange) ?? 'binance';
 
+    const [mode, setMode] = useState<ScreenerMode>('ai');
     const [query, setQuery] = useState('');
+    const [ruleQuery, setRuleQuery] = useState('');
     const [isScanning, setIsScanning] = useState(false);
     const [localError, setLocalError] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState('');
@@ -81,9 +92,9 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
         }
         setIsScanning(true);
         setLocalError(null);
-        const runId = startScan(query);
+        const runId = startScan(query, exchange);
         try {
-            const scanResults = await runMarketScreener(query);
+            const scanResults = await runMarketScreener(query, exchange);
             completeScan(runId, scanResults);
         } catch (err: any) {
             failScan(runId, err.message || "An unknown error occurred during the scan.");
@@ -91,7 +102,24 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
             setIsScanning(false);
             setQuery('');
         }
-    }, [query, startScan, completeScan, failScan]);
+    }, [query, exchange, startScan, completeScan, failScan]);
+
+    const handleRuleScan = useCallback(async () => {
+        if (!ruleQuery.trim()) return;
+        setIsScanning(true);
+        setLocalError(null);
+        const runId = startScan(ruleQuery, exchange, 'rule');
+        try {
+            const scanResults = await runRuleScreen(ruleQuery, exchange, {
+                onProgress: (done, total) => updateProgress(runId, done, total),
+            });
+            completeScan(runId, scanResults);
+        } catch (err: any) {
+            failScan(runId, err.message || "An unknown error occurred during the scan.");
+        } finally {
+            setIsScanning(false);
+        }
+    }, [ruleQuery, exchange, startScan, updateProgress, completeScan, failScan]);
 
     const handleAnalyzeClick = (symbol: string, page: 'signal-gen' | 'scalping') => {
         setAnalyzingSymbol(symbol);
@@ -116,11 +144,17 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
         <div className="space-y-8 max-w-5xl mx-auto">
             <div>
                 <h1 className="text-3xl font-bold">AI Market Screener</h1>
-                <p className="text-gray-400 mt-1">Ask Gemini to find trading opportunities across the market in plain English.</p>
+                <p className="text-gray-400 mt-1">Ask Gemini to find trading opportunities across the market in plain English, or screen every {exchange} symbol with exact rules. Every scan is run against live {exchange} candles and indicators.</p>
             </div>
 
             <Card className="bg-gray-800/60">
                 <CardContent className="pt-6">
+                  <Tabs value={mode} onValueChange={(value) => setMode(value as ScreenerMode)} className="space-y-4">
+                    <TabsList>
+                        <TabsTrigger value="ai" disabled={isScanning}><ScanLineIcon className="w-4 h-4 mr-2" /> AI Query</TabsTrigger>
+                        <TabsTrigger value="rule" disabled={isScanning}><FilterIcon className="w-4 h-4 mr-2" /> Rules</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="ai">
                     <div className="relative">
                         <Textarea 
                             value={query}
@@ -156,6 +190,20 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
                             </div>
                         </div>
                     </div>
+                    </TabsContent>
+                    <TabsContent value="rule">
+                        <RuleQueryPanel
+                            query={ruleQuery}
+                            onQueryChange={setRuleQuery}
+                            onRun={handleRuleScan}
+                            onSave={() => saveQuery(ruleQuery)}
+                            savedQueries={savedQueries}
+                            onDeleteSaved={deleteSavedQuery}
+                            isScanning={isScanning}
+                        />
+                        {localError && <div className="mt-4"><ErrorMessage message={localError} onClose={() => setLocalError(null)} /></div>}
+                    </TabsContent>
+                  </Tabs>
                 </CardContent>
             </Card>
 
@@ -180,8 +228,8 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
                         <Card key={run.id}>
                             <CardHeader className="flex flex-row justify-between items-start">
                                 <div>
-                                    <p className="font-semibold text-gray-300">"{run.query}"</p>
-                                    <p className="text-xs text-gray-500 mt-1">{formatDistanceToNow(run.timestamp)}</p>
+                                    <p className={`font-semibold text-gray-300 ${run.mode === 'rule' ? 'font-mono' : ''}`}>"{run.query}"</p>
+                                    <p className="text-xs text-gray-500 mt-1">{run.mode === 'rule' ? 'Rules' : 'AI'} · {formatDistanceToNow(run.timestamp)}</p>
                                 </div>
                                 <DropdownMenu>
                                     <DropdownMenuTrigger asChild>
@@ -198,9 +246,14 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
                             </CardHeader>
                             <CardContent>
                                 {run.isLoading ? (
-                                    <div className="flex items-center justify-center text-center py-10">
-                                        <Loader2Icon className="w-8 h-8 animate-spin text-cyan-400" />
-                                        <p className="ml-4 text-md font-semibold text-gray-300">Scanning...</p>
+                                    <div className="py-10 space-y-4">
+                                        <div className="flex items-center justify-center text-center">
+                                            <Loader2Icon className="w-8 h-8 animate-spin text-cyan-400" />
+                                            <p className="ml-4 text-md font-semibold text-gray-300">
+                                                {run.progress ? `Scanning ${run.progress.done} / ${run.progress.total} symbols...` : 'Scanning...'}
+                                            </p>
+                                        </div>
+                                        {run.progress && <Progress value={(run.progress.done / run.progress.total) * 100} className="max-w-sm mx-auto" />}
                                     </div>
                                 ) : run.error ? (
                                     <ErrorMessage message={run.error} onClose={() => {}} />
@@ -208,8 +261,18 @@ export default function ScreenerPage({ onGenerateSignal, onGenerateScalp }: Scre
                                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
                                         {run.results.map(result => (
                                             <Card key={result.symbol} className="flex flex-col bg-gray-900/50">
-                                                <CardHeader><CardTitle>{result.symbol}</CardTitle></CardHeader>
-                                                <CardContent className="flex-grow text-sm"><FormattedReasoning text={result.rationale} /></CardContent>
+                                                <CardHeader className="flex flex-row justify-between items-center">
+                                                    <CardTitle>{result.symbol}</CardTitle>
+                                                    {result.verified !== undefined && (
+                                                        <Badge variant={result.verified ? 'success' : 'danger'} title={result.verificationQuery}>
+                                                            {result.verified ? 'Verified' : 'Unverified'}
+                                                        </Badge>
+                                                    )}
+                                                </CardHeader>
+                                                <CardContent className="flex-grow text-sm">
+                                                    <FormattedReasoning text={result.rationale} />
+                                                    {result.metrics && <ScreenerResultMetrics metrics={result.metrics} />}
+                                                </CardContent>
                                                 <div className="p-3 border-t border-gray-700/50 flex gap-2">
                                                     <Button onClick={() => handleAnalyzeClick(result.symbol, 'signal-gen')} disabled={!!analyzingSymbol} className="flex-1 bg-transparent hover:bg-gray-700 border border-gray-600 text-white font-semibold text-xs">
                                                         {analyzingSymbol === result.symbol ? <Loader2Icon className="w-4 h-4 animate-spin"/> : <ChartIcon className="w-4 h-4"/>} <span className="ml-2">Signal Gen</span>
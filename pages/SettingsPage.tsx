@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { useStore } from '../store';
 import { useChatStore } from '../store/chatStore';
-import type { ThemeMode, ThemeAccent, ChatIconType } from '../types';
+import type { ThemeMode, ThemeAccent, ChatIconType, BrokerBalance, BrokerId } from '../types';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card';
 import { Switch } from '../components/ui/Switch';
 import { BellIcon } from '../components/icons/BellIcon';
@@ -17,6 +17,10 @@ import { ZapIcon } from '../components/icons/ZapIcon';
 import { Loader2Icon } from '../components/icons/Loader2Icon';
 import { CheckIcon } from '../components/icons/CheckIcon';
 import { getSupportedExchanges } from '../services/exchangeService';
+import { clearCandleCache, isCandleCacheAvailable } from '../services/candleCache';
+import { fetchLinkedExchanges, getBrokerOptions, removeExchangeKeys, saveExchangeKeys } from '../services/executionService';
+import { paperBroker } from '../services/brokers/paperBroker';
+import type { CredentialExchange, LinkedExchange } from '../services/brokers/types';
 import { Label } from '../components/ui/Label';
 import { Select } from '../components/ui/Select';
 
@@ -37,8 +41,6 @@ const chatIcons: { name: ChatIconType; icon: React.ReactNode }[] = [
     { name: 'message', icon: <MessageSquareIcon className="w-5 h-5" /> },
 ];
 
-type SaveStatus = 'idle' | 'typing' | 'saved';
-
 const ApiKeyInput: React.FC<{
   id: string;
   label: string;
@@ -46,68 +48,93 @@ const ApiKeyInput: React.FC<{
   value: string;
   onChange: (value: string) => void;
   placeholder: string;
-}> = ({ id, label, description, value, onChange, placeholder }) => {
-    const [status, setStatus] = useState<SaveStatus>('idle');
-    const debounceTimer = React.useRef<number | null>(null);
-
-    useEffect(() => {
-        // Don't show status on initial load
-        if (value) setStatus('idle');
-    }, [value]);
+}> = ({ id, label, description, value, onChange, placeholder }) => (
+    <div className="space-y-2">
+        <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
+        {description && <p className="text-xs text-gray-500 -mt-1 mb-2">{description}</p>}
+        <input
+            type="password"
+            id={id}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            autoComplete="off"
+            className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500"
+        />
+    </div>
+);
 
-    const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        const newValue = e.target.value;
-        setStatus('typing');
-        onChange(newValue);
+// Keys are sent to the server once and stored encrypted there; they are never read back into the browser
+const ExchangeKeysForm: React.FC<{
+  exchange: CredentialExchange;
+  name: string;
+  description: string;
+  linked?: LinkedExchange;
+  onLinkedExchangesChange: (linkedExchanges: LinkedExchange[]) => void;
+}> = ({ exchange, name, description, linked, onLinkedExchangesChange }) => {
+    const [apiKey, setApiKey] = useState('');
+    const [apiSecret, setApiSecret] = useState('');
+    const [isBusy, setIsBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
 
-        if (debounceTimer.current) {
-            clearTimeout(debounceTimer.current);
-        }
-        debounceTimer.current = window.setTimeout(() => {
-            setStatus('saved');
-            setTimeout(() => setStatus('idle'), 2000);
-        }, 1000);
-    };
-    
-    const StatusIndicator = () => {
-        switch (status) {
-            case 'typing':
-                return <Loader2Icon className="w-4 h-4 text-gray-400 animate-spin" />;
-            case 'saved':
-                return <CheckIcon className="w-4 h-4 text-green-400" />;
-            default:
-                return null;
+    const run = async (action: () => Promise<LinkedExchange[]>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            onLinkedExchangesChange(await action());
+            setApiKey('');
+            setApiSecret('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : String(e));
+        } finally {
+            setIsBusy(false);
         }
     };
 
     return (
-        <div className="space-y-2">
-            <div className="flex justify-between items-center">
-                <label htmlFor={id} className="block text-sm font-medium text-gray-300">{label}</label>
-                <div className="flex items-center gap-2 text-xs text-gray-400 h-5">
-                    <StatusIndicator />
-                    {status === 'saved' && <span>Saved</span>}
+        <div className="space-y-6 animate-fade-in-down">
+            {linked && (
+                <div className="flex items-center justify-between">
+                    <div>
+                        <label className="block text-sm font-medium text-gray-300">Connected</label>
+                        <p className="text-xs text-gray-500">API key ending in {linked.apiKeyHint}, updated {new Date(linked.updatedAt).toLocaleDateString()}</p>
+                    </div>
+                    <Button onClick={() => run(() => removeExchangeKeys(exchange))} disabled={isBusy} className="bg-transparent hover:bg-gray-700 border border-gray-600 text-white text-xs">
+                        Remove
+                    </Button>
                 </div>
-            </div>
-            {description && <p className="text-xs text-gray-500 -mt-1 mb-2">{description}</p>}
-            <input 
-                type="password" 
-                id={id} 
-                value={value} 
-                onChange={handleChange} 
-                placeholder={placeholder} 
-                className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500" 
+            )}
+            <ApiKeyInput
+                id={`${exchange}-key`}
+                label={`${name} API Key (Testnet Recommended)`}
+                description={description}
+                value={apiKey}
+                onChange={setApiKey}
+                placeholder={linked ? `Enter a new ${name} API Key to replace the current one` : `Enter ${name} API Key`}
+            />
+            <ApiKeyInput
+                id={`${exchange}-secret`}
+                label={`${name} API Secret`}
+                value={apiSecret}
+                onChange={setApiSecret}
+                placeholder={`Enter ${name} API Secret`}
             />
+            {error && <p className="text-xs text-red-400">{error}</p>}
+            <div className="flex justify-end">
+                <Button onClick={() => run(() => saveExchangeKeys(exchange, apiKey.trim(), apiSecret.trim()))} disabled={isBusy || !apiKey.trim() || !apiSecret.trim()} className="flex items-center gap-2">
+                    {isBusy ? <Loader2Icon className="w-4 h-4 animate-spin" /> : <CheckIcon className="w-4 h-4" />}
+                    Save Keys
+                </Button>
+            </div>
         </div>
     );
 };
 
 export default function SettingsPage() {
     const {
-        bybitApiKey, setBybitApiKey,
-        bybitApiSecret, setBybitApiSecret,
-        binanceApiKey, setBinanceApiKey,
-        binanceApiSecret, setBinanceApiSecret,
+        isAuthenticated,
+        linkedExchanges, setLinkedExchanges,
+        brokerId, setBrokerId,
         theme, setThemeMode, setThemeAccent,
         audioAlertsEnabled, setAudioAlertsEnabled,
         cloudSyncEnabled, setCloudSyncEnabled,
@@ -118,9 +145,39 @@ export default function SettingsPage() {
     const { clearAllConversations } = useChatStore();
 
     const [isAlertOpen, setIsAlertOpen] = useState(false);
+    const [candleCacheStatus, setCandleCacheStatus] = useState<'idle' | 'clearing' | 'cleared'>('idle');
     const [selectedExchange, setSelectedExchange] = useState('bybit');
+    const [paperBalance, setPaperBalance] = useState<BrokerBalance | null>(null);
     const supportedExchanges = getSupportedExchanges();
 
+    useEffect(() => {
+        if (!isAuthenticated) return;
+        fetchLinkedExchanges()
+            .then(setLinkedExchanges)
+            .catch(error => console.error('Failed to load linked exchanges:', error));
+    }, [isAuthenticated, setLinkedExchanges]);
+
+    useEffect(() => {
+        if (brokerId === 'paper') paperBroker.getBalances().then(([balance]) => setPaperBalance(balance));
+    }, [brokerId]);
+
+    const handleResetPaperAccount = async () => {
+        paperBroker.reset();
+        const [balance] = await paperBroker.getBalances();
+        setPaperBalance(balance);
+    };
+
+
+    const handleClearCandleCache = async () => {
+        setCandleCacheStatus('clearing');
+        try {
+            await clearCandleCache();
+            setCandleCacheStatus('cleared');
+        } catch (error) {
+            console.error('Failed to clear candle cache:', error);
+            setCandleCacheStatus('idle');
+        }
+    };
 
     const handleConfirmClear = () => {
         clearAllConversations();
@@ -233,13 +290,63 @@ export default function SettingsPage() {
                                 </div>
                                 <Switch id="cloud-sync" checked={cloudSyncEnabled} onCheckedChange={setCloudSyncEnabled} />
                             </div>
+                            {isCandleCacheAvailable() && (
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-300">Candle Cache</label>
+                                        <p className="text-xs text-gray-500">Historical candles are stored offline to speed up replays and backtests.</p>
+                                    </div>
+                                    <Button onClick={handleClearCandleCache} disabled={candleCacheStatus === 'clearing'} className="bg-transparent hover:bg-gray-700 border border-gray-600 text-white text-xs">
+                                        {candleCacheStatus === 'clearing' ? <Loader2Icon className="w-4 h-4 animate-spin" /> : candleCacheStatus === 'cleared' ? <CheckIcon className="w-4 h-4" /> : <Trash2Icon className="w-4 h-4" />}
+                                        <span className="ml-2">{candleCacheStatus === 'cleared' ? 'Cleared' : 'Clear'}</span>
+                                    </Button>
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                     {/* Trade Execution */}
+                    <Card>
+                        <CardHeader>
+                            <CardTitle>Trade Execution</CardTitle>
+                            <CardDescription>Choose where executed signals are sent.</CardDescription>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                            <div>
+                                <Label htmlFor="broker-select">Broker</Label>
+                                <Select
+                                    id="broker-select"
+                                    value={brokerId}
+                                    onValueChange={(value) => setBrokerId(value as BrokerId)}
+                                    className="mt-1"
+                                >
+                                    {getBrokerOptions().map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </Select>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {brokerId === 'paper'
+                                        ? 'Orders fill locally against the live order book. No real funds are used.'
+                                        : 'Orders are placed on your exchange account with the API keys below.'}
+                                </p>
+                            </div>
+                            {brokerId === 'paper' && paperBalance && (
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <label className="block text-sm font-medium text-gray-300">Paper Account</label>
+                                        <p className="text-xs text-gray-500">Balance: {paperBalance.total.toFixed(2)} {paperBalance.asset} ({paperBalance.available.toFixed(2)} available)</p>
+                                    </div>
+                                    <Button onClick={handleResetPaperAccount} className="bg-transparent hover:bg-gray-700 border border-gray-600 text-white text-xs">
+                                        Reset
+                                    </Button>
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
                      {/* API Keys */}
                     <Card>
                         <CardHeader>
                             <CardTitle>Exchange API Keys</CardTitle>
-                            <CardDescription>Keys are stored securely in your browser's local storage.</CardDescription>
+                            <CardDescription>Keys are encrypted and stored on the server with your account. They never stay in the browser.</CardDescription>
                         </CardHeader>
                         <CardContent className="space-y-6">
                              <div>
@@ -257,43 +364,25 @@ export default function SettingsPage() {
                             </div>
 
                             {selectedExchange === 'bybit' && (
-                                <div className="space-y-6 animate-fade-in-down">
-                                    <ApiKeyInput
-                                        id="bybit-key"
-                                        label="Bybit API Key (Testnet Recommended)"
-                                        description="Used for trade execution simulation."
-                                        value={bybitApiKey}
-                                        onChange={setBybitApiKey}
-                                        placeholder="Enter Bybit API Key"
-                                    />
-                                    <ApiKeyInput
-                                        id="bybit-secret"
-                                        label="Bybit API Secret"
-                                        value={bybitApiSecret}
-                                        onChange={setBybitApiSecret}
-                                        placeholder="Enter Bybit API Secret"
-                                    />
-                                </div>
+                                <ExchangeKeysForm
+                                    key="bybit"
+                                    exchange="bybit"
+                                    name="Bybit"
+                                    description="Used for live trade execution."
+                                    linked={linkedExchanges.find(linked => linked.exchange === 'bybit')}
+                                    onLinkedExchangesChange={setLinkedExchanges}
+                                />
                             )}
 
                             {selectedExchange === 'binance' && (
-                                <div className="space-y-6 animate-fade-in-down">
-                                    <ApiKeyInput
-                                        id="binance-key"
-                                        label="Binance API Key (Testnet Recommended)"
-                                        description="Used for data fetching and trade execution simulation."
-                                        value={binanceApiKey}
-                                        onChange={setBinanceApiKey}
-                                        placeholder="Enter Binance API Key"
-                                    />
-                                    <ApiKeyInput
-                                        id="binance-secret"
-                                        label="Binance API Secret"
-                                        value={binanceApiSecret}
-                                        onChange={setBinanceApiSecret}
-                                        placeholder="Enter Binance API Secret"
-                                    />
-                                </div>
+                                <ExchangeKeysForm
+                                    key="binance"
+                                    exchange="binance"
+                                    name="Binance"
+                                    description="Used for live trade execution on USDⓈ-M futures."
+                                    linked={linkedExchanges.find(linked => linked.exchange === 'binance')}
+                                    onLinkedExchangesChange={setLinkedExchanges}
+                                />
                             )}
                         </CardContent>
                     </Card>
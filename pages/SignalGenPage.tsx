@@ -6,16 +6,18 @@ import { useHistoryStore } from '@/store/historyStore';
 import { useSymbolsQuery } from '@/hooks/useSymbolsQuery';
 import { useChartDataQuery } from '@/hooks/useChartDataQuery';
 import { useExchangeWebSocket } from '@/hooks/useExchangeWebSocket';
-import { executeBybitTrade, BybitTradeDetails } from '@/services/executionService';
+import { BybitTradeDetails, toOrderRequest } from '@/services/executionService';
+import { paperBroker } from '@/services/brokers/paperBroker';
+import { useBroker } from '@/hooks/useBroker';
 import { useSignalHitDetection } from '@/hooks/useSignalHitDetection';
 import type { SignalGenerationState } from '@/hooks/useSignalGenerator';
 import { AI_MODELS } from '@/constants';
 import { SignalGenLayout } from '@/components/signal-gen/SignalGenLayout';
 import { chartConnectionManager } from '@/services/chartConnectionManager';
+import { PaperMarketFeeds } from '@/components/scalping/PaperMarketFeeds';
+import { mergeOrderBook } from '@/utils/orderBook';
 
 interface SignalGenPageProps {
-  bybitApiKey: string;
-  bybitApiSecret: string;
   controller: {
     generationState: SignalGenerationState;
     setGenerationState: (updates: Partial<SignalGenerationState>) => void;
@@ -30,14 +32,13 @@ const MAX_CHART_CANDLES = 1440;
 const MAX_LIVE_TRADES = 20;
 
 export default function SignalGenPage({
-  bybitApiKey,
-  bybitApiSecret,
   controller,
   onShareSignalAsPost,
 }: SignalGenPageProps) {
   const { setCurrentPage, setToast } = useStore();
   const { generationState, setGenerationState, generate, cancel } = controller;
   const { signalHistory, setSignalHistory } = useHistoryStore();
+  const { broker, brokerId, credentialsMissing } = useBroker();
 
   const {
     formData, setFormData, isSignalEntered, setIsSignalEntered,
@@ -75,6 +76,7 @@ export default function SignalGenPage({
     type: 'kline',
     interval: '1m',
     onMessage: (candle) => {
+      if (formData.symbol) paperBroker.onPrice(formData.symbol, candle.close);
       setChartData(prevData => {
         const lastCandle = prevData[prevData.length - 1];
         if (lastCandle && candle.time === lastCandle.time) {
@@ -96,11 +98,13 @@ export default function SignalGenPage({
     type: 'depth',
     onMessage: (data) => {
       if (data && 'bids' in data && 'asks' in data) {
-        setOrderBookData(data as OrderBookUpdate);
+        setOrderBookData(prev => mergeOrderBook(prev, data as OrderBookUpdate));
+        if (formData.symbol) paperBroker.onOrderBook(formData.symbol, data as OrderBookUpdate);
       }
     },
     onConnectionError: (message) => setToast({ message, variant: 'warning' }),
-    enabled: !!formData.symbol && !!formData.exchange && windowsState.orderBook.isOpen,
+    // The paper broker fills against the live book, so keep it streaming while paper trading
+    enabled: !!formData.symbol && !!formData.exchange && (windowsState.orderBook.isOpen || brokerId === 'paper'),
   });
 
   const tradeWebSocket = useExchangeWebSocket({
@@ -109,10 +113,11 @@ export default function SignalGenPage({
     type: 'trade',
     onMessage: (trade) => {
       const newTrades = Array.isArray(trade) ? trade : [trade];
+      if (formData.symbol) newTrades.forEach(t => paperBroker.onTrade(formData.symbol!, t));
       setLiveTrades(prev => [...newTrades, ...prev].slice(0, MAX_LIVE_TRADES));
     },
     onConnectionError: (message) => setToast({ message, variant: 'warning' }),
-    enabled: !!formData.symbol && !!formData.exchange && windowsState.timeAndSales.isOpen,
+    enabled: !!formData.symbol && !!formData.exchange && (windowsState.timeAndSales.isOpen || brokerId === 'paper'),
   });
 
   // Manage WebSocket lifecycle with chart connection manager
@@ -195,19 +200,20 @@ export default function SignalGenPage({
   };
 
   const handleExecuteTrade = useCallback(async (tradeDetails: BybitTradeDetails) => {
-    if (!bybitApiKey || !bybitApiSecret) {
-      setToast({ message: 'Error: Bybit API keys are not set in Settings.', variant: 'error' });
+    if (credentialsMissing) {
+      setToast({ message: `Error: ${broker.displayName} API keys are not set in Settings.`, variant: 'error' });
       return;
     }
-    setToast({ message: 'Sending order to backend...', variant: 'success' });
+    setToast({ message: `Sending order to ${broker.displayName}...`, variant: 'success' });
     try {
-      await executeBybitTrade(tradeDetails);
+      const order = await broker.placeOrder(toOrderRequest(tradeDetails, generationState.signal?.leverage));
+      if (order.status === 'Rejected') throw new Error(order.rejectReason || 'Order rejected');
       setToast({ message: `Order placed! Position for ${tradeDetails.symbol} is live.`, variant: 'success' });
       setIsCurrentSignalExecuted(true);
     } catch (error: any) {
       setToast({ message: `Error executing trade: ${error.message}`, variant: 'error' });
     }
-  }, [bybitApiKey, bybitApiSecret, setToast, setIsCurrentSignalExecuted]);
+  }, [broker, credentialsMissing, generationState.signal, setToast, setIsCurrentSignalExecuted]);
 
   const handleUpdateSignal = useCallback((updates: Partial<Signal>) => {
     if (generationState.signal && generationState.currentParams && generationState.generationTimestamp) {
@@ -259,32 +265,35 @@ export default function SignalGenPage({
   }, [generationTimestamp, signalHistory, signal]);
 
   return (
-    <SignalGenLayout
-        symbols={symbols}
-        isAnalyzing={isAnalyzing}
-        chartData={chartData}
-        livePrice={livePrice}
-        isChartLoading={isChartLoading}
-        signal={signal}
-        currentParams={currentParams}
-        hitTpPricesForChart={hitTpPricesForChart}
-        displaySignal={displaySignal}
-        liveTrades={liveTrades}
-        orderBookData={orderBookData}
-        signalHistory={signalHistory}
-        symbolsQueryError={symbolsQueryError}
-        chartDataError={chartDataError}
-        error={error}
-        setToast={setToast}
-        setGenerationState={setGenerationState}
-        setCurrentPage={setCurrentPage}
-        setSignalHistory={setSignalHistory}
-        handleSubmit={handleSubmit}
-        handleExecuteTrade={handleExecuteTrade}
-        handleUpdateSignal={handleUpdateSignal}
-        handleRestoreFromHistory={handleRestoreFromHistory}
-        handleShare={handleShare}
-        handleCancel={cancel}
-    />
+    <>
+      <PaperMarketFeeds exchange={formData.exchange || 'binance'} currentSymbol={brokerId === 'paper' ? formData.symbol : undefined} />
+      <SignalGenLayout
+          symbols={symbols}
+          isAnalyzing={isAnalyzing}
+          chartData={chartData}
+          livePrice={livePrice}
+          isChartLoading={isChartLoading}
+          signal={signal}
+          currentParams={currentParams}
+          hitTpPricesForChart={hitTpPricesForChart}
+          displaySignal={displaySignal}
+          liveTrades={liveTrades}
+          orderBookData={orderBookData}
+          signalHistory={signalHistory}
+          symbolsQueryError={symbolsQueryError}
+          chartDataError={chartDataError}
+          error={error}
+          setToast={setToast}
+          setGenerationState={setGenerationState}
+          setCurrentPage={setCurrentPage}
+          setSignalHistory={setSignalHistory}
+          handleSubmit={handleSubmit}
+          handleExecuteTrade={handleExecuteTrade}
+          handleUpdateSignal={handleUpdateSignal}
+          handleRestoreFromHistory={handleRestoreFromHistory}
+          handleShare={handleShare}
+          handleCancel={cancel}
+      />
+    </>
   );
 }
\ No newline at end of file
@@ -8,6 +8,8 @@ import { SimulationHistoryTable } from '@/components/simulation/SimulationHistor
 import { SimulationPlaybackView } from '@/components/simulation/SimulationPlaybackView';
 import { SimulationStatsSummary } from '@/components/simulation/SimulationStatsSummary';
 import { SimulationEmptyState } from '@/components/simulation/SimulationEmptyState';
+import { BacktestPanel } from '@/components/simulation/BacktestPanel';
+import { RobustnessPanel } from '@/components/simulation/RobustnessPanel';
 import { Button } from '@/components/ui/Button';
 import { Plus } from 'lucide-react';
 import { ErrorMessage } from '@/components/ErrorMessage';
@@ -63,22 +65,33 @@ export default function SimulationPage() {
     }
   };
 
+  // Funding is a cost on top of the price action, so a venue without funding history shouldn't block the simulation.
+  const loadFundingRates = (sim: SimulationSetup, startTimeMs: number, endTimeMs: number) =>
+    exchangeService.fetchFundingHistory(sim.exchange, sim.symbol, startTimeMs, endTimeMs).catch(error => {
+      console.warn("Simulating without funding payments:", error);
+      return [];
+    });
+
   const handleStartSimulation = async (sim: SimulationSetup) => {
     setIsAutoPlay(true);
     if (sim.mode === 'replay') {
-      // Fetch 1m data for the replay period.
+      // Fetch the replay period at the simulation's candle size (1m unless chosen otherwise).
       const startTimeMs = sim.timestamp;
       const endTimeMs = sim.endTime;
       try {
-        const historicalData = await exchangeService.fetchHistoricalData(sim.exchange, sim.symbol, '1m', startTimeMs, endTimeMs);
-        const simWithData = { ...sim, historicalData };
+        const historicalData = await exchangeService.fetchHistoricalData(sim.exchange, sim.symbol, sim.replayTimeframe ?? '1m', startTimeMs, endTimeMs);
+        const fundingRates = await loadFundingRates(sim, startTimeMs, endTimeMs);
+        const simWithData = { ...sim, historicalData, fundingRates };
         setActiveSimulation(simWithData);
       } catch (error) {
         console.error("Failed to fetch historical data for replay:", error);
         // You might want to show an error to the user here.
       }
     } else { // live mode
-      setActiveSimulation(sim);
+      // Recent settlements; upcoming ones are charged at the latest known rate
+      const now = Date.now();
+      const fundingRates = await loadFundingRates(sim, now - 24 * 60 * 60 * 1000, now);
+      setActiveSimulation({ ...sim, fundingRates });
     }
   };
 
@@ -126,6 +139,10 @@ export default function SimulationPage() {
         isLoading={isChartLoading && activeSimulation?.mode === 'live'}
       />
 
+      <BacktestPanel />
+
+      <RobustnessPanel />
+
       <CreateSimulationModal
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
@@ -1,3 +1,6 @@
+import type { CandleStick } from '@/types';
+import { getIndicatorSnapshot } from '@/utils/indicators';
+
 export const TRADING_KNOWLEDGE_CONTEXT = `You are an expert cryptocurrency trading analyst. Your task is to analyze the provided multi-timeframe market data and **predict the next most probable high-probability trading setup** in a precise JSON format.
 
 **Your Primary Directives**:
@@ -53,7 +56,7 @@ export const SCALPING_KNOWLEDGE_CONTEXT = `You are an elite-level scalping analy
 
 **User-Preferred Trading Style**:
 - If the user provides a \`Preferred Trading Style\`, you **MUST** prioritize your analysis to find setups that match that style.
-- **\`Momentum Breakout\`**: Focus on identifying consolidations or ranges just before a key level. The ideal setup is a prediction of a high-volume breakout from this range.
+- **\`Momentum Breakout\`**: Focus on identifying consolidations or ranges just before a key level. The ideal setup is a prediction of a high-volume breakout from this range. Use the \`volume\` field of each candle and the provided volume summary to confirm that participation is expanding; a breakout on below-average volume is not a valid setup.
 - **\`Liquidity Sweep\`**: Prioritize setups where price is likely to take out a recent high or low (a liquidity grab) and then quickly reverse. The entry is often placed just after the sweep is predicted to occur.
 - **\`Range Scalp\`**: Look for well-defined, choppy ranges. The goal is to predict short-term moves from the top of the range to the bottom, and vice-versa. Avoid trend-following setups.
 - **\`Balanced\`**: Use your full analytical capabilities to find the best available setup, regardless of style. This is the default behavior.
@@ -76,4 +79,48 @@ export const SCALPING_KNOWLEDGE_CONTEXT = `You are an elite-level scalping analy
     *   **Entry**: A tight range just above the predicted liquidity sweep, or within the zone you expect a reaction from.
     *   **Stop Loss**: Tightly placed just above the structure that would invalidate your prediction.
     *   **Take Profit**: Target the *nearest* significant opposing liquidity.
-5.  **Provide Bias & Reasoning**: State the HTF bias, then clearly explain the predictive logic for the LTF setup, incorporating your order flow analysis. Justify *why* you expect the move to happen next.`;
\ No newline at end of file
+5.  **Provide Bias & Reasoning**: State the HTF bias, then clearly explain the predictive logic for the LTF setup, incorporating your order flow analysis. Justify *why* you expect the move to happen next.`;
+
+/**
+ * Describes the layout of the candle objects sent to the model.
+ */
+export const CANDLE_FIELDS_NOTE = `Each candle is an object with: time (unix seconds), open, high, low, close, volume (base asset), quoteVolume (USDT, when available) and trades (trade count, when available).`;
+
+/**
+ * Builds a short volume summary for a candle series so the model does not have to
+ * derive relative volume from the raw arrays itself.
+ */
+export function buildVolumeContext(candles: CandleStick[], lookback = 20): string {
+    if (candles.length < 2) return 'Volume summary: Not available.';
+    const last = candles[candles.length - 1];
+    const window = candles.slice(-(lookback + 1), -1);
+    const avgVolume = window.reduce((sum, c) => sum + c.volume, 0) / window.length;
+    const relativeVolume = avgVolume > 0 ? last.volume / avgVolume : 0;
+    const recent = candles.slice(-5);
+    const recentAvg = recent.reduce((sum, c) => sum + c.volume, 0) / recent.length;
+    const trend = recentAvg > avgVolume * 1.1 ? 'expanding' : recentAvg < avgVolume * 0.9 ? 'contracting' : 'flat';
+    return `Volume summary: last candle volume ${last.volume} is ${relativeVolume.toFixed(2)}x the ${window.length}-candle average (${avgVolume.toFixed(2)}); recent volume is ${trend}.`;
+}
+
+/**
+ * Formats the shared indicator snapshot for a prompt. These are the same values drawn on the
+ * chart overlays, so the model and the user are looking at identical numbers.
+ */
+export function buildIndicatorContext(candles: CandleStick[]): string {
+    const snapshot = getIndicatorSnapshot(candles);
+    if (!snapshot) return 'Indicators: Not available.';
+    const fmt = (value: number | null | undefined, digits = 4) => value === null || value === undefined ? 'n/a' : Number(value.toFixed(digits));
+    return `Indicators (latest candle): ${JSON.stringify({
+        close: snapshot.close,
+        sma20: fmt(snapshot.sma20), sma200: fmt(snapshot.sma200),
+        ema20: fmt(snapshot.ema20), ema50: fmt(snapshot.ema50), ema200: fmt(snapshot.ema200),
+        rsi14: fmt(snapshot.rsi14, 2),
+        macd: snapshot.macd ? { macd: fmt(snapshot.macd.macd), signal: fmt(snapshot.macd.signal), histogram: fmt(snapshot.macd.histogram) } : 'n/a',
+        bollinger: snapshot.bollinger ? { upper: fmt(snapshot.bollinger.upper), middle: fmt(snapshot.bollinger.middle), lower: fmt(snapshot.bollinger.lower) } : 'n/a',
+        atr14: fmt(snapshot.atr14),
+        vwap: fmt(snapshot.vwap),
+        stochastic: snapshot.stochastic ? { k: fmt(snapshot.stochastic.k, 2), d: fmt(snapshot.stochastic.d, 2) } : 'n/a',
+        obv: fmt(snapshot.obv, 2),
+        adx: snapshot.adx ? { adx: fmt(snapshot.adx.adx, 2), plusDI: fmt(snapshot.adx.plusDI, 2), minusDI: fmt(snapshot.adx.minusDI, 2) } : 'n/a',
+    })}`;
+}
@@ -0,0 +1,137 @@
+import type { AlertCondition, CandleStick, MarketAlert, SavedSignal, SignalEvent } from '@/types';
+import { ema, rsi, sma } from '@/utils/indicators';
+import { formatPrice } from '@/utils/formatting';
+
+/**
+ * Evaluation rules for price, indicator and signal event alerts. Market conditions are watched as a
+ * state (price above the level, RSI below 30, fast average above the slow one) on the alert's
+ * candles, and an alert triggers when that state turns on. The first evaluation of an alert only
+ * records its state, so a condition that already holds when an alert is created or resumed waits
+ * for the next crossing.
+ */
+
+export type MarketAlertCondition = Exclude<AlertCondition, { type: 'signal_event' }>;
+export type SignalEventAlertCondition = Extract<AlertCondition, { type: 'signal_event' }>;
+
+// Candles kept per stream: enough to warm up a 200 period moving average
+export const ALERT_CANDLE_LIMIT = 300;
+const MAX_INDICATOR_PERIOD = 200;
+
+const SIGNAL_EVENT_TYPES: Record<SignalEventAlertCondition['event'], SignalEvent['type']> = {
+    entry: 'Entry',
+    take_profit: 'Take Profit',
+};
+
+// Alerts on the same exchange, symbol and timeframe share one live candle stream
+export const alertStreamKey = ({ exchange, symbol, timeframe }: Pick<MarketAlert, 'exchange' | 'symbol' | 'timeframe'>) =>
+    `${exchange}:${symbol}:${timeframe}`;
+
+export const isMarketCondition = (condition: AlertCondition): condition is MarketAlertCondition =>
+    condition.type !== 'signal_event';
+
+// Active and not snoozed
+export const isAlertArmed = (alert: MarketAlert, now: number) =>
+    alert.status === 'active' && (alert.snoozedUntil === undefined || alert.snoozedUntil <= now);
+
+/**
+ * Applies a live candle to a stream's candles: it replaces the forming candle when it has the same
+ * open time and is appended otherwise. Only the last `limit` candles are kept.
+ */
+export function mergeCandle(candles: CandleStick[], candle: CandleStick, limit = ALERT_CANDLE_LIMIT): CandleStick[] {
+    const last = candles[candles.length - 1];
+    if (last && candle.time < last.time) return candles;
+    const merged = last && candle.time === last.time ? [...candles.slice(0, -1), candle] : [...candles, candle];
+    return merged.length > limit ? merged.slice(merged.length - limit) : merged;
+}
+
+const lastValue = (series: (number | null)[]) => series[series.length - 1] ?? null;
+
+/**
+ * Whether a market condition currently holds on the latest candle. Null while there are not yet
+ * enough candles to tell. A price cross is tracked as "price at or above the level".
+ */
+export function conditionState(condition: MarketAlertCondition, candles: CandleStick[]): boolean | null {
+    const last = candles[candles.length - 1];
+    if (!last) return null;
+
+    switch (condition.type) {
+        case 'price_cross':
+            return last.close >= condition.price;
+        case 'percent_move': {
+            if (last.open <= 0) return null;
+            const change = ((last.close - last.open) / last.open) * 100;
+            if (condition.direction === 'up') return change >= condition.percent;
+            if (condition.direction === 'down') return change <= -condition.percent;
+            return Math.abs(change) >= condition.percent;
+        }
+        case 'rsi': {
+            const value = lastValue(rsi(candles, condition.period));
+            if (value === null) return null;
+            return condition.direction === 'above' ? value > condition.level : value < condition.level;
+        }
+        case 'ma_cross': {
+            const average = condition.maType === 'EMA' ? ema : sma;
+            const fast = lastValue(average(candles, condition.fastPeriod));
+            const slow = lastValue(average(candles, condition.slowPeriod));
+            if (fast === null || slow === null) return null;
+            return condition.direction === 'bullish' ? fast > slow : fast < slow;
+        }
+    }
+}
+
+// Whether the change from the previous to the current state triggers the alert
+export function isTriggered(condition: MarketAlertCondition, previous: boolean | null, current: boolean | null): boolean {
+    if (previous === null || current === null || previous === current) return false;
+    if (condition.type === 'price_cross') {
+        return condition.direction === 'either' || current === (condition.direction === 'above');
+    }
+    return current;
+}
+
+// The signal's events an alert watches, oldest first
+export const matchingSignalEvents = (signal: SavedSignal, event: SignalEventAlertCondition['event']) =>
+    (signal.events ?? []).filter(signalEvent => signalEvent.type === SIGNAL_EVENT_TYPES[event]);
+
+// Matching events the alert has not handled yet
+export const unhandledSignalEvents = (condition: SignalEventAlertCondition, signal: SavedSignal) =>
+    matchingSignalEvents(signal, condition.event).slice(condition.handledEvents);
+
+// Returns what is wrong with a condition, or null when it can be saved
+export function validateAlertCondition(condition: AlertCondition): string | null {
+    const isPeriod = (period: number) => Number.isInteger(period) && period >= 2 && period <= MAX_INDICATOR_PERIOD;
+
+    switch (condition.type) {
+        case 'price_cross':
+            return condition.price > 0 ? null : 'Enter a price above zero.';
+        case 'percent_move':
+            return condition.percent > 0 ? null : 'Enter a percentage above zero.';
+        case 'rsi':
+            if (!isPeriod(condition.period)) return `The RSI period must be a whole number from 2 to ${MAX_INDICATOR_PERIOD}.`;
+            return condition.level > 0 && condition.level < 100 ? null : 'The RSI level must be between 0 and 100.';
+        case 'ma_cross':
+            if (!isPeriod(condition.fastPeriod) || !isPeriod(condition.slowPeriod)) return `Moving average periods must be whole numbers from 2 to ${MAX_INDICATOR_PERIOD}.`;
+            return condition.fastPeriod < condition.slowPeriod ? null : 'The fast period must be shorter than the slow period.';
+        case 'signal_event':
+            return condition.signalId ? null : 'Choose a signal to watch.';
+    }
+}
+
+// A one-line summary of what the alert watches, e.g. "BTCUSDT crosses above $70,000.00"
+export function describeAlert({ symbol, timeframe, condition }: Pick<MarketAlert, 'symbol' | 'timeframe' | 'condition'>): string {
+    switch (condition.type) {
+        case 'price_cross':
+            return `${symbol} crosses ${condition.direction === 'either' ? '' : `${condition.direction} `}${formatPrice(condition.price)}`;
+        case 'percent_move': {
+            const direction = condition.direction === 'either' ? '' : `${condition.direction} `;
+            return `${symbol} moves ${direction}${condition.percent}% within a ${timeframe} candle`;
+        }
+        case 'rsi':
+            return `${symbol} RSI(${condition.period}) ${condition.direction} ${condition.level} on ${timeframe}`;
+        case 'ma_cross': {
+            const side = condition.direction === 'bullish' ? 'above' : 'below';
+            return `${symbol} ${condition.maType} ${condition.fastPeriod} crosses ${side} ${condition.maType} ${condition.slowPeriod} on ${timeframe}`;
+        }
+        case 'signal_event':
+            return `${symbol} ${timeframe} signal ${condition.event === 'entry' ? 'entry filled' : 'take profit hit'}`;
+    }
+}
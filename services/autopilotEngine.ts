@@ -0,0 +1,364 @@
+import type { AutoExecutionBasis, AutopilotLogEntry, AutopilotLogKind, AutopilotScanMode, AutopilotSessionStats, AutopilotSettings, AutopilotState, LivePosition, Signal } from '@/types';
+
+const FAVORITES_TO_SCAN = 5;
+const RESCAN_DELAY_MS = 60_000; // Wait between scans that found nothing, so the AI is not called in a tight loop
+const ENTRY_TOLERANCE = 0.0015; // How far outside the signal's entry range (as a fraction of price) a market entry may fill
+const MAX_CONSECUTIVE_SCAN_ERRORS = 3;
+
+export interface AutopilotConfig {
+  settings: AutopilotSettings;
+  scanMode: AutopilotScanMode;
+  currentSymbol: string;
+  favoriteSymbols: string[];
+  autoExecutionThreshold: number; // Minimum signal score (0-100) to enter a trade
+  autoExecutionBasis?: AutoExecutionBasis; // What the threshold applies to. Confidence when missing
+}
+
+export interface AutopilotSnapshot {
+  state: AutopilotState;
+  stats: AutopilotSessionStats;
+  activePositionId: string | null;
+}
+
+export interface AutopilotEngineDeps {
+  getConfig: () => AutopilotConfig;
+  // Resolves with a fresh signal and the symbol's current market price
+  generateSignal: (symbol: string) => Promise<{ signal: Signal; price: number }>;
+  // Opens a position at market. Take profit and stop loss come from the signal.
+  openPosition: (symbol: string, signal: Signal, margin: number, price: number) => Promise<LivePosition>;
+  // Closes the position; the owner reports the result back through `onPositionClosed`
+  closePosition: (position: LivePosition) => Promise<void>;
+  onUpdate: (snapshot: AutopilotSnapshot) => void;
+  onLog: (entry: AutopilotLogEntry) => void;
+  now?: () => number;
+}
+
+interface ScannedSignal {
+  symbol: string;
+  signal: Signal;
+  price: number;
+}
+
+const idleStats = (): AutopilotSessionStats => ({
+  initialCapital: 0, currentCapital: 0, startTime: null, pnl: 0, tradesExecuted: 0, drawdown: 0, statusMessage: 'Ready to start.',
+});
+
+const formatUsd = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+/**
+ * The autopilot strategy loop as a state machine: searching → monitoring → cooldown → searching,
+ * until the user stops it or a session limit ends it.
+ *
+ * - searching: asks the AI for a scalping signal on the current symbol (or the top favorites), and
+ *   enters the most confident one that clears the auto-execution threshold at market.
+ * - monitoring: watches the position on the live price feed (`onPrice`) and closes it at its take
+ *   profit, stop loss, or when the open loss would breach the session drawdown limit.
+ * - cooldown: waits `cooldownMinutes` before searching again.
+ *
+ * The engine owns no React state. It reports snapshots through `onUpdate`, and every decision
+ * (scans, skipped signals, entries, exits, limits, errors) through `onLog`.
+ */
+export class AutopilotEngine {
+  private state: AutopilotState = 'inactive';
+  private stats: AutopilotSessionStats = idleStats();
+  private position: LivePosition | null = null;
+  private peakCapital = 0;
+  private isClosing = false;
+  private consecutiveScanErrors = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Bumped on every start and stop, so async work from an earlier session is dropped when it resolves
+  private session = 0;
+  private readonly now: () => number;
+
+  constructor(private readonly deps: AutopilotEngineDeps) {
+    this.now = deps.now ?? Date.now;
+  }
+
+  get isRunning() {
+    return this.state !== 'inactive' && this.state !== 'stopped';
+  }
+
+  start() {
+    if (this.isRunning) return;
+    const { settings, scanMode, autoExecutionThreshold, autoExecutionBasis = 'confidence' } = this.deps.getConfig();
+    this.session++;
+    this.position = null;
+    this.isClosing = false;
+    this.consecutiveScanErrors = 0;
+    this.peakCapital = settings.sessionCapital;
+    this.stats = { ...idleStats(), initialCapital: settings.sessionCapital, currentCapital: settings.sessionCapital, startTime: this.now(), statusMessage: 'Starting...' };
+    this.log('session', `Session started with ${formatUsd(settings.sessionCapital)}.`, undefined, {
+      scanMode, threshold: autoExecutionThreshold, basis: autoExecutionBasis, tradeSizeMode: settings.tradeSizeMode, tradeSizeValue: settings.tradeSizeValue,
+      cooldownMinutes: settings.cooldownMinutes, maxSessionDrawdown: settings.maxSessionDrawdown, maxTrades: settings.maxTrades,
+    });
+    this.search();
+  }
+
+  /**
+   * Ends the session. An open position is left open for the user to manage.
+   */
+  stop(reason = 'Session stopped by user.') {
+    if (!this.isRunning) return;
+    this.session++;
+    this.clearTimer();
+    if (this.position) {
+      this.log('session', `${reason} The ${this.position.symbol} position was left open.`, this.position.symbol);
+    } else {
+      this.log('session', reason);
+    }
+    this.position = null;
+    this.transition('stopped', reason);
+  }
+
+  /**
+   * Feeds the live price of a symbol (from the kline stream) while a position is being monitored.
+   */
+  onPrice(symbol: string, price: number) {
+    const position = this.position;
+    if (this.state !== 'monitoring' || !position || position.symbol !== symbol || this.isClosing) return;
+
+    const isLong = position.side === 'Long';
+    if (position.stopLoss !== undefined && (isLong ? price <= position.stopLoss : price >= position.stopLoss)) {
+      this.closeActivePosition(`Stop loss ${position.stopLoss} reached at ${price}.`);
+      return;
+    }
+    if (position.takeProfit !== undefined && (isLong ? price >= position.takeProfit : price <= position.takeProfit)) {
+      this.closeActivePosition(`Take profit ${position.takeProfit} reached at ${price}.`);
+      return;
+    }
+
+    const unrealizedPnl = (price - position.entryPrice) * position.quantity * (isLong ? 1 : -1);
+    const { maxSessionDrawdown } = this.deps.getConfig().settings;
+    if (this.drawdownAt(this.stats.currentCapital + unrealizedPnl) <= -maxSessionDrawdown) {
+      this.closeActivePosition(`Open loss of ${formatUsd(unrealizedPnl)} would breach the ${maxSessionDrawdown}% session drawdown limit.`);
+    }
+  }
+
+  /**
+   * Books a closed position. Positions the autopilot did not open are ignored.
+   */
+  onPositionClosed(positionId: string, pnl: number, exitPrice: number) {
+    const position = this.position;
+    if (!position || position.id !== positionId) return;
+    this.position = null;
+    this.isClosing = false;
+
+    const currentCapital = this.stats.currentCapital + pnl;
+    this.peakCapital = Math.max(this.peakCapital, currentCapital);
+    this.stats = {
+      ...this.stats,
+      currentCapital,
+      pnl: this.stats.pnl + pnl,
+      tradesExecuted: this.stats.tradesExecuted + 1,
+      drawdown: Math.min(this.stats.drawdown, this.drawdownAt(currentCapital)),
+    };
+    this.log('exit', `Closed ${position.side} ${position.symbol} at ${exitPrice}. P/L ${formatUsd(pnl)}.`, position.symbol, {
+      exitPrice, pnl, currentCapital, drawdown: this.stats.drawdown,
+    });
+
+    if (this.hitSessionLimit()) return;
+    this.cooldown();
+  }
+
+  // --- States ---
+
+  private async search() {
+    if (this.hitSessionLimit()) return;
+    const session = this.session;
+    const config = this.deps.getConfig();
+    const margin = this.tradeSize(config.settings);
+    if (margin <= 0 || margin > this.stats.currentCapital) {
+      this.log('limit', `Trade size of ${formatUsd(margin)} does not fit the remaining capital of ${formatUsd(this.stats.currentCapital)}.`);
+      this.stop('Session ended: not enough capital for another trade.');
+      return;
+    }
+
+    const symbols = this.symbolsToScan(config);
+    this.transition('searching', `Scanning ${symbols.join(', ')}...`);
+    this.log('scan', `Scanning ${symbols.length} symbol(s).`, undefined, { symbols: symbols.join(',') });
+
+    const candidates: ScannedSignal[] = [];
+    let failures = 0;
+    for (const [index, symbol] of symbols.entries()) {
+      this.setStatus(`Scanning ${symbol} (${index + 1}/${symbols.length})...`);
+      try {
+        const { signal, price } = await this.deps.generateSignal(symbol);
+        if (session !== this.session) return;
+        const consensus = signal.ensemble ? `, ${signal.ensemble.consensus}% consensus` : '';
+        this.log('signal', `${signal.direction} ${symbol} at ${signal.confidence}% confidence${consensus}.`, symbol, {
+          direction: signal.direction, confidence: signal.confidence, consensus: signal.ensemble?.consensus ?? null, price, entryLow: signal.entryRange[0], entryHigh: signal.entryRange[1],
+          stopLoss: signal.stopLoss, takeProfit: signal.takeProfit[0] ?? null, leverage: signal.leverage,
+        });
+        candidates.push({ symbol, signal, price });
+      } catch (error) {
+        if (session !== this.session) return;
+        failures++;
+        this.log('error', `Signal generation failed: ${error instanceof Error ? error.message : String(error)}`, symbol);
+      }
+    }
+
+    this.consecutiveScanErrors = failures === symbols.length ? this.consecutiveScanErrors + 1 : 0;
+    if (this.consecutiveScanErrors >= MAX_CONSECUTIVE_SCAN_ERRORS) {
+      this.stop(`Session ended: signal generation failed ${MAX_CONSECUTIVE_SCAN_ERRORS} scans in a row.`);
+      return;
+    }
+
+    const entry = this.pickEntry(candidates, config.autoExecutionThreshold, config.autoExecutionBasis ?? 'confidence');
+    if (!entry) {
+      this.setStatus('No qualifying setup. Rescanning shortly...');
+      this.schedule(() => this.search(), RESCAN_DELAY_MS);
+      return;
+    }
+    await this.enter(entry, margin, session);
+  }
+
+  private async enter({ symbol, signal, price }: ScannedSignal, margin: number, session: number) {
+    this.setStatus(`Opening ${signal.direction} ${symbol}...`);
+    try {
+      const position = await this.deps.openPosition(symbol, signal, margin, price);
+      if (session !== this.session) return;
+      this.position = position;
+      this.log('entry', `Opened ${position.side} ${symbol} at ${position.entryPrice} with ${formatUsd(margin)} margin.`, symbol, {
+        positionId: position.id, entryPrice: position.entryPrice, quantity: position.quantity, margin, leverage: position.leverage,
+        takeProfit: position.takeProfit ?? null, stopLoss: position.stopLoss ?? null, confidence: signal.confidence,
+      });
+      this.transition('monitoring', `Monitoring ${position.side} ${symbol}...`);
+    } catch (error) {
+      if (session !== this.session) return;
+      this.log('error', `Order failed: ${error instanceof Error ? error.message : String(error)}`, symbol);
+      this.stop('Session ended: the entry order failed.');
+    }
+  }
+
+  private cooldown() {
+    const { cooldownMinutes } = this.deps.getConfig().settings;
+    const delay = Math.max(0, cooldownMinutes) * 60_000;
+    const resumeAt = new Date(this.now() + delay).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    this.transition('cooldown', delay > 0 ? `Cooling down until ${resumeAt}...` : 'Position closed.');
+    this.schedule(() => this.search(), delay);
+  }
+
+  private async closeActivePosition(reason: string) {
+    const position = this.position;
+    if (!position) return;
+    const session = this.session;
+    this.isClosing = true;
+    this.log('exit', `Closing ${position.symbol}: ${reason}`, position.symbol);
+    this.setStatus(`Closing ${position.symbol}...`);
+    try {
+      await this.deps.closePosition(position);
+    } catch (error) {
+      if (session !== this.session) return;
+      this.isClosing = false;
+      this.log('error', `Close failed: ${error instanceof Error ? error.message : String(error)}`, position.symbol);
+      this.stop('Session ended: the position could not be closed.');
+    }
+  }
+
+  // --- Decisions ---
+
+  private symbolsToScan({ scanMode, currentSymbol, favoriteSymbols }: AutopilotConfig): string[] {
+    if (scanMode === 'favorites-top-5' && favoriteSymbols.length > 0) return favoriteSymbols.slice(0, FAVORITES_TO_SCAN);
+    return [currentSymbol];
+  }
+
+  /**
+   * The highest scoring signal that clears the threshold and can still be entered at the current price.
+   * With the consensus basis, signals from a single model are scored by their confidence.
+   */
+  private pickEntry(candidates: ScannedSignal[], threshold: number, basis: AutoExecutionBasis): ScannedSignal | null {
+    const scoreOf = (signal: Signal) => basis === 'consensus' && signal.ensemble ? signal.ensemble.consensus : signal.confidence;
+    const confident = candidates.filter(({ symbol, signal }) => {
+      if (scoreOf(signal) >= threshold) return true;
+      const label = basis === 'consensus' && signal.ensemble ? 'consensus' : 'confidence';
+      this.log('skip', `${symbol} ${label} ${scoreOf(signal)}% is below the ${threshold}% threshold.`, symbol);
+      return false;
+    });
+    for (const candidate of confident.sort((a, b) => scoreOf(b.signal) - scoreOf(a.signal))) {
+      const { symbol, signal, price } = candidate;
+      const rejection = this.entryRejection(signal, price);
+      if (rejection) {
+        this.log('skip', `${symbol}: ${rejection}`, symbol);
+        continue;
+      }
+      return candidate;
+    }
+    return null;
+  }
+
+  private entryRejection(signal: Signal, price: number): string | null {
+    const isLong = signal.direction === 'LONG';
+    const takeProfit = signal.takeProfit[0];
+    if (!(price > 0) || takeProfit === undefined) return 'the signal has no usable price levels.';
+    if (isLong ? price <= signal.stopLoss : price >= signal.stopLoss) return `price ${price} is already past the stop loss ${signal.stopLoss}.`;
+    if (isLong ? price >= takeProfit : price <= takeProfit) return `price ${price} is already past the take profit ${takeProfit}.`;
+    const low = Math.min(...signal.entryRange) * (1 - ENTRY_TOLERANCE);
+    const high = Math.max(...signal.entryRange) * (1 + ENTRY_TOLERANCE);
+    if (price < low || price > high) return `price ${price} is outside the entry range ${signal.entryRange[0]}-${signal.entryRange[1]}.`;
+    return null;
+  }
+
+  private tradeSize(settings: AutopilotSettings) {
+    return settings.tradeSizeMode === 'fixed'
+      ? settings.tradeSizeValue
+      : this.stats.currentCapital * (settings.tradeSizeValue / 100);
+  }
+
+  // Percentage below the session's peak capital (zero or negative)
+  private drawdownAt(capital: number) {
+    return this.peakCapital > 0 ? Math.min(0, (capital - this.peakCapital) / this.peakCapital * 100) : 0;
+  }
+
+  private hitSessionLimit(): boolean {
+    const { maxTrades, maxSessionDrawdown } = this.deps.getConfig().settings;
+    if (this.stats.tradesExecuted >= maxTrades) {
+      this.log('limit', `Reached the limit of ${maxTrades} trades.`);
+      this.stop('Session ended due to limits.');
+      return true;
+    }
+    if (Math.abs(this.stats.drawdown) >= maxSessionDrawdown) {
+      this.log('limit', `Drawdown of ${this.stats.drawdown.toFixed(2)}% reached the ${maxSessionDrawdown}% limit.`);
+      this.stop('Session ended due to limits.');
+      return true;
+    }
+    return false;
+  }
+
+  // --- Plumbing ---
+
+  private transition(state: AutopilotState, statusMessage: string) {
+    this.clearTimer();
+    this.state = state;
+    this.stats = { ...this.stats, statusMessage };
+    this.publish();
+  }
+
+  private setStatus(statusMessage: string) {
+    this.stats = { ...this.stats, statusMessage };
+    this.publish();
+  }
+
+  private publish() {
+    this.deps.onUpdate({ state: this.state, stats: this.stats, activePositionId: this.position?.id ?? null });
+  }
+
+  private schedule(step: () => void, delay: number) {
+    this.clearTimer();
+    const session = this.session;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      if (session === this.session) step();
+    }, delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private log(kind: AutopilotLogKind, message: string, symbol?: string, data?: AutopilotLogEntry['data']) {
+    this.deps.onLog({ id: crypto.randomUUID(), timestamp: this.now(), kind, message, symbol, data });
+  }
+}
@@ -0,0 +1,249 @@
+import type { CandleStick } from '@/types';
+import type { BacktestConfig, BacktestExitReason, BacktestResult, BacktestSignal, BacktestTrade, EquityPoint } from './types';
+import { computeBacktestMetrics } from './metrics';
+import { FUNDING_INTERVAL_MS, applySlippage, fundingPayment } from '@/services/perpAccounting';
+
+export const DEFAULT_BACKTEST_CONFIG: BacktestConfig = {
+  startingEquity: 10_000,
+  marginPerTrade: 5,
+  maxOpenPositions: 5,
+  takerFeeRate: 0.00055, // Bybit's standard perpetual fees
+  makerFeeRate: 0.0002,
+  slippageBps: 2,
+  fundingRatePer8h: 0.0001,
+  tpAllocation: [0.5, 0.3, 0.2],
+  entryTimeoutBars: 48,
+  maxBarsInTrade: 288,
+};
+
+interface PendingEntry {
+  signal: BacktestSignal;
+  barsWaited: number;
+}
+
+interface OpenTrade {
+  signal: BacktestSignal;
+  trade: BacktestTrade;
+  remainingQty: number;
+  nextTp: number; // Index of the next take profit to watch
+  tpQuantities: number[];
+  lastFundingCheck: number; // ms
+}
+
+const directionSign = (signal: BacktestSignal) => signal.direction === 'LONG' ? 1 : -1;
+
+/**
+ * Splits the position over the signal's take profits using the configured allocation.
+ */
+function allocateTakeProfits(qty: number, tpCount: number, allocation: number[]): number[] {
+  if (tpCount === 0) return [];
+  const weights = Array.from({ length: tpCount }, (_, i) => Math.max(0, allocation[i] ?? allocation[allocation.length - 1] ?? 1));
+  const total = weights.reduce((a, b) => a + b, 0);
+  const shares = total > 0 ? weights.map(w => w / total) : weights.map(() => 1 / tpCount);
+  return shares.map(share => qty * share);
+}
+
+const emptyTrade = (signal: BacktestSignal): BacktestTrade => ({
+  signalId: signal.id, symbol: signal.symbol, direction: signal.direction, label: signal.label,
+  status: 'Unfilled', entryTime: null, entryPrice: null, qty: 0, margin: 0, leverage: signal.leverage,
+  exits: [], exitTime: null, grossPnl: 0, fees: 0, funding: 0, pnl: 0, returnPct: 0, barsHeld: 0,
+});
+
+/**
+ * Replays many signals bar by bar against historical candles and reports every trade, the equity
+ * curve and summary metrics. Pure and synchronous: no React, no network, so it can be unit tested
+ * and run in a worker.
+ *
+ * Per bar, for each symbol: funding is charged at every 8h boundary (00:00, 08:00, 16:00 UTC), then
+ * open trades check expiry, stop loss, take profits (partial exits per `tpAllocation`) and the
+ * holding-time limit, then pending signals try to fill. When a bar touches both the stop loss and a
+ * take profit, the stop loss is assumed to have been hit first.
+ *
+ * Candle times are in seconds (as delivered by the exchange adapters); everything else is in ms.
+ */
+export function runBacktest(signals: BacktestSignal[], candlesBySymbol: Record<string, CandleStick[]>, config: Partial<BacktestConfig> = {}): BacktestResult {
+  const cfg: BacktestConfig = { ...DEFAULT_BACKTEST_CONFIG, ...config };
+
+  const barsBySymbol = new Map<string, Map<number, CandleStick>>();
+  const timeline = new Set<number>();
+  Object.entries(candlesBySymbol).forEach(([symbol, candles]) => {
+    const bars = new Map<number, CandleStick>();
+    candles.forEach(candle => {
+      bars.set(candle.time * 1000, candle);
+      timeline.add(candle.time * 1000);
+    });
+    barsBySymbol.set(symbol, bars);
+  });
+  const times = [...timeline].sort((a, b) => a - b);
+
+  const queue = [...signals].sort((a, b) => a.timestamp - b.timestamp);
+  const trades = new Map<string, BacktestTrade>(signals.map(signal => [signal.id, emptyTrade(signal)]));
+  const pending: PendingEntry[] = [];
+  const open: OpenTrade[] = [];
+  const lastClose = new Map<string, number>();
+  const equityCurve: EquityPoint[] = [];
+  let cash = cfg.startingEquity;
+  let queueIndex = 0;
+
+  const markUnfilled = (signal: BacktestSignal, status: 'Unfilled' | 'Skipped', reason: string) => {
+    Object.assign(trades.get(signal.id)!, { status, statusReason: reason });
+  };
+
+  const exitTrade = (position: OpenTrade, time: number, price: number, qty: number, feeRate: number, reason: BacktestExitReason, tpIndex?: number) => {
+    const { trade, signal } = position;
+    const fee = price * qty * feeRate;
+    const gross = (price - trade.entryPrice!) * qty * directionSign(signal);
+    trade.exits.push({ time, price, qty, fee, reason, tpIndex });
+    trade.grossPnl += gross;
+    trade.fees += fee;
+    cash += gross - fee;
+    position.remainingQty = Math.max(0, position.remainingQty - qty);
+    if (position.remainingQty <= trade.qty * 1e-9) {
+      position.remainingQty = 0;
+      trade.status = 'Closed';
+      trade.exitTime = time;
+      trade.pnl = trade.grossPnl - trade.fees - trade.funding;
+      trade.returnPct = trade.margin > 0 ? trade.pnl / trade.margin * 100 : 0;
+      open.splice(open.indexOf(position), 1);
+    }
+  };
+
+  const marketPrice = (price: number, isBuy: boolean) => applySlippage(price, isBuy, cfg.slippageBps);
+
+  const manageOpenTrade = (position: OpenTrade, time: number, bar: CandleStick) => {
+    const { signal, trade } = position;
+    const isLong = signal.direction === 'LONG';
+
+    // Funding at every 8h boundary crossed since the last bar
+    const firstBoundary = Math.floor(position.lastFundingCheck / FUNDING_INTERVAL_MS) * FUNDING_INTERVAL_MS + FUNDING_INTERVAL_MS;
+    for (let boundary = firstBoundary; boundary <= time; boundary += FUNDING_INTERVAL_MS) {
+      const payment = fundingPayment(signal.direction, position.remainingQty, bar.open, cfg.fundingRatePer8h);
+      trade.funding += payment;
+      cash -= payment;
+    }
+    position.lastFundingCheck = time;
+
+    if (signal.expiresAt !== undefined && time >= signal.expiresAt) {
+      exitTrade(position, time, marketPrice(bar.open, !isLong), position.remainingQty, cfg.takerFeeRate, 'Expired');
+      return;
+    }
+
+    const stopHit = isLong ? bar.low <= signal.stopLoss : bar.high >= signal.stopLoss;
+    if (stopHit) {
+      // A gap through the stop fills at the open
+      const level = isLong ? Math.min(bar.open, signal.stopLoss) : Math.max(bar.open, signal.stopLoss);
+      exitTrade(position, time, marketPrice(level, !isLong), position.remainingQty, cfg.takerFeeRate, 'Stop Loss');
+      return;
+    }
+
+    while (position.nextTp < signal.takeProfit.length && position.remainingQty > 0) {
+      const tp = signal.takeProfit[position.nextTp];
+      if (!(isLong ? bar.high >= tp : bar.low <= tp)) break;
+      const isLast = position.nextTp === signal.takeProfit.length - 1;
+      const qty = isLast ? position.remainingQty : Math.min(position.remainingQty, position.tpQuantities[position.nextTp]);
+      const price = isLong ? Math.max(bar.open, tp) : Math.min(bar.open, tp);
+      const tpIndex = position.nextTp++;
+      exitTrade(position, time, price, qty, cfg.makerFeeRate, 'Take Profit', tpIndex);
+    }
+    if (position.remainingQty === 0) return;
+
+    if (trade.barsHeld >= cfg.maxBarsInTrade) {
+      exitTrade(position, time, marketPrice(bar.close, !isLong), position.remainingQty, cfg.takerFeeRate, 'Timed Out');
+    }
+  };
+
+  const tryEntry = (entry: PendingEntry, time: number, bar: CandleStick): boolean => {
+    const { signal } = entry;
+    const isLong = signal.direction === 'LONG';
+    if (signal.expiresAt !== undefined && time >= signal.expiresAt) {
+      markUnfilled(signal, 'Unfilled', 'Expired before the entry was reached.');
+      return true;
+    }
+    if (entry.barsWaited >= cfg.entryTimeoutBars) {
+      markUnfilled(signal, 'Unfilled', `Entry not reached within ${cfg.entryTimeoutBars} bars.`);
+      return true;
+    }
+    entry.barsWaited++;
+
+    let price: number | null = null;
+    let feeRate = cfg.makerFeeRate;
+    if (signal.entryType === 'market') {
+      price = marketPrice(bar.open, isLong);
+      feeRate = cfg.takerFeeRate;
+    } else {
+      // Long limits rest at the top of the entry range, short limits at the bottom; a gap through fills at the open
+      const limit = isLong ? Math.max(...signal.entryRange) : Math.min(...signal.entryRange);
+      if (isLong ? bar.open <= limit : bar.open >= limit) price = bar.open;
+      else if (isLong ? bar.low <= limit : bar.high >= limit) price = limit;
+    }
+    if (price === null) return false;
+
+    if (isLong ? signal.stopLoss >= price : signal.stopLoss <= price) {
+      markUnfilled(signal, 'Skipped', 'The stop loss was already breached at the entry price.');
+      return true;
+    }
+    if (open.length >= cfg.maxOpenPositions) {
+      markUnfilled(signal, 'Skipped', `${cfg.maxOpenPositions} positions were already open.`);
+      return true;
+    }
+    const margin = cash * cfg.marginPerTrade / 100;
+    if (margin <= 0) {
+      markUnfilled(signal, 'Skipped', 'No equity left to trade.');
+      return true;
+    }
+
+    const leverage = Math.max(1, signal.leverage || 1);
+    const qty = margin * leverage / price;
+    const fee = price * qty * feeRate;
+    cash -= fee;
+    // The status stays 'Unfilled' until the last exit closes the trade
+    const trade = Object.assign(trades.get(signal.id)!, { statusReason: undefined, entryTime: time, entryPrice: price, qty, margin, leverage, fees: fee });
+    const position: OpenTrade = {
+      signal, trade, remainingQty: qty, nextTp: 0,
+      tpQuantities: allocateTakeProfits(qty, signal.takeProfit.length, cfg.tpAllocation),
+      lastFundingCheck: time,
+    };
+    open.push(position);
+    // The entry bar can already reach the stop or the targets
+    manageOpenTrade(position, time, bar);
+    return true;
+  };
+
+  for (const time of times) {
+    while (queueIndex < queue.length && queue[queueIndex].timestamp <= time) {
+      const signal = queue[queueIndex++];
+      if (!barsBySymbol.has(signal.symbol)) markUnfilled(signal, 'Unfilled', `No candles for ${signal.symbol}.`);
+      else pending.push({ signal, barsWaited: 0 });
+    }
+
+    barsBySymbol.forEach((bars, symbol) => {
+      const bar = bars.get(time);
+      if (!bar) return;
+      open.filter(position => position.signal.symbol === symbol).forEach(position => {
+        position.trade.barsHeld++;
+        manageOpenTrade(position, time, bar);
+      });
+      pending.filter(entry => entry.signal.symbol === symbol).forEach(entry => {
+        if (tryEntry(entry, time, bar)) pending.splice(pending.indexOf(entry), 1);
+      });
+      lastClose.set(symbol, bar.close);
+    });
+
+    const unrealized = open.reduce((total, { trade, signal, remainingQty }) =>
+      total + ((lastClose.get(signal.symbol) ?? trade.entryPrice!) - trade.entryPrice!) * remainingQty * directionSign(signal), 0);
+    equityCurve.push({ time, equity: cash + unrealized });
+  }
+
+  // Whatever is still open is closed at the last price seen
+  const endTime = times[times.length - 1] ?? 0;
+  [...open].forEach(position => {
+    const price = lastClose.get(position.signal.symbol) ?? position.trade.entryPrice!;
+    exitTrade(position, endTime, marketPrice(price, position.signal.direction !== 'LONG'), position.remainingQty, cfg.takerFeeRate, 'End of Data');
+  });
+  pending.forEach(({ signal }) => markUnfilled(signal, 'Unfilled', 'The data ended before the entry was reached.'));
+  queue.slice(queueIndex).forEach(signal => markUnfilled(signal, 'Unfilled', 'The signal starts after the last candle.'));
+  if (equityCurve.length > 0) equityCurve[equityCurve.length - 1] = { time: endTime, equity: cash };
+
+  const allTrades = [...trades.values()];
+  return { config: cfg, trades: allTrades, equityCurve, metrics: computeBacktestMetrics(allTrades, equityCurve, cfg.startingEquity) };
+}
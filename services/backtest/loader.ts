@@ -0,0 +1,67 @@
+import type { CandleStick, Exchange, SavedSignal, Timeframe } from '@/types';
+import { fetchHistoricalData } from '@/services/exchangeService';
+import { parseDurationToMillis } from '@/utils/date';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
+import type { BacktestConfig, BacktestSignal } from './types';
+
+/**
+ * Converts a saved AI signal into a backtest signal. The entry is a limit order in the signal's entry
+ * range, and the signal expires after the longest duration in its `tradeDuration`, when it has one.
+ */
+export function toBacktestSignal(signal: SavedSignal): BacktestSignal {
+  const duration = parseDurationToMillis(signal.tradeDuration);
+  return {
+    id: signal.id,
+    symbol: signal.symbol,
+    direction: signal.direction,
+    entryType: 'limit',
+    entryRange: signal.entryRange,
+    stopLoss: signal.stopLoss,
+    takeProfit: signal.takeProfit,
+    leverage: signal.leverage,
+    timestamp: signal.timestamp,
+    expiresAt: duration !== null ? signal.timestamp + duration : undefined,
+    label: signal.type ?? 'Swing',
+  };
+}
+
+/**
+ * Fetches the candles a backtest needs: for each symbol, only the time windows its signals can span
+ * (overlapping windows are merged), from the signal time until it expires or the configured entry
+ * timeout and holding limit run out.
+ */
+export async function loadBacktestCandles(
+  exchange: Exchange,
+  signals: BacktestSignal[],
+  timeframe: Timeframe,
+  config: Pick<BacktestConfig, 'entryTimeoutBars' | 'maxBarsInTrade'>,
+): Promise<Record<string, CandleStick[]>> {
+  const barMs = TIMEFRAME_SECONDS[timeframe] * 1000;
+  const maxSpan = (config.entryTimeoutBars + config.maxBarsInTrade + 1) * barMs;
+  const now = Date.now();
+
+  const windowsBySymbol = new Map<string, [number, number][]>();
+  signals.forEach(signal => {
+    const start = signal.timestamp - barMs;
+    const end = Math.min(now, signal.expiresAt !== undefined ? Math.min(signal.expiresAt + barMs, signal.timestamp + maxSpan) : signal.timestamp + maxSpan);
+    windowsBySymbol.set(signal.symbol, [...(windowsBySymbol.get(signal.symbol) ?? []), [start, end]]);
+  });
+
+  const candlesBySymbol: Record<string, CandleStick[]> = {};
+  // One symbol at a time keeps us inside the exchanges' rate limits
+  for (const [symbol, windows] of windowsBySymbol) {
+    const merged: [number, number][] = [];
+    windows.sort((a, b) => a[0] - b[0]).forEach(([start, end]) => {
+      const last = merged[merged.length - 1];
+      if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+    });
+    const byTime = new Map<number, CandleStick>();
+    for (const [start, end] of merged) {
+      if (end <= start) continue;
+      (await fetchHistoricalData(exchange, symbol, timeframe, start, end)).forEach(candle => byTime.set(candle.time, candle));
+    }
+    candlesBySymbol[symbol] = [...byTime.values()].sort((a, b) => a.time - b.time);
+  }
+  return candlesBySymbol;
+}
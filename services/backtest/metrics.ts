@@ -0,0 +1,89 @@
+import type { BacktestBreakdown, BacktestMetrics, BacktestTrade, EquityPoint } from './types';
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+const average = (values: number[]) => values.length > 0 ? sum(values) / values.length : 0;
+
+function profitFactorOf(trades: BacktestTrade[]): number | null {
+  const grossLoss = -sum(trades.filter(t => t.pnl < 0).map(t => t.pnl));
+  return grossLoss > 0 ? sum(trades.filter(t => t.pnl > 0).map(t => t.pnl)) / grossLoss : null;
+}
+
+/**
+ * Largest peak-to-trough decline of the equity curve, absolute and relative to the peak.
+ */
+export function maxDrawdownOf(equityCurve: EquityPoint[]): { maxDrawdown: number; maxDrawdownPct: number } {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  for (const { equity } of equityCurve) {
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (peak - equity) / peak * 100);
+  }
+  return { maxDrawdown, maxDrawdownPct };
+}
+
+/**
+ * Groups closed trades by a key (symbol, label...) with per-group win rate, P&L, profit factor and expectancy.
+ * Groups are sorted by net P&L, best first.
+ */
+export function breakdownBy(trades: BacktestTrade[], keyOf: (trade: BacktestTrade) => string | undefined): BacktestBreakdown[] {
+  const groups = new Map<string, BacktestTrade[]>();
+  trades.forEach(trade => {
+    const key = keyOf(trade);
+    if (key === undefined) return;
+    groups.set(key, [...(groups.get(key) ?? []), trade]);
+  });
+  return [...groups.entries()].map(([key, group]) => {
+    const wins = group.filter(t => t.pnl > 0).length;
+    const netPnl = sum(group.map(t => t.pnl));
+    return {
+      key,
+      trades: group.length,
+      wins,
+      winRate: wins / group.length * 100,
+      netPnl,
+      profitFactor: profitFactorOf(group),
+      expectancy: netPnl / group.length,
+    };
+  }).sort((a, b) => b.netPnl - a.netPnl);
+}
+
+/**
+ * Summary statistics of a backtest. Only closed trades count as trades; unfilled and skipped
+ * signals are reported separately.
+ */
+export function computeBacktestMetrics(trades: BacktestTrade[], equityCurve: EquityPoint[], startingEquity: number): BacktestMetrics {
+  const closed = trades.filter(t => t.status === 'Closed');
+  const winners = closed.filter(t => t.pnl > 0).map(t => t.pnl);
+  const losers = closed.filter(t => t.pnl <= 0).map(t => -t.pnl);
+  const netPnl = sum(closed.map(t => t.pnl));
+  const endingEquity = startingEquity + netPnl;
+
+  return {
+    startingEquity,
+    endingEquity,
+    netPnl,
+    returnPct: startingEquity > 0 ? netPnl / startingEquity * 100 : 0,
+    totalTrades: closed.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: closed.length > 0 ? winners.length / closed.length * 100 : 0,
+    grossProfit: sum(winners),
+    grossLoss: sum(losers),
+    profitFactor: profitFactorOf(closed),
+    expectancy: average(closed.map(t => t.pnl)),
+    averageWin: average(winners),
+    averageLoss: average(losers),
+    largestWin: winners.length > 0 ? Math.max(...winners) : 0,
+    largestLoss: losers.length > 0 ? Math.max(...losers) : 0,
+    ...maxDrawdownOf(equityCurve),
+    totalFees: sum(closed.map(t => t.fees)),
+    totalFunding: sum(closed.map(t => t.funding)),
+    averageBarsHeld: average(closed.map(t => t.barsHeld)),
+    unfilledSignals: trades.filter(t => t.status === 'Unfilled').length,
+    skippedSignals: trades.filter(t => t.status === 'Skipped').length,
+    bySymbol: breakdownBy(closed, t => t.symbol),
+    byLabel: breakdownBy(closed, t => t.label),
+  };
+}
@@ -0,0 +1,256 @@
+import type { SimulationSetup } from '@/types';
+import type {
+  BacktestResult,
+  ExpectancyEstimate,
+  MonteCarloBand,
+  MonteCarloResult,
+  RobustnessConfig,
+  RobustnessReport,
+  TradeOutcome,
+  WalkForwardFold,
+  WalkForwardResult,
+} from './types';
+
+/**
+ * Tests whether a set of closed trades shows a real edge or just luck: Monte Carlo resampling of
+ * the trade sequence (equity paths and risk of ruin), bootstrap confidence bands on expectancy, and
+ * an anchored walk-forward that only trades the labels that were profitable beforehand.
+ *
+ * All resampling uses a seeded generator, so the same trades and config give the same report.
+ */
+
+export const DEFAULT_ROBUSTNESS_CONFIG: RobustnessConfig = {
+  paths: 1000,
+  horizon: 0,
+  marginPerTrade: 5,
+  ruinDrawdown: 50,
+  confidence: 0.95,
+  bootstrapSamples: 1000,
+  folds: 4,
+  seed: 42,
+};
+
+const MAX_PATHS = 5000;
+
+// mulberry32: small, fast and good enough for resampling
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 0;
+
+/**
+ * Linear-interpolated percentile (0-100) of an ascending array.
+ */
+export function percentile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.min(sorted.length - 1, lower + 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Completed simulations as trade outcomes, labelled with the type of the signal they replayed.
+ */
+export function outcomesFromSimulations(simulations: SimulationSetup[]): TradeOutcome[] {
+  return simulations
+    .filter(sim => sim.status === 'completed' && sim.result)
+    .map(sim => {
+      const exits = sim.result!.exits ?? [];
+      return {
+        time: exits.length > 0 ? exits[exits.length - 1].time * 1000 : sim.endTime,
+        returnPct: sim.result!.pnl,
+        label: sim.signalType ?? 'Manual',
+      };
+    })
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * A backtest's closed trades as trade outcomes, labelled like the backtest's own breakdown.
+ */
+export function outcomesFromBacktest(result: BacktestResult): TradeOutcome[] {
+  return result.trades
+    .filter(trade => trade.status === 'Closed' && trade.exitTime !== null)
+    .map(trade => ({ time: trade.exitTime!, returnPct: trade.returnPct, label: trade.label ?? 'Unlabelled' }))
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Resamples the trades with replacement into `paths` equity paths of `horizon` trades, each trade
+ * risking `marginPerTrade`% of current equity. A path is ruined once it draws down `ruinDrawdown`%
+ * from its starting equity, and stays at zero if a trade wipes it out.
+ */
+export function runMonteCarlo(outcomes: TradeOutcome[], config: Partial<RobustnessConfig> = {}): MonteCarloResult {
+  const cfg = { ...DEFAULT_ROBUSTNESS_CONFIG, ...config };
+  const paths = Math.max(1, Math.min(MAX_PATHS, Math.floor(cfg.paths)));
+  const horizon = cfg.horizon > 0 ? Math.floor(cfg.horizon) : outcomes.length;
+  const empty = { p5: 0, p25: 0, p50: 0, p75: 0, p95: 0 };
+  if (outcomes.length === 0 || horizon === 0) {
+    return { paths, horizon: 0, bands: [{ trade: 0, ...empty }], finalReturn: { p5: 0, p50: 0, p95: 0 }, maxDrawdown: { p50: 0, p95: 0 }, riskOfRuin: 0, probabilityOfLoss: 0 };
+  }
+
+  const random = seededRandom(cfg.seed);
+  const sizing = cfg.marginPerTrade / 100;
+  const ruinLevel = 1 - cfg.ruinDrawdown / 100;
+  // Equity of every path after each trade, one column per trade
+  const columns = Array.from({ length: horizon }, () => new Float64Array(paths));
+  const drawdowns = new Float64Array(paths);
+  let ruined = 0;
+  let losing = 0;
+
+  for (let path = 0; path < paths; path++) {
+    let equity = 1;
+    let peak = 1;
+    let maxDrawdown = 0;
+    let isRuined = false;
+    for (let step = 0; step < horizon; step++) {
+      const { returnPct } = outcomes[Math.floor(random() * outcomes.length)];
+      equity = Math.max(0, equity * (1 + sizing * returnPct / 100));
+      peak = Math.max(peak, equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - equity) / peak);
+      if (equity <= ruinLevel) isRuined = true;
+      columns[step][path] = equity;
+    }
+    drawdowns[path] = maxDrawdown * 100;
+    if (isRuined) ruined++;
+    if (equity < 1) losing++;
+  }
+
+  const bands: MonteCarloBand[] = [{ trade: 0, ...empty }];
+  columns.forEach((column, step) => {
+    column.sort();
+    const at = (p: number) => (percentile(column, p) - 1) * 100;
+    bands.push({ trade: step + 1, p5: at(5), p25: at(25), p50: at(50), p75: at(75), p95: at(95) });
+  });
+  drawdowns.sort();
+  const last = bands[bands.length - 1];
+
+  return {
+    paths,
+    horizon,
+    bands,
+    finalReturn: { p5: last.p5, p50: last.p50, p95: last.p95 },
+    maxDrawdown: { p50: percentile(drawdowns, 50), p95: percentile(drawdowns, 95) },
+    riskOfRuin: ruined / paths * 100,
+    probabilityOfLoss: losing / paths * 100,
+  };
+}
+
+function expectancyOf(key: string, outcomes: TradeOutcome[], cfg: RobustnessConfig, random: () => number): ExpectancyEstimate {
+  const returns = outcomes.map(outcome => outcome.returnPct);
+  const expectancy = mean(returns);
+  let low = expectancy;
+  let high = expectancy;
+  if (returns.length > 1) {
+    const means = new Float64Array(Math.max(1, cfg.bootstrapSamples));
+    for (let sample = 0; sample < means.length; sample++) {
+      let total = 0;
+      for (let i = 0; i < returns.length; i++) total += returns[Math.floor(random() * returns.length)];
+      means[sample] = total / returns.length;
+    }
+    means.sort();
+    const tail = (1 - cfg.confidence) / 2 * 100;
+    low = percentile(means, tail);
+    high = percentile(means, 100 - tail);
+  }
+  return {
+    key,
+    trades: returns.length,
+    winRate: returns.length > 0 ? returns.filter(r => r > 0).length / returns.length * 100 : 0,
+    expectancy,
+    low,
+    high,
+    verdict: low > 0 ? 'edge' : high < 0 ? 'negative' : 'noise',
+  };
+}
+
+/**
+ * Expectancy per trade with a bootstrap confidence band, for all trades and then per label (most
+ * trades first). An edge is only called when the whole band clears zero.
+ */
+export function expectancyBands(outcomes: TradeOutcome[], config: Partial<RobustnessConfig> = {}): ExpectancyEstimate[] {
+  const cfg = { ...DEFAULT_ROBUSTNESS_CONFIG, ...config };
+  const random = seededRandom(cfg.seed);
+  const byLabel = new Map<string, TradeOutcome[]>();
+  outcomes.forEach(outcome => byLabel.set(outcome.label, [...(byLabel.get(outcome.label) ?? []), outcome]));
+  const perLabel = [...byLabel.entries()]
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([label, group]) => expectancyOf(label, group, cfg, random));
+  return [expectancyOf('All', outcomes, cfg, random), ...perLabel];
+}
+
+/**
+ * Anchored walk-forward: the trades (oldest first) are cut into `folds + 1` equal windows. Each fold
+ * trains on every window before its test window, keeps the labels with a positive expectancy there,
+ * and measures only those labels on the test window. An edge that is real should hold out of sample.
+ */
+export function walkForward(outcomes: TradeOutcome[], config: Partial<RobustnessConfig> = {}): WalkForwardResult {
+  const cfg = { ...DEFAULT_ROBUSTNESS_CONFIG, ...config };
+  const sorted = [...outcomes].sort((a, b) => a.time - b.time);
+  const windows = Math.max(2, Math.floor(cfg.folds) + 1);
+  const size = Math.floor(sorted.length / windows);
+  if (size === 0) return { folds: [], outOfSampleExpectancy: null, efficiency: null };
+
+  const folds: WalkForwardFold[] = [];
+  const outOfSample: number[] = [];
+  const inSampleMeans: number[] = [];
+  for (let fold = 1; fold < windows; fold++) {
+    const train = sorted.slice(0, fold * size);
+    // The last window takes the remainder
+    const test = sorted.slice(fold * size, fold === windows - 1 ? sorted.length : (fold + 1) * size);
+
+    const labels = [...new Set(train.map(outcome => outcome.label))];
+    const selected = labels.filter(label => mean(train.filter(o => o.label === label).map(o => o.returnPct)) > 0);
+    const selectedTrain = train.filter(outcome => selected.includes(outcome.label)).map(outcome => outcome.returnPct);
+    const selectedTest = test.filter(outcome => selected.includes(outcome.label)).map(outcome => outcome.returnPct);
+
+    const inSampleExpectancy = selectedTrain.length > 0 ? mean(selectedTrain) : null;
+    const outOfSampleExpectancy = selectedTest.length > 0 ? mean(selectedTest) : null;
+    if (inSampleExpectancy !== null && outOfSampleExpectancy !== null) inSampleMeans.push(inSampleExpectancy);
+    outOfSample.push(...selectedTest);
+
+    folds.push({
+      fold,
+      trainFrom: train[0].time,
+      trainTo: train[train.length - 1].time,
+      testFrom: test[0].time,
+      testTo: test[test.length - 1].time,
+      trainTrades: train.length,
+      testTrades: test.length,
+      selected,
+      inSampleExpectancy,
+      outOfSampleExpectancy,
+      outOfSampleTrades: selectedTest.length,
+    });
+  }
+
+  const outOfSampleExpectancy = outOfSample.length > 0 ? mean(outOfSample) : null;
+  const inSample = mean(inSampleMeans);
+  return {
+    folds,
+    outOfSampleExpectancy,
+    efficiency: outOfSampleExpectancy !== null && inSampleMeans.length > 0 && inSample > 0 ? outOfSampleExpectancy / inSample : null,
+  };
+}
+
+export function buildRobustnessReport(source: RobustnessReport['source'], outcomes: TradeOutcome[], config: Partial<RobustnessConfig> = {}): RobustnessReport {
+  const cfg = { ...DEFAULT_ROBUSTNESS_CONFIG, ...config };
+  return {
+    source,
+    generatedAt: Date.now(),
+    config: cfg,
+    trades: outcomes.length,
+    monteCarlo: runMonteCarlo(outcomes, cfg),
+    expectancy: expectancyBands(outcomes, cfg),
+    walkForward: walkForward(outcomes, cfg),
+  };
+}
@@ -0,0 +1,58 @@
+import type { CandleStick, Timeframe } from '@/types';
+import { compileQuery, evaluateQuerySeries } from '@/utils/screenerQuery';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
+import type { BacktestSignal } from './types';
+
+/**
+ * A mechanical entry rule: whenever the screener query matches on a closed bar, enter at the next
+ * bar's open with a stop loss and take profits placed a fixed percentage from that open.
+ */
+export interface BacktestRule {
+  id: string;
+  name: string;
+  query: string; // Screener query language, e.g. "rsi(14,1h) < 30 and close > ema(200,1h)"
+  direction: 'LONG' | 'SHORT';
+  stopLossPercent: number;
+  takeProfitPercents: number[];
+  leverage: number;
+  cooldownBars: number; // Bars to wait after a match before the rule may fire again
+}
+
+/**
+ * Walks the candles and emits a market-entry signal for every bar where the rule's query matches.
+ * The query may only reference the candles' own timeframe and is evaluated in one pass over the
+ * candles, each bar only seeing candles up to itself. Levels are placed from the fill bar's open.
+ */
+export function signalsFromRule(rule: BacktestRule, symbol: string, candles: CandleStick[], timeframe: Timeframe): BacktestSignal[] {
+  const query = compileQuery(rule.query);
+  const foreign = query.requirements.filter(r => r.timeframe !== timeframe).map(r => r.timeframe);
+  if (foreign.length > 0) {
+    throw new Error(`Rule "${rule.name}" uses ${[...new Set(foreign)].join(', ')} data, but the backtest runs on ${timeframe} candles. Add ",${timeframe}" to its functions.`);
+  }
+  const matches = evaluateQuerySeries(query, timeframe, candles);
+  const barMs = TIMEFRAME_SECONDS[timeframe] * 1000;
+  const isLong = rule.direction === 'LONG';
+
+  const signals: BacktestSignal[] = [];
+  let nextAllowedIndex = 0;
+  for (let i = 0; i < candles.length - 1; i++) {
+    if (i < nextAllowedIndex || !matches[i]) continue;
+
+    const { time } = candles[i];
+    const entry = candles[i + 1].open;
+    signals.push({
+      id: `${rule.id}:${symbol}:${time}`,
+      symbol,
+      direction: rule.direction,
+      entryType: 'market',
+      entryRange: [entry, entry],
+      stopLoss: entry * (1 + (isLong ? -1 : 1) * rule.stopLossPercent / 100),
+      takeProfit: rule.takeProfitPercents.map(percent => entry * (1 + (isLong ? 1 : -1) * percent / 100)),
+      leverage: rule.leverage,
+      timestamp: time * 1000 + barMs,
+      label: rule.name,
+    });
+    nextAllowedIndex = i + 1 + Math.max(0, rule.cooldownBars);
+  }
+  return signals;
+}
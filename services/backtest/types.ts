@@ -0,0 +1,195 @@
+/**
+ * A trade idea to replay: where to enter, where to take profit and where to stop out.
+ * Saved AI signals and rule matches are both converted into this shape before a backtest.
+ */
+export interface BacktestSignal {
+  id: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  entryType: 'limit' | 'market'; // Limit entries wait for price to reach the entry range; market entries fill at the next bar's open
+  entryRange: [number, number];
+  stopLoss: number;
+  takeProfit: number[]; // In the order they are expected to be reached
+  leverage: number;
+  timestamp: number; // ms. The signal is live from the first bar that opens at or after this time.
+  expiresAt?: number; // ms. Unfilled signals are cancelled and open trades are closed at market at this time.
+  label?: string; // Free-form grouping, e.g. the signal type or the rule name
+}
+
+export interface BacktestConfig {
+  startingEquity: number;
+  marginPerTrade: number; // Percentage of current equity committed as margin to each trade
+  maxOpenPositions: number; // Signals that fill while this many trades are open are skipped
+  takerFeeRate: number; // Fraction of notional, charged on market entries, stop losses and forced exits
+  makerFeeRate: number; // Fraction of notional, charged on limit entries and take profits
+  slippageBps: number; // Adverse slippage on market fills, in basis points of price
+  fundingRatePer8h: number; // Flat funding rate per 8h interval: longs pay it, shorts receive it
+  tpAllocation: number[]; // Share of the position closed at each TP, normalised over the signal's TPs (missing entries repeat the last one)
+  entryTimeoutBars: number; // Limit entries not filled within this many bars are cancelled
+  maxBarsInTrade: number; // Trades still open after this many bars are closed at market
+}
+
+export type BacktestExitReason = 'Take Profit' | 'Stop Loss' | 'Expired' | 'Timed Out' | 'End of Data';
+
+export interface BacktestExit {
+  time: number; // ms
+  price: number;
+  qty: number;
+  fee: number;
+  reason: BacktestExitReason;
+  tpIndex?: number; // Which take profit was hit (0-based), for take profit exits
+}
+
+export type BacktestTradeStatus = 'Closed' | 'Unfilled' | 'Skipped';
+
+export interface BacktestTrade {
+  signalId: string;
+  symbol: string;
+  direction: 'LONG' | 'SHORT';
+  label?: string;
+  status: BacktestTradeStatus;
+  statusReason?: string; // Why an unfilled or skipped signal never became a trade
+  entryTime: number | null; // ms
+  entryPrice: number | null;
+  qty: number;
+  margin: number;
+  leverage: number;
+  exits: BacktestExit[];
+  exitTime: number | null; // ms, time of the final exit
+  grossPnl: number; // Price P&L across all exits, before costs
+  fees: number; // Entry and exit fees
+  funding: number; // Net funding paid (positive) or received (negative)
+  pnl: number; // Net P&L: grossPnl - fees - funding
+  returnPct: number; // Net P&L as a percentage of margin
+  barsHeld: number;
+}
+
+export interface EquityPoint {
+  time: number; // ms
+  equity: number; // Realised equity plus the open trades' unrealised P&L
+}
+
+export interface BacktestBreakdown {
+  key: string;
+  trades: number;
+  wins: number;
+  winRate: number; // %
+  netPnl: number;
+  profitFactor: number | null; // null when there are no losing trades
+  expectancy: number; // Average net P&L per trade
+}
+
+export interface BacktestMetrics {
+  startingEquity: number;
+  endingEquity: number;
+  netPnl: number;
+  returnPct: number;
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number; // %
+  grossProfit: number;
+  grossLoss: number; // Positive number
+  profitFactor: number | null; // null when there are no losing trades
+  expectancy: number; // Average net P&L per trade
+  averageWin: number;
+  averageLoss: number; // Positive number
+  largestWin: number;
+  largestLoss: number; // Positive number
+  maxDrawdown: number; // Largest peak-to-trough equity decline, in quote currency
+  maxDrawdownPct: number; // ...and as a percentage of the peak
+  totalFees: number;
+  totalFunding: number;
+  averageBarsHeld: number;
+  unfilledSignals: number;
+  skippedSignals: number;
+  bySymbol: BacktestBreakdown[];
+  byLabel: BacktestBreakdown[];
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+}
+
+/**
+ * One closed trade reduced to what robustness analysis needs. Completed simulations and backtest
+ * trades are both converted into this shape.
+ */
+export interface TradeOutcome {
+  time: number; // ms, when the trade closed
+  returnPct: number; // Net return on the trade's margin, in %
+  label: string; // Grouping for expectancy and walk-forward selection, e.g. the signal type
+}
+
+export interface RobustnessConfig {
+  paths: number; // Monte Carlo paths
+  horizon: number; // Trades per path; 0 resamples as many trades as were taken
+  marginPerTrade: number; // Percentage of equity committed as margin to each resampled trade
+  ruinDrawdown: number; // A path is ruined once equity falls this far (%) below its starting value
+  confidence: number; // Confidence level of the expectancy bands, e.g. 0.95
+  bootstrapSamples: number;
+  folds: number; // Walk-forward test windows
+  seed: number; // Makes the resampling repeatable
+}
+
+export interface MonteCarloBand {
+  trade: number; // Trades taken, 0 at the start
+  p5: number; // Percentiles of the return on starting equity (%) across paths
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  horizon: number;
+  bands: MonteCarloBand[];
+  finalReturn: { p5: number; p50: number; p95: number }; // %
+  maxDrawdown: { p50: number; p95: number }; // % of the running peak
+  riskOfRuin: number; // Share of paths that hit the ruin drawdown, in %
+  probabilityOfLoss: number; // Share of paths that ended below starting equity, in %
+}
+
+export interface ExpectancyEstimate {
+  key: string;
+  trades: number;
+  winRate: number; // %
+  expectancy: number; // Mean return on margin per trade, in %
+  low: number; // Bootstrap confidence band of the expectancy
+  high: number;
+  verdict: 'edge' | 'negative' | 'noise'; // Whether the whole band is above zero, below zero, or straddles it
+}
+
+export interface WalkForwardFold {
+  fold: number;
+  trainFrom: number; // ms
+  trainTo: number;
+  testFrom: number;
+  testTo: number;
+  trainTrades: number;
+  testTrades: number;
+  selected: string[]; // Labels with a positive in-sample expectancy, the only ones traded out of sample
+  inSampleExpectancy: number | null; // % per trade of the selected labels, null when none was selected
+  outOfSampleExpectancy: number | null; // ...and over the test window, null when they didn't trade in it
+  outOfSampleTrades: number;
+}
+
+export interface WalkForwardResult {
+  folds: WalkForwardFold[];
+  outOfSampleExpectancy: number | null; // Over every test window's selected trades
+  efficiency: number | null; // Out-of-sample over in-sample expectancy; near 1 means the edge carried over
+}
+
+export interface RobustnessReport {
+  source: 'simulations' | 'backtest';
+  generatedAt: number; // ms
+  config: RobustnessConfig;
+  trades: number;
+  monteCarlo: MonteCarloResult;
+  expectancy: ExpectancyEstimate[]; // 'All' first, then one per label
+  walkForward: WalkForwardResult;
+}
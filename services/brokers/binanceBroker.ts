@@ -0,0 +1,195 @@
+import type { AmendOrderRequest, BrokerBalance, BrokerFill, BrokerOrder, BrokerPosition, OrderRequest, OrderSide, OrderStatus } from '@/types';
+import type { Broker, PositionProtection, SignedRequest, SignedRequestTransport } from './types';
+import { createClientOrderId } from './clientOrderId';
+import { sendSignedRequest } from './transport';
+
+// Position protection is placed as separate conditional orders that close the whole position
+const PROTECTION_TYPES = ['TAKE_PROFIT_MARKET', 'STOP_MARKET'];
+
+const toBinanceSide = (side: OrderSide) => side === 'Buy' ? 'BUY' : 'SELL';
+
+const optionalNumber = (value: string | undefined) => {
+    const parsed = parseFloat(value ?? '');
+    return isNaN(parsed) || parsed === 0 ? undefined : parsed;
+};
+
+const parseStatus = (status: string): OrderStatus => {
+    switch (status) {
+        case 'FILLED': return 'Filled';
+        case 'PARTIALLY_FILLED': return 'PartiallyFilled';
+        case 'REJECTED': return 'Rejected';
+        case 'CANCELED': case 'EXPIRED': case 'EXPIRED_IN_MATCH': return 'Cancelled';
+        default: return 'New';
+    }
+};
+
+// Binance does not report fees on orders; they are only available per fill (userTrades)
+const parseOrder = (o: any): BrokerOrder => ({
+    id: String(o.orderId),
+    clientOrderId: o.clientOrderId,
+    symbol: o.symbol,
+    side: o.side === 'BUY' ? 'Buy' : 'Sell',
+    type: o.type === 'LIMIT' ? 'Limit' : 'Market',
+    qty: parseFloat(o.origQty),
+    price: optionalNumber(o.price),
+    status: parseStatus(o.status),
+    filledQty: parseFloat(o.executedQty) || 0,
+    avgFillPrice: optionalNumber(o.avgPrice) ?? null,
+    fee: 0,
+    reduceOnly: !!o.reduceOnly,
+    createdAt: o.time ?? o.updateTime,
+    updatedAt: o.updateTime,
+});
+
+/**
+ * Binance USDⓈ-M futures in one-way mode. Take profit and stop loss are placed as
+ * close-position conditional orders next to the entry order.
+ * Requests are signed by our backend; see `sendSignedRequest`.
+ */
+export class BinanceBroker implements Broker {
+    public readonly id = 'binance';
+    public readonly displayName = 'Binance Futures';
+    public readonly requiresCredentials = true;
+
+    constructor(private readonly send: SignedRequestTransport) {}
+
+    private request(method: SignedRequest['method'], path: string, params: SignedRequest['params'] = {}): Promise<any> {
+        return this.send({ exchange: 'binance', method, path, params });
+    }
+
+    private async getRawOpenOrders(symbol?: string): Promise<any[]> {
+        return this.request('GET', '/fapi/v1/openOrders', { symbol });
+    }
+
+    private async placeProtection(symbol: string, positionSide: 'Long' | 'Short', { takeProfit, stopLoss }: PositionProtection) {
+        const side = positionSide === 'Long' ? 'SELL' : 'BUY';
+        const levels: [string, number | undefined][] = [['TAKE_PROFIT_MARKET', takeProfit], ['STOP_MARKET', stopLoss]];
+        for (const [type, stopPrice] of levels) {
+            if (stopPrice === undefined) continue;
+            await this.request('POST', '/fapi/v1/order', { symbol, side, type, stopPrice, closePosition: true, workingType: 'MARK_PRICE' });
+        }
+    }
+
+    private async cancelProtection(symbol: string) {
+        const orders = await this.getRawOpenOrders(symbol);
+        for (const order of orders.filter(o => PROTECTION_TYPES.includes(o.type) && o.closePosition)) {
+            await this.request('DELETE', '/fapi/v1/order', { symbol, orderId: order.orderId });
+        }
+    }
+
+    async placeOrder(request: OrderRequest): Promise<BrokerOrder> {
+        if (request.leverage) {
+            await this.request('POST', '/fapi/v1/leverage', { symbol: request.symbol, leverage: Math.round(request.leverage) });
+        }
+
+        const order = parseOrder(await this.request('POST', '/fapi/v1/order', {
+            symbol: request.symbol,
+            side: toBinanceSide(request.side),
+            type: request.type === 'Limit' ? 'LIMIT' : 'MARKET',
+            quantity: request.qty,
+            price: request.type === 'Limit' ? request.price : undefined,
+            timeInForce: request.type === 'Limit' ? 'GTC' : undefined,
+            reduceOnly: request.reduceOnly || undefined,
+            newClientOrderId: request.clientOrderId ?? createClientOrderId(),
+            newOrderRespType: 'RESULT',
+        }));
+
+        if (request.takeProfit !== undefined || request.stopLoss !== undefined) {
+            await this.placeProtection(request.symbol, request.side === 'Buy' ? 'Long' : 'Short', request);
+        }
+        return { ...order, takeProfit: request.takeProfit, stopLoss: request.stopLoss };
+    }
+
+    async cancelOrder(symbol: string, orderId: string): Promise<void> {
+        await this.request('DELETE', '/fapi/v1/order', { symbol, orderId });
+    }
+
+    async amendOrder({ symbol, orderId, qty, price, takeProfit, stopLoss }: AmendOrderRequest): Promise<void> {
+        if (qty !== undefined || price !== undefined) {
+            // Binance needs side, quantity and price on every modification
+            const current = parseOrder(await this.request('GET', '/fapi/v1/order', { symbol, orderId }));
+            await this.request('PUT', '/fapi/v1/order', {
+                symbol, orderId, side: toBinanceSide(current.side), quantity: qty ?? current.qty, price: price ?? current.price,
+            });
+        }
+        if (takeProfit !== undefined || stopLoss !== undefined) {
+            await this.setPositionProtection(symbol, { takeProfit, stopLoss });
+        }
+    }
+
+    async setPositionProtection(symbol: string, protection: PositionProtection): Promise<void> {
+        const position = (await this.getPositions()).find(p => p.symbol === symbol);
+        if (!position) throw new Error(`No open ${symbol} position.`);
+        await this.cancelProtection(symbol);
+        await this.placeProtection(symbol, position.side, protection);
+    }
+
+    async closePosition(symbol: string): Promise<BrokerOrder | null> {
+        const position = (await this.getPositions()).find(p => p.symbol === symbol);
+        if (!position) return null;
+        const order = await this.placeOrder({ symbol, side: position.side === 'Long' ? 'Sell' : 'Buy', type: 'Market', qty: position.quantity, reduceOnly: true });
+        await this.cancelProtection(symbol);
+        return order;
+    }
+
+    async getOpenOrders(symbol?: string): Promise<BrokerOrder[]> {
+        const orders = await this.getRawOpenOrders(symbol);
+        return orders.filter(o => !PROTECTION_TYPES.includes(o.type)).map(parseOrder);
+    }
+
+    async getPositions(): Promise<BrokerPosition[]> {
+        const [positions, openOrders] = await Promise.all([this.request('GET', '/fapi/v2/positionRisk'), this.getRawOpenOrders()]);
+        const protectionPrice = (symbol: string, type: string) =>
+            optionalNumber(openOrders.find(o => o.symbol === symbol && o.type === type && o.closePosition)?.stopPrice);
+
+        return positions
+            .filter((p: any) => parseFloat(p.positionAmt) !== 0)
+            .map((p: any): BrokerPosition => {
+                const amount = parseFloat(p.positionAmt);
+                const leverage = parseFloat(p.leverage);
+                const isolatedMargin = parseFloat(p.isolatedMargin);
+                return {
+                    symbol: p.symbol,
+                    side: amount > 0 ? 'Long' : 'Short',
+                    quantity: Math.abs(amount),
+                    entryPrice: parseFloat(p.entryPrice),
+                    leverage,
+                    margin: isolatedMargin > 0 ? isolatedMargin : Math.abs(parseFloat(p.notional)) / leverage,
+                    unrealizedPnl: parseFloat(p.unRealizedProfit) || 0,
+                    takeProfit: protectionPrice(p.symbol, 'TAKE_PROFIT_MARKET'),
+                    stopLoss: protectionPrice(p.symbol, 'STOP_MARKET'),
+                    liquidationPrice: optionalNumber(p.liquidationPrice),
+                };
+            });
+    }
+
+    async getBalances(): Promise<BrokerBalance[]> {
+        const balances = await this.request('GET', '/fapi/v2/balance');
+        return balances
+            .map((b: any): BrokerBalance => ({ asset: b.asset, total: parseFloat(b.balance), available: parseFloat(b.availableBalance) }))
+            .filter((b: BrokerBalance) => b.total > 0);
+    }
+
+    async getFills(symbol?: string, limit = 50): Promise<BrokerFill[]> {
+        // userTrades is per symbol; without one, look at the symbols with open positions
+        const symbols = symbol ? [symbol] : (await this.getPositions()).map(p => p.symbol);
+        const trades = (await Promise.all(symbols.map(s => this.request('GET', '/fapi/v1/userTrades', { symbol: s, limit })))).flat();
+        return trades
+            .map((t: any): BrokerFill => ({
+                id: String(t.id),
+                orderId: String(t.orderId),
+                symbol: t.symbol,
+                side: t.side === 'BUY' ? 'Buy' : 'Sell',
+                price: parseFloat(t.price),
+                qty: parseFloat(t.qty),
+                fee: parseFloat(t.commission) || 0,
+                isMaker: !!t.maker,
+                realizedPnl: parseFloat(t.realizedPnl) || 0,
+                time: t.time,
+            }))
+            .sort((a, b) => b.time - a.time)
+            .slice(0, limit);
+    }
+}
+
+export const binanceBroker = new BinanceBroker(sendSignedRequest);
@@ -0,0 +1,180 @@
+import type { AmendOrderRequest, BrokerBalance, BrokerFill, BrokerOrder, BrokerPosition, OrderRequest, OrderStatus } from '@/types';
+import type { Broker, PositionProtection, SignedRequest, SignedRequestTransport } from './types';
+import { createClientOrderId } from './clientOrderId';
+import { sendSignedRequest } from './transport';
+
+const CATEGORY = 'linear'; // USDT perpetuals
+const SETTLE_COIN = 'USDT';
+const LEVERAGE_NOT_MODIFIED = 110043;
+
+// Bybit returns empty strings (or "0") for unset numeric fields
+const optionalNumber = (value: string | undefined) => {
+    const parsed = parseFloat(value ?? '');
+    return isNaN(parsed) || parsed === 0 ? undefined : parsed;
+};
+
+const parseStatus = (status: string): OrderStatus => {
+    switch (status) {
+        case 'Filled': return 'Filled';
+        case 'PartiallyFilled': return 'PartiallyFilled';
+        case 'Rejected': return 'Rejected';
+        case 'Cancelled': case 'PartiallyFilledCanceled': case 'Deactivated': return 'Cancelled';
+        default: return 'New'; // New, Untriggered, Triggered
+    }
+};
+
+const parseOrder = (o: any): BrokerOrder => ({
+    id: o.orderId,
+    clientOrderId: o.orderLinkId || undefined,
+    symbol: o.symbol,
+    side: o.side,
+    type: o.orderType,
+    qty: parseFloat(o.qty),
+    price: optionalNumber(o.price),
+    status: parseStatus(o.orderStatus),
+    filledQty: parseFloat(o.cumExecQty) || 0,
+    avgFillPrice: optionalNumber(o.avgPrice) ?? null,
+    fee: parseFloat(o.cumExecFee) || 0,
+    reduceOnly: !!o.reduceOnly,
+    takeProfit: optionalNumber(o.takeProfit),
+    stopLoss: optionalNumber(o.stopLoss),
+    createdAt: parseInt(o.createdTime),
+    updatedAt: parseInt(o.updatedTime),
+    rejectReason: o.rejectReason && o.rejectReason !== 'EC_NoError' ? o.rejectReason : undefined,
+});
+
+/**
+ * Bybit v5 unified trading account, USDT perpetuals in one-way mode.
+ * Requests are signed by our backend; see `sendSignedRequest`.
+ */
+export class BybitBroker implements Broker {
+    public readonly id = 'bybit';
+    public readonly displayName = 'Bybit';
+    public readonly requiresCredentials = true;
+
+    constructor(private readonly send: SignedRequestTransport) {}
+
+    private async request(method: SignedRequest['method'], path: string, params: SignedRequest['params'], allowedCodes: number[] = []): Promise<any> {
+        const data = await this.send({ exchange: 'bybit', method, path, params });
+        if (data?.retCode !== 0 && !allowedCodes.includes(data?.retCode)) {
+            throw new Error(`Bybit: ${data?.retMsg || 'Unknown error'}`);
+        }
+        return data.result;
+    }
+
+    /**
+     * Looks an order up among open orders first, then recent history (filled market orders leave the open list immediately).
+     */
+    private async getOrder(symbol: string, orderLinkId: string): Promise<BrokerOrder | null> {
+        for (const path of ['/v5/order/realtime', '/v5/order/history']) {
+            const result = await this.request('GET', path, { category: CATEGORY, symbol, orderLinkId });
+            if (result.list?.length) return parseOrder(result.list[0]);
+        }
+        return null;
+    }
+
+    async placeOrder(request: OrderRequest): Promise<BrokerOrder> {
+        if (request.leverage) {
+            const leverage = String(request.leverage);
+            await this.request('POST', '/v5/position/set-leverage', { category: CATEGORY, symbol: request.symbol, buyLeverage: leverage, sellLeverage: leverage }, [LEVERAGE_NOT_MODIFIED]);
+        }
+
+        const orderLinkId = request.clientOrderId ?? createClientOrderId();
+        const hasProtection = request.takeProfit !== undefined || request.stopLoss !== undefined;
+        const result = await this.request('POST', '/v5/order/create', {
+            category: CATEGORY,
+            symbol: request.symbol,
+            side: request.side,
+            orderType: request.type,
+            qty: String(request.qty),
+            price: request.type === 'Limit' ? String(request.price) : undefined,
+            timeInForce: request.type === 'Limit' ? 'GTC' : 'IOC',
+            reduceOnly: request.reduceOnly || undefined,
+            takeProfit: request.takeProfit?.toString(),
+            stopLoss: request.stopLoss?.toString(),
+            tpslMode: hasProtection ? 'Full' : undefined,
+            orderLinkId,
+        });
+
+        const now = Date.now();
+        return await this.getOrder(request.symbol, orderLinkId) ?? {
+            id: result.orderId, clientOrderId: orderLinkId, symbol: request.symbol, side: request.side, type: request.type,
+            qty: request.qty, price: request.price, status: 'New', filledQty: 0, avgFillPrice: null, fee: 0,
+            reduceOnly: !!request.reduceOnly, takeProfit: request.takeProfit, stopLoss: request.stopLoss, createdAt: now, updatedAt: now,
+        };
+    }
+
+    async cancelOrder(symbol: string, orderId: string): Promise<void> {
+        await this.request('POST', '/v5/order/cancel', { category: CATEGORY, symbol, orderId });
+    }
+
+    async amendOrder({ symbol, orderId, qty, price, takeProfit, stopLoss }: AmendOrderRequest): Promise<void> {
+        await this.request('POST', '/v5/order/amend', {
+            category: CATEGORY, symbol, orderId,
+            qty: qty?.toString(), price: price?.toString(), takeProfit: takeProfit?.toString(), stopLoss: stopLoss?.toString(),
+        });
+    }
+
+    async setPositionProtection(symbol: string, { takeProfit, stopLoss }: PositionProtection): Promise<void> {
+        // "0" removes a level
+        await this.request('POST', '/v5/position/trading-stop', {
+            category: CATEGORY, symbol, positionIdx: 0, tpslMode: 'Full',
+            takeProfit: takeProfit?.toString() ?? '0', stopLoss: stopLoss?.toString() ?? '0',
+        });
+    }
+
+    async closePosition(symbol: string): Promise<BrokerOrder | null> {
+        const position = (await this.getPositions()).find(p => p.symbol === symbol);
+        if (!position) return null;
+        return this.placeOrder({ symbol, side: position.side === 'Long' ? 'Sell' : 'Buy', type: 'Market', qty: position.quantity, reduceOnly: true });
+    }
+
+    async getOpenOrders(symbol?: string): Promise<BrokerOrder[]> {
+        const result = await this.request('GET', '/v5/order/realtime', { category: CATEGORY, ...(symbol ? { symbol } : { settleCoin: SETTLE_COIN }) });
+        return (result.list ?? []).map(parseOrder);
+    }
+
+    async getPositions(): Promise<BrokerPosition[]> {
+        const result = await this.request('GET', '/v5/position/list', { category: CATEGORY, settleCoin: SETTLE_COIN });
+        return (result.list ?? [])
+            .filter((p: any) => parseFloat(p.size) > 0)
+            .map((p: any): BrokerPosition => ({
+                symbol: p.symbol,
+                side: p.side === 'Buy' ? 'Long' : 'Short',
+                quantity: parseFloat(p.size),
+                entryPrice: parseFloat(p.avgPrice),
+                leverage: parseFloat(p.leverage),
+                margin: parseFloat(p.positionIM) || 0,
+                unrealizedPnl: parseFloat(p.unrealisedPnl) || 0,
+                takeProfit: optionalNumber(p.takeProfit),
+                stopLoss: optionalNumber(p.stopLoss),
+                liquidationPrice: optionalNumber(p.liqPrice),
+            }));
+    }
+
+    async getBalances(): Promise<BrokerBalance[]> {
+        const result = await this.request('GET', '/v5/account/wallet-balance', { accountType: 'UNIFIED' });
+        const coins = result.list?.[0]?.coin ?? [];
+        return coins.map((c: any) => {
+            const total = parseFloat(c.walletBalance) || 0;
+            return { asset: c.coin, total, available: optionalNumber(c.availableToWithdraw) ?? total };
+        });
+    }
+
+    async getFills(symbol?: string, limit = 50): Promise<BrokerFill[]> {
+        const result = await this.request('GET', '/v5/execution/list', { category: CATEGORY, symbol, limit });
+        return (result.list ?? []).map((e: any): BrokerFill => ({
+            id: e.execId,
+            orderId: e.orderId,
+            symbol: e.symbol,
+            side: e.side,
+            price: parseFloat(e.execPrice),
+            qty: parseFloat(e.execQty),
+            fee: parseFloat(e.execFee) || 0,
+            isMaker: !!e.isMaker,
+            time: parseInt(e.execTime),
+        }));
+    }
+}
+
+export const bybitBroker = new BybitBroker(sendSignedRequest);
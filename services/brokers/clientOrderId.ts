@@ -0,0 +1,4 @@
+/**
+ * Client order ids double as idempotency keys, so a retried request never opens a second position.
+ */
+export const createClientOrderId = () => `sg-${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
@@ -0,0 +1,100 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { createClient, type SupabaseClient, type User } from '@supabase/supabase-js';
+import type { ExchangeCredentials } from './signing';
+import type { CredentialExchange, LinkedExchange } from './types';
+
+/**
+ * Server-side only: per-user exchange API keys, encrypted with AES-256-GCM before they reach Supabase.
+ * The table is only reachable with the service role key (see backend/exchange_credentials.md).
+ */
+
+const TABLE = 'exchange_credentials';
+const CIPHER = 'aes-256-gcm';
+const FORMAT_VERSION = 'v1';
+
+let client: SupabaseClient | null = null;
+
+function getAdminClient(): SupabaseClient {
+  if (!client) {
+    const url = process.env.SUPABASE_URL;
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !serviceRoleKey) throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set.');
+    client = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+  }
+  return client;
+}
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.EXCHANGE_KEYS_ENCRYPTION_KEY;
+  if (!secret) throw new Error('EXCHANGE_KEYS_ENCRYPTION_KEY must be set.');
+  return createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypts a secret as "v1:<iv>:<auth tag>:<ciphertext>" (base64 parts).
+ */
+export function encryptSecret(plaintext: string, key = getEncryptionKey()): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [FORMAT_VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+export function decryptSecret(encrypted: string, key = getEncryptionKey()): string {
+  const [version, iv, tag, ciphertext] = encrypted.split(':');
+  if (version !== FORMAT_VERSION || !iv || !tag || !ciphertext) throw new Error('Unrecognised encrypted secret format.');
+  const decipher = createDecipheriv(CIPHER, key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Resolves the Supabase user from the request's "Authorization: Bearer <access token>" header.
+ */
+export async function getRequestUser(req: any): Promise<User | null> {
+  const header: string | undefined = req.headers?.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+  if (!token) return null;
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  return error ? null : data.user;
+}
+
+export async function getExchangeCredentials(userId: string, exchange: CredentialExchange): Promise<ExchangeCredentials | null> {
+  const { data, error } = await getAdminClient()
+    .from(TABLE)
+    .select('api_key_encrypted, api_secret_encrypted')
+    .eq('user_id', userId)
+    .eq('exchange', exchange)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+  return { apiKey: decryptSecret(data.api_key_encrypted), apiSecret: decryptSecret(data.api_secret_encrypted) };
+}
+
+export async function saveExchangeCredentials(userId: string, exchange: CredentialExchange, { apiKey, apiSecret }: ExchangeCredentials): Promise<void> {
+  const { error } = await getAdminClient()
+    .from(TABLE)
+    .upsert({
+      user_id: userId,
+      exchange,
+      api_key_encrypted: encryptSecret(apiKey),
+      api_secret_encrypted: encryptSecret(apiSecret),
+      api_key_hint: apiKey.slice(-4),
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,exchange' });
+  if (error) throw error;
+}
+
+export async function deleteExchangeCredentials(userId: string, exchange: CredentialExchange): Promise<void> {
+  const { error } = await getAdminClient().from(TABLE).delete().eq('user_id', userId).eq('exchange', exchange);
+  if (error) throw error;
+}
+
+export async function listLinkedExchanges(userId: string): Promise<LinkedExchange[]> {
+  const { data, error } = await getAdminClient()
+    .from(TABLE)
+    .select('exchange, api_key_hint, updated_at')
+    .eq('user_id', userId);
+  if (error) throw error;
+  return (data ?? []).map(row => ({ exchange: row.exchange, apiKeyHint: row.api_key_hint, updatedAt: row.updated_at }));
+}
@@ -0,0 +1,390 @@
+import type { AmendOrderRequest, BrokerBalance, BrokerFill, BrokerOrder, BrokerPosition, LiveTrade, OrderBookUpdate, OrderRequest, OrderSide } from '@/types';
+import type { Broker, BrokerEvent, PositionProtection } from './types';
+import { createClientOrderId } from './clientOrderId';
+import { mergeOrderBook } from '@/utils/orderBook';
+
+const STORAGE_KEY = 'paper-broker-account';
+const QUOTE_ASSET = 'USDT';
+const DEFAULT_BALANCE = 10_000;
+const DEFAULT_LEVERAGE = 10;
+const TAKER_FEE_RATE = 0.00055; // Bybit's standard perpetual fees
+const MAKER_FEE_RATE = 0.0002;
+const MAX_STORED_FILLS = 500;
+const QTY_EPSILON = 1e-12;
+
+type PaperPosition = Omit<BrokerPosition, 'unrealizedPnl'>;
+
+interface RestingOrder extends BrokerOrder {
+  leverage: number;
+}
+
+interface PaperAccount {
+  balance: number;
+  orders: RestingOrder[]; // Resting limit orders only
+  positions: PaperPosition[];
+  fills: BrokerFill[];
+}
+
+const directionOf = (side: OrderSide) => side === 'Buy' ? 'Long' : 'Short';
+const oppositeSide = (position: PaperPosition): OrderSide => position.side === 'Long' ? 'Sell' : 'Buy';
+const toBrokerOrder = ({ leverage: _leverage, ...order }: RestingOrder): BrokerOrder => order;
+
+/**
+ * A local paper-trading engine for USDT perpetuals in one-way mode.
+ * Market orders walk the live order book, resting limit orders fill when a trade prints through
+ * their price, and take profit / stop loss trigger on the price feed. The page that owns the
+ * websocket streams feeds them in through `onOrderBook` (snapshots or Bybit deltas), `onTrade` and `onPrice`.
+ * The account (balance, positions, resting orders and fills) survives reloads via localStorage.
+ */
+export class PaperBroker implements Broker {
+  public readonly id = 'paper';
+  public readonly displayName = 'Paper Trading';
+  public readonly requiresCredentials = false;
+
+  private account: PaperAccount;
+  private readonly books = new Map<string, OrderBookUpdate>();
+  private readonly lastPrices = new Map<string, number>();
+  private readonly listeners = new Set<(event: BrokerEvent) => void>();
+
+  constructor(private readonly startingBalance = DEFAULT_BALANCE) {
+    this.account = this.load();
+  }
+
+  // --- Market data ---
+
+  onOrderBook(symbol: string, update: OrderBookUpdate) {
+    this.books.set(symbol, mergeOrderBook(this.books.get(symbol), update));
+  }
+
+  onTrade(symbol: string, trade: LiveTrade) {
+    const price = parseFloat(trade.price);
+    if (!isNaN(price)) this.onPrice(symbol, price);
+  }
+
+  onPrice(symbol: string, price: number) {
+    this.lastPrices.set(symbol, price);
+    this.matchRestingOrders(symbol, price);
+    this.checkProtection(symbol, price);
+  }
+
+  // --- Broker API ---
+
+  async placeOrder(request: OrderRequest): Promise<BrokerOrder> {
+    const now = Date.now();
+    const order: BrokerOrder = {
+      id: `paper_${crypto.randomUUID()}`,
+      clientOrderId: request.clientOrderId ?? createClientOrderId(),
+      symbol: request.symbol, side: request.side, type: request.type, qty: request.qty, price: request.price,
+      status: 'New', filledQty: 0, avgFillPrice: null, fee: 0, reduceOnly: !!request.reduceOnly,
+      takeProfit: request.takeProfit, stopLoss: request.stopLoss, createdAt: now, updatedAt: now,
+    };
+    const leverage = request.leverage || DEFAULT_LEVERAGE;
+
+    const rejection = this.validate(order, leverage);
+    if (rejection) {
+      const rejected = { ...order, status: 'Rejected' as const, rejectReason: rejection };
+      this.emit({ type: 'order', order: rejected });
+      return rejected;
+    }
+    if (order.reduceOnly) {
+      order.qty = Math.min(order.qty, this.findPosition(order.symbol)!.quantity);
+    }
+
+    // Marketable limit orders take liquidity up to their price; the rest rests on the book
+    const fills = this.takeLiquidity(order.symbol, order.side, order.qty, order.type === 'Limit' ? order.price : undefined);
+    fills.forEach(fill => this.applyFill(order, fill.qty, fill.price, false, leverage));
+    if (order.type === 'Limit' && order.qty - order.filledQty > QTY_EPSILON) {
+      this.account.orders.push({ ...order, leverage });
+    }
+
+    this.save();
+    this.emit({ type: 'order', order: { ...order } });
+    return { ...order };
+  }
+
+  async cancelOrder(symbol: string, orderId: string): Promise<void> {
+    const order = this.account.orders.find(o => o.symbol === symbol && o.id === orderId);
+    if (!order) throw new Error(`Order ${orderId} is not open.`);
+    this.account.orders = this.account.orders.filter(o => o !== order);
+    this.save();
+    this.emit({ type: 'order', order: { ...toBrokerOrder(order), status: 'Cancelled', updatedAt: Date.now() } });
+  }
+
+  async amendOrder(request: AmendOrderRequest): Promise<void> {
+    const order = this.account.orders.find(o => o.symbol === request.symbol && o.id === request.orderId);
+    if (!order) throw new Error(`Order ${request.orderId} is not open.`);
+    if (request.qty !== undefined) {
+      if (request.qty <= order.filledQty) throw new Error('New quantity must exceed the filled quantity.');
+      order.qty = request.qty;
+    }
+    if (request.price !== undefined) order.price = request.price;
+    if (request.takeProfit !== undefined) order.takeProfit = request.takeProfit;
+    if (request.stopLoss !== undefined) order.stopLoss = request.stopLoss;
+    order.updatedAt = Date.now();
+    this.save();
+    this.emit({ type: 'order', order: toBrokerOrder(order) });
+  }
+
+  async setPositionProtection(symbol: string, { takeProfit, stopLoss }: PositionProtection): Promise<void> {
+    const position = this.findPosition(symbol);
+    if (!position) throw new Error(`No open ${symbol} position.`);
+    position.takeProfit = takeProfit;
+    position.stopLoss = stopLoss;
+    this.save();
+  }
+
+  async closePosition(symbol: string): Promise<BrokerOrder | null> {
+    const position = this.findPosition(symbol);
+    if (!position) return null;
+    return this.placeOrder({ symbol, side: oppositeSide(position), type: 'Market', qty: position.quantity, reduceOnly: true });
+  }
+
+  async getOpenOrders(symbol?: string): Promise<BrokerOrder[]> {
+    return this.account.orders.filter(o => !symbol || o.symbol === symbol).map(toBrokerOrder);
+  }
+
+  async getPositions(): Promise<BrokerPosition[]> {
+    return this.account.positions.map(position => {
+      const price = this.lastPrices.get(position.symbol) ?? position.entryPrice;
+      const direction = position.side === 'Long' ? 1 : -1;
+      return { ...position, unrealizedPnl: (price - position.entryPrice) * position.quantity * direction };
+    });
+  }
+
+  async getBalances(): Promise<BrokerBalance[]> {
+    return [{ asset: QUOTE_ASSET, total: this.account.balance, available: this.availableBalance() }];
+  }
+
+  async getFills(symbol?: string, limit = 50): Promise<BrokerFill[]> {
+    return this.account.fills.filter(f => !symbol || f.symbol === symbol).slice(0, limit);
+  }
+
+  /**
+   * Symbols with an open position or a resting order, which need live prices to fill and trigger.
+   */
+  getActiveSymbols(): string[] {
+    return [...new Set([...this.account.positions, ...this.account.orders].map(item => item.symbol))];
+  }
+
+  subscribe(listener: (event: BrokerEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  /**
+   * Wipes positions, orders and fills and starts over with a fresh balance.
+   */
+  reset(balance = this.startingBalance) {
+    this.account = { balance, orders: [], positions: [], fills: [] };
+    this.save();
+  }
+
+  // --- Matching ---
+
+  private validate(order: BrokerOrder, leverage: number): string | null {
+    if (!(order.qty > 0)) return 'Quantity must be positive.';
+    if (order.type === 'Limit' && !(order.price! > 0)) return 'Limit orders need a price.';
+
+    const position = this.findPosition(order.symbol);
+    const reduces = position && position.side !== directionOf(order.side);
+    if (order.reduceOnly && !reduces) return 'Reduce-only order has no position to reduce.';
+
+    const referencePrice = order.price ?? this.marketPrice(order.symbol, order.side);
+    if (referencePrice === null) return `No market data for ${order.symbol} yet.`;
+
+    const openingQty = reduces ? Math.max(0, order.qty - position!.quantity) : order.qty;
+    const requiredMargin = openingQty * referencePrice / leverage + order.qty * referencePrice * TAKER_FEE_RATE;
+    if (openingQty > 0 && requiredMargin > this.availableBalance()) return 'Insufficient available balance.';
+    return null;
+  }
+
+  /**
+   * Fills against the order book as a taker, optionally only at prices no worse than `limitPrice`.
+   * Without a book, fills everything at the last traded price (if it is within the limit).
+   * When the book is too thin for a market order, the remainder fills at the worst level seen.
+   */
+  private takeLiquidity(symbol: string, side: OrderSide, qty: number, limitPrice?: number): { qty: number; price: number }[] {
+    const withinLimit = (price: number) => limitPrice === undefined || (side === 'Buy' ? price <= limitPrice : price >= limitPrice);
+    const book = this.books.get(symbol);
+    const levels = (side === 'Buy' ? book?.asks : book?.bids)
+      ?.map(([price, size]) => ({ price: parseFloat(price), size: parseFloat(size) }))
+      .filter(level => level.size > 0)
+      .sort((a, b) => side === 'Buy' ? a.price - b.price : b.price - a.price) ?? [];
+
+    if (levels.length === 0) {
+      const last = this.lastPrices.get(symbol);
+      return last !== undefined && withinLimit(last) ? [{ qty, price: last }] : [];
+    }
+
+    const fills: { qty: number; price: number }[] = [];
+    let remaining = qty;
+    for (const level of levels) {
+      if (remaining <= QTY_EPSILON || !withinLimit(level.price)) break;
+      const take = Math.min(level.size, remaining);
+      fills.push({ qty: take, price: level.price });
+      remaining -= take;
+    }
+    if (remaining > QTY_EPSILON && limitPrice === undefined) {
+      fills.push({ qty: remaining, price: levels[levels.length - 1].price });
+    }
+    return fills;
+  }
+
+  private marketPrice(symbol: string, side: OrderSide): number | null {
+    const book = this.books.get(symbol);
+    const best = side === 'Buy' ? book?.asks[0]?.[0] : book?.bids[0]?.[0];
+    return best !== undefined ? parseFloat(best) : this.lastPrices.get(symbol) ?? null;
+  }
+
+  /**
+   * A trade printing at or through a resting limit price fills the rest of the order at its limit, as a maker.
+   */
+  private matchRestingOrders(symbol: string, price: number) {
+    const crossed = this.account.orders.filter(o => o.symbol === symbol && (o.side === 'Buy' ? price <= o.price! : price >= o.price!));
+    if (crossed.length === 0) return;
+
+    for (const order of crossed) {
+      if (order.reduceOnly) {
+        const position = this.findPosition(symbol);
+        const reducible = position && position.side !== directionOf(order.side) ? position.quantity : 0;
+        order.qty = order.filledQty + Math.min(order.qty - order.filledQty, reducible);
+      }
+      const remaining = order.qty - order.filledQty;
+      if (remaining > QTY_EPSILON) this.applyFill(order, remaining, order.price!, true, order.leverage);
+      if (order.filledQty === 0) order.status = 'Cancelled';
+      this.emit({ type: 'order', order: toBrokerOrder(order) });
+    }
+    this.account.orders = this.account.orders.filter(o => !crossed.includes(o));
+    this.save();
+  }
+
+  private checkProtection(symbol: string, price: number) {
+    const position = this.findPosition(symbol);
+    if (!position) return;
+    const isLong = position.side === 'Long';
+    const hitTp = position.takeProfit !== undefined && (isLong ? price >= position.takeProfit : price <= position.takeProfit);
+    const hitSl = position.stopLoss !== undefined && (isLong ? price <= position.stopLoss : price >= position.stopLoss);
+    if (!hitTp && !hitSl) return;
+
+    // Triggered exits fill at the trigger level; a stop wins if a single print crosses both
+    const reason = hitSl ? 'StopLoss' : 'TakeProfit';
+    const exitPrice = hitSl ? position.stopLoss! : position.takeProfit!;
+    const now = Date.now();
+    const order: BrokerOrder = {
+      id: `paper_${crypto.randomUUID()}`, symbol, side: oppositeSide(position), type: 'Market', qty: position.quantity,
+      status: 'New', filledQty: 0, avgFillPrice: null, fee: 0, reduceOnly: true, createdAt: now, updatedAt: now,
+    };
+    const realizedPnl = this.applyFill(order, position.quantity, exitPrice, false, position.leverage);
+    this.save();
+    this.emit({ type: 'order', order: { ...order } });
+    this.emit({ type: 'positionClosed', symbol, reason, exitPrice, realizedPnl, fee: order.fee });
+  }
+
+  // --- Accounting ---
+
+  /**
+   * Books a fill against the order and the position, settling fees and realized PnL into the balance.
+   * Returns the realized PnL.
+   */
+  private applyFill(order: BrokerOrder, qty: number, price: number, isMaker: boolean, leverage: number): number {
+    const fee = qty * price * (isMaker ? MAKER_FEE_RATE : TAKER_FEE_RATE);
+    const direction = directionOf(order.side);
+    const position = this.findPosition(order.symbol);
+    let realizedPnl = 0;
+
+    if (!position || position.side === direction) {
+      this.increasePosition(order, position, qty, price, leverage);
+    } else {
+      const closeQty = Math.min(qty, position.quantity);
+      realizedPnl = (price - position.entryPrice) * closeQty * (position.side === 'Long' ? 1 : -1);
+      const remaining = position.quantity - closeQty;
+      if (remaining > QTY_EPSILON) {
+        position.quantity = remaining;
+        position.margin = position.entryPrice * remaining / position.leverage;
+      } else {
+        this.account.positions = this.account.positions.filter(p => p !== position);
+      }
+      // Orders larger than the position flip it
+      if (qty - closeQty > QTY_EPSILON && !order.reduceOnly) {
+        this.increasePosition(order, undefined, qty - closeQty, price, leverage);
+      }
+    }
+
+    this.account.balance += realizedPnl - fee;
+    const filledValue = (order.avgFillPrice ?? 0) * order.filledQty + price * qty;
+    order.filledQty += qty;
+    order.avgFillPrice = filledValue / order.filledQty;
+    order.fee += fee;
+    order.status = order.qty - order.filledQty > QTY_EPSILON ? 'PartiallyFilled' : 'Filled';
+    order.updatedAt = Date.now();
+
+    const fill: BrokerFill = {
+      id: `paper_fill_${crypto.randomUUID()}`, orderId: order.id, symbol: order.symbol, side: order.side,
+      price, qty, fee, isMaker, realizedPnl, time: order.updatedAt,
+    };
+    this.account.fills = [fill, ...this.account.fills].slice(0, MAX_STORED_FILLS);
+    this.emit({ type: 'fill', fill });
+    return realizedPnl;
+  }
+
+  private increasePosition(order: BrokerOrder, position: PaperPosition | undefined, qty: number, price: number, leverage: number) {
+    if (!position) {
+      this.account.positions.push({
+        symbol: order.symbol, side: directionOf(order.side), quantity: qty, entryPrice: price, leverage,
+        margin: qty * price / leverage, takeProfit: order.takeProfit, stopLoss: order.stopLoss,
+      });
+      return;
+    }
+    const quantity = position.quantity + qty;
+    position.entryPrice = (position.entryPrice * position.quantity + price * qty) / quantity;
+    position.quantity = quantity;
+    position.leverage = leverage;
+    position.margin = position.entryPrice * quantity / leverage;
+    if (order.takeProfit !== undefined) position.takeProfit = order.takeProfit;
+    if (order.stopLoss !== undefined) position.stopLoss = order.stopLoss;
+  }
+
+  /**
+   * The balance minus position margin and the margin reserved by resting orders that are not reduce-only.
+   */
+  private availableBalance() {
+    const positionMargin = this.account.positions.reduce((sum, p) => sum + p.margin, 0);
+    const orderMargin = this.account.orders
+      .filter(o => !o.reduceOnly)
+      .reduce((sum, o) => sum + (o.qty - o.filledQty) * o.price! / o.leverage, 0);
+    return this.account.balance - positionMargin - orderMargin;
+  }
+
+  private findPosition(symbol: string) {
+    return this.account.positions.find(p => p.symbol === symbol);
+  }
+
+  private emit(event: BrokerEvent) {
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  // --- Persistence ---
+
+  private load(): PaperAccount {
+    const empty = { balance: this.startingBalance, orders: [], positions: [], fills: [] };
+    if (typeof localStorage === 'undefined') return empty;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? { ...empty, ...JSON.parse(stored) } : empty;
+    } catch (error) {
+      console.warn('Could not restore the paper trading account:', error);
+      return empty;
+    }
+  }
+
+  private save() {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.account));
+    } catch (error) {
+      console.warn('Could not save the paper trading account:', error);
+    }
+  }
+}
+
+export const paperBroker = new PaperBroker();
@@ -0,0 +1,16 @@
+import type { Broker } from './types';
+import { paperBroker } from './paperBroker';
+import { bybitBroker } from './bybitBroker';
+import { binanceBroker } from './binanceBroker';
+
+/**
+ * The registry holds all available order execution backends.
+ * The `BrokerId` type is derived from the keys below.
+ */
+export const brokerRegistry = {
+  [paperBroker.id]: paperBroker,
+  [bybitBroker.id]: bybitBroker,
+  [binanceBroker.id]: binanceBroker,
+} satisfies Record<string, Broker>;
+
+export type BrokerName = keyof typeof brokerRegistry;
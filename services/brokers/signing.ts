@@ -0,0 +1,157 @@
+import { createHmac, randomUUID } from 'node:crypto';
+import type { CredentialExchange, SignedRequest } from './types';
+
+/**
+ * Server-side only: signs broker requests with the user's exchange credentials and forwards them.
+ * Used by the `/api/execute-trade` function; never import this from the browser bundle.
+ */
+
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+export interface ForwardOptions {
+  baseUrl?: string; // Overrides the exchange host, e.g. a testnet or a local stand-in
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+}
+
+export interface ForwardedResponse {
+  status: number;
+  body: any;
+}
+
+const RECV_WINDOW = 5000;
+const BYBIT_DUPLICATE_ORDER_LINK_ID = 110072;
+const BINANCE_DUPLICATE_CLIENT_ORDER_ID = -4116;
+
+// Only the endpoints the brokers use can be reached through the proxy
+const ALLOWED_PATHS: Record<CredentialExchange, Record<string, SignedRequest['method'][]>> = {
+  bybit: {
+    '/v5/order/create': ['POST'],
+    '/v5/order/cancel': ['POST'],
+    '/v5/order/amend': ['POST'],
+    '/v5/order/realtime': ['GET'],
+    '/v5/order/history': ['GET'],
+    '/v5/position/list': ['GET'],
+    '/v5/position/set-leverage': ['POST'],
+    '/v5/position/trading-stop': ['POST'],
+    '/v5/account/wallet-balance': ['GET'],
+    '/v5/execution/list': ['GET'],
+  },
+  binance: {
+    '/fapi/v1/order': ['GET', 'POST', 'PUT', 'DELETE'],
+    '/fapi/v1/openOrders': ['GET'],
+    '/fapi/v1/leverage': ['POST'],
+    '/fapi/v1/userTrades': ['GET'],
+    '/fapi/v2/positionRisk': ['GET'],
+    '/fapi/v2/balance': ['GET'],
+  },
+};
+
+export const isAllowedRequest = ({ exchange, method, path }: SignedRequest) =>
+  !!ALLOWED_PATHS[exchange]?.[path]?.includes(method);
+
+const defaultBaseUrl = (exchange: CredentialExchange) => exchange === 'bybit'
+  ? process.env.BYBIT_API_BASE || 'https://api.bybit.com'
+  : process.env.BINANCE_FUTURES_API_BASE || 'https://fapi.binance.com';
+
+const hmacSha256 = (secret: string, payload: string) => createHmac('sha256', secret).update(payload).digest('hex');
+
+// Drops unset params and stringifies the rest, keeping insertion order (the signature covers the exact string)
+const definedParams = (params: SignedRequest['params']) =>
+  Object.fromEntries(Object.entries(params).filter(([, value]) => value !== undefined).map(([key, value]) => [key, String(value)]));
+
+const isOrderCreation = ({ exchange, method, path }: SignedRequest) =>
+  method === 'POST' && (exchange === 'bybit' ? path === '/v5/order/create' : path === '/fapi/v1/order');
+
+/**
+ * Bybit v5: the signature covers timestamp + key + recv window + (query string | JSON body).
+ */
+export function buildBybitRequest(request: SignedRequest, { apiKey, apiSecret }: ExchangeCredentials, baseUrl: string, timestamp: number): { url: string; init: RequestInit } {
+  const isGet = request.method === 'GET';
+  const payload = isGet
+    ? new URLSearchParams(definedParams(request.params)).toString()
+    : JSON.stringify(Object.fromEntries(Object.entries(request.params).filter(([, value]) => value !== undefined)));
+  const headers: Record<string, string> = {
+    'X-BAPI-API-KEY': apiKey,
+    'X-BAPI-TIMESTAMP': String(timestamp),
+    'X-BAPI-RECV-WINDOW': String(RECV_WINDOW),
+    'X-BAPI-SIGN': hmacSha256(apiSecret, `${timestamp}${apiKey}${RECV_WINDOW}${payload}`),
+  };
+  if (!isGet) headers['Content-Type'] = 'application/json';
+  return {
+    url: `${baseUrl}${request.path}${isGet && payload ? `?${payload}` : ''}`,
+    init: { method: request.method, headers, body: isGet ? undefined : payload },
+  };
+}
+
+/**
+ * Binance futures: every parameter goes in the query string, signed as a whole.
+ */
+export function buildBinanceRequest(request: SignedRequest, { apiKey, apiSecret }: ExchangeCredentials, baseUrl: string, timestamp: number): { url: string; init: RequestInit } {
+  const query = new URLSearchParams({ ...definedParams(request.params), recvWindow: String(RECV_WINDOW), timestamp: String(timestamp) }).toString();
+  const signature = hmacSha256(apiSecret, query);
+  return {
+    url: `${baseUrl}${request.path}?${query}&signature=${signature}`,
+    init: { method: request.method, headers: { 'X-MBX-APIKEY': apiKey } },
+  };
+}
+
+async function send(request: SignedRequest, credentials: ExchangeCredentials, { baseUrl, fetchImpl = fetch, now = Date.now }: ForwardOptions): Promise<ForwardedResponse> {
+  const build = request.exchange === 'bybit' ? buildBybitRequest : buildBinanceRequest;
+  const { url, init } = build(request, credentials, baseUrl ?? defaultBaseUrl(request.exchange), now());
+  const response = await fetchImpl(url, init);
+  const body = await response.json().catch(() => ({ message: `Exchange responded with HTTP status ${response.status}` }));
+  return { status: response.status, body };
+}
+
+/**
+ * When an order with this client id already exists (e.g. the first attempt reached the exchange but the
+ * response was lost), answer with that order instead of an error.
+ */
+async function resolveDuplicateOrder(request: SignedRequest, clientOrderId: string, credentials: ExchangeCredentials, options: ForwardOptions): Promise<ForwardedResponse | null> {
+  const symbol = request.params.symbol;
+  if (request.exchange === 'bybit') {
+    for (const path of ['/v5/order/realtime', '/v5/order/history']) {
+      const { body } = await send({ exchange: 'bybit', method: 'GET', path, params: { category: request.params.category, symbol, orderLinkId: clientOrderId } }, credentials, options);
+      const order = body?.result?.list?.[0];
+      if (order) return { status: 200, body: { retCode: 0, retMsg: 'OK', result: { orderId: order.orderId, orderLinkId: order.orderLinkId } } };
+    }
+    return null;
+  }
+  const existing = await send({ exchange: 'binance', method: 'GET', path: '/fapi/v1/order', params: { symbol, origClientOrderId: clientOrderId } }, credentials, options);
+  return existing.status === 200 ? existing : null;
+}
+
+/**
+ * Signs and forwards a broker request, returning the exchange's status code and JSON body unchanged.
+ * Order creation is idempotent: it always carries a client order id (orderLinkId on Bybit,
+ * newClientOrderId on Binance), is retried once if the exchange cannot be reached, and a duplicate-id
+ * rejection resolves to the order that already exists.
+ */
+export async function forwardSignedRequest(request: SignedRequest, credentials: ExchangeCredentials, options: ForwardOptions = {}): Promise<ForwardedResponse> {
+  if (!isOrderCreation(request)) return send(request, credentials, options);
+
+  const idParam = request.exchange === 'bybit' ? 'orderLinkId' : 'newClientOrderId';
+  const clientOrderId = String(request.params[idParam] ?? `sg-${randomUUID().replace(/-/g, '').slice(0, 24)}`);
+  const idempotent = { ...request, params: { ...request.params, [idParam]: clientOrderId } };
+
+  let result: ForwardedResponse;
+  try {
+    result = await send(idempotent, credentials, options);
+    if (result.status >= 500) result = await send(idempotent, credentials, options);
+  } catch (error) {
+    console.warn('Order request failed, retrying with the same client order id:', error);
+    result = await send(idempotent, credentials, options);
+  }
+
+  const isDuplicate = request.exchange === 'bybit'
+    ? result.body?.retCode === BYBIT_DUPLICATE_ORDER_LINK_ID
+    : result.body?.code === BINANCE_DUPLICATE_CLIENT_ORDER_ID;
+  if (isDuplicate) {
+    return await resolveDuplicateOrder(idempotent, clientOrderId, credentials, options) ?? result;
+  }
+  return result;
+}
@@ -0,0 +1,36 @@
+import supabaseService from '@/services/supabaseService';
+import type { SignedRequest } from './types';
+
+const EXECUTION_ENDPOINT = '/api/execute-trade';
+
+/**
+ * Calls one of our own API functions as the signed-in user (Supabase access token as bearer token)
+ * and resolves with the JSON response.
+ */
+export async function fetchWithSession(url: string, init: RequestInit = {}): Promise<any> {
+  const { data } = await supabaseService.getCurrentSession();
+  const token = data.session?.access_token;
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...init.headers,
+    },
+  });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Binance reports errors as { code, msg }; our backend as { message }
+    throw new Error(body?.msg || body?.message || `HTTP status ${response.status}`);
+  }
+  return body;
+}
+
+/**
+ * Sends an exchange request through our secure backend (the Backend-for-Frontend pattern).
+ * The backend looks up the user's API keys, signs the request and forwards it to the exchange,
+ * so the secret never reaches the browser. Resolves with the exchange's JSON response.
+ */
+export function sendSignedRequest(request: SignedRequest): Promise<any> {
+  return fetchWithSession(EXECUTION_ENDPOINT, { method: 'POST', body: JSON.stringify(request) });
+}
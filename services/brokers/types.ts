@@ -0,0 +1,90 @@
+import type { AmendOrderRequest, BrokerBalance, BrokerFill, BrokerOrder, BrokerPosition, OrderRequest } from '@/types';
+
+export interface PositionProtection {
+  takeProfit?: number;
+  stopLoss?: number;
+}
+
+/**
+ * Events pushed by brokers that manage positions locally. Remote brokers have no push channel
+ * (yet), so callers poll `getPositions()` for them instead.
+ */
+export type BrokerEvent =
+  | { type: 'order'; order: BrokerOrder }
+  | { type: 'fill'; fill: BrokerFill }
+  | { type: 'positionClosed'; symbol: string; reason: 'TakeProfit' | 'StopLoss'; exitPrice: number; realizedPnl: number; fee: number };
+
+// Exchanges whose API keys can be linked to the user's account for live execution
+export type CredentialExchange = 'bybit' | 'binance';
+
+export interface LinkedExchange {
+  exchange: CredentialExchange;
+  apiKeyHint: string; // Last characters of the API key, for display
+  updatedAt: string;
+}
+
+/**
+ * A request the BFF signs with the user's exchange credentials and forwards to the exchange.
+ */
+export interface SignedRequest {
+  exchange: CredentialExchange;
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  path: string;
+  params: Record<string, string | number | boolean | undefined>;
+}
+
+export type SignedRequestTransport = (request: SignedRequest) => Promise<any>;
+
+/**
+ * This is the contract that every order execution backend must follow.
+ * Quantities and prices are plain numbers in the instrument's base and quote units.
+ */
+export interface Broker {
+  // A unique id for the broker, used as a key in the registry.
+  readonly id: string;
+
+  // Human-readable name for menus.
+  readonly displayName: string;
+
+  // Whether exchange API keys must be configured before the broker can be used.
+  readonly requiresCredentials: boolean;
+
+  /**
+   * Places an order. Resolves with the order as the broker sees it right after placement;
+   * market orders are usually already filled. Take profit and stop loss attach to the position.
+   */
+  placeOrder(request: OrderRequest): Promise<BrokerOrder>;
+
+  cancelOrder(symbol: string, orderId: string): Promise<void>;
+
+  /**
+   * Changes the size or price of an open order.
+   */
+  amendOrder(request: AmendOrderRequest): Promise<void>;
+
+  /**
+   * Replaces the take profit and stop loss of an open position. Omitted levels are removed.
+   */
+  setPositionProtection(symbol: string, protection: PositionProtection): Promise<void>;
+
+  /**
+   * Closes the whole position at market. Resolves with the closing order, or null if there was no position.
+   */
+  closePosition(symbol: string): Promise<BrokerOrder | null>;
+
+  getOpenOrders(symbol?: string): Promise<BrokerOrder[]>;
+
+  getPositions(): Promise<BrokerPosition[]>;
+
+  getBalances(): Promise<BrokerBalance[]>;
+
+  /**
+   * Most recent fills first.
+   */
+  getFills(symbol?: string, limit?: number): Promise<BrokerFill[]>;
+
+  /**
+   * Subscribes to order, fill and protection events. Only brokers that can push events implement this.
+   */
+  subscribe?(listener: (event: BrokerEvent) => void): () => void;
+}
@@ -0,0 +1,133 @@
+import type { CandleStick, Exchange, Timeframe } from '@/types';
+
+/**
+ * IndexedDB-backed store for closed candles, keyed by exchange, symbol and timeframe.
+ * Alongside the candles it records which time ranges have been fully downloaded, so callers can
+ * fetch only the gaps and serve repeat requests (and offline sessions) straight from disk.
+ * All times are candle open times in milliseconds.
+ */
+
+const DB_NAME = 'signalgen-candles';
+const DB_VERSION = 1;
+const CANDLE_STORE = 'candles';
+const COVERAGE_STORE = 'coverage';
+
+export interface TimeRange {
+    start: number;
+    end: number;
+}
+
+interface CandleRecord extends CandleStick {
+    key: string;
+}
+
+interface CoverageRecord {
+    key: string;
+    ranges: TimeRange[];
+}
+
+export const candleCacheKey = (exchange: Exchange, symbol: string, timeframe: Timeframe) => `${exchange}:${symbol}:${timeframe}`;
+
+export const isCandleCacheAvailable = () => typeof indexedDB !== 'undefined';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(CANDLE_STORE)) db.createObjectStore(CANDLE_STORE, { keyPath: ['key', 'time'] });
+                if (!db.objectStoreNames.contains(COVERAGE_STORE)) db.createObjectStore(COVERAGE_STORE, { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+const promisify = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+/**
+ * Merges overlapping ranges, and ranges that are only `gap` ms apart (adjacent candles).
+ */
+export function mergeRanges(ranges: TimeRange[], gap = 0): TimeRange[] {
+    const sorted = [...ranges].sort((a, b) => a.start - b.start);
+    const merged: TimeRange[] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end + gap) {
+            last.end = Math.max(last.end, range.end);
+        } else {
+            merged.push({ ...range });
+        }
+    }
+    return merged;
+}
+
+/**
+ * Returns the parts of `range` that are not covered by `covered`.
+ */
+export function findGaps(range: TimeRange, covered: TimeRange[]): TimeRange[] {
+    const gaps: TimeRange[] = [];
+    let cursor = range.start;
+    for (const c of mergeRanges(covered)) {
+        if (c.end < cursor) continue;
+        if (c.start > range.end) break;
+        if (c.start > cursor) gaps.push({ start: cursor, end: c.start - 1 });
+        cursor = Math.max(cursor, c.end + 1);
+    }
+    if (cursor <= range.end) gaps.push({ start: cursor, end: range.end });
+    return gaps;
+}
+
+export async function getCoverage(key: string): Promise<TimeRange[]> {
+    const db = await openDatabase();
+    const record = await promisify<CoverageRecord | undefined>(db.transaction(COVERAGE_STORE).objectStore(COVERAGE_STORE).get(key));
+    return record?.ranges ?? [];
+}
+
+export async function readCandles(key: string, range: TimeRange): Promise<CandleStick[]> {
+    const db = await openDatabase();
+    const bounds = IDBKeyRange.bound([key, range.start / 1000], [key, range.end / 1000]);
+    const records = await promisify<CandleRecord[]>(db.transaction(CANDLE_STORE).objectStore(CANDLE_STORE).getAll(bounds));
+    return records.map(({ key: _key, ...candle }) => candle);
+}
+
+/**
+ * Stores candles and marks `covered` as fully downloaded. `timeframeMs` lets neighbouring
+ * ranges merge into one.
+ */
+export async function writeCandles(key: string, candles: CandleStick[], covered: TimeRange, timeframeMs: number): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([CANDLE_STORE, COVERAGE_STORE], 'readwrite');
+    const candleStore = tx.objectStore(CANDLE_STORE);
+    candles.forEach(candle => candleStore.put({ ...candle, key } satisfies CandleRecord));
+
+    const coverageStore = tx.objectStore(COVERAGE_STORE);
+    const existing = await promisify<CoverageRecord | undefined>(coverageStore.get(key));
+    coverageStore.put({ key, ranges: mergeRanges([...(existing?.ranges ?? []), covered], timeframeMs) } satisfies CoverageRecord);
+    await transactionDone(tx);
+}
+
+export async function clearCandleCache(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([CANDLE_STORE, COVERAGE_STORE], 'readwrite');
+    tx.objectStore(CANDLE_STORE).clear();
+    tx.objectStore(COVERAGE_STORE).clear();
+    await transactionDone(tx);
+}
@@ -0,0 +1,383 @@
+import type { CandleStick, PerpTrade, SavedSignal, SimulationSetup, SpotTrade, Strategy, Timeframe } from '@/types';
+import type { BacktestMetrics } from '@/services/backtest/types';
+import { getIndicatorSnapshot, type IndicatorSnapshot } from '@/utils/indicators';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
+
+/**
+ * Read-only views of the user's own data for the assistant's query tools. Each function takes the
+ * store contents and the tool arguments and returns a plain summary the model can quote, so that
+ * "what's my win rate on SOL scalps this month?" is answered from the journal rather than guessed.
+ */
+
+export interface DateRangeFilter {
+  since?: string; // YYYY-MM-DD or ISO date, inclusive
+  until?: string; // YYYY-MM-DD or ISO date, inclusive
+}
+
+export interface SignalHistoryFilter extends DateRangeFilter {
+  symbol?: string;
+  status?: SavedSignal['status'];
+  type?: NonNullable<SavedSignal['type']>;
+  timeframe?: string;
+  limit?: number;
+}
+
+export interface SignalHistoryResult {
+  matched: number;
+  pending: number;
+  wins: number;
+  losses: number;
+  closed: number;
+  winRatePct: number | null; // Wins over wins and losses; null until one of them is recorded
+  signals: {
+    id: string;
+    symbol: string;
+    timeframe: string;
+    type: string;
+    direction: string;
+    status: SavedSignal['status'];
+    createdAt: string;
+    resolvedAt: string | null;
+    entryRange: [number, number];
+    stopLoss: number;
+    takeProfit: number[];
+    hitTakeProfits: number;
+  }[];
+}
+
+export interface PerpTradeFilter extends DateRangeFilter {
+  symbol?: string;
+  side?: PerpTrade['side'];
+}
+
+export interface PerpTradeStatsResult {
+  openTrades: number;
+  closedTrades: number;
+  wins: number;
+  losses: number;
+  winRatePct: number | null;
+  netPnl: number;
+  averagePnl: number | null;
+  averageWin: number | null;
+  averageLoss: number | null;
+  profitFactor: number | null; // Null without losing trades
+  totalFees: number;
+  totalFunding: number;
+  bestTrade: { symbol: string; side: string; pnl: number; closedAt: string } | null;
+  worstTrade: { symbol: string; side: string; pnl: number; closedAt: string } | null;
+  bySymbol: { symbol: string; trades: number; wins: number; netPnl: number }[];
+}
+
+export interface SpotHolding {
+  symbol: string;
+  quantity: number;
+  averageCost: number | null; // Per unit, fees included; null once the position is fully sold
+  costBasis: number;
+  realizedPnl: number;
+  totalFees: number;
+  trades: number;
+  lastTradeAt: string;
+}
+
+export interface StrategyFilter {
+  query?: string; // Matched against the title, description and tags
+  tag?: string;
+  author?: string;
+  isPublic?: boolean;
+}
+
+export interface SimulationFilter extends DateRangeFilter {
+  symbol?: string;
+  limit?: number;
+}
+
+export interface SimulationResultsSummary {
+  completed: number;
+  running: number;
+  wins: number;
+  losses: number;
+  winRatePct: number | null;
+  averagePnlPct: number | null; // Return on margin
+  outcomes: Record<string, number>;
+  simulations: {
+    symbol: string;
+    direction: SimulationSetup['direction'];
+    leverage: number;
+    mode: SimulationSetup['mode'];
+    signalType: string;
+    startedAt: string;
+    outcome: string;
+    pnlPct: number;
+    duration: string;
+  }[];
+  latestBacktest: BacktestMetrics | null; // Signal history backtest run this session
+}
+
+export interface ChartSnapshot {
+  exchange: string;
+  symbol: string;
+  timeframe: Timeframe;
+  from: string;
+  to: string;
+  lastClose: number;
+  changePct: number; // Over the loaded candles
+  high: number;
+  low: number;
+  indicators: IndicatorSnapshot | null;
+  recentCandles: { time: string; open: number; high: number; low: number; close: number; volume: number }[];
+}
+
+export const CHART_SNAPSHOT_CANDLES = 250; // Enough history for the 200-period averages
+const RECENT_CANDLES = 12;
+const DEFAULT_LIMIT = 20;
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+const toIso = (ms: number) => new Date(ms).toISOString();
+const ratioPct = (part: number, whole: number) => whole > 0 ? round(part / whole * 100) : null;
+
+const normalizeSymbol = (symbol: string) => symbol.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// 'SOL' matches SOLUSDT and SOL/USDT
+export const symbolMatches = (symbol: string, query?: string) =>
+  !query || normalizeSymbol(symbol).startsWith(normalizeSymbol(query));
+
+// Date-only values cover the whole local day
+const parseDateBound = (value: string, isEnd: boolean): number => {
+  const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const time = new Date(isDateOnly ? `${value}T${isEnd ? '23:59:59.999' : '00:00:00'}` : value).getTime();
+  if (Number.isNaN(time)) throw new Error(`Invalid date "${value}". Use the YYYY-MM-DD format.`);
+  return time;
+};
+
+const inDateRange = ({ since, until }: DateRangeFilter) => {
+  const start = since ? parseDateBound(since, false) : -Infinity;
+  const end = until ? parseDateBound(until, true) : Infinity;
+  return (time: number) => time >= start && time <= end;
+};
+
+const limitOf = (limit?: number) => limit && limit > 0 ? Math.floor(limit) : DEFAULT_LIMIT;
+
+export function querySignalHistory(signals: SavedSignal[], filter: SignalHistoryFilter = {}): SignalHistoryResult {
+  const isInRange = inDateRange(filter);
+  const matching = signals
+    .filter(signal =>
+      symbolMatches(signal.symbol, filter.symbol)
+      && (!filter.status || signal.status === filter.status)
+      && (!filter.type || (signal.type ?? 'Swing') === filter.type)
+      && (!filter.timeframe || signal.timeframe === filter.timeframe)
+      && isInRange(signal.timestamp))
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const count = (status: SavedSignal['status']) => matching.filter(signal => signal.status === status).length;
+  const wins = count('Win');
+  const losses = count('Loss');
+  return {
+    matched: matching.length,
+    pending: count('Pending'),
+    wins,
+    losses,
+    closed: count('Closed'),
+    winRatePct: ratioPct(wins, wins + losses),
+    signals: matching.slice(0, limitOf(filter.limit)).map(signal => ({
+      id: signal.id,
+      symbol: signal.symbol,
+      timeframe: signal.timeframe,
+      type: signal.type ?? 'Swing',
+      direction: signal.direction,
+      status: signal.status,
+      createdAt: toIso(signal.timestamp),
+      resolvedAt: signal.resolvedAt ? toIso(signal.resolvedAt) : null,
+      entryRange: signal.entryRange,
+      stopLoss: signal.stopLoss,
+      takeProfit: signal.takeProfit,
+      hitTakeProfits: signal.hitTps?.length ?? 0,
+    })),
+  };
+}
+
+/** Closed trades are dated by their exit, open ones by their entry. */
+export function getPerpTradeStats(trades: PerpTrade[], filter: PerpTradeFilter = {}): PerpTradeStatsResult {
+  const isInRange = inDateRange(filter);
+  const matching = trades.filter(trade =>
+    symbolMatches(trade.symbol, filter.symbol)
+    && (!filter.side || trade.side === filter.side)
+    && isInRange(trade.status === 'Closed' ? trade.exitDate ?? trade.entryDate : trade.entryDate));
+
+  const closed = matching.filter(trade => trade.status === 'Closed' && trade.pnl !== undefined);
+  const pnlOf = (trade: PerpTrade) => trade.pnl ?? 0;
+  const winners = closed.filter(trade => pnlOf(trade) > 0);
+  const losers = closed.filter(trade => pnlOf(trade) < 0);
+  const sum = (list: PerpTrade[]) => list.reduce((total, trade) => total + pnlOf(trade), 0);
+  const grossLoss = Math.abs(sum(losers));
+
+  const byPnl = [...closed].sort((a, b) => pnlOf(b) - pnlOf(a));
+  const describe = (trade: PerpTrade | undefined) => trade ? {
+    symbol: trade.symbol,
+    side: trade.side,
+    pnl: round(pnlOf(trade)),
+    closedAt: toIso(trade.exitDate ?? trade.entryDate),
+  } : null;
+
+  const bySymbol = new Map<string, { symbol: string; trades: number; wins: number; netPnl: number }>();
+  for (const trade of closed) {
+    const entry = bySymbol.get(trade.symbol) ?? { symbol: trade.symbol, trades: 0, wins: 0, netPnl: 0 };
+    entry.trades += 1;
+    entry.wins += pnlOf(trade) > 0 ? 1 : 0;
+    entry.netPnl += pnlOf(trade);
+    bySymbol.set(trade.symbol, entry);
+  }
+
+  return {
+    openTrades: matching.filter(trade => trade.status === 'Open').length,
+    closedTrades: closed.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRatePct: ratioPct(winners.length, closed.length),
+    netPnl: round(sum(closed)),
+    averagePnl: closed.length > 0 ? round(sum(closed) / closed.length) : null,
+    averageWin: winners.length > 0 ? round(sum(winners) / winners.length) : null,
+    averageLoss: losers.length > 0 ? round(sum(losers) / losers.length) : null,
+    profitFactor: grossLoss > 0 ? round(sum(winners) / grossLoss) : null,
+    totalFees: round(matching.reduce((total, trade) => total + trade.fees, 0)),
+    totalFunding: round(matching.reduce((total, trade) => total + (trade.fundingFees ?? 0), 0)),
+    bestTrade: describe(byPnl[0]),
+    worstTrade: describe(byPnl[byPnl.length - 1]),
+    bySymbol: [...bySymbol.values()]
+      .map(entry => ({ ...entry, netPnl: round(entry.netPnl) }))
+      .sort((a, b) => b.netPnl - a.netPnl),
+  };
+}
+
+/**
+ * Replays the Spot Log oldest first with average-cost accounting: buys add to the cost basis,
+ * sells take out their share of it and realize the difference. Fully sold symbols are only
+ * returned with `includeClosed`.
+ */
+export function getSpotHoldings(trades: SpotTrade[], { symbol, includeClosed = false }: { symbol?: string; includeClosed?: boolean } = {}): SpotHolding[] {
+  const holdings = new Map<string, SpotHolding>();
+  const ordered = trades.filter(trade => symbolMatches(trade.symbol, symbol)).sort((a, b) => a.date - b.date);
+
+  for (const trade of ordered) {
+    const holding = holdings.get(trade.symbol) ?? {
+      symbol: trade.symbol, quantity: 0, averageCost: null, costBasis: 0, realizedPnl: 0, totalFees: 0, trades: 0, lastTradeAt: '',
+    };
+    const fees = trade.fees || 0;
+    if (trade.side === 'Buy') {
+      holding.quantity += trade.quantity;
+      holding.costBasis += trade.total + fees;
+    } else {
+      const sold = Math.min(trade.quantity, holding.quantity);
+      const releasedCost = holding.quantity > 0 ? holding.costBasis * sold / holding.quantity : 0;
+      holding.realizedPnl += trade.total - fees - releasedCost;
+      holding.costBasis -= releasedCost;
+      holding.quantity -= sold;
+    }
+    holding.totalFees += fees;
+    holding.trades += 1;
+    holding.lastTradeAt = toIso(trade.date);
+    holdings.set(trade.symbol, holding);
+  }
+
+  return [...holdings.values()]
+    .filter(holding => includeClosed || holding.quantity > 0)
+    .map(holding => ({
+      ...holding,
+      quantity: round(holding.quantity, 8),
+      averageCost: holding.quantity > 0 ? round(holding.costBasis / holding.quantity, 8) : null,
+      costBasis: round(holding.costBasis),
+      realizedPnl: round(holding.realizedPnl),
+      totalFees: round(holding.totalFees),
+    }))
+    .sort((a, b) => b.costBasis - a.costBasis);
+}
+
+export function listStrategies(strategies: Strategy[], filter: StrategyFilter = {}) {
+  const query = filter.query?.toLowerCase();
+  const tag = filter.tag?.toLowerCase();
+  return strategies
+    .filter(strategy =>
+      (!filter.author || strategy.authorUsername.toLowerCase() === filter.author.toLowerCase())
+      && (filter.isPublic === undefined || strategy.isPublic === filter.isPublic)
+      && (!tag || strategy.tags.some(t => t.toLowerCase() === tag))
+      && (!query || [strategy.title, strategy.description, ...strategy.tags].some(text => text.toLowerCase().includes(query))))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .map(strategy => ({
+      id: strategy.id,
+      title: strategy.title,
+      author: strategy.authorUsername,
+      tags: strategy.tags,
+      isPublic: strategy.isPublic,
+      createdAt: toIso(strategy.createdAt),
+      description: strategy.description,
+    }));
+}
+
+export function getSimulationResults(
+  simulations: SimulationSetup[],
+  latestBacktest: BacktestMetrics | null,
+  filter: SimulationFilter = {},
+): SimulationResultsSummary {
+  const isInRange = inDateRange(filter);
+  const matching = simulations
+    .filter(simulation => symbolMatches(simulation.symbol, filter.symbol) && isInRange(simulation.timestamp))
+    .sort((a, b) => b.timestamp - a.timestamp);
+  const completed = matching.filter((simulation): simulation is SimulationSetup & { result: NonNullable<SimulationSetup['result']> } =>
+    simulation.status === 'completed' && !!simulation.result);
+
+  const wins = completed.filter(simulation => simulation.result.pnl > 0).length;
+  const losses = completed.filter(simulation => simulation.result.pnl < 0).length;
+  const outcomes: Record<string, number> = {};
+  for (const { result } of completed) outcomes[result.outcome] = (outcomes[result.outcome] ?? 0) + 1;
+
+  return {
+    completed: completed.length,
+    running: matching.filter(simulation => simulation.status === 'running' || simulation.status === 'paused').length,
+    wins,
+    losses,
+    winRatePct: ratioPct(wins, completed.length),
+    averagePnlPct: completed.length > 0 ? round(completed.reduce((total, simulation) => total + simulation.result.pnl, 0) / completed.length) : null,
+    outcomes,
+    simulations: completed.slice(0, limitOf(filter.limit)).map(simulation => ({
+      symbol: simulation.symbol,
+      direction: simulation.direction,
+      leverage: simulation.leverage,
+      mode: simulation.mode,
+      signalType: simulation.signalType ?? 'Manual',
+      startedAt: toIso(simulation.timestamp),
+      outcome: simulation.result.outcome,
+      pnlPct: round(simulation.result.pnl),
+      duration: simulation.result.duration,
+    })),
+    latestBacktest,
+  };
+}
+
+export const isChartTimeframe = (value: unknown): value is Timeframe =>
+  typeof value === 'string' && value in TIMEFRAME_SECONDS;
+
+/** Summarises candles fetched for the `getChartSnapshot` tool. */
+export function getChartSnapshot(candles: CandleStick[], { exchange, symbol, timeframe }: { exchange: string; symbol: string; timeframe: Timeframe }): ChartSnapshot {
+  if (candles.length === 0) throw new Error(`No ${timeframe} candles are available for ${symbol} on ${exchange}.`);
+  const first = candles[0];
+  const last = candles[candles.length - 1];
+  return {
+    exchange,
+    symbol,
+    timeframe,
+    from: toIso(first.time * 1000),
+    to: toIso(last.time * 1000),
+    lastClose: last.close,
+    changePct: round((last.close - first.open) / first.open * 100),
+    high: Math.max(...candles.map(candle => candle.high)),
+    low: Math.min(...candles.map(candle => candle.low)),
+    indicators: getIndicatorSnapshot(candles),
+    recentCandles: candles.slice(-RECENT_CANDLES).map(candle => ({
+      time: toIso(candle.time * 1000),
+      open: candle.open,
+      high: candle.high,
+      low: candle.low,
+      close: candle.close,
+      volume: candle.volume,
+    })),
+  };
+}
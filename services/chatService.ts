@@ -1,26 +1,13 @@
-import { GoogleGenAI, FunctionDeclaration, Type } from "@google/genai";
+import { getLlmProvider } from '@/services/llm/registry';
+import type { LlmSchema, LlmTool } from '@/services/llm/types';
 
-// Define the type for import.meta.env to resolve TypeScript error
-declare global {
-  interface ImportMeta {
-    env: Record<string, string>;
-  }
-}
-
-// Get API key from environment - in browser, this will be processed by Vite
-const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.API_KEY;
-
-if (!API_KEY) {
-  console.error("Gemini API key is not set. Please set VITE_GEMINI_API_KEY in your .env file");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY || "" });
+export const CHAT_MODEL = 'gemini-2.5-flash';
 
 export const SYSTEM_INSTRUCTION = `You are a helpful and expertly informed AI assistant for "Signal Gen," a sophisticated cryptocurrency trading application. Your primary role is to assist users by answering questions about the app's features, general trading concepts, risk management, and providing context-aware guidance.
 
 **Your Core Directives:**
 1.  **Be Context-Aware:** You will be provided with the user's current page and other relevant data (like the selected crypto symbol or timeframe). Use this context to provide relevant, specific answers. When a full signal object is provided, prioritize it for your answers.
-2.  **Be an Educator:** Explain complex trading terms (like Market Structure, Liquidity, Fair Value Gaps) simply and clearly. If a user asks a specific 'how-to' question (e.g., "how do I generate a signal?"), you **MUST** first use the \`getTutorialContent\` function to retrieve the relevant guide. Then, summarize the steps from that guide in your answer. If it's a general question about learning, like "where can I learn about risk management?", you can direct them to the **[Tutorials page](#/tutorials)**.
+2.  **Be an Educator:** Explain complex trading terms (like Market Structure, Liquidity, Fair Value Gaps) simply and clearly. If a user asks a specific 'how-to' question (e.g., "how do I generate a signal?") or about how a feature works, you **MUST** first use the \`searchKnowledge\` function to find the relevant passages in the tutorials, docs and Strategy Hub. Then, summarize them in your answer and cite each passage you used with the markdown link from its \`citation\` field. Use \`getTutorialContent\` when you need the full text of a tutorial the search returned. If it's a general question about learning, like "where can I learn about risk management?", you can direct them to the **[Tutorials page](#/tutorials)**.
 3.  **Be a Guide:** Help users navigate the app. When you mention a feature that has its own page (like Signal Generation, Scalping, or the Screener), **you must make the page name a clickable link**. For example: "For quick signals, you should use the [Scalping page](#/scalping)." Use the format \`[Page Name](#/page-id)\`. Valid \`page-id\` values are: \`dashboard\`, \`signal-gen\`, \`scalping\`, \`screener\`, \`news\`, \`history\`, \`simulation\`, \`analytics\`, \`calculator\`, \`strategies\`, \`profile\`, \`settings\`, \`tutorials\`.
 4.  **Prioritize Safety:** Always promote responsible trading. Emphasize risk management. **Never give financial advice or predict future prices.** Use disclaimers like "This is not financial advice" when appropriate.
 5.  **Be Concise:** Provide clear and direct answers. Use formatting like lists and bold text to improve readability.
@@ -42,39 +29,40 @@ export const SYSTEM_INSTRUCTION = `You are a helpful and expertly informed AI as
 - If a user asks to summarize news, use the \`summarizeNews\` function.
 - If a user asks to set a price alert, use the \`setPriceAlert\` function.
 - If a user asks about their current P&L, use the \`getLivePnl\` function.
+- To answer questions about the user's own data, read it with \`querySignalHistory\`, \`getPerpTradeStats\`, \`getSpotHoldings\`, \`listStrategies\` or \`getSimulationResults\`, and use \`getChartSnapshot\` for the current state of a chart. Base your answer on the returned figures and never invent them.
 - Do not make up signals or analysis yourself. Defer to the function calls to trigger the app's internal AI.
 - Infer the parameters (symbol, timeframe, etc.) from the user's prompt. If parameters are missing, you can ask for them, but prefer to call the function with what you have. The app has default values.
 - After calling a function, inform the user that you have started the process. For example, after creating a strategy, say "I've created and saved that strategy for you. You can find it on the 'Strategies' page."`;
 
-export const generateSignalFunctionDeclaration: FunctionDeclaration = {
+export const generateSignalFunctionDeclaration: LlmTool = {
   name: 'generateSignal',
   description: 'Generates a standard swing trading signal by analyzing market data. Navigates to the Signal Gen page and initiates the analysis.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      symbol: { type: Type.STRING, description: 'The cryptocurrency symbol, e.g., BTCUSDT' },
-      timeframe: { type: Type.STRING, enum: ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '3h', '4h', '1d', '1w'], description: 'The chart timeframe for the analysis.' },
-      margin: { type: Type.NUMBER, description: 'The amount of margin in USD to use for the trade.' },
-      leverage: { type: Type.NUMBER, description: 'The leverage to apply, e.g., 20 for 20x.' },
-      risk: { type: Type.NUMBER, description: 'The percentage of margin to risk on the trade.' },
+      symbol: { type: 'string', description: 'The cryptocurrency symbol, e.g., BTCUSDT' },
+      timeframe: { type: 'string', enum: ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '3h', '4h', '1d', '1w'], description: 'The chart timeframe for the analysis.' },
+      margin: { type: 'number', description: 'The amount of margin in USD to use for the trade.' },
+      leverage: { type: 'number', description: 'The leverage to apply, e.g., 20 for 20x.' },
+      risk: { type: 'number', description: 'The percentage of margin to risk on the trade.' },
     },
     required: ['symbol', 'timeframe'],
   },
 };
 
-export const generateScalpingSignalFunctionDeclaration: FunctionDeclaration = {
+export const generateScalpingSignalFunctionDeclaration: LlmTool = {
   name: 'generateScalpingSignal',
   description: 'Generates a short-term scalping signal. Navigates to the Scalping page and initiates the analysis.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      symbol: { type: Type.STRING, description: 'The cryptocurrency symbol, e.g., BTCUSDT' },
-      timeframe: { type: Type.STRING, enum: ['1m', '3m', '5m', '15m', '30m', '1h'], description: 'The chart timeframe for the scalping analysis.' },
-      margin: { type: Type.NUMBER, description: 'The amount of margin in USD to use for the trade.' },
-      leverage: { type: Type.NUMBER, description: 'The leverage to apply, e.g., 20 for 20x.' },
-      risk: { type: Type.NUMBER, description: 'The percentage of margin to risk on the trade.' },
+      symbol: { type: 'string', description: 'The cryptocurrency symbol, e.g., BTCUSDT' },
+      timeframe: { type: 'string', enum: ['1m', '3m', '5m', '15m', '30m', '1h'], description: 'The chart timeframe for the scalping analysis.' },
+      margin: { type: 'number', description: 'The amount of margin in USD to use for the trade.' },
+      leverage: { type: 'number', description: 'The leverage to apply, e.g., 20 for 20x.' },
+      risk: { type: 'number', description: 'The percentage of margin to risk on the trade.' },
       tradingStyle: {
-        type: Type.STRING,
+        type: 'string',
         enum: ['Balanced', 'Momentum Breakout', 'Liquidity Sweep', 'Range Scalp'],
         description: "Influences the AI's analysis. For example, 'Momentum Breakout' will look for setups where price is breaking a key level with high volume."
       },
@@ -83,73 +71,175 @@ export const generateScalpingSignalFunctionDeclaration: FunctionDeclaration = {
   },
 };
 
-export const createStrategyFunctionDeclaration: FunctionDeclaration = {
+export const createStrategyFunctionDeclaration: LlmTool = {
   name: 'createStrategy',
   description: 'Creates a new trading strategy and saves it to the user\'s "Strategies" page.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      title: { type: Type.STRING, description: 'The title of the trading strategy.' },
-      description: { type: Type.STRING, description: 'A detailed, markdown-supported description of the strategy, including entry/exit rules and risk management.' },
-      tags: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'A list of relevant tags, e.g., "scalping", "BTC", "market-structure". Provide an empty array if no tags are applicable.' },
-      isPublic: { type: Type.BOOLEAN, description: 'Whether the strategy should be visible on the user\'s public profile. Defaults to false.' },
+      title: { type: 'string', description: 'The title of the trading strategy.' },
+      description: { type: 'string', description: 'A detailed, markdown-supported description of the strategy, including entry/exit rules and risk management.' },
+      tags: { type: 'array', items: { type: 'string' }, description: 'A list of relevant tags, e.g., "scalping", "BTC", "market-structure". Provide an empty array if no tags are applicable.' },
+      isPublic: { type: 'boolean', description: 'Whether the strategy should be visible on the user\'s public profile. Defaults to false.' },
     },
     required: ['title', 'description', 'tags', 'isPublic'],
   },
 };
 
-export const createPostFunctionDeclaration: FunctionDeclaration = {
+export const createPostFunctionDeclaration: LlmTool = {
   name: 'createPost',
   description: 'Creates a new social media-style post on the user\'s profile page.',
   parameters: {
-    type: Type.OBJECT,
+    type: 'object',
     properties: {
-      content: { type: Type.STRING, description: 'The text content of the post. Can include links and markdown-like formatting.' },
+      content: { type: 'string', description: 'The text content of the post. Can include links and markdown-like formatting.' },
     },
     required: ['content'],
   },
 };
 
-export const summarizeNewsFunctionDeclaration: FunctionDeclaration = {
+export const summarizeNewsFunctionDeclaration: LlmTool = {
     name: 'summarizeNews',
     description: "Summarizes the latest news about a specific cryptocurrency or topic from the app's news feed.",
     parameters: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-            topic: { type: Type.STRING, description: 'The topic or cryptocurrency to summarize news for, e.g., "Solana", "DeFi", "regulation".' },
+            topic: { type: 'string', description: 'The topic or cryptocurrency to summarize news for, e.g., "Solana", "DeFi", "regulation".' },
         },
         required: ['topic'],
     },
 };
 
-export const getLivePnlFunctionDeclaration: FunctionDeclaration = {
+export const getLivePnlFunctionDeclaration: LlmTool = {
     name: 'getLivePnl',
-    description: "Retrieves the user's total unrealized profit and loss from all currently open live positions.",
-    parameters: { type: Type.OBJECT, properties: {} },
+    description: "Retrieves the user's unrealized profit and loss, marked to live exchange prices, for every open position: Scalping page positions and open Perp Log trades. Returns the totals and a per-position breakdown with entry and mark price, P&L, ROE, and the distance in percent to the stop loss, take profit and liquidation price.",
+    parameters: { type: 'object', properties: {} },
 };
 
-export const setPriceAlertFunctionDeclaration: FunctionDeclaration = {
+export const setPriceAlertFunctionDeclaration: LlmTool = {
     name: 'setPriceAlert',
-    description: 'Sets a price alert for a specific cryptocurrency, which will trigger a notification in the app.',
+    description: 'Sets a price alert for a specific cryptocurrency, which will trigger a notification in the app when the price crosses the level. The user manages alerts on the Alerts page.',
     parameters: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
-            symbol: { type: Type.STRING, description: 'The cryptocurrency symbol to set an alert for, e.g., BTCUSDT.' },
-            price: { type: Type.NUMBER, description: 'The price at which to trigger the alert.' },
+            symbol: { type: 'string', description: 'The cryptocurrency symbol to set an alert for, e.g., BTCUSDT.' },
+            price: { type: 'number', description: 'The price at which to trigger the alert.' },
+            direction: { type: 'string', enum: ['above', 'below', 'either'], description: "Only trigger when the price crosses the level upward ('above') or downward ('below'). Defaults to 'either'." },
         },
         required: ['symbol', 'price'],
     },
 };
 
-export const getTutorialContentFunctionDeclaration: FunctionDeclaration = {
+const SYMBOL_FILTER: LlmSchema = { type: 'string', description: 'Only include this symbol. A base asset like "SOL" matches every SOL pair.' };
+const SINCE_FILTER: LlmSchema = { type: 'string', description: 'Start date, YYYY-MM-DD, inclusive.' };
+const UNTIL_FILTER: LlmSchema = { type: 'string', description: 'End date, YYYY-MM-DD, inclusive.' };
+const LIMIT_FILTER: LlmSchema = { type: 'number', description: 'Maximum number of items to list, newest first. Defaults to 20.' };
+
+export const querySignalHistoryFunctionDeclaration: LlmTool = {
+    name: 'querySignalHistory',
+    description: "Reads the user's saved signal history. Returns the number of matching signals, how many are pending, won, lost or closed, the win rate over resolved signals, and the newest matching signals with their levels.",
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: SYMBOL_FILTER,
+            status: { type: 'string', enum: ['Pending', 'Win', 'Loss', 'Closed'], description: 'Only include signals with this status.' },
+            type: { type: 'string', enum: ['Scalp', 'Swing', 'Manual'], description: "Only include this kind of signal. Scalps come from the Scalping page, swings from Signal Gen." },
+            timeframe: { type: 'string', description: 'Only include signals on this chart timeframe, e.g. 15m.' },
+            since: SINCE_FILTER,
+            until: UNTIL_FILTER,
+            limit: LIMIT_FILTER,
+        },
+    },
+};
+
+export const getPerpTradeStatsFunctionDeclaration: LlmTool = {
+    name: 'getPerpTradeStats',
+    description: "Computes statistics over the user's Perp Log: win rate, net, average, best and worst P&L of closed trades, profit factor, fees and funding, and a per-symbol breakdown. Closed trades are dated by their exit.",
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: SYMBOL_FILTER,
+            side: { type: 'string', enum: ['Long', 'Short'], description: 'Only include trades on this side.' },
+            since: SINCE_FILTER,
+            until: UNTIL_FILTER,
+        },
+    },
+};
+
+export const getSpotHoldingsFunctionDeclaration: LlmTool = {
+    name: 'getSpotHoldings',
+    description: "Reads the user's spot holdings from the Spot Log, with the quantity held, average cost, cost basis and realized P&L of each asset.",
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: SYMBOL_FILTER,
+            includeClosed: { type: 'boolean', description: 'Also list assets that have been fully sold. Defaults to false.' },
+        },
+    },
+};
+
+export const listStrategiesFunctionDeclaration: LlmTool = {
+    name: 'listStrategies',
+    description: "Lists trading strategies on the Strategies page, newest first, with their full description.",
+    parameters: {
+        type: 'object',
+        properties: {
+            mine: { type: 'boolean', description: "Only list the user's own strategies. Defaults to false." },
+            query: { type: 'string', description: 'Text to look for in the title, description or tags.' },
+            tag: { type: 'string', description: 'Only list strategies with this tag.' },
+        },
+    },
+};
+
+export const getSimulationResultsFunctionDeclaration: LlmTool = {
+    name: 'getSimulationResults',
+    description: "Reads the results of the user's trade simulations: win rate, average return on margin, outcome counts and the newest completed simulations, plus the metrics of the latest signal history backtest if one was run this session.",
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: SYMBOL_FILTER,
+            since: SINCE_FILTER,
+            until: UNTIL_FILTER,
+            limit: LIMIT_FILTER,
+        },
+    },
+};
+
+export const getChartSnapshotFunctionDeclaration: LlmTool = {
+    name: 'getChartSnapshot',
+    description: 'Fetches recent candles for a symbol from the exchange and returns the price change, range, the latest candles and current indicator values (moving averages, RSI, MACD, Bollinger Bands, ATR, VWAP, stochastic, ADX).',
+    parameters: {
+        type: 'object',
+        properties: {
+            symbol: { type: 'string', description: 'The cryptocurrency symbol, e.g., SOLUSDT' },
+            timeframe: { type: 'string', enum: ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '1d', '1w'], description: 'The chart timeframe.' },
+        },
+        required: ['symbol', 'timeframe'],
+    },
+};
+
+export const searchKnowledgeFunctionDeclaration: LlmTool = {
+    name: 'searchKnowledge',
+    description: "Searches the app's tutorials, documentation pages and Strategy Hub strategies. Returns the best matching passages, ranked, each with its title, section, an excerpt and a citation link to the page it comes from.",
+    parameters: {
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'What to look for, in keywords or a short question, e.g. "snooze alert" or "how is the win rate calculated".' },
+            limit: { type: 'number', description: 'Maximum number of passages to return. Defaults to 5.' },
+        },
+        required: ['query'],
+    },
+};
+
+export const getTutorialContentFunctionDeclaration: LlmTool = {
     name: 'getTutorialContent',
     description: "Retrieves the content of a specific tutorial article from the app's documentation. Use this to answer a user's specific 'how-to' questions.",
     parameters: {
-        type: Type.OBJECT,
+        type: 'object',
         properties: {
             title: {
-                type: Type.STRING,
-                description: 'The exact title of the tutorial to retrieve. e.g., "How to Generate a Swing Trade Signal".'
+                type: 'string',
+                description: 'The exact title of the tutorial to retrieve, as returned by searchKnowledge. e.g., "How to Generate a Swing Trade Signal".'
             },
         },
         required: ['title'],
@@ -160,13 +250,10 @@ export const getTutorialContentFunctionDeclaration: FunctionDeclaration = {
 export async function generateChatTitle(prompt: string): Promise<string> {
     try {
         const titlePrompt = `Generate a very short, concise title (max 5 words) for the following user query. Only return the title text, nothing else. Do not use quotes. Query: "${prompt}"`;
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: titlePrompt,
-        });
+        const title = await getLlmProvider(CHAT_MODEL).generateText({ model: CHAT_MODEL, prompt: titlePrompt });
 
         // Clean up response to remove potential quotes or extra text
-        return response.text.trim().replace(/^"|"$/g, '');
+        return title.replace(/^"|"$/g, '');
     } catch (error) {
         console.error("Error generating chat title:", error);
         // Fallback to simple truncation on failure
@@ -0,0 +1,106 @@
+import type { EnsembleMember, Signal, UserParams } from '@/types';
+import { computeRrRatio } from '@/services/signalValidation';
+
+/**
+ * Ensemble signal generation: the same prompt runs on several models, or several times on one,
+ * and the runs are merged into a single signal. The majority direction wins, its runs' levels are
+ * merged by median, and the share of all planned runs that agree is reported as the consensus.
+ */
+
+export const MAX_ENSEMBLE_RUNS = 6;
+
+export interface EnsembleRun {
+  model: string;
+  sample: number;
+  signal?: Signal;
+  error?: string;
+}
+
+/**
+ * The model runs an ensemble makes, model by model, capped at MAX_ENSEMBLE_RUNS.
+ */
+export function ensembleRuns(params: UserParams): Pick<EnsembleRun, 'model' | 'sample'>[] {
+  const settings = params.ensemble;
+  if (!settings?.enabled) return [{ model: params.model, sample: 1 }];
+  const models = settings.models.length > 0 ? settings.models : [params.model];
+  const samples = Math.max(1, Math.floor(settings.samplesPerModel));
+  return models
+    .flatMap(model => Array.from({ length: samples }, (_, index) => ({ model, sample: index + 1 })))
+    .slice(0, MAX_ENSEMBLE_RUNS);
+}
+
+export const isEnsemble = (params: UserParams) => ensembleRuns(params).length > 1;
+
+export function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const toMember = ({ model, sample, signal, error }: EnsembleRun): EnsembleMember => signal
+  ? {
+      model,
+      sample,
+      direction: signal.direction,
+      confidence: signal.confidence,
+      entryRange: signal.entryRange,
+      takeProfit: signal.takeProfit,
+      stopLoss: signal.stopLoss,
+      reasoning: signal.reasoning,
+    }
+  : { model, sample, error: error ?? 'No signal returned.' };
+
+/**
+ * Merges ensemble runs into one signal. Direction goes to the most runs, ties to the higher total
+ * confidence. Entry bounds, take profits, stop loss, leverage and confidence are the medians of the
+ * agreeing runs; the take profit count is the median count, and R:R is recomputed from the merged
+ * levels. The remaining fields come from the most confident agreeing run. Consensus is the share of
+ * all runs, failed ones included, that agree, so a lone survivor of a mostly failed ensemble does
+ * not read as full agreement.
+ */
+export function mergeEnsemble(runs: EnsembleRun[]): Signal {
+  const successful = runs.filter((run): run is EnsembleRun & { signal: Signal } => run.signal !== undefined);
+  if (successful.length === 0) {
+    throw new Error(`All ${runs.length} ensemble runs failed: ${runs[0]?.error ?? 'no runs were made.'}`);
+  }
+
+  const votes = (direction: Signal['direction']) => {
+    const agreeing = successful.filter(run => run.signal.direction === direction);
+    return { count: agreeing.length, confidence: agreeing.reduce((total, run) => total + run.signal.confidence, 0) };
+  };
+  const long = votes('LONG');
+  const short = votes('SHORT');
+  const direction: Signal['direction'] = long.count !== short.count
+    ? (long.count > short.count ? 'LONG' : 'SHORT')
+    : (long.confidence >= short.confidence ? 'LONG' : 'SHORT');
+
+  const agreeing = successful.filter(run => run.signal.direction === direction).map(run => run.signal);
+  const representative = agreeing.reduce((best, signal) => signal.confidence > best.confidence ? signal : best);
+  const entries = agreeing.map(signal => [...signal.entryRange].sort((a, b) => a - b));
+  const tpCount = Math.max(1, Math.round(median(agreeing.map(signal => signal.takeProfit.length))));
+  const takeProfit = Array.from({ length: tpCount }, (_, index) => agreeing.map(signal => signal.takeProfit[index]).filter(tp => tp !== undefined))
+    .filter(levels => levels.length > 0)
+    .map(median)
+    .sort((a, b) => direction === 'LONG' ? a - b : b - a);
+  const entryRange: [number, number] = [median(entries.map(([low]) => low)), median(entries.map(([, high]) => high))];
+  const stopLoss = median(agreeing.map(signal => signal.stopLoss));
+  const consensus = Math.round(agreeing.length / runs.length * 100);
+  const failed = runs.length - successful.length;
+
+  return {
+    ...representative,
+    direction,
+    entryRange,
+    takeProfit,
+    stopLoss,
+    leverage: Math.round(median(agreeing.map(signal => signal.leverage))),
+    rrRatio: computeRrRatio(direction, entryRange, takeProfit, stopLoss),
+    confidence: Math.round(median(agreeing.map(signal => signal.confidence))),
+    reasoning: `**Ensemble:** ${agreeing.length} of ${runs.length} runs called ${direction} (${consensus}% consensus${failed > 0 ? `, ${failed} failed` : ''}).\n\n${representative.reasoning}`,
+    ensemble: {
+      consensus,
+      members: runs.map(toMember),
+      dissent: successful.filter(run => run.signal.direction !== direction).map(toMember),
+    },
+  };
+}
@@ -1,13 +1,15 @@
-import type { Exchange, Timeframe, CandleStick } from '@/types';
+import type { Exchange, Timeframe, CandleStick, FundingRate } from '@/types';
 import { exchangeRegistry } from './exchanges/registry';
 import type { ExchangeModule } from './exchanges/types';
+import { candleCacheKey, isCandleCacheAvailable, getCoverage, findGaps, readCandles, writeCandles, type TimeRange } from './candleCache';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
 
 
 /**
  * Private helper to get the correct exchange module from the registry.
  */
 function getExchange(exchangeName: Exchange): ExchangeModule {
-  const exchange = exchangeRegistry[exchangeName.toLowerCase()];
+  const exchange = (exchangeRegistry as Record<string, ExchangeModule>)[exchangeName.toLowerCase()];
   if (!exchange) {
     throw new Error(`Exchange '${exchangeName}' is not supported or does not exist in the registry.`);
   }
@@ -28,6 +30,13 @@ export function getSupportedExchanges(): string[] {
   }
 }
 
+/**
+ * Returns the supported exchanges with their display names, for exchange pickers.
+ */
+export function getExchangeOptions(): { value: Exchange; label: string }[] {
+  return Object.values(exchangeRegistry).map(ex => ({ value: ex.name, label: ex.displayName }));
+}
+
 /**
  * Fetches symbols for a given exchange.
  */
@@ -56,12 +65,64 @@ export async function fetchData(exchange: Exchange, symbol: string, timeframe: T
 }
 
 /**
- * Fetches historical candle data within a time range.
+ * Private helper that serves a historical range from the IndexedDB candle cache, downloading only
+ * the parts that were never fetched. Candles that may still be forming are returned but not cached.
+ */
+async function fetchHistoricalWithCache(ex: ExchangeModule, exchange: Exchange, symbol: string, interval: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
+  const key = candleCacheKey(exchange, symbol, interval);
+  const timeframeMs = TIMEFRAME_SECONDS[interval] * 1000;
+  const lastClosedOpen = Date.now() - timeframeMs;
+
+  let covered: TimeRange[];
+  try {
+    covered = await getCoverage(key);
+  } catch (error) {
+    console.warn('Candle cache unavailable, fetching from the exchange:', error);
+    return ex.fetchHistoricalData(symbol, interval, startTime, endTime);
+  }
+
+  const gaps = findGaps({ start: startTime, end: endTime }, covered);
+  const byTime = new Map<number, CandleStick>();
+  for (const [i, gap] of gaps.entries()) {
+    let candles: CandleStick[];
+    try {
+      candles = await ex.fetchHistoricalData(symbol, interval, gap.start, gap.end);
+    } catch (error) {
+      // Offline with the range cached up to the recent edge: serve what we have
+      const isTrailingGap = i === gaps.length - 1 && gap.end === endTime && gap.start > startTime;
+      if (!isTrailingGap) throw error;
+      console.warn(`Could not fetch the latest ${symbol} ${interval} candles, using cached data only:`, error);
+      break;
+    }
+    candles.forEach(candle => byTime.set(candle.time, candle));
+
+    const cacheableEnd = Math.min(gap.end, lastClosedOpen);
+    if (cacheableEnd >= gap.start) {
+      const closed = candles.filter(candle => candle.time * 1000 <= cacheableEnd);
+      await writeCandles(key, closed, { start: gap.start, end: cacheableEnd }, timeframeMs)
+        .catch(error => console.warn('Could not write candles to the cache:', error));
+    }
+  }
+
+  const fetchedWholeRange = gaps.length === 1 && gaps[0].start === startTime && gaps[0].end === endTime;
+  if (!fetchedWholeRange) {
+    const cached = await readCandles(key, { start: startTime, end: endTime });
+    cached.forEach(candle => { if (!byTime.has(candle.time)) byTime.set(candle.time, candle); });
+  }
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Fetches historical candle data within a time range (ms, inclusive), paging through ranges of any length.
+ * In the browser, closed candles are cached in IndexedDB, so repeat requests load instantly and work offline.
  */
 export async function fetchHistoricalData(exchange: Exchange, symbol: string, interval: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
   try {
     const ex = getExchange(exchange);
-    return await ex.fetchHistoricalData(symbol, interval, startTime, endTime);
+    if (!isCandleCacheAvailable()) {
+      return await ex.fetchHistoricalData(symbol, interval, startTime, endTime);
+    }
+    return await fetchHistoricalWithCache(ex, exchange, symbol, interval, startTime, endTime);
   } catch (error) {
     console.error(`Error fetching historical data from ${exchange} for ${symbol} on ${interval}:`, error);
     throw new Error(`Failed to fetch historical data for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -80,3 +141,16 @@ export async function fetchLivePrice(exchange: Exchange, symbol: string): Promis
     throw new Error(`Failed to fetch live price for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
+
+/**
+ * Fetches the settled funding rates of a perpetual contract within a time range (ms, inclusive), oldest first.
+ */
+export async function fetchFundingHistory(exchange: Exchange, symbol: string, startTime: number, endTime: number): Promise<FundingRate[]> {
+  try {
+    const ex = getExchange(exchange);
+    return await ex.fetchFundingHistory(symbol, startTime, endTime);
+  } catch (error) {
+    console.error(`Error fetching funding history from ${exchange} for ${symbol}:`, error);
+    throw new Error(`Failed to fetch funding history for ${symbol}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
@@ -1,14 +1,27 @@
-import type { CandleStick, Timeframe } from '@/types';
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
 import type { ExchangeModule } from './types';
+import { createRateLimitedFetch } from './rateLimiter';
+import { fetchCandlesForwards } from './pagination';
 
 const BINANCE_API_BASE = 'https://fapi.binance.com/fapi/v1';
+const binanceFetch = createRateLimitedFetch(30); // Futures allow 2400 request weight per minute (40/s)
+// Request weight of /klines by page size
+const klineWeight = (limit: number) => limit < 100 ? 1 : limit < 500 ? 2 : limit <= 1000 ? 5 : 10;
 const binanceValidIntervals: readonly Timeframe[] = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '1d', '1w'];
 
+// Binance k-line rows: [openTime, open, high, low, close, volume, closeTime, quoteVolume, trades, ...]
+const parseKline = (d: any[]): CandleStick => ({
+    time: d[0] / 1000,
+    open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
+    volume: parseFloat(d[5]), quoteVolume: parseFloat(d[7]), trades: Number(d[8]),
+});
+
 class BinanceExchange implements ExchangeModule {
     public readonly name = 'binance';
+    public readonly displayName = 'Binance';
 
     async getSymbols(): Promise<string[]> {
-        const response = await fetch(`${BINANCE_API_BASE}/exchangeInfo`);
+        const response = await binanceFetch(`${BINANCE_API_BASE}/exchangeInfo`);
         if (!response.ok) throw new Error('Failed to fetch exchange info from Binance');
         const data = await response.json();
         return data.symbols
@@ -21,7 +34,7 @@ class BinanceExchange implements ExchangeModule {
         if (!binanceValidIntervals.includes(timeframe)) {
             throw new Error(`Unsupported timeframe "${timeframe}" for Binance.`);
         }
-        const response = await fetch(`${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${timeframe}&limit=${limit}`);
+        const response = await binanceFetch(`${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${timeframe}&limit=${limit}`, klineWeight(limit));
         if (!response.ok) {
             const errorData = await response.json().catch(() => ({ msg: `HTTP status ${response.status}` }));
             throw new Error(`Failed to fetch k-lines for ${symbol} from Binance: ${errorData.msg || 'Unknown error'}`);
@@ -30,32 +43,30 @@ class BinanceExchange implements ExchangeModule {
         if (!Array.isArray(data)) {
             throw new Error('Received malformed data from Binance. Expected an array of k-lines.');
         }
-        return data.map((d: any) => ({
-            time: d[0] / 1000,
-            open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
-        }));
+        return data.map(parseKline);
     }
 
     async fetchHistoricalData(symbol: string, interval: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
         if (!binanceValidIntervals.includes(interval)) {
             throw new Error(`Unsupported timeframe "${interval}" for Binance.`);
         }
-        const response = await fetch(`${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${interval}&startTime=${startTime}&endTime=${endTime}&limit=1500`);
-        if (!response.ok) {
-            const errorData = await response.json().catch(() => ({ msg: `HTTP status ${response.status}` }));
-            throw new Error(`Failed to fetch historical k-lines for ${symbol} from Binance: ${errorData.msg || 'Unknown error'}`);
-        }
-        const data = await response.json();
-        if (!Array.isArray(data)) {
-            throw new Error('Received malformed historical data from Binance. Expected an array of k-lines.');
-        }
-        return data.map((d: any) => ({
-            time: d[0] / 1000, open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
-        }));
+        // Pages of up to 1500 candles, walking forwards from startTime until the range is covered
+        return fetchCandlesForwards(async from => {
+            const response = await binanceFetch(`${BINANCE_API_BASE}/klines?symbol=${symbol}&interval=${interval}&startTime=${from}&endTime=${endTime}&limit=1500`, klineWeight(1500));
+            if (!response.ok) {
+                const errorData = await response.json().catch(() => ({ msg: `HTTP status ${response.status}` }));
+                throw new Error(`Failed to fetch historical k-lines for ${symbol} from Binance: ${errorData.msg || 'Unknown error'}`);
+            }
+            const data = await response.json();
+            if (!Array.isArray(data)) {
+                throw new Error('Received malformed historical data from Binance. Expected an array of k-lines.');
+            }
+            return data.map(parseKline);
+        }, { startTime, endTime });
     }
     
     async fetchLivePrice(symbol: string): Promise<number> {
-        const response = await fetch(`${BINANCE_API_BASE}/ticker/price?symbol=${symbol}`);
+        const response = await binanceFetch(`${BINANCE_API_BASE}/ticker/price?symbol=${symbol}`);
         if (!response.ok) {
             throw new Error(`Failed to fetch live price for ${symbol} from Binance`);
         }
@@ -66,6 +77,22 @@ class BinanceExchange implements ExchangeModule {
         }
         return price;
     }
+
+    async fetchFundingHistory(symbol: string, startTime: number, endTime: number): Promise<FundingRate[]> {
+        const rates: FundingRate[] = [];
+        // Pages of up to 1000 settlements (almost a year at 8h intervals), walking forwards from startTime
+        let from = startTime;
+        while (from <= endTime) {
+            const response = await binanceFetch(`${BINANCE_API_BASE}/fundingRate?symbol=${symbol}&startTime=${from}&endTime=${endTime}&limit=1000`);
+            if (!response.ok) throw new Error(`Failed to fetch funding history for ${symbol} from Binance`);
+            const data: any[] = await response.json();
+            if (!Array.isArray(data) || data.length === 0) break;
+            rates.push(...data.map(d => ({ time: d.fundingTime, rate: parseFloat(d.fundingRate), markPrice: parseFloat(d.markPrice) || undefined })));
+            if (data.length < 1000) break;
+            from = data[data.length - 1].fundingTime + 1;
+        }
+        return rates;
+    }
 }
 
 export const binanceExchange = new BinanceExchange();
@@ -0,0 +1,83 @@
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
+import type { ExchangeModule } from './types';
+import { createRateLimitedFetch } from './rateLimiter';
+import { fetchCandlesBackwards, fetchFundingBackwards } from './pagination';
+
+const BITGET_API_BASE = 'https://api.bitget.com/api/v2/mix/market';
+const bitgetFetch = createRateLimitedFetch(10); // Market endpoints allow 20 requests per second
+const BITGET_PRODUCT_TYPE = 'USDT-FUTURES';
+const BITGET_LATEST_LIMIT = 1000;
+const BITGET_PAGE_LIMIT = 200; // history-candles returns at most 200 rows per request
+// Bitget has no 2h granularity; daily and weekly bars use the UTC variants
+export const bitgetGranularityMap: Partial<Record<Timeframe, string>> = { '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m', '1h': '1H', '4h': '4H', '1d': '1Dutc', '1w': '1Wutc' };
+
+// Bitget k-line rows: [ts, open, high, low, close, baseVolume, quoteVolume]. Trade counts are not provided.
+export const parseBitgetKline = (d: string[]): CandleStick => ({
+    time: parseInt(d[0]) / 1000,
+    open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
+    volume: parseFloat(d[5]), quoteVolume: parseFloat(d[6]),
+});
+
+class BitgetExchange implements ExchangeModule {
+    public readonly name = 'bitget';
+    public readonly displayName = 'Bitget';
+
+    private async fetchPage(symbol: string, timeframe: Timeframe, before: number | null, limit: number): Promise<CandleStick[]> {
+        const granularity = bitgetGranularityMap[timeframe];
+        if (!granularity) throw new Error(`Unsupported timeframe "${timeframe}" for Bitget.`);
+        const query = `symbol=${symbol}&productType=${BITGET_PRODUCT_TYPE}&granularity=${granularity}`;
+        const url = before === null
+            ? `${BITGET_API_BASE}/candles?${query}&limit=${Math.min(limit, BITGET_LATEST_LIMIT)}`
+            : `${BITGET_API_BASE}/history-candles?${query}&limit=${BITGET_PAGE_LIMIT}&endTime=${before - 1}`;
+        const response = await bitgetFetch(url);
+        if (!response.ok) throw new Error(`Failed to fetch k-lines for ${symbol} from Bitget`);
+        const data = await response.json();
+        if (data.code !== '00000') throw new Error(`Failed to fetch k-lines for ${symbol} from Bitget: ${data.msg || 'Unknown error'}`);
+        return data.data.map(parseBitgetKline);
+    }
+
+    async getSymbols(): Promise<string[]> {
+        const response = await bitgetFetch(`${BITGET_API_BASE}/contracts?productType=${BITGET_PRODUCT_TYPE}`);
+        if (!response.ok) throw new Error('Failed to fetch contracts from Bitget');
+        const data = await response.json();
+        return data.data
+            .filter((s: any) => s.quoteCoin === 'USDT' && s.symbolType === 'perpetual' && s.symbolStatus === 'normal')
+            .map((s: any) => s.symbol)
+            .sort();
+    }
+
+    async fetchData(symbol: string, timeframe: Timeframe, limit = 500): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before, limit), { limit });
+    }
+
+    async fetchHistoricalData(symbol: string, timeframe: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before, BITGET_PAGE_LIMIT), { startTime, endTime: endTime + 1 });
+    }
+
+    async fetchLivePrice(symbol: string): Promise<number> {
+        const response = await bitgetFetch(`${BITGET_API_BASE}/ticker?symbol=${symbol}&productType=${BITGET_PRODUCT_TYPE}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch live price for ${symbol} from Bitget`);
+        }
+        const data = await response.json();
+        const price = parseFloat(data.data?.[0]?.lastPr);
+        if (isNaN(price)) {
+            throw new Error(`Invalid price format received for ${symbol} from Bitget`);
+        }
+        return price;
+    }
+
+    async fetchFundingHistory(symbol: string, startTime: number, endTime: number): Promise<FundingRate[]> {
+        // Bitget pages by number (newest first) rather than by time, so each call fetches the next older page
+        let pageNo = 0;
+        return fetchFundingBackwards(async () => {
+            pageNo++;
+            const response = await bitgetFetch(`${BITGET_API_BASE}/history-fund-rate?symbol=${symbol}&productType=${BITGET_PRODUCT_TYPE}&pageSize=100&pageNo=${pageNo}`);
+            if (!response.ok) throw new Error(`Failed to fetch funding history for ${symbol} from Bitget`);
+            const data = await response.json();
+            return (data.data ?? []).map((d: any) => ({ time: parseInt(d.fundingTime), rate: parseFloat(d.fundingRate) }));
+        }, { startTime, endTime });
+    }
+}
+
+export const bitgetExchange = new BitgetExchange();
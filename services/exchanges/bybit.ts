@@ -1,14 +1,25 @@
-import type { CandleStick, Timeframe } from '@/types';
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
 import type { ExchangeModule } from './types';
+import { createRateLimitedFetch } from './rateLimiter';
+import { fetchCandlesBackwards, fetchFundingBackwards } from './pagination';
 
 const BYBIT_API_BASE = 'https://api.bybit.com/v5/market';
+const bybitFetch = createRateLimitedFetch(10); // Bybit allows 600 requests per 5 seconds per IP; stay well below it
 const bybitIntervalMap: Record<Timeframe, string> = { '1m': '1', '3m': '3', '5m': '5', '15m': '15', '30m': '30', '1h': '60', '2h': '120', '4h': '240', '1d': 'D', '1w': 'W' };
 
+// Bybit k-line rows: [startTime, open, high, low, close, volume, turnover]. Trade counts are not provided.
+const parseKline = (d: string[]): CandleStick => ({
+    time: parseInt(d[0]) / 1000,
+    open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
+    volume: parseFloat(d[5]), quoteVolume: parseFloat(d[6]),
+});
+
 class BybitExchange implements ExchangeModule {
     public readonly name = 'bybit';
+    public readonly displayName = 'Bybit';
 
     async getSymbols(): Promise<string[]> {
-        const response = await fetch(`${BYBIT_API_BASE}/instruments-info?category=linear`);
+        const response = await bybitFetch(`${BYBIT_API_BASE}/instruments-info?category=linear`);
         if (!response.ok) throw new Error('Failed to fetch instruments info from Bybit');
         const data = await response.json();
         return data.result.list
@@ -20,28 +31,26 @@ class BybitExchange implements ExchangeModule {
     async fetchData(symbol: string, timeframe: Timeframe, limit = 500): Promise<CandleStick[]> {
         const interval = bybitIntervalMap[timeframe];
         if (!interval) throw new Error(`Unsupported timeframe "${timeframe}" for Bybit.`);
-        const response = await fetch(`${BYBIT_API_BASE}/kline?category=linear&symbol=${symbol}&interval=${interval}&limit=${limit}`);
+        const response = await bybitFetch(`${BYBIT_API_BASE}/kline?category=linear&symbol=${symbol}&interval=${interval}&limit=${limit}`);
         if (!response.ok) throw new Error(`Failed to fetch k-lines for ${symbol} from Bybit`);
         const data = await response.json();
-        return data.result.list.map((d: any) => ({
-            time: parseInt(d[0]) / 1000,
-            open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
-        })).reverse();
+        return data.result.list.map(parseKline).reverse();
     }
 
     async fetchHistoricalData(symbol: string, timeframe: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
         const interval = bybitIntervalMap[timeframe];
         if (!interval) throw new Error(`Unsupported timeframe "${timeframe}" for Bybit.`);
-        const response = await fetch(`${BYBIT_API_BASE}/kline?category=linear&symbol=${symbol}&interval=${interval}&start=${startTime}&end=${endTime}&limit=1000`);
-        if (!response.ok) throw new Error(`Failed to fetch historical k-lines for ${symbol} from Bybit`);
-        const data = await response.json();
-        return data.result.list.map((d: any) => ({
-            time: parseInt(d[0]) / 1000, open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
-        })).reverse();
+        // Bybit returns the newest 1000 candles of the range, so page backwards from endTime
+        return fetchCandlesBackwards(async before => {
+            const response = await bybitFetch(`${BYBIT_API_BASE}/kline?category=linear&symbol=${symbol}&interval=${interval}&start=${startTime}&end=${(before ?? endTime + 1) - 1}&limit=1000`);
+            if (!response.ok) throw new Error(`Failed to fetch historical k-lines for ${symbol} from Bybit`);
+            const data = await response.json();
+            return data.result.list.map(parseKline);
+        }, { startTime, endTime: endTime + 1 });
     }
     
     async fetchLivePrice(symbol: string): Promise<number> {
-        const response = await fetch(`${BYBIT_API_BASE}/tickers?category=linear&symbol=${symbol}`);
+        const response = await bybitFetch(`${BYBIT_API_BASE}/tickers?category=linear&symbol=${symbol}`);
         if (!response.ok) {
             throw new Error(`Failed to fetch live price for ${symbol} from Bybit`);
         }
@@ -52,6 +61,16 @@ class BybitExchange implements ExchangeModule {
         }
         return price;
     }
+
+    async fetchFundingHistory(symbol: string, startTime: number, endTime: number): Promise<FundingRate[]> {
+        // Bybit returns the newest 200 settlements of the range, so page backwards from endTime
+        return fetchFundingBackwards(async before => {
+            const response = await bybitFetch(`${BYBIT_API_BASE}/funding/history?category=linear&symbol=${symbol}&startTime=${startTime}&endTime=${before - 1}&limit=200`);
+            if (!response.ok) throw new Error(`Failed to fetch funding history for ${symbol} from Bybit`);
+            const data = await response.json();
+            return (data.result?.list ?? []).map((d: any) => ({ time: parseInt(d.fundingRateTimestamp), rate: parseFloat(d.fundingRate) }));
+        }, { startTime, endTime });
+    }
 }
 
 export const bybitExchange = new BybitExchange();
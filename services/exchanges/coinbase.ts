@@ -0,0 +1,91 @@
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
+import type { ExchangeModule } from './types';
+import { createRateLimitedFetch } from './rateLimiter';
+import { fetchCandlesBackwards } from './pagination';
+
+const COINBASE_API_BASE = 'https://api.exchange.coinbase.com';
+const coinbaseFetch = createRateLimitedFetch(8); // Public endpoints allow 10 requests per second
+const COINBASE_PAGE_LIMIT = 300; // Candle requests may span at most 300 buckets
+const COINBASE_QUOTES = ['USDT', 'USDC', 'USD'];
+// Coinbase only offers these granularities (in seconds)
+export const coinbaseGranularityMap: Partial<Record<Timeframe, number>> = { '1m': 60, '5m': 300, '15m': 900, '1h': 3600, '1d': 86400 };
+
+/**
+ * The app uses concatenated symbols (BTCUSD); Coinbase product ids are dash-separated (BTC-USD).
+ */
+export const toCoinbaseProductId = (symbol: string) => {
+    if (symbol.includes('-')) return symbol;
+    const quote = COINBASE_QUOTES.find(q => symbol.endsWith(q));
+    return quote ? `${symbol.slice(0, -quote.length)}-${quote}` : symbol;
+};
+
+// Coinbase candle rows: [time (s), low, high, open, close, volume]. Quote volume and trade counts are not provided.
+const parseKline = (d: number[]): CandleStick => ({
+    time: d[0],
+    open: d[3], high: d[2], low: d[1], close: d[4],
+    volume: d[5],
+});
+
+/**
+ * Coinbase spot markets. Coinbase has no perpetual futures, so prices track the USD/USDT spot books.
+ */
+class CoinbaseExchange implements ExchangeModule {
+    public readonly name = 'coinbase';
+    public readonly displayName = 'Coinbase';
+
+    private async fetchPage(symbol: string, timeframe: Timeframe, before: number | null): Promise<CandleStick[]> {
+        const granularity = coinbaseGranularityMap[timeframe];
+        if (!granularity) throw new Error(`Unsupported timeframe "${timeframe}" for Coinbase.`);
+        const end = before === null ? Date.now() : before - 1;
+        const start = end - granularity * 1000 * (COINBASE_PAGE_LIMIT - 1);
+        const range = `start=${new Date(start).toISOString()}&end=${new Date(end).toISOString()}`;
+        const response = await coinbaseFetch(`${COINBASE_API_BASE}/products/${toCoinbaseProductId(symbol)}/candles?granularity=${granularity}&${range}`);
+        if (!response.ok) {
+            const errorData = await response.json().catch(() => ({ message: `HTTP status ${response.status}` }));
+            throw new Error(`Failed to fetch k-lines for ${symbol} from Coinbase: ${errorData.message || 'Unknown error'}`);
+        }
+        const data = await response.json();
+        if (!Array.isArray(data)) {
+            throw new Error('Received malformed data from Coinbase. Expected an array of candles.');
+        }
+        return data.map(parseKline);
+    }
+
+    async getSymbols(): Promise<string[]> {
+        const response = await coinbaseFetch(`${COINBASE_API_BASE}/products`);
+        if (!response.ok) throw new Error('Failed to fetch products from Coinbase');
+        const data = await response.json();
+        return data
+            .filter((p: any) => ['USD', 'USDT'].includes(p.quote_currency) && p.status === 'online' && !p.trading_disabled)
+            .map((p: any) => `${p.base_currency}${p.quote_currency}`)
+            .sort();
+    }
+
+    async fetchData(symbol: string, timeframe: Timeframe, limit = 500): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before), { limit });
+    }
+
+    async fetchHistoricalData(symbol: string, timeframe: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before), { startTime, endTime: endTime + 1 });
+    }
+
+    async fetchLivePrice(symbol: string): Promise<number> {
+        const response = await coinbaseFetch(`${COINBASE_API_BASE}/products/${toCoinbaseProductId(symbol)}/ticker`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch live price for ${symbol} from Coinbase`);
+        }
+        const data = await response.json();
+        const price = parseFloat(data.price);
+        if (isNaN(price)) {
+            throw new Error(`Invalid price format received for ${symbol} from Coinbase`);
+        }
+        return price;
+    }
+
+    async fetchFundingHistory(): Promise<FundingRate[]> {
+        // Coinbase Exchange lists spot markets only, which pay no funding
+        return [];
+    }
+}
+
+export const coinbaseExchange = new CoinbaseExchange();
@@ -0,0 +1,86 @@
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
+import type { ExchangeModule } from './types';
+import { createRateLimitedFetch } from './rateLimiter';
+import { fetchCandlesBackwards, fetchFundingBackwards } from './pagination';
+
+const OKX_API_BASE = 'https://www.okx.com/api/v5';
+const okxFetch = createRateLimitedFetch(10); // history-candles allows 20 requests per 2 seconds
+const OKX_LATEST_LIMIT = 300;
+const OKX_PAGE_LIMIT = 100; // history-candles returns at most 100 rows per request
+// UTC variants for daily and weekly bars, so sessions line up with the other exchanges
+export const okxBarMap: Record<Timeframe, string> = { '1m': '1m', '3m': '3m', '5m': '5m', '15m': '15m', '30m': '30m', '1h': '1H', '2h': '2H', '4h': '4H', '1d': '1Dutc', '1w': '1Wutc' };
+
+/**
+ * The app uses Binance-style symbols (BTCUSDT); OKX identifies USDT perpetuals as BTC-USDT-SWAP.
+ */
+export const toOkxInstId = (symbol: string) => symbol.includes('-') ? symbol : `${symbol.replace(/USDT$/, '')}-USDT-SWAP`;
+
+// OKX k-line rows: [ts, open, high, low, close, vol (contracts), volCcy (base), volCcyQuote (quote), confirm]
+export const parseOkxKline = (d: string[]): CandleStick => ({
+    time: parseInt(d[0]) / 1000,
+    open: parseFloat(d[1]), high: parseFloat(d[2]), low: parseFloat(d[3]), close: parseFloat(d[4]),
+    volume: parseFloat(d[6]), quoteVolume: parseFloat(d[7]),
+});
+
+class OkxExchange implements ExchangeModule {
+    public readonly name = 'okx';
+    public readonly displayName = 'OKX';
+
+    private async fetchPage(symbol: string, timeframe: Timeframe, before: number | null): Promise<CandleStick[]> {
+        const bar = okxBarMap[timeframe];
+        if (!bar) throw new Error(`Unsupported timeframe "${timeframe}" for OKX.`);
+        // The latest page (including the forming candle) comes from /candles; older pages from /history-candles,
+        // where `after` asks for rows older than the timestamp
+        const url = before === null
+            ? `${OKX_API_BASE}/market/candles?instId=${toOkxInstId(symbol)}&bar=${bar}&limit=${OKX_LATEST_LIMIT}`
+            : `${OKX_API_BASE}/market/history-candles?instId=${toOkxInstId(symbol)}&bar=${bar}&limit=${OKX_PAGE_LIMIT}&after=${before}`;
+        const response = await okxFetch(url);
+        if (!response.ok) throw new Error(`Failed to fetch k-lines for ${symbol} from OKX`);
+        const data = await response.json();
+        if (data.code !== '0') throw new Error(`Failed to fetch k-lines for ${symbol} from OKX: ${data.msg || 'Unknown error'}`);
+        return data.data.map(parseOkxKline);
+    }
+
+    async getSymbols(): Promise<string[]> {
+        const response = await okxFetch(`${OKX_API_BASE}/public/instruments?instType=SWAP`);
+        if (!response.ok) throw new Error('Failed to fetch instruments from OKX');
+        const data = await response.json();
+        return data.data
+            .filter((s: any) => s.settleCcy === 'USDT' && s.ctType === 'linear' && s.state === 'live')
+            .map((s: any) => s.instId.replace(/-USDT-SWAP$/, 'USDT'))
+            .sort();
+    }
+
+    async fetchData(symbol: string, timeframe: Timeframe, limit = 500): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before), { limit });
+    }
+
+    async fetchHistoricalData(symbol: string, timeframe: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]> {
+        return fetchCandlesBackwards(before => this.fetchPage(symbol, timeframe, before), { startTime, endTime: endTime + 1 });
+    }
+
+    async fetchLivePrice(symbol: string): Promise<number> {
+        const response = await okxFetch(`${OKX_API_BASE}/market/ticker?instId=${toOkxInstId(symbol)}`);
+        if (!response.ok) {
+            throw new Error(`Failed to fetch live price for ${symbol} from OKX`);
+        }
+        const data = await response.json();
+        const price = parseFloat(data.data?.[0]?.last);
+        if (isNaN(price)) {
+            throw new Error(`Invalid price format received for ${symbol} from OKX`);
+        }
+        return price;
+    }
+
+    async fetchFundingHistory(symbol: string, startTime: number, endTime: number): Promise<FundingRate[]> {
+        // Newest first, 100 per page; `after` asks for settlements older than the cursor
+        return fetchFundingBackwards(async before => {
+            const response = await okxFetch(`${OKX_API_BASE}/public/funding-rate-history?instId=${toOkxInstId(symbol)}&after=${before}&limit=100`);
+            if (!response.ok) throw new Error(`Failed to fetch funding history for ${symbol} from OKX`);
+            const data = await response.json();
+            return (data.data ?? []).map((d: any) => ({ time: parseInt(d.fundingTime), rate: parseFloat(d.realizedRate || d.fundingRate) }));
+        }, { startTime, endTime });
+    }
+}
+
+export const okxExchange = new OkxExchange();
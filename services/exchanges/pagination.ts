@@ -0,0 +1,87 @@
+import type { CandleStick, FundingRate } from '@/types';
+
+const MAX_PAGES = 1000; // Guards against runaway loops; long 1m replays need a few hundred pages
+
+/**
+ * Collects candles for exchanges whose k-line endpoints cap the page size, walking backwards in time.
+ * `fetchPage(before)` must return candles strictly older than `before` (ms), or the most recent
+ * candles when `before` is null, in any order.
+ * Stops once `limit` candles are collected, `startTime` (ms) is reached, or the exchange runs dry.
+ * `endTime` (ms) is exclusive and, when given, is used as the first cursor.
+ */
+export async function fetchCandlesBackwards(
+    fetchPage: (before: number | null) => Promise<CandleStick[]>,
+    { limit = Infinity, startTime = 0, endTime = null }: { limit?: number; startTime?: number; endTime?: number | null }
+): Promise<CandleStick[]> {
+    const byTime = new Map<number, CandleStick>();
+    let before = endTime;
+
+    for (let page = 0; page < MAX_PAGES && byTime.size < limit; page++) {
+        const candles = await fetchPage(before);
+        if (candles.length === 0) break;
+        candles.forEach(candle => byTime.set(candle.time, candle));
+
+        const oldest = Math.min(...candles.map(candle => candle.time)) * 1000;
+        if (oldest <= startTime || (before !== null && oldest >= before)) break;
+        before = oldest;
+    }
+
+    const sorted = [...byTime.values()]
+        .filter(candle => candle.time * 1000 >= startTime && (endTime === null || candle.time * 1000 < endTime))
+        .sort((a, b) => a.time - b.time);
+    return sorted.length > limit ? sorted.slice(-limit) : sorted;
+}
+
+/**
+ * Collects candles for exchanges that page forwards from a start time (oldest first).
+ * `fetchPage(from)` must return candles opening at or after `from` (ms).
+ * Stops at `endTime` (ms, inclusive) or when the exchange returns nothing new.
+ */
+export async function fetchCandlesForwards(
+    fetchPage: (from: number) => Promise<CandleStick[]>,
+    { startTime, endTime }: { startTime: number; endTime: number }
+): Promise<CandleStick[]> {
+    const byTime = new Map<number, CandleStick>();
+    let from = startTime;
+
+    for (let page = 0; page < MAX_PAGES && from <= endTime; page++) {
+        const candles = await fetchPage(from);
+        if (candles.length === 0) break;
+        candles.forEach(candle => byTime.set(candle.time, candle));
+
+        const newest = Math.max(...candles.map(candle => candle.time)) * 1000;
+        if (newest < from) break;
+        from = newest + 1;
+    }
+
+    return [...byTime.values()]
+        .filter(candle => candle.time * 1000 >= startTime && candle.time * 1000 <= endTime)
+        .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Collects funding rates for exchanges that return the newest settlements first, walking backwards in time.
+ * `fetchPage(before)` must return settlements strictly older than `before` (ms), in any order.
+ * Stops once `startTime` (ms) is reached or the exchange runs dry; `endTime` (ms) is inclusive.
+ */
+export async function fetchFundingBackwards(
+    fetchPage: (before: number) => Promise<FundingRate[]>,
+    { startTime, endTime }: { startTime: number; endTime: number }
+): Promise<FundingRate[]> {
+    const byTime = new Map<number, FundingRate>();
+    let before = endTime + 1;
+
+    for (let page = 0; page < MAX_PAGES; page++) {
+        const rates = await fetchPage(before);
+        if (rates.length === 0) break;
+        rates.forEach(rate => byTime.set(rate.time, rate));
+
+        const oldest = Math.min(...rates.map(rate => rate.time));
+        if (oldest <= startTime || oldest >= before) break;
+        before = oldest;
+    }
+
+    return [...byTime.values()]
+        .filter(rate => rate.time >= startTime && rate.time <= endTime)
+        .sort((a, b) => a.time - b.time);
+}
@@ -0,0 +1,33 @@
+const MAX_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Creates a `fetch` wrapper that spaces requests to stay under an exchange's public rate limit.
+ * The budget is in request weight per second; exchanges that weigh endpoints differently
+ * (Binance) pass the weight with each call, everything else costs 1.
+ * Requests that still get throttled (HTTP 429) are retried after the delay the exchange asks for.
+ * Each exchange module owns one limiter, so paging through long histories never bursts.
+ */
+export function createRateLimitedFetch(weightPerSecond: number) {
+    const msPerWeight = 1000 / weightPerSecond;
+    let nextSlot = 0;
+
+    const waitForSlot = async (weight: number) => {
+        const now = Date.now();
+        const wait = Math.max(0, nextSlot - now);
+        nextSlot = Math.max(now, nextSlot) + weight * msPerWeight;
+        if (wait > 0) await sleep(wait);
+    };
+
+    return async function rateLimitedFetch(url: string, weight = 1): Promise<Response> {
+        for (let attempt = 0; ; attempt++) {
+            await waitForSlot(weight);
+            const response = await fetch(url);
+            if (response.status !== 429 || attempt >= MAX_RETRIES) return response;
+            const retryAfter = parseFloat(response.headers.get('Retry-After') ?? '');
+            await sleep(isNaN(retryAfter) ? DEFAULT_RETRY_DELAY_MS * 2 ** attempt : retryAfter * 1000);
+        }
+    };
+}
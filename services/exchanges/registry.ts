@@ -1,12 +1,21 @@
 import type { ExchangeModule } from './types';
 import { binanceExchange } from './binance';
 import { bybitExchange } from './bybit';
+import { okxExchange } from './okx';
+import { bitgetExchange } from './bitget';
+import { coinbaseExchange } from './coinbase';
 
 /**
  * The registry holds all available exchange implementations.
- * To add a new exchange, just import its instance and add it to this object.
+ * To add a new exchange, just import its instance and add it to this object;
+ * the `Exchange` type is derived from the keys below.
  */
-export const exchangeRegistry: Record<string, ExchangeModule> = {
+export const exchangeRegistry = {
   [binanceExchange.name]: binanceExchange,
   [bybitExchange.name]: bybitExchange,
-};
+  [okxExchange.name]: okxExchange,
+  [bitgetExchange.name]: bitgetExchange,
+  [coinbaseExchange.name]: coinbaseExchange,
+} satisfies Record<string, ExchangeModule>;
+
+export type ExchangeName = keyof typeof exchangeRegistry;
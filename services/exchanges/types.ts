@@ -1,4 +1,4 @@
-import type { CandleStick, Timeframe } from '@/types';
+import type { CandleStick, FundingRate, Timeframe } from '@/types';
 
 /**
  * This is the contract that every exchange implementation must follow.
@@ -8,6 +8,9 @@ export interface ExchangeModule {
   // A unique name for the exchange, used as a key in the registry.
   readonly name: string;
 
+  // Human-readable name for menus.
+  readonly displayName: string;
+
   /**
    * Fetches all available trading symbols from the exchange.
    */
@@ -19,7 +22,8 @@ export interface ExchangeModule {
   fetchData(symbol: string, timeframe: Timeframe, limit: number): Promise<CandleStick[]>;
   
   /**
-   * Fetches historical candlestick data for a given symbol, timeframe, and time range.
+   * Fetches historical candlestick data for a given symbol, timeframe, and time range (ms, inclusive).
+   * Implementations page through the whole range, however many requests that takes.
    */
   fetchHistoricalData(symbol: string, timeframe: Timeframe, startTime: number, endTime: number): Promise<CandleStick[]>;
   
@@ -27,4 +31,10 @@ export interface ExchangeModule {
    * Fetches the current live price for a symbol.
    */
   fetchLivePrice(symbol: string): Promise<number>;
+
+  /**
+   * Fetches the settled funding rates of a perpetual contract within a time range (ms, inclusive), oldest first.
+   * Spot-only exchanges return an empty list.
+   */
+  fetchFundingHistory(symbol: string, startTime: number, endTime: number): Promise<FundingRate[]>;
 }
@@ -1,3 +1,10 @@
+import type { BrokerId, OrderRequest } from '@/types';
+import { brokerRegistry } from './brokers/registry';
+import type { Broker, CredentialExchange, LinkedExchange } from './brokers/types';
+import { fetchWithSession } from './brokers/transport';
+
+const EXCHANGE_KEYS_ENDPOINT = '/api/exchange-keys';
+
 export interface BybitTradeDetails {
     symbol: string;
     side: 'Buy' | 'Sell';
@@ -10,95 +17,61 @@ export interface BybitTradeDetails {
 }
 
 /**
- * Executes a trade by sending the details to a secure backend endpoint.
+ * Returns the broker that executes orders for the given id.
  *
  * SECURITY BEST PRACTICE:
- * This function demonstrates the Backend-for-Frontend (BFF) pattern. The frontend sends trade details
- * to our own secure backend (e.g., '/api/execute-trade'), which then securely handles API keys,
- * signs the request, and communicates with the Bybit API. The API key and secret are never
- * exposed in the browser.
- *
- * MOCK IMPLEMENTATION:
- * Since no backend exists in this environment, this function simulates the process. It waits for
- * a short period to mimic network latency and then returns a mock success response. This allows
- * the frontend UI and logic to be fully tested.
+ * The live brokers follow the Backend-for-Frontend (BFF) pattern. They send unsigned requests to our
+ * own backend ('/api/execute-trade'), which loads the user's encrypted API keys from Supabase, signs
+ * the request and talks to the exchange. The API secret is never used in the browser.
  */
-export async function executeBybitTrade(
-    tradeDetails: BybitTradeDetails
-): Promise<any> {
-    console.log('--- Sending trade to secure backend proxy (MOCKED) ---');
-    console.log('Trade Details:', tradeDetails);
-
-    // Simulate network delay to the backend
-    await new Promise(resolve => setTimeout(resolve, 1500));
-
-    // In a real app, a fetch() call to your backend would be here.
-    // We return a mock success response to simulate a successful API call from the backend.
-    const mockResponse = {
-        retCode: 0,
-        retMsg: 'OK',
-        result: {
-            orderId: `mock_${crypto.randomUUID()}`,
-            orderLinkId: `mock_link_${Date.now()}`,
-        },
-        retExtInfo: {},
-        time: Date.now(),
-    };
-
-    console.log('--- Mock Success Response Received ---', mockResponse);
-    return mockResponse;
+export function getBroker(brokerId: BrokerId): Broker {
+    const broker = (brokerRegistry as Record<string, Broker>)[brokerId];
+    if (!broker) {
+        throw new Error(`Broker '${brokerId}' is not supported or does not exist in the registry.`);
+    }
+    return broker;
 }
 
 /**
- * Simulates closing an open position via the secure backend.
+ * Returns the available brokers with their display names, for broker pickers.
  */
-export async function closeBybitPosition(
-    symbol: string,
-    quantity: string,
-    side: 'Buy' | 'Sell'
-): Promise<any> {
-    console.log('--- Closing position via secure backend (MOCKED) ---');
-    console.log('Close Details:', { symbol, quantity, side });
+export function getBrokerOptions(): { value: BrokerId; label: string }[] {
+    return Object.values(brokerRegistry).map(broker => ({ value: broker.id, label: broker.displayName }));
+}
 
-    // Simulate network delay for closing order
-    await new Promise(resolve => setTimeout(resolve, 800));
+const optionalNumber = (value?: string) => value ? parseFloat(value) : undefined;
 
-    const mockResponse = {
-        retCode: 0,
-        retMsg: 'OK',
-        result: { orderId: `mock_close_${crypto.randomUUID()}` },
-        time: Date.now(),
+/**
+ * Converts the trade details produced by the execution UI into a broker order.
+ * Trailing stops are not supported by every broker and are not forwarded.
+ */
+export function toOrderRequest(tradeDetails: BybitTradeDetails, leverage?: number): OrderRequest {
+    return {
+        symbol: tradeDetails.symbol,
+        side: tradeDetails.side,
+        type: tradeDetails.orderType,
+        qty: parseFloat(tradeDetails.qty),
+        price: tradeDetails.orderType === 'Limit' ? optionalNumber(tradeDetails.price) : undefined,
+        takeProfit: optionalNumber(tradeDetails.takeProfit),
+        stopLoss: optionalNumber(tradeDetails.stopLoss),
+        leverage,
     };
-    
-    console.log('--- Mock Close Response Received ---', mockResponse);
-    return mockResponse;
 }
 
-
 /**
- * Simulates modifying an existing order (e.g., updating TP/SL) via the secure backend.
+ * Lists the exchanges whose API keys are linked to the signed-in user's account.
  */
-export async function modifyBybitTrade(
-    orderId: string,
-    symbol: string,
-    takeProfit?: string,
-    stopLoss?: string
-): Promise<any> {
-    console.log('--- Modifying trade via secure backend (MOCKED) ---');
-    console.log('Modification Details:', { orderId, symbol, takeProfit, stopLoss });
-
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 1000));
+export function fetchLinkedExchanges(): Promise<LinkedExchange[]> {
+    return fetchWithSession(EXCHANGE_KEYS_ENDPOINT);
+}
 
-    const mockResponse = {
-        retCode: 0,
-        retMsg: "OK",
-        result: {
-            orderId: orderId,
-        },
-        time: Date.now()
-    };
+/**
+ * Stores API keys on the server, encrypted. They cannot be read back, only replaced or removed.
+ */
+export function saveExchangeKeys(exchange: CredentialExchange, apiKey: string, apiSecret: string): Promise<LinkedExchange[]> {
+    return fetchWithSession(EXCHANGE_KEYS_ENDPOINT, { method: 'POST', body: JSON.stringify({ exchange, apiKey, apiSecret }) });
+}
 
-    console.log('--- Mock Modification Response Received ---', mockResponse);
-    return mockResponse;
-}
\ No newline at end of file
+export function removeExchangeKeys(exchange: CredentialExchange): Promise<LinkedExchange[]> {
+    return fetchWithSession(EXCHANGE_KEYS_ENDPOINT, { method: 'DELETE', body: JSON.stringify({ exchange }) });
+}
@@ -0,0 +1,38 @@
+import type { Page, Strategy } from '@/types';
+import { tutorialsData } from '@/data/tutorialData';
+import { KnowledgeIndex, markdownDocuments, strategyDocuments, tutorialDocuments, type KnowledgeSearchResult } from '@/services/knowledgeSearch';
+
+// Vite's glob import, which bundles the docs pages as strings
+const DOC_FILES = import.meta.glob<string>(['/docs/**/*.md', '!/docs/README.md'], { query: '?raw', import: 'default', eager: true });
+
+// Docs pages whose file name differs from the page they describe
+const DOC_PAGE_ALIASES: Record<string, Page> = {
+  'strategy-hub': 'strategies',
+  'trading-calculators': 'calculator',
+};
+
+const APP_PAGES = new Set<string>([
+  'dashboard', 'signal-gen', 'scalping', 'memes-scalp', 'screener', 'news', 'history', 'spot-log', 'perp-log', 'simulation',
+  'analytics', 'calculator', 'tutorials', 'stablecoin-stash', 'strategies', 'profile', 'settings', 'discover', 'messages',
+  'manual-studio', 'alerts',
+] satisfies Page[]);
+
+const docPage = (path: string): Page | null => {
+  const name = path.split('/').pop()?.replace(/\.md$/, '') ?? '';
+  return DOC_PAGE_ALIASES[name] ?? (APP_PAGES.has(name) ? name as Page : null);
+};
+
+const STATIC_DOCUMENTS = [...tutorialDocuments(tutorialsData), ...markdownDocuments(DOC_FILES, docPage)];
+
+// Rebuilt only when the Strategy Hub changes
+let cached: { strategies: Strategy[]; index: KnowledgeIndex } | null = null;
+
+/**
+ * Searches the tutorials, the docs pages and the Strategy Hub for the assistant's `searchKnowledge` tool.
+ */
+export function searchKnowledge(query: string, strategies: Strategy[], limit?: number): KnowledgeSearchResult[] {
+  if (cached?.strategies !== strategies) {
+    cached = { strategies, index: new KnowledgeIndex([...STATIC_DOCUMENTS, ...strategyDocuments(strategies)]) };
+  }
+  return cached.index.search(query, limit);
+}
@@ -0,0 +1,198 @@
+import type { Page, Strategy } from '@/types';
+
+/**
+ * A BM25 index over the app's written knowledge: tutorials, the docs pages and Strategy Hub
+ * entries. Documents are split into passages at markdown headings and paragraph breaks, so a search
+ * returns the few paragraphs that answer a question rather than whole articles, each with a
+ * citation that links back to the page it came from.
+ */
+
+export type KnowledgeSource = 'tutorial' | 'doc' | 'strategy';
+
+export interface KnowledgeDocument {
+  id: string;
+  source: KnowledgeSource;
+  title: string;
+  text: string; // Markdown
+  page: Page | null; // In-app page the citation links to
+  path?: string; // Repository path of a docs page
+}
+
+export interface KnowledgePassage {
+  id: string;
+  document: KnowledgeDocument;
+  section: string | null; // Nearest heading above the passage
+  text: string;
+}
+
+export interface KnowledgeSearchResult {
+  title: string;
+  section: string | null;
+  source: KnowledgeSource;
+  excerpt: string;
+  score: number;
+  link: string | null; // '#/page-id', for the assistant's markdown links
+  citation: string; // Ready-made markdown link, or the docs path when there is no page
+}
+
+const PASSAGE_WORDS = 160;
+const EXCERPT_CHARS = 700;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if', 'in', 'is', 'it',
+  'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'their', 'then', 'this', 'to', 'was', 'what', 'when', 'where',
+  'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+// Folds simple plurals so "alerts" finds "alert"
+const stem = (word: string) => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(word => !STOPWORDS.has(word)).map(stem);
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Splits a markdown document into passages of about PASSAGE_WORDS words. A passage never crosses a
+ * heading, and only a paragraph longer than the limit is cut inside itself.
+ */
+export function splitIntoPassages(document: KnowledgeDocument): KnowledgePassage[] {
+  const passages: KnowledgePassage[] = [];
+  let section: string | null = null;
+  let buffer: string[] = [];
+
+  const flush = () => {
+    const text = buffer.join('\n\n').trim();
+    if (text) passages.push({ id: `${document.id}#${passages.length}`, document, section, text });
+    buffer = [];
+  };
+
+  for (const block of document.text.split(/\n\s*\n/)) {
+    const heading = block.match(/^#{1,6}\s+(.+)$/m);
+    if (heading && block.trim().startsWith('#')) {
+      flush();
+      section = heading[1].trim();
+      const rest = block.trim().split('\n').slice(1).join('\n').trim();
+      if (rest) buffer.push(rest);
+      continue;
+    }
+    if (/^-{3,}$/.test(block.trim())) continue;
+
+    if (buffer.length > 0 && countWords([...buffer, block].join(' ')) > PASSAGE_WORDS) flush();
+    if (countWords(block) > PASSAGE_WORDS) {
+      // Long paragraphs and lists are cut at line breaks
+      for (const line of block.split('\n')) {
+        if (buffer.length > 0 && countWords([...buffer, line].join(' ')) > PASSAGE_WORDS) flush();
+        buffer.push(line);
+      }
+    } else {
+      buffer.push(block.trim());
+    }
+  }
+  flush();
+  return passages;
+}
+
+const excerptOf = (text: string) => text.length > EXCERPT_CHARS ? `${text.slice(0, EXCERPT_CHARS).replace(/\s+\S*$/, '')}…` : text;
+
+function citationOf({ document, section }: KnowledgePassage): { link: string | null; citation: string } {
+  const label = section && section !== document.title ? `${document.title} › ${section}` : document.title;
+  if (document.page) {
+    const link = `#/${document.page}`;
+    return { link, citation: `[${label}](${link})` };
+  }
+  return { link: null, citation: `${label} (${document.path ?? document.source})` };
+}
+
+export class KnowledgeIndex {
+  readonly passages: KnowledgePassage[];
+  private readonly termFrequencies: Map<string, number>[];
+  private readonly lengths: number[];
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(documents: KnowledgeDocument[]) {
+    this.passages = documents.flatMap(splitIntoPassages);
+    this.termFrequencies = this.passages.map(passage => {
+      // The title and heading count twice, so a passage about the topic outranks one that mentions it
+      const heading = `${passage.document.title} ${passage.section ?? ''}`;
+      const tokens = [...tokenize(heading), ...tokenize(heading), ...tokenize(passage.text)];
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      return frequencies;
+    });
+    this.lengths = this.termFrequencies.map(frequencies => [...frequencies.values()].reduce((sum, count) => sum + count, 0));
+    for (const frequencies of this.termFrequencies) {
+      for (const term of frequencies.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+    }
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / Math.max(this.lengths.length, 1);
+  }
+
+  search(query: string, limit = 5): KnowledgeSearchResult[] {
+    const terms = [...new Set(tokenize(query))];
+    const count = this.passages.length;
+
+    return this.passages
+      .map((passage, index) => {
+        const frequencies = this.termFrequencies[index];
+        const lengthNorm = 1 - BM25_B + BM25_B * this.lengths[index] / this.averageLength;
+        const score = terms.reduce((total, term) => {
+          const frequency = frequencies.get(term) ?? 0;
+          if (frequency === 0) return total;
+          const documentFrequency = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+          return total + idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * lengthNorm);
+        }, 0);
+        return { passage, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ passage, score }) => ({
+        title: passage.document.title,
+        section: passage.section,
+        source: passage.document.source,
+        excerpt: excerptOf(passage.text),
+        score: Number(score.toFixed(3)),
+        ...citationOf(passage),
+      }));
+  }
+}
+
+export const tutorialDocuments = (tutorials: Record<string, { title: string; content: string }[]>): KnowledgeDocument[] =>
+  Object.entries(tutorials).flatMap(([category, list]) => list.map((tutorial): KnowledgeDocument => ({
+    id: `tutorial:${tutorial.title}`,
+    source: 'tutorial',
+    title: tutorial.title,
+    text: `## ${category}\n\n${tutorial.content}`,
+    page: 'tutorials',
+  })));
+
+export const strategyDocuments = (strategies: Strategy[]): KnowledgeDocument[] =>
+  strategies.map(strategy => ({
+    id: `strategy:${strategy.id}`,
+    source: 'strategy',
+    title: strategy.title,
+    text: `By @${strategy.authorUsername}${strategy.tags.length ? ` · ${strategy.tags.map(tag => `#${tag}`).join(' ')}` : ''}\n\n${strategy.description}`,
+    page: 'strategies',
+  }));
+
+/**
+ * Docs pages keyed by path (e.g. '/docs/alerts/alerts.md'). The title is the first heading, and the
+ * citation links to the page named by `pageOf`.
+ */
+export const markdownDocuments = (files: Record<string, string>, pageOf: (path: string) => Page | null): KnowledgeDocument[] =>
+  Object.entries(files).map(([path, text]) => {
+    const relativePath = path.replace(/^\//, '');
+    return {
+      id: `doc:${relativePath}`,
+      source: 'doc',
+      title: text.match(/^#\s+(.+)$/m)?.[1].trim() ?? relativePath,
+      // The title heading is already the document title
+      text: text.replace(/^#\s+.+$/m, ''),
+      page: pageOf(relativePath),
+      path: relativePath,
+    };
+  });
@@ -0,0 +1,166 @@
+import type { Exchange, LivePosition, PerpTrade } from '@/types';
+import { computePerpPnl, liquidationPrice, type PerpSide } from '@/services/perpAccounting';
+
+/**
+ * Mark-to-market P&L of everything the user has open: the Scalping page's live positions and the
+ * open trades in the Perp Log. Built for the assistant's `getLivePnl` tool, so every figure is a
+ * plain number it can compare ("which position is closest to its stop?").
+ */
+
+export interface PositionPnl {
+  source: 'scalping' | 'perp-log';
+  id: string;
+  symbol: string;
+  exchange: Exchange;
+  side: 'Long' | 'Short';
+  entryPrice: number;
+  markPrice: number | null; // Null when the live price could not be fetched
+  quantity: number;
+  margin: number;
+  leverage: number;
+  openedAt: string; // ISO date
+  unrealizedPnl: number | null; // After the fees and funding already paid
+  roePct: number | null; // Unrealized P&L as a percentage of margin
+  stopLoss: number | null;
+  takeProfit: number | null;
+  liquidationPrice: number | null; // Isolated margin estimate; null for cross margin
+  // How far the price can move against (stop, liquidation) or for (take profit) the position before
+  // reaching the level, as a percentage of the mark price. Negative once the level has been passed.
+  distanceToStopPct: number | null;
+  distanceToTakeProfitPct: number | null;
+  distanceToLiquidationPct: number | null;
+}
+
+export interface LivePnlReport {
+  positions: PositionPnl[];
+  totalUnrealizedPnl: number; // Over the priced positions
+  totalMargin: number;
+  unpricedSymbols: string[]; // Symbols whose live price is missing; their P&L is not in the total
+  pricedAt: string; // ISO date
+}
+
+export interface LivePnlSources {
+  livePositions: LivePosition[];
+  perpTrades: PerpTrade[];
+  scalpingExchange: Exchange; // Where simulated and paper positions are priced
+}
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+// Percentage move from the mark price to a level, positive while the level is still ahead
+const distancePct = (side: 'Long' | 'Short', markPrice: number | null, level: number | null, isAdverse: boolean): number | null => {
+  if (markPrice === null || level === null || level <= 0 || markPrice <= 0) return null;
+  const towardsLevel = (level - markPrice) / markPrice * 100;
+  const isBelow = (side === 'Long') === isAdverse;
+  return round(isBelow ? -towardsLevel : towardsLevel);
+};
+
+// Positions on a real broker are priced on that exchange; simulated and paper ones on the Scalping page's
+const livePositionExchange = (position: LivePosition, fallback: Exchange): Exchange =>
+  position.broker && position.broker !== 'paper' ? position.broker : fallback;
+
+const perpTradeExchange = (trade: PerpTrade): Exchange => trade.exchange ?? 'binance';
+
+function toPositionPnl(
+  base: Omit<PositionPnl, 'markPrice' | 'unrealizedPnl' | 'roePct' | 'distanceToStopPct' | 'distanceToTakeProfitPct' | 'distanceToLiquidationPct'>,
+  markPrice: number | null,
+  costs: { fees: number; funding: number },
+): PositionPnl {
+  const side: PerpSide = base.side === 'Long' ? 'LONG' : 'SHORT';
+  const pnl = markPrice === null ? null : computePerpPnl({
+    side,
+    entryPrice: base.entryPrice,
+    exitPrice: markPrice,
+    quantity: base.quantity,
+    margin: base.margin,
+    fees: costs.fees,
+    funding: costs.funding,
+  });
+  return {
+    ...base,
+    markPrice,
+    unrealizedPnl: pnl ? round(pnl.netPnl) : null,
+    roePct: pnl ? round(pnl.roe) : null,
+    distanceToStopPct: distancePct(base.side, markPrice, base.stopLoss, true),
+    distanceToTakeProfitPct: distancePct(base.side, markPrice, base.takeProfit, false),
+    distanceToLiquidationPct: distancePct(base.side, markPrice, base.liquidationPrice, true),
+  };
+}
+
+/**
+ * Prices every open position once per exchange and symbol and returns the per-position breakdown.
+ * A symbol whose price can't be fetched is reported in `unpricedSymbols` instead of failing the report.
+ */
+export async function computeLivePnl(
+  { livePositions, perpTrades, scalpingExchange }: LivePnlSources,
+  fetchPrice: (exchange: Exchange, symbol: string) => Promise<number>,
+  now = Date.now(),
+): Promise<LivePnlReport> {
+  const openTrades = perpTrades.filter(trade => trade.status === 'Open');
+  const markets = [
+    ...livePositions.map((position): { exchange: Exchange; symbol: string } => ({ exchange: livePositionExchange(position, scalpingExchange), symbol: position.symbol })),
+    ...openTrades.map((trade): { exchange: Exchange; symbol: string } => ({ exchange: perpTradeExchange(trade), symbol: trade.symbol })),
+  ];
+
+  const prices = new Map<string, number | null>();
+  await Promise.all(markets.map(async ({ exchange, symbol }) => {
+    const key = `${exchange}:${symbol}`;
+    if (prices.has(key)) return;
+    prices.set(key, null);
+    try {
+      prices.set(key, await fetchPrice(exchange, symbol));
+    } catch {
+      // Reported through unpricedSymbols
+    }
+  }));
+  const priceOf = (exchange: Exchange, symbol: string) => prices.get(`${exchange}:${symbol}`) ?? null;
+
+  const positions: PositionPnl[] = [
+    ...livePositions.map(position => {
+      const exchange = livePositionExchange(position, scalpingExchange);
+      return toPositionPnl({
+        source: 'scalping',
+        id: position.id,
+        symbol: position.symbol,
+        exchange,
+        side: position.side,
+        entryPrice: position.entryPrice,
+        quantity: position.quantity,
+        margin: position.margin,
+        leverage: position.leverage,
+        openedAt: new Date(position.entryDate).toISOString(),
+        stopLoss: position.stopLoss ?? null,
+        takeProfit: position.takeProfit ?? null,
+        liquidationPrice: round(liquidationPrice({ side: position.side === 'Long' ? 'LONG' : 'SHORT', entryPrice: position.entryPrice, leverage: position.leverage, quantity: position.quantity }), 6),
+      }, priceOf(exchange, position.symbol), { fees: 0, funding: 0 });
+    }),
+    ...openTrades.map(trade => {
+      const exchange = perpTradeExchange(trade);
+      const isCross = trade.marginMode === 'cross';
+      return toPositionPnl({
+        source: 'perp-log',
+        id: trade.id,
+        symbol: trade.symbol,
+        exchange,
+        side: trade.side,
+        entryPrice: trade.entryPrice,
+        quantity: trade.quantity,
+        margin: trade.margin,
+        leverage: trade.leverage,
+        openedAt: new Date(trade.entryDate).toISOString(),
+        stopLoss: null,
+        takeProfit: null,
+        liquidationPrice: isCross ? null : round(liquidationPrice({ side: trade.side === 'Long' ? 'LONG' : 'SHORT', entryPrice: trade.entryPrice, leverage: trade.leverage, quantity: trade.quantity }), 6),
+      }, priceOf(exchange, trade.symbol), { fees: trade.fees, funding: trade.fundingFees ?? 0 });
+    }),
+  ];
+
+  const priced = positions.filter(position => position.unrealizedPnl !== null);
+  return {
+    positions,
+    totalUnrealizedPnl: round(priced.reduce((sum, position) => sum + (position.unrealizedPnl ?? 0), 0)),
+    totalMargin: round(positions.reduce((sum, position) => sum + position.margin, 0)),
+    unpricedSymbols: [...new Set(positions.filter(position => position.markPrice === null).map(position => position.symbol))],
+    pricedAt: new Date(now).toISOString(),
+  };
+}
@@ -0,0 +1,78 @@
+import type { LlmChatRequest, LlmChatResponse, LlmJsonRequest, LlmMessage, LlmProvider, LlmStreamChunk, LlmTextRequest, LlmToolCall } from './types';
+
+/**
+ * A canned response. `match` is tested against the prompt, or for chats against the last message
+ * (a user's text, or the names and JSON of tool results); a fixture without one matches anything.
+ * A JSON response may be a function of the prompt, for answers that must track prompt data.
+ */
+export type LlmFixture =
+    | { kind: 'json'; match?: string | RegExp; response: unknown | ((prompt: string) => unknown) }
+    | { kind: 'text'; match?: string | RegExp; response: string }
+    | { kind: 'chat'; match?: string | RegExp; response: { text?: string; toolCalls?: Omit<LlmToolCall, 'id'>[] } };
+
+export interface LlmFixtureCall {
+    kind: LlmFixture['kind'];
+    input: string;
+    model: string;
+}
+
+const matches = (fixture: LlmFixture, input: string) =>
+    fixture.match === undefined || (typeof fixture.match === 'string' ? input.includes(fixture.match) : fixture.match.test(input));
+
+const lastMessageText = (messages: LlmMessage[]) => {
+    const last = messages[messages.length - 1];
+    if (!last) return '';
+    if (last.role === 'tool') return last.results.map(result => `${result.name}: ${JSON.stringify(result.response)}`).join('\n');
+    return last.text;
+};
+
+/**
+ * Replays fixtures instead of calling a model, so the signal and chat flows run offline and give the
+ * same answer every time. The first matching fixture wins; a request with no match throws. Every
+ * request is recorded in `calls`.
+ */
+export class FixtureProvider implements LlmProvider {
+    public readonly id = 'fixture';
+    public readonly displayName = 'Fixture Replay';
+    public readonly calls: LlmFixtureCall[] = [];
+    private toolCallCount = 0;
+
+    constructor(private readonly fixtures: LlmFixture[]) {}
+
+    async generateJson<T = unknown>({ model, prompt }: LlmJsonRequest): Promise<T> {
+        const { response } = this.find('json', prompt, model);
+        const value = typeof response === 'function' ? response(prompt) : response;
+        // A deep copy, so callers that mutate the result cannot change later replays
+        return JSON.parse(JSON.stringify(value)) as T;
+    }
+
+    async generateText({ model, prompt }: LlmTextRequest): Promise<string> {
+        return this.find('text', prompt, model).response;
+    }
+
+    async chat({ model, messages }: LlmChatRequest): Promise<LlmChatResponse> {
+        const { response } = this.find('chat', lastMessageText(messages), model);
+        return {
+            text: response.text ?? '',
+            toolCalls: (response.toolCalls ?? []).map(call => ({ ...call, id: `fixture_call_${++this.toolCallCount}` })),
+        };
+    }
+
+    async *streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+        const { text, toolCalls } = await this.chat(request);
+        for (const word of text.match(/\S+\s*|\s+/g) ?? []) {
+            request.signal?.throwIfAborted();
+            yield { type: 'text', text: word };
+        }
+        if (toolCalls.length > 0) yield { type: 'toolCalls', toolCalls };
+    }
+
+    private find<K extends LlmFixture['kind']>(kind: K, input: string, model: string): Extract<LlmFixture, { kind: K }> {
+        this.calls.push({ kind, input, model });
+        const fixture = this.fixtures.find((candidate): candidate is Extract<LlmFixture, { kind: K }> => candidate.kind === kind && matches(candidate, input));
+        if (!fixture) {
+            throw new Error(`No ${kind} fixture matches the request: "${input.trim().slice(0, 80)}"`);
+        }
+        return fixture;
+    }
+}
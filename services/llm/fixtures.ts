@@ -0,0 +1,52 @@
+import type { LlmFixture } from './fixtureProvider';
+
+// The live price as the signal prompts state it (swing, then scalping)
+const PROMPT_PRICE = /(?:Current Market Price \(from last closed candle\)|- Price):\s*([\d.]+)/;
+
+const round = (value: number) => Number(value.toPrecision(6));
+
+/**
+ * A LONG around the prompt's live price, so it passes the signal sanity checks for any symbol.
+ */
+const fixtureSignal = (prompt: string) => {
+    const price = Number(prompt.match(PROMPT_PRICE)?.[1] ?? 100);
+    return {
+        direction: 'LONG',
+        entryRange: [round(price * 0.998), round(price)],
+        takeProfit: [round(price * 1.01), round(price * 1.02)],
+        stopLoss: round(price * 0.99),
+        confidence: 78,
+        rrRatio: 1.2,
+        leverage: 10,
+        predictedMoveDuration: '4-8 hours',
+        reasoning: 'Fixture signal: price reclaimed the prior range high and holds above the 50 EMA.',
+        biasSource: 'Predictive',
+        predictionMode: true,
+        biasSummary: { shortTerm: 'Bullish', midTerm: 'Bullish', longTerm: 'Neutral' },
+    };
+};
+
+/**
+ * The fixtures the registry's fixture provider replays: one answer per AI feature of the app, so
+ * every flow can be clicked through offline.
+ */
+export const DEFAULT_FIXTURES: LlmFixture[] = [
+    {
+        kind: 'json',
+        match: 'user-defined trade idea',
+        response: {
+            confidence: 62,
+            rationale: 'Fixture second opinion: the entry sits at support, but the stop is inside the recent range.',
+            refinements: 'Move the stop below the last swing low.',
+        },
+    },
+    { kind: 'json', match: /JSON format/, response: fixtureSignal },
+    { kind: 'text', match: 'concise title', response: 'Fixture Conversation' },
+    { kind: 'text', response: 'Fixture response: this text was replayed, not generated.' },
+    {
+        kind: 'chat',
+        match: 'Market Feature Table',
+        response: { toolCalls: [{ name: 'submitScreenerResults', args: { results: [] } }] },
+    },
+    { kind: 'chat', response: { text: 'Fixture reply: the assistant is running in offline replay mode.' } },
+];
@@ -0,0 +1,104 @@
+import { GoogleGenAI, FunctionCallingConfigMode, Type } from "@google/genai";
+import type { Content, FunctionCall, GenerateContentConfig, GenerateContentResponse, Schema } from "@google/genai";
+import type { LlmChatRequest, LlmChatResponse, LlmJsonRequest, LlmMessage, LlmProvider, LlmSchema, LlmStreamChunk, LlmTextRequest, LlmToolCall } from './types';
+
+const toGeminiSchema = (schema: LlmSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    properties: schema.properties
+        ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+        : undefined,
+    items: schema.items ? toGeminiSchema(schema.items) : undefined,
+    required: schema.required,
+});
+
+const toContents = (messages: LlmMessage[]): Content[] => messages.map(message => {
+    switch (message.role) {
+        case 'user':
+            return { role: 'user', parts: [{ text: message.text }] };
+        case 'model':
+            return {
+                role: 'model',
+                parts: [
+                    ...(message.text ? [{ text: message.text }] : []),
+                    ...(message.toolCalls ?? []).map(call => ({ functionCall: { id: call.id, name: call.name, args: call.args } })),
+                ],
+            };
+        case 'tool':
+            return { role: 'user', parts: message.results.map(result => ({ functionResponse: { id: result.id, name: result.name, response: result.response } })) };
+    }
+});
+
+const toToolCalls = (calls: FunctionCall[] | undefined): LlmToolCall[] =>
+    (calls ?? []).map((call, index) => ({ id: call.id ?? `call_${index}`, name: call.name ?? '', args: call.args ?? {} }));
+
+// Reads the text parts directly; the .text getter warns when the response also holds function calls
+const textOf = (response: GenerateContentResponse) =>
+    (response.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+
+/**
+ * Google Gemini, through the @google/genai SDK.
+ */
+export class GeminiProvider implements LlmProvider {
+    public readonly id = 'gemini';
+    public readonly displayName = 'Google Gemini';
+    private readonly ai: GoogleGenAI;
+
+    constructor(apiKey: string) {
+        this.ai = new GoogleGenAI({ apiKey });
+    }
+
+    async generateJson<T = unknown>({ model, prompt, systemInstruction, schema }: LlmJsonRequest): Promise<T> {
+        const response = await this.ai.models.generateContent({
+            model,
+            contents: prompt,
+            config: {
+                systemInstruction,
+                responseMimeType: "application/json",
+                responseSchema: toGeminiSchema(schema),
+            },
+        });
+        return JSON.parse(textOf(response).trim()) as T;
+    }
+
+    async generateText({ model, prompt, systemInstruction }: LlmTextRequest): Promise<string> {
+        const response = await this.ai.models.generateContent({ model, contents: prompt, config: { systemInstruction } });
+        return textOf(response).trim();
+    }
+
+    async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+        const response = await this.ai.models.generateContent({
+            model: request.model,
+            contents: toContents(request.messages),
+            config: this.chatConfig(request),
+        });
+        return { text: textOf(response), toolCalls: toToolCalls(response.functionCalls) };
+    }
+
+    async *streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+        const stream = await this.ai.models.generateContentStream({
+            model: request.model,
+            contents: toContents(request.messages),
+            config: this.chatConfig(request),
+        });
+
+        const calls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+            const text = textOf(chunk);
+            if (text) yield { type: 'text', text };
+            if (chunk.functionCalls) calls.push(...chunk.functionCalls);
+        }
+        if (calls.length > 0) yield { type: 'toolCalls', toolCalls: toToolCalls(calls) };
+    }
+
+    private chatConfig({ systemInstruction, tools, toolChoice, signal }: LlmChatRequest): GenerateContentConfig {
+        if (!tools || tools.length === 0) return { systemInstruction, abortSignal: signal };
+        return {
+            systemInstruction,
+            abortSignal: signal,
+            tools: [{ functionDeclarations: tools.map(tool => ({ name: tool.name, description: tool.description, parameters: toGeminiSchema(tool.parameters) })) }],
+            toolConfig: { functionCallingConfig: { mode: toolChoice === 'required' ? FunctionCallingConfigMode.ANY : FunctionCallingConfigMode.AUTO } },
+        };
+    }
+}
@@ -0,0 +1,156 @@
+import type { LlmChatRequest, LlmChatResponse, LlmJsonRequest, LlmMessage, LlmProvider, LlmStreamChunk, LlmTextRequest, LlmTool, LlmToolCall } from './types';
+
+export interface OpenAiCompatibleOptions {
+    // Base URL of the API, including the version segment, e.g. http://localhost:11434/v1
+    baseUrl: string;
+    apiKey?: string;
+    // Model name sent to the server in place of the app's model id. Local servers name their own models.
+    model?: string;
+}
+
+interface OpenAiToolCall {
+    id: string;
+    type: 'function';
+    function: { name: string; arguments: string };
+}
+
+interface OpenAiMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string | null;
+    tool_calls?: OpenAiToolCall[];
+    tool_call_id?: string;
+}
+
+const toOpenAiMessages = (messages: LlmMessage[], systemInstruction?: string): OpenAiMessage[] => [
+    ...(systemInstruction ? [{ role: 'system' as const, content: systemInstruction }] : []),
+    ...messages.flatMap((message): OpenAiMessage[] => {
+        switch (message.role) {
+            case 'user':
+                return [{ role: 'user', content: message.text }];
+            case 'model':
+                return [{
+                    role: 'assistant',
+                    content: message.text || null,
+                    tool_calls: message.toolCalls?.length
+                        ? message.toolCalls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: JSON.stringify(call.args) } }))
+                        : undefined,
+                }];
+            case 'tool':
+                return message.results.map(result => ({ role: 'tool', content: JSON.stringify(result.response), tool_call_id: result.id }));
+        }
+    }),
+];
+
+const toOpenAiTools = (tools: LlmTool[]) =>
+    tools.map(tool => ({ type: 'function', function: { name: tool.name, description: tool.description, parameters: tool.parameters } }));
+
+const parseArguments = (args: string): Record<string, any> => {
+    try {
+        return args ? JSON.parse(args) : {};
+    } catch {
+        throw new Error(`Model returned malformed tool arguments: ${args}`);
+    }
+};
+
+const toToolCalls = (calls: OpenAiToolCall[] | undefined): LlmToolCall[] =>
+    (calls ?? []).map((call, index) => ({ id: call.id || `call_${index}`, name: call.function.name, args: parseArguments(call.function.arguments) }));
+
+// Smaller local models often wrap JSON in a markdown fence even in JSON mode
+const stripCodeFence = (text: string) => text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+/**
+ * Any server that speaks the OpenAI chat completions API: OpenAI itself, or a local server such
+ * as Ollama, LM Studio, llama.cpp or vLLM.
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+    public readonly id = 'openai-compatible';
+    public readonly displayName = 'OpenAI-Compatible';
+
+    constructor(private readonly options: OpenAiCompatibleOptions) {}
+
+    async generateJson<T = unknown>({ model, prompt, systemInstruction, schema }: LlmJsonRequest): Promise<T> {
+        const message = await this.complete({
+            model,
+            messages: toOpenAiMessages([{ role: 'user', text: prompt }], systemInstruction),
+            response_format: { type: 'json_schema', json_schema: { name: 'response', schema } },
+        });
+        return JSON.parse(stripCodeFence(message.content ?? '')) as T;
+    }
+
+    async generateText({ model, prompt, systemInstruction }: LlmTextRequest): Promise<string> {
+        const message = await this.complete({ model, messages: toOpenAiMessages([{ role: 'user', text: prompt }], systemInstruction) });
+        return (message.content ?? '').trim();
+    }
+
+    async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+        const message = await this.complete(this.chatBody(request), request.signal);
+        return { text: message.content ?? '', toolCalls: toToolCalls(message.tool_calls) };
+    }
+
+    async *streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamChunk> {
+        const response = await this.post({ ...this.chatBody(request), stream: true }, request.signal);
+        if (!response.body) throw new Error(`${this.displayName} returned an empty stream.`);
+
+        // Tool calls arrive as fragments keyed by index; the arguments string is split across chunks
+        const calls: OpenAiToolCall[] = [];
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+
+            for (const line of lines) {
+                const data = line.trim().replace(/^data:\s*/, '');
+                if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+                const delta = JSON.parse(data).choices?.[0]?.delta;
+                if (delta?.content) yield { type: 'text', text: delta.content };
+                for (const fragment of delta?.tool_calls ?? []) {
+                    const call = calls[fragment.index] ??= { id: '', type: 'function', function: { name: '', arguments: '' } };
+                    if (fragment.id) call.id = fragment.id;
+                    if (fragment.function?.name) call.function.name += fragment.function.name;
+                    if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+                }
+            }
+        }
+        if (calls.length > 0) yield { type: 'toolCalls', toolCalls: toToolCalls(calls.filter(Boolean)) };
+    }
+
+    private chatBody({ model, messages, systemInstruction, tools, toolChoice }: LlmChatRequest) {
+        return {
+            model,
+            messages: toOpenAiMessages(messages, systemInstruction),
+            ...(tools && tools.length > 0 ? { tools: toOpenAiTools(tools), tool_choice: toolChoice ?? 'auto' } : {}),
+        };
+    }
+
+    private async complete(body: Record<string, unknown>, signal?: AbortSignal): Promise<OpenAiMessage> {
+        const response = await this.post(body, signal);
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        if (!message) throw new Error(`${this.displayName} returned no choices.`);
+        return message;
+    }
+
+    private async post(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+        const response = await fetch(`${this.options.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+            },
+            body: JSON.stringify({ ...body, model: this.options.model || body.model }),
+            signal,
+        });
+        if (!response.ok) {
+            const detail = await response.text().catch(() => '');
+            // `status` lets callers tell client errors from server errors, as with the Gemini SDK
+            throw Object.assign(new Error(`${this.displayName} request failed (${response.status}): ${detail}`), { status: response.status });
+        }
+        return response;
+    }
+}
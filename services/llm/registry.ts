@@ -0,0 +1,50 @@
+import type { LlmProvider } from './types';
+import { AI_MODELS } from '@/constants';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { DEFAULT_FIXTURES } from './fixtures';
+
+// Get API key from environment - in browser, this will be processed by Vite
+const API_KEY = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.API_KEY;
+
+if (!API_KEY) {
+  console.error("Gemini API key is not set. Please set VITE_GEMINI_API_KEY in your .env file");
+}
+
+export const geminiProvider = new GeminiProvider(API_KEY || "");
+
+export const openAiCompatibleProvider = new OpenAiCompatibleProvider({
+  baseUrl: import.meta.env.VITE_LLM_BASE_URL || 'http://localhost:11434/v1',
+  apiKey: import.meta.env.VITE_LLM_API_KEY,
+  model: import.meta.env.VITE_LLM_MODEL,
+});
+
+export const fixtureProvider = new FixtureProvider(DEFAULT_FIXTURES);
+
+/**
+ * The registry holds all available LLM backends.
+ * The `LlmProviderName` type is derived from the keys below.
+ */
+export const llmProviderRegistry = {
+  [geminiProvider.id]: geminiProvider,
+  [openAiCompatibleProvider.id]: openAiCompatibleProvider,
+  [fixtureProvider.id]: fixtureProvider,
+} satisfies Record<string, LlmProvider>;
+
+export type LlmProviderName = keyof typeof llmProviderRegistry;
+
+// Routes every model through one provider, e.g. VITE_LLM_PROVIDER=fixture to run the app offline
+const PROVIDER_OVERRIDE = import.meta.env.VITE_LLM_PROVIDER as LlmProviderName | undefined;
+
+/**
+ * The provider that serves a model: the override if one is set, else the model's own provider.
+ * Unknown models go to Gemini, as they did before providers existed.
+ */
+export function getLlmProvider(modelId: string): LlmProvider {
+  if (PROVIDER_OVERRIDE && PROVIDER_OVERRIDE in llmProviderRegistry) {
+    return llmProviderRegistry[PROVIDER_OVERRIDE];
+  }
+  const provider = AI_MODELS.find(model => model.id === modelId)?.provider ?? 'gemini';
+  return llmProviderRegistry[provider];
+}
@@ -0,0 +1,30 @@
+import type { LlmProvider } from './types';
+import type { LlmProviderName } from './registry';
+import { AI_MODELS } from '@/constants';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { FixtureProvider } from './fixtureProvider';
+import { DEFAULT_FIXTURES } from './fixtures';
+
+/**
+ * The serverless functions' counterpart of `getLlmProvider`: the same routing, configured from
+ * process.env (API_KEY, LLM_PROVIDER, LLM_BASE_URL, LLM_API_KEY, LLM_MODEL) instead of Vite's env.
+ */
+export function getServerLlmProvider(modelId: string): LlmProvider {
+  const provider: LlmProviderName = (process.env.LLM_PROVIDER as LlmProviderName | undefined)
+    ?? AI_MODELS.find(model => model.id === modelId)?.provider
+    ?? 'gemini';
+
+  switch (provider) {
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider({
+        baseUrl: process.env.LLM_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.LLM_API_KEY,
+        model: process.env.LLM_MODEL,
+      });
+    case 'fixture':
+      return new FixtureProvider(DEFAULT_FIXTURES);
+    default:
+      return new GeminiProvider(process.env.API_KEY ?? '');
+  }
+}
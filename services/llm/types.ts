@@ -0,0 +1,102 @@
+/**
+ * A provider-neutral subset of JSON Schema, used for structured responses and tool parameters.
+ * Providers translate it into their own schema dialect.
+ */
+export interface LlmSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, LlmSchema>;
+  items?: LlmSchema;
+  required?: string[];
+}
+
+export interface LlmTool {
+  name: string;
+  description: string;
+  parameters: LlmSchema;
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+}
+
+export interface LlmToolResult {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+/**
+ * One turn of a conversation. 'model' turns carry text and/or tool calls; 'tool' turns carry the
+ * results of the preceding model turn's tool calls.
+ */
+export type LlmMessage =
+  | { role: 'user'; text: string }
+  | { role: 'model'; text: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; results: LlmToolResult[] };
+
+export interface LlmTextRequest {
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+}
+
+export interface LlmJsonRequest extends LlmTextRequest {
+  schema: LlmSchema;
+}
+
+export interface LlmChatRequest {
+  model: string;
+  messages: LlmMessage[];
+  systemInstruction?: string;
+  tools?: LlmTool[];
+  // 'required' forces the model to answer with at least one tool call
+  toolChoice?: 'auto' | 'required';
+  signal?: AbortSignal; // Aborts the request, or a stream in progress
+}
+
+export interface LlmChatResponse {
+  text: string;
+  toolCalls: LlmToolCall[];
+}
+
+/**
+ * A piece of a streamed chat response: a text delta, or tool calls once the model has finished them.
+ */
+export type LlmStreamChunk =
+  | { type: 'text'; text: string }
+  | { type: 'toolCalls'; toolCalls: LlmToolCall[] };
+
+/**
+ * This is the contract that every LLM backend must follow.
+ */
+export interface LlmProvider {
+  // A unique name for the provider, used as a key in the registry and in AiModel.provider.
+  readonly id: string;
+
+  // Human-readable name for menus.
+  readonly displayName: string;
+
+  /**
+   * Generates a response that matches the schema and returns it parsed.
+   */
+  generateJson<T = unknown>(request: LlmJsonRequest): Promise<T>;
+
+  /**
+   * Generates a plain text (markdown) response, trimmed.
+   */
+  generateText(request: LlmTextRequest): Promise<string>;
+
+  /**
+   * Sends a conversation, optionally with tools, and returns the model's next turn.
+   */
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+
+  /**
+   * Like `chat`, but yields text deltas as they arrive. Tool calls are yielded once, complete.
+   */
+  streamChat(request: LlmChatRequest): AsyncIterable<LlmStreamChunk>;
+}
@@ -0,0 +1,179 @@
+import type { Exchange, FundingRate } from '@/types';
+
+/**
+ * Shared accounting for perpetual futures: venue fees, slippage, funding, and isolated/cross
+ * liquidation prices. Pure functions only, so the simulator, the Perp Log and the calculators all
+ * agree on how a position's P&L is made up. Fetching funding history lives in `exchangeService`.
+ *
+ * Rates are fractions (0.0005 = 0.05%). Sides are 'LONG' | 'SHORT'.
+ */
+
+export type PerpSide = 'LONG' | 'SHORT';
+export type MarginMode = 'isolated' | 'cross';
+
+export interface FeeTier {
+  name: string;
+  maker: number;
+  taker: number;
+}
+
+// Published USDT-M perpetual fee schedules (Coinbase: spot, Advanced Trade), lowest tiers first
+export const VENUE_FEE_TIERS: Record<Exchange, FeeTier[]> = {
+  binance: [
+    { name: 'VIP 0', maker: 0.0002, taker: 0.0005 },
+    { name: 'VIP 1', maker: 0.00016, taker: 0.0004 },
+    { name: 'VIP 2', maker: 0.00014, taker: 0.00035 },
+    { name: 'VIP 3', maker: 0.00012, taker: 0.00032 },
+  ],
+  bybit: [
+    { name: 'VIP 0', maker: 0.0002, taker: 0.00055 },
+    { name: 'VIP 1', maker: 0.00018, taker: 0.0004 },
+    { name: 'VIP 2', maker: 0.00016, taker: 0.000375 },
+    { name: 'VIP 3', maker: 0.00014, taker: 0.00035 },
+  ],
+  okx: [
+    { name: 'Lv1', maker: 0.0002, taker: 0.0005 },
+    { name: 'VIP 1', maker: 0.00016, taker: 0.00045 },
+    { name: 'VIP 2', maker: 0.00014, taker: 0.0004 },
+  ],
+  bitget: [
+    { name: 'VIP 0', maker: 0.0002, taker: 0.0006 },
+    { name: 'VIP 1', maker: 0.00018, taker: 0.0005 },
+    { name: 'VIP 2', maker: 0.00016, taker: 0.00045 },
+  ],
+  coinbase: [
+    { name: 'Standard', maker: 0.004, taker: 0.006 },
+  ],
+};
+
+// First-tier maintenance margin rate; larger positions need more on every venue
+export const DEFAULT_MAINTENANCE_MARGIN_RATE = 0.005;
+export const DEFAULT_SLIPPAGE_BPS = 2;
+export const FUNDING_INTERVAL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * The venue's fee tier by name, or its base tier when the name is unknown.
+ */
+export function getFeeTier(exchange: Exchange, tierName?: string): FeeTier {
+  const tiers = VENUE_FEE_TIERS[exchange] ?? VENUE_FEE_TIERS.binance;
+  return tiers.find(tier => tier.name === tierName) ?? tiers[0];
+}
+
+/**
+ * Fill price after adverse slippage: buys fill higher, sells lower.
+ */
+export function applySlippage(price: number, isBuy: boolean, slippageBps: number): number {
+  return price * (1 + (isBuy ? 1 : -1) * slippageBps / 10_000);
+}
+
+/**
+ * Price at which the position's margin falls to the maintenance margin.
+ *
+ * - Isolated: only the position's own margin (notional / leverage) absorbs losses.
+ * - Cross: the whole `accountBalance` (which includes this position's margin) does.
+ *
+ * Returns 0 for a long that cannot be liquidated (its collateral covers a fall to zero).
+ */
+export function liquidationPrice({
+  side,
+  entryPrice,
+  leverage,
+  marginMode = 'isolated',
+  quantity = 1,
+  accountBalance = 0,
+  maintenanceMarginRate = DEFAULT_MAINTENANCE_MARGIN_RATE,
+}: {
+  side: PerpSide;
+  entryPrice: number;
+  leverage: number;
+  marginMode?: MarginMode;
+  quantity?: number;
+  accountBalance?: number;
+  maintenanceMarginRate?: number;
+}): number {
+  if (entryPrice <= 0 || leverage <= 0 || quantity <= 0) return 0;
+  const collateral = marginMode === 'cross' ? accountBalance : entryPrice * quantity / leverage;
+  // Solve collateral + unrealized P&L = maintenanceMarginRate * quantity * price for price
+  const price = side === 'LONG'
+    ? (entryPrice * quantity - collateral) / (quantity * (1 - maintenanceMarginRate))
+    : (entryPrice * quantity + collateral) / (quantity * (1 + maintenanceMarginRate));
+  return Math.max(0, price);
+}
+
+/**
+ * Whether the mark price has reached the liquidation price. Exchanges liquidate on the mark price,
+ * not the last traded price; callers without a mark price feed pass the last price.
+ */
+export function isLiquidated(side: PerpSide, liquidation: number, markPrice: number): boolean {
+  if (liquidation <= 0) return false;
+  return side === 'LONG' ? markPrice <= liquidation : markPrice >= liquidation;
+}
+
+/**
+ * Funding paid by a position at one settlement (negative when it receives funding).
+ */
+export function fundingPayment(side: PerpSide, quantity: number, markPrice: number, rate: number): number {
+  return quantity * markPrice * rate * (side === 'LONG' ? 1 : -1);
+}
+
+/**
+ * The funding rate that applies at a settlement time: the recorded one, else the latest known before
+ * it (an estimate for settlements that haven't been published yet), else 0.
+ */
+export function fundingRateAt(rates: FundingRate[], time: number): FundingRate | null {
+  let latest: FundingRate | null = null;
+  for (const rate of rates) {
+    if (rate.time > time) break;
+    latest = rate;
+  }
+  return latest;
+}
+
+/**
+ * Total funding paid by a position held from `openTime` to `closeTime` (ms), over every settlement
+ * strictly after opening and up to closing. Settlements without a mark price use `fallbackPrice`.
+ */
+export function fundingBetween(rates: FundingRate[], side: PerpSide, quantity: number, openTime: number, closeTime: number, fallbackPrice: number): number {
+  return rates
+    .filter(rate => rate.time > openTime && rate.time <= closeTime)
+    .reduce((total, rate) => total + fundingPayment(side, quantity, rate.markPrice ?? fallbackPrice, rate.rate), 0);
+}
+
+export interface PerpPnlBreakdown {
+  grossPnl: number; // Price P&L
+  fees: number; // Entry and exit fees
+  funding: number; // Net funding paid (negative when received)
+  netPnl: number; // grossPnl - fees - funding
+  roe: number; // Net P&L as a percentage of margin
+}
+
+/**
+ * Net P&L of a closed position. Fees are either the amount actually paid (`fees`, e.g. from a trade
+ * log) or charged at the given rates on the notional of each fill.
+ */
+export function computePerpPnl({
+  side,
+  entryPrice,
+  exitPrice,
+  quantity,
+  margin,
+  entryFeeRate = 0,
+  exitFeeRate = 0,
+  fees,
+  funding = 0,
+}: {
+  side: PerpSide;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  margin: number;
+  entryFeeRate?: number;
+  exitFeeRate?: number;
+  fees?: number;
+  funding?: number;
+}): PerpPnlBreakdown {
+  const grossPnl = (exitPrice - entryPrice) * quantity * (side === 'LONG' ? 1 : -1);
+  const totalFees = fees ?? entryPrice * quantity * entryFeeRate + exitPrice * quantity * exitFeeRate;
+  const netPnl = grossPnl - totalFees - funding;
+  return { grossPnl, fees: totalFees, funding, netPnl, roe: margin > 0 ? netPnl / margin * 100 : 0 };
+}
@@ -0,0 +1,319 @@
+import type { Exchange, Timeframe, CandleStick, ScreenerMetrics, ScreenerTimeframeMetrics, ScreenerResult } from '@/types';
+import * as exchangeService from '@/services/exchangeService';
+import { getIndicatorSnapshot } from '@/utils/indicators';
+import { compileQuery, evaluateQuery, describeEvaluation, QUERY_FUNCTION_NAMES } from '@/utils/screenerQuery';
+import type { LlmMessage, LlmProvider, LlmTool } from '@/services/llm/types';
+
+/**
+ * The default universe scanned by the AI screener.
+ */
+export const SYMBOLS_TO_SCAN = [
+    'BTCUSDT', 'ETHUSDT', 'SOLUSDT', 'XRPUSDT', 'DOGEUSDT', 'BNBUSDT', 'ADAUSDT',
+    'AVAXUSDT', 'LINKUSDT', 'TRXUSDT', 'DOTUSDT', 'MATICUSDT', 'TONUSDT', 'SHIBUSDT',
+    'ICPUSDT', 'LTCUSDT', 'BCHUSDT', 'NEARUSDT', 'UNIUSDT', 'INJUSDT', 'OPUSDT',
+    'ARBUSDT', 'FETUSDT', 'RNDRUSDT', 'WLDUSDT', 'PEPEUSDT'
+];
+
+export const SCREENER_TIMEFRAMES: Timeframe[] = ['1h', '4h', '1d'];
+const CANDLES_PER_TIMEFRAME = 250; // Enough history for EMA(200) to be defined
+const FETCH_CONCURRENCY = 5;
+
+export interface ScreenerFeatureRow {
+    symbol: string;
+    metrics: ScreenerMetrics;
+}
+
+const round = (value: number | null | undefined, digits = 2): number | null =>
+    value === null || value === undefined || !isFinite(value) ? null : Number(value.toFixed(digits));
+
+const pctDistance = (price: number, level: number | null) => level ? ((price - level) / level) * 100 : null;
+
+/**
+ * Computes the per-timeframe metrics the screener works with from a candle series.
+ */
+export function computeTimeframeMetrics(candles: CandleStick[]): ScreenerTimeframeMetrics | null {
+    const snapshot = getIndicatorSnapshot(candles);
+    if (!snapshot) return null;
+    const last = candles[candles.length - 1];
+    const volumeWindow = candles.slice(-21, -1);
+    const avgVolume = volumeWindow.length > 0 ? volumeWindow.reduce((sum, c) => sum + c.volume, 0) / volumeWindow.length : 0;
+    return {
+        rsi14: round(snapshot.rsi14),
+        ema50DistancePct: round(pctDistance(snapshot.close, snapshot.ema50)),
+        ema200DistancePct: round(pctDistance(snapshot.close, snapshot.ema200)),
+        macdHistogram: round(snapshot.macd?.histogram, 6),
+        bollingerBandwidthPct: round(snapshot.bollinger ? snapshot.bollinger.bandwidth * 100 : null),
+        atrPct: round(snapshot.atr14 !== null ? (snapshot.atr14 / snapshot.close) * 100 : null),
+        adx: round(snapshot.adx?.adx),
+        stochK: round(snapshot.stochastic?.k),
+        relativeVolume: round(avgVolume > 0 ? last.volume / avgVolume : null),
+    };
+}
+
+/**
+ * Computes metrics for a single symbol across the screener timeframes.
+ * The 24h change and volume are derived from the hourly candles.
+ */
+export async function computeSymbolMetrics(exchange: Exchange, symbol: string, timeframes: Timeframe[] = SCREENER_TIMEFRAMES): Promise<ScreenerMetrics> {
+    const seriesByTimeframe = await Promise.all(
+        timeframes.map(tf => exchangeService.fetchData(exchange, symbol, tf, CANDLES_PER_TIMEFRAME))
+    );
+
+    const metrics: ScreenerMetrics = { price: 0, change24hPct: null, quoteVolume24h: null, timeframes: {} };
+    timeframes.forEach((tf, i) => {
+        const tfMetrics = computeTimeframeMetrics(seriesByTimeframe[i]);
+        if (tfMetrics) metrics.timeframes[tf] = tfMetrics;
+    });
+
+    const hourly = seriesByTimeframe[timeframes.indexOf('1h')] ?? await exchangeService.fetchData(exchange, symbol, '1h', 25);
+    const lastClose = hourly[hourly.length - 1]?.close ?? 0;
+    metrics.price = lastClose;
+    if (hourly.length > 24) {
+        const dayAgo = hourly[hourly.length - 25].close;
+        metrics.change24hPct = round(((lastClose - dayAgo) / dayAgo) * 100);
+        const lastDay = hourly.slice(-24);
+        if (lastDay.every(c => c.quoteVolume !== undefined)) {
+            metrics.quoteVolume24h = round(lastDay.reduce((sum, c) => sum + (c.quoteVolume ?? 0), 0), 0);
+        }
+    }
+    return metrics;
+}
+
+/**
+ * Fetches candles and computes metrics for every symbol, a few symbols at a time.
+ * Symbols that fail to load (delisted, unsupported on the exchange, ...) are skipped.
+ */
+export async function buildScreenerFeatures(exchange: Exchange, symbols: string[] = SYMBOLS_TO_SCAN, timeframes: Timeframe[] = SCREENER_TIMEFRAMES): Promise<ScreenerFeatureRow[]> {
+    const rows: ScreenerFeatureRow[] = [];
+    for (let i = 0; i < symbols.length; i += FETCH_CONCURRENCY) {
+        const batch = symbols.slice(i, i + FETCH_CONCURRENCY);
+        const results = await Promise.allSettled(batch.map(symbol => computeSymbolMetrics(exchange, symbol, timeframes)));
+        results.forEach((result, j) => {
+            if (result.status === 'fulfilled') {
+                rows.push({ symbol: batch[j], metrics: result.value });
+            } else {
+                console.warn(`Screener skipped ${batch[j]}:`, result.reason);
+            }
+        });
+    }
+    if (rows.length === 0) {
+        throw new Error(`Could not load market data for any symbol on ${exchange}.`);
+    }
+    return rows;
+}
+
+/**
+ * Renders the feature rows as a compact pipe-separated table for the model.
+ * One line per symbol and timeframe keeps the prompt small while staying unambiguous.
+ */
+export function formatFeatureTable(rows: ScreenerFeatureRow[]): string {
+    const fmt = (value: number | null) => value === null ? 'n/a' : String(value);
+    const header = 'symbol | tf | price | chg24h% | rsi14 | ema50Dist% | ema200Dist% | macdHist | bbWidth% | atr% | adx | stochK | relVol';
+    const lines = rows.flatMap(({ symbol, metrics }) =>
+        Object.entries(metrics.timeframes).map(([tf, m]) => [
+            symbol, tf, metrics.price, fmt(metrics.change24hPct), fmt(m.rsi14), fmt(m.ema50DistancePct), fmt(m.ema200DistancePct),
+            fmt(m.macdHistogram), fmt(m.bollingerBandwidthPct), fmt(m.atrPct), fmt(m.adx), fmt(m.stochK), fmt(m.relativeVolume),
+        ].join(' | '))
+    );
+    return [header, ...lines].join('\n');
+}
+
+export const SCREENER_SYSTEM_INSTRUCTION = "You are an expert market analyst. You are given a table of pre-computed technical metrics for a list of cryptocurrency perpetual contracts. Screen the symbols against the user's query using ONLY the numbers in the table; never invent values. Return only symbols that match, each with a concise rationale that cites the specific metrics that justify the match.";
+
+export function buildScreenerPrompt(query: string, rows: ScreenerFeatureRow[]): string {
+    return `
+        User Query: "${query}"
+
+        Market Feature Table (one row per symbol and timeframe, computed from live exchange candles):
+        ${formatFeatureTable(rows)}
+
+        Column notes: chg24h% is the 24-hour price change, emaXDist% is the distance of price above (+) or below (-) the EMA, bbWidth% is the Bollinger Band width as a percent of the middle band, atr% is ATR(14) relative to price and relVol is the last candle's volume divided by the 20-candle average.
+
+        Your Task:
+        Return the symbols from the table that best match the query. For each symbol, provide a concise rationale referencing the metrics you used.
+    `;
+}
+
+/**
+ * Attaches the computed metrics to the model's matches and drops any symbol the model
+ * returned that is not in the feature table.
+ */
+export function attachMetrics<T extends { symbol: string; rationale: string }>(results: T[], rows: ScreenerFeatureRow[]) {
+    const bySymbol = new Map(rows.map(row => [row.symbol, row.metrics]));
+    return results
+        .filter(result => bySymbol.has(result.symbol))
+        .map(result => ({ ...result, metrics: bySymbol.get(result.symbol) }));
+}
+
+// --- RULE SCREENS ---
+
+/**
+ * Candle requests shared across evaluations, keyed by symbol, timeframe and limit,
+ * so a run (or an AI conversation) never downloads the same series twice.
+ */
+export type CandleCache = Map<string, Promise<CandleStick[]>>;
+
+export interface RuleScreenOptions {
+    symbols?: string[]; // Defaults to every symbol listed by the exchange
+    onProgress?: (done: number, total: number) => void;
+    candleCache?: CandleCache;
+}
+
+function getCachedCandles(cache: CandleCache, exchange: Exchange, symbol: string, timeframe: Timeframe, limit: number) {
+    const key = `${exchange}:${symbol}:${timeframe}:${limit}`;
+    let request = cache.get(key);
+    if (!request) {
+        request = exchangeService.fetchData(exchange, symbol, timeframe, limit);
+        // Don't keep failures around; a later call may succeed
+        request.catch(() => cache.delete(key));
+        cache.set(key, request);
+    }
+    return request;
+}
+
+/**
+ * Evaluates a rule query (see utils/screenerQuery.ts) locally against every symbol and
+ * returns the ones that match, with the evaluated values as the rationale.
+ * Throws straight away if the query does not compile.
+ */
+export async function runRuleScreen(query: string, exchange: Exchange, options: RuleScreenOptions = {}): Promise<ScreenerResult[]> {
+    const compiled = compileQuery(query);
+    const symbols = options.symbols ?? await exchangeService.getSymbols(exchange);
+    const cache = options.candleCache ?? new Map();
+    const results: ScreenerResult[] = [];
+    let failures = 0;
+
+    for (let i = 0; i < symbols.length; i += FETCH_CONCURRENCY) {
+        const batch = symbols.slice(i, i + FETCH_CONCURRENCY);
+        const evaluations = await Promise.allSettled(batch.map(async symbol => {
+            const series = await Promise.all(compiled.requirements.map(({ timeframe, limit }) => getCachedCandles(cache, exchange, symbol, timeframe, limit)));
+            const candlesByTimeframe: Partial<Record<Timeframe, CandleStick[]>> = {};
+            compiled.requirements.forEach(({ timeframe }, j) => { candlesByTimeframe[timeframe] = series[j]; });
+            return evaluateQuery(compiled, candlesByTimeframe);
+        }));
+        evaluations.forEach((evaluation, j) => {
+            if (evaluation.status === 'rejected') {
+                failures++;
+                console.warn(`Rule screen skipped ${batch[j]}:`, evaluation.reason);
+            } else if (evaluation.value.matched) {
+                results.push({ symbol: batch[j], rationale: describeEvaluation(evaluation.value), values: evaluation.value.values });
+            }
+        });
+        options.onProgress?.(Math.min(i + FETCH_CONCURRENCY, symbols.length), symbols.length);
+    }
+
+    if (symbols.length > 0 && failures === symbols.length) {
+        throw new Error(`Could not load market data for any symbol on ${exchange}.`);
+    }
+    return results;
+}
+
+// --- AI SCREENER WITH RULE TOOLS ---
+
+const MAX_TOOL_ROUNDS = 6;
+
+const QUERY_LANGUAGE_NOTE = `Rule queries look like: rsi(14,1h) < 30 and close > ema(200,4h) and change(24h) > 5%. Functions: ${QUERY_FUNCTION_NAMES.join(', ')}. The last argument of a function may be a timeframe (1m, 3m, 5m, 15m, 30m, 1h, 2h, 4h, 1d, 1w; default 1h); change() takes a duration. Combine conditions with and, or, not and parentheses.`;
+
+const runRuleScreenTool: LlmTool = {
+    name: 'runRuleScreen',
+    description: `Evaluates a rule query locally against live candles for every symbol in the feature table and returns the matching symbols with the exact values used. ${QUERY_LANGUAGE_NOTE}`,
+    parameters: {
+        type: 'object',
+        properties: {
+            query: { type: 'string', description: 'The rule query to evaluate.' },
+        },
+        required: ['query'],
+    },
+};
+
+const submitScreenerResultsTool: LlmTool = {
+    name: 'submitScreenerResults',
+    description: 'Submits the final list of matching symbols. Call this exactly once, when you are done.',
+    parameters: {
+        type: 'object',
+        properties: {
+            results: {
+                type: 'array',
+                items: {
+                    type: 'object',
+                    properties: {
+                        symbol: { type: 'string' },
+                        rationale: { type: 'string' },
+                        verificationQuery: { type: 'string', description: 'A rule query that this symbol must satisfy if the rationale is true.' },
+                    },
+                    required: ['symbol', 'rationale'],
+                },
+            },
+        },
+        required: ['results'],
+    },
+};
+
+export const SCREENER_TOOLS_INSTRUCTION = `${SCREENER_SYSTEM_INSTRUCTION} You can check your reasoning with the runRuleScreen tool before answering. Finish by calling submitScreenerResults, and give every result a verificationQuery that captures the claim in its rationale so the app can verify it. ${QUERY_LANGUAGE_NOTE}`;
+
+/**
+ * Re-evaluates each result's verification query locally and records whether it held.
+ * Results without a query are returned unchanged.
+ */
+export async function verifyScreenerResults(results: ScreenerResult[], exchange: Exchange, candleCache: CandleCache = new Map()): Promise<ScreenerResult[]> {
+    return Promise.all(results.map(async result => {
+        if (!result.verificationQuery) return result;
+        try {
+            const matches = await runRuleScreen(result.verificationQuery, exchange, { symbols: [result.symbol], candleCache });
+            return { ...result, verified: matches.length > 0, values: matches[0]?.values };
+        } catch (error) {
+            console.warn(`Could not verify ${result.symbol} with "${result.verificationQuery}":`, error);
+            return { ...result, verified: false };
+        }
+    }));
+}
+
+/**
+ * Runs the AI screener as a tool-calling conversation: the model sees the feature table,
+ * may call runRuleScreen to test hypotheses, and submits its matches through
+ * submitScreenerResults. Every submitted claim is then verified locally.
+ */
+export async function runToolAssistedScreener(provider: LlmProvider, model: string, query: string, exchange: Exchange, rows: ScreenerFeatureRow[]): Promise<ScreenerResult[]> {
+    const symbols = rows.map(row => row.symbol);
+    const candleCache: CandleCache = new Map();
+    const messages: LlmMessage[] = [{ role: 'user', text: buildScreenerPrompt(query, rows) }];
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const response = await provider.chat({
+            model,
+            messages,
+            systemInstruction: SCREENER_TOOLS_INSTRUCTION,
+            tools: [runRuleScreenTool, submitScreenerResultsTool],
+            toolChoice: 'required',
+        });
+
+        const calls = response.toolCalls;
+        const submission = calls.find(call => call.name === 'submitScreenerResults');
+        if (submission) {
+            const submitted = submission.args.results;
+            if (!Array.isArray(submitted)) {
+                throw new Error("AI returned a non-array response for the screener.");
+            }
+            const matched = attachMetrics(submitted as ScreenerResult[], rows);
+            return verifyScreenerResults(matched, exchange, candleCache);
+        }
+        if (calls.length === 0) {
+            throw new Error("AI did not call a screener tool.");
+        }
+
+        messages.push({ role: 'model', text: response.text, toolCalls: calls });
+        const results = await Promise.all(calls.map(async call => {
+            let output: Record<string, unknown>;
+            try {
+                const matches = await runRuleScreen(String(call.args.query ?? ''), exchange, { symbols, candleCache });
+                output = { matches: matches.map(({ symbol, values }) => ({ symbol, values })) };
+            } catch (error) {
+                output = { error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+            return { id: call.id, name: call.name, response: output };
+        }));
+        messages.push({ role: 'tool', results });
+    }
+
+    throw new Error(`The AI screener did not submit results within ${MAX_TOOL_ROUNDS} rounds.`);
+}
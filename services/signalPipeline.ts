@@ -0,0 +1,194 @@
+import type { CandleStick, LiveTrade, OrderBookUpdate, Signal, Timeframe, UserParams } from '@/types';
+import type { LlmProvider, LlmSchema } from '@/services/llm/types';
+import { TRADING_KNOWLEDGE_CONTEXT, SCALPING_KNOWLEDGE_CONTEXT, CANDLE_FIELDS_NOTE, buildVolumeContext, buildIndicatorContext } from '@/services/ai-prompts';
+import * as exchangeService from '@/services/exchangeService';
+import { ensembleRuns, isEnsemble, mergeEnsemble, type EnsembleRun } from '@/services/ensemble';
+import { requestValidatedSignal, validateSignal, type SignalValidationContext } from '@/services/signalValidation';
+
+/**
+ * The AI signal pipeline shared by the browser (`geminiService`) and the serverless functions
+ * (`api/`): market data, a versioned prompt, the model call(s) and validation. Callers only differ in
+ * how they look up a model's provider.
+ *
+ * Every signal records the version of the template that produced it. Bump a template's version
+ * whenever its prompt, system instruction or data changes, so results can be compared per revision.
+ */
+
+export type SignalKind = 'swing' | 'scalp';
+
+export interface SignalMarketData {
+    livePrice: number;
+    primary: CandleStick[];
+    htf: CandleStick[] | null;
+    ltf: CandleStick[] | null;
+}
+
+// Order flow the scalping prompt includes when the caller has it
+export interface SignalRealtimeData {
+    orderBook?: OrderBookUpdate | null;
+    liveTrades?: LiveTrade[];
+}
+
+export interface SignalPromptTemplate {
+    version: string;
+    systemInstruction: string;
+    build(params: UserParams, data: SignalMarketData, realtime: SignalRealtimeData): string;
+}
+
+export const SIGNAL_RESPONSE_SCHEMA: LlmSchema = {
+    type: 'object',
+    properties: {
+        direction: { type: 'string', enum: ["LONG", "SHORT"] }, entryRange: { type: 'array', items: { type: 'number' } },
+        takeProfit: { type: 'array', items: { type: 'number' } }, stopLoss: { type: 'number' },
+        confidence: { type: 'number' }, rrRatio: { type: 'number' }, leverage: { type: 'number' },
+        predictedMoveDuration: { type: 'string' }, reasoning: { type: 'string' },
+        biasSource: { type: 'string', enum: ["Predictive"] }, predictionMode: { type: 'boolean' },
+        biasSummary: {
+            type: 'object',
+            properties: {
+                shortTerm: { type: 'string', enum: ["Bullish", "Bearish", "Neutral"] },
+                midTerm: { type: 'string', enum: ["Bullish", "Bearish", "Neutral"] },
+                longTerm: { type: 'string', enum: ["Bullish", "Bearish", "Neutral"] },
+            },
+            required: ["shortTerm", "midTerm", "longTerm"]
+        },
+    },
+    required: ["direction", "entryRange", "takeProfit", "stopLoss", "confidence", "rrRatio", "leverage", "predictedMoveDuration", "reasoning", "biasSource", "predictionMode", "biasSummary"]
+};
+
+const ALL_TIMEFRAMES: Timeframe[] = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '1d', '1w'];
+
+const neighborTimeframes = (tf: Timeframe): { ltf: Timeframe | null, htf: Timeframe | null } => {
+    const currentIndex = ALL_TIMEFRAMES.indexOf(tf);
+    return {
+        ltf: currentIndex > 0 ? ALL_TIMEFRAMES[currentIndex - 1] : null,
+        htf: currentIndex < ALL_TIMEFRAMES.length - 1 ? ALL_TIMEFRAMES[currentIndex + 1] : null,
+    };
+};
+
+/**
+ * Fetches the candles a signal prompt needs. Swing signals read 150 primary candles, 100 on the next
+ * higher timeframe and 20 on the next lower one; scalps read 150 primary and 100 higher timeframe
+ * candles (the highest timeframe is its own HTF).
+ */
+export async function fetchSignalMarketData(kind: SignalKind, params: UserParams): Promise<SignalMarketData> {
+    const { htf, ltf } = neighborTimeframes(params.timeframe);
+    const htfTimeframe = kind === 'scalp' ? htf ?? params.timeframe : htf;
+    const ltfTimeframe = kind === 'swing' ? ltf : null;
+
+    const [primary, htfData, ltfData] = await Promise.all([
+        exchangeService.fetchData(params.exchange, params.symbol, params.timeframe, 150),
+        htfTimeframe ? exchangeService.fetchData(params.exchange, params.symbol, htfTimeframe, 100) : Promise.resolve(null),
+        ltfTimeframe ? exchangeService.fetchData(params.exchange, params.symbol, ltfTimeframe, 20) : Promise.resolve(null),
+    ]);
+
+    const livePrice = primary.length > 0 ? primary[primary.length - 1].close : 0;
+    if (livePrice === 0) {
+        throw new Error("Could not determine the current price from market data.");
+    }
+    return { livePrice, primary, htf: htfData, ltf: ltfData };
+}
+
+const swingPrompt: SignalPromptTemplate = {
+    version: 'swing-v2',
+    systemInstruction: TRADING_KNOWLEDGE_CONTEXT,
+    build: (params, { livePrice, primary, htf, ltf }) => `
+        Analyze the following multi-timeframe market data to predict the next trading setup.
+
+        **User Parameters:**
+        - Symbol: ${params.symbol}
+        - Primary Timeframe: ${params.timeframe}
+        - Desired Opportunity Duration: ${params.opportunityDuration}
+        - Current Market Price (from last closed candle): ${livePrice}
+        - Allow High Leverage (>20x): ${params.allowHighLeverage}
+        - Custom Instructions: ${params.customAiParams || 'None'}
+
+        **Market Data:**
+        ${CANDLE_FIELDS_NOTE}
+        ${htf ? `- **Higher Timeframe Context (Last 100 candles):**\n${JSON.stringify(htf, null, 2)}` : ''}
+        - **Primary Timeframe (${params.timeframe}) Data (Last 150 candles):**\n${JSON.stringify(primary, null, 2)}
+        - **Primary Timeframe ${buildVolumeContext(primary)}**
+        - **Primary Timeframe ${buildIndicatorContext(primary)}**
+        ${htf ? `- **Higher Timeframe ${buildIndicatorContext(htf)}**` : ''}
+        ${ltf ? `- **Lower Timeframe Confirmation (Last 20 candles):**\n${JSON.stringify(ltf, null, 2)}` : ''}
+
+        Based on your predictive analysis, provide a trading signal in the specified JSON format.
+    `,
+};
+
+const scalpPrompt: SignalPromptTemplate = {
+    version: 'scalp-v1',
+    systemInstruction: SCALPING_KNOWLEDGE_CONTEXT,
+    build: (params, { livePrice, primary, htf }, { orderBook, liveTrades = [] }) => `
+        Analyze the following market data for a scalping opportunity.
+        ${CANDLE_FIELDS_NOTE}
+
+        **HTF Context (Last 100 candles):**
+${JSON.stringify(htf, null, 2)}
+        **LTF Execution (Last 150 candles):**
+${JSON.stringify(primary, null, 2)}
+        - LTF ${buildVolumeContext(primary)}
+        - LTF ${buildIndicatorContext(primary)}
+        - HTF ${buildIndicatorContext(htf ?? [])}
+        **Real-Time Data:**
+        - Order Book Snapshot:
+${orderBook ? JSON.stringify(orderBook, null, 2) : 'Not available.'}
+        - Recent Trades:
+${liveTrades.length > 0 ? JSON.stringify(liveTrades, null, 2) : 'Not available.'}
+
+        **Parameters & Task:**
+        - Symbol: ${params.symbol}
+        - Price: ${livePrice}
+        - Allow High Leverage: ${params.allowHighLeverage}
+        ${params.tradingStyle ? `- Preferred Trading Style: ${params.tradingStyle}` : ''}
+        - Task: Predict the next immediate price move. Provide a setup in the specified JSON format.
+    `,
+};
+
+// The active template for each kind of signal
+export const SIGNAL_PROMPTS: Record<SignalKind, SignalPromptTemplate> = {
+    swing: swingPrompt,
+    scalp: scalpPrompt,
+};
+
+/**
+ * Runs a signal prompt on the selected model, or on every run of the ensemble in parallel when
+ * ensemble mode is on. A failed ensemble run is reported in the merged signal instead of failing it.
+ * Each response is validated, and retried with a correction prompt when its levels fail the checks.
+ * The merged signal goes through the same checks, since medians of valid runs can still cross.
+ */
+async function runSignalPrompt(params: UserParams, template: SignalPromptTemplate, prompt: string, context: SignalValidationContext, getProvider: (model: string) => LlmProvider): Promise<Signal> {
+    const requestSignal = (model: string) => requestValidatedSignal(
+        nextPrompt => getProvider(model).generateJson({ model, prompt: nextPrompt, systemInstruction: template.systemInstruction, schema: SIGNAL_RESPONSE_SCHEMA }),
+        prompt,
+        context,
+    );
+
+    if (!isEnsemble(params)) {
+        return requestSignal(params.model);
+    }
+    const runs: EnsembleRun[] = await Promise.all(ensembleRuns(params).map(async ({ model, sample }) => {
+        try {
+            return { model, sample, signal: await requestSignal(model) };
+        } catch (error) {
+            return { model, sample, error: error instanceof Error ? error.message : String(error) };
+        }
+    }));
+    const { signal, issues } = validateSignal(mergeEnsemble(runs), context);
+    if (!signal) {
+        throw new Error(`The merged ensemble signal failed validation: ${issues.join(' ')}`);
+    }
+    return signal;
+}
+
+/**
+ * Generates a signal end to end: fetches the market data, builds the active prompt for the kind of
+ * signal, runs it and stamps the result with the prompt version.
+ */
+export async function runSignalPipeline(kind: SignalKind, params: UserParams, getProvider: (model: string) => LlmProvider, realtime: SignalRealtimeData = {}): Promise<Signal> {
+    const template = SIGNAL_PROMPTS[kind];
+    const data = await fetchSignalMarketData(kind, params);
+    const prompt = template.build(params, data, realtime);
+    const signal = await runSignalPrompt(params, template, prompt, { livePrice: data.livePrice, timeframe: params.timeframe }, getProvider);
+    return { ...signal, promptVersion: template.version };
+}
@@ -0,0 +1,156 @@
+import type { CandleStick, SavedSignal, SignalEvent, Timeframe } from '@/types';
+import { fetchHistoricalData } from '@/services/exchangeService';
+import { parseDurationToMillis } from '@/utils/date';
+import { TIMEFRAME_SECONDS } from '@/utils/timeframes';
+
+/**
+ * Resolves saved signals against historical candles, so their outcome no longer depends on the
+ * user watching the symbol live. Candles are walked from where the last check stopped
+ * (`lastDataTimestamp`) to detect the entry fill, take profits, the stop loss and expiry after the
+ * signal's `tradeDuration`.
+ *
+ * Status follows live hit detection: the first take profit makes a signal a Win, the stop loss makes
+ * it a Loss, and a signal that expires without either is Closed.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Candles fetched per signal and run; signals further behind catch up over later runs
+const MAX_CANDLES_PER_RUN = 2000;
+
+export type SignalResolution = Pick<SavedSignal, 'status' | 'hitTps' | 'events' | 'resolvedAt' | 'lastDataTimestamp'>;
+
+/**
+ * Whether the resolver still has work to do on the signal. Signals the user closed by hand are left alone.
+ */
+export function isUnresolved(signal: SavedSignal): boolean {
+  if (signal.resolvedAt !== undefined) return false;
+  if (signal.status === 'Pending') return true;
+  return signal.status === 'Win' && (signal.hitTps?.length ?? 0) < signal.takeProfit.length;
+}
+
+export const expiryOf = (signal: SavedSignal): number | null => {
+  const duration = parseDurationToMillis(signal.tradeDuration);
+  return duration !== null ? signal.timestamp + duration : null;
+};
+
+// ms from which candles haven't been checked yet. Before the first check, lastDataTimestamp is the
+// last candle the signal was generated from, which can open well before the signal itself
+const cursorOf = (signal: SavedSignal, timeframe: Timeframe) =>
+  Math.max(signal.timestamp, signal.lastDataTimestamp !== undefined ? (signal.lastDataTimestamp + TIMEFRAME_SECONDS[timeframe]) * 1000 : 0);
+
+/**
+ * Candle size for a signal, from how long it can stay open: fine enough to order events within a
+ * scalp, coarse enough to keep a multi-day swing to a few thousand candles. It stays the same across
+ * checks so the cursor lines up with the candles.
+ */
+export function resolverTimeframe(signal: SavedSignal): Timeframe {
+  const expiry = expiryOf(signal);
+  const lifetime = expiry !== null ? expiry - signal.timestamp : signal.type === 'Scalp' ? DAY_MS : 7 * DAY_MS;
+  if (lifetime <= DAY_MS) return '1m';
+  if (lifetime <= 3 * DAY_MS) return '5m';
+  return '15m';
+}
+
+/**
+ * Applies closed candles (oldest first) to a signal. Candles before the signal's cursor or still
+ * forming at `now` are ignored. When a candle touches both the stop loss and a take profit, the stop
+ * loss is assumed to have been hit first; on the candle that fills the entry, only the stop loss is
+ * checked, since the take profit may have traded before the fill.
+ *
+ * Returns the fields to update, or null when nothing changed.
+ */
+export function resolveSignalFromCandles(signal: SavedSignal, candles: CandleStick[], timeframe: Timeframe, now: number): SignalResolution | null {
+  const isLong = signal.direction === 'LONG';
+  const [entryLow, entryHigh] = [...signal.entryRange].sort((a, b) => a - b);
+  const expiry = expiryOf(signal);
+  const candleMs = TIMEFRAME_SECONDS[timeframe] * 1000;
+  const cursor = cursorOf(signal, timeframe);
+
+  const events: SignalEvent[] = [...(signal.events ?? [])];
+  const hitTps = [...(signal.hitTps ?? [])];
+  let status = signal.status;
+  let resolvedAt: number | undefined;
+  let lastDataTimestamp = signal.lastDataTimestamp;
+  // Signals marked Win before events were recorded have necessarily been entered
+  let entered = events.some(event => event.type === 'Entry') || hitTps.length > 0 || status === 'Win';
+
+  const record = (event: Omit<SignalEvent, 'source'>) => events.push({ ...event, source: 'candles' });
+  const finish = (time: number) => { resolvedAt = time; };
+
+  for (const candle of candles) {
+    const openTime = candle.time * 1000;
+    if (openTime < cursor || openTime + candleMs > now) continue;
+
+    if (expiry !== null && openTime >= expiry) {
+      record({ type: 'Expired', time: expiry, price: candle.open });
+      if (status === 'Pending') status = 'Closed';
+      finish(expiry);
+      break;
+    }
+    lastDataTimestamp = candle.time;
+
+    let enteredNow = false;
+    if (!entered) {
+      if (isLong ? candle.low > entryHigh : candle.high < entryLow) continue;
+      // A gap through the entry range fills at the open
+      record({ type: 'Entry', time: openTime, price: isLong ? Math.min(candle.open, entryHigh) : Math.max(candle.open, entryLow) });
+      entered = true;
+      enteredNow = true;
+    }
+
+    if (isLong ? candle.low <= signal.stopLoss : candle.high >= signal.stopLoss) {
+      record({ type: 'Stop Loss', time: openTime, price: signal.stopLoss });
+      status = 'Loss';
+      finish(openTime);
+      break;
+    }
+    if (enteredNow) continue;
+
+    signal.takeProfit.forEach((tp, index) => {
+      if (hitTps.includes(index) || (isLong ? candle.high < tp : candle.low > tp)) return;
+      hitTps.push(index);
+      record({ type: 'Take Profit', time: openTime, price: tp, tpIndex: index });
+      status = 'Win';
+    });
+    if (hitTps.length === signal.takeProfit.length) {
+      finish(openTime);
+      break;
+    }
+  }
+
+  // Expiry can pass after the last closed candle without a candle that opens after it
+  if (resolvedAt === undefined && expiry !== null && expiry <= now && (lastDataTimestamp ?? 0) * 1000 + candleMs >= expiry) {
+    const last = candles[candles.length - 1];
+    record({ type: 'Expired', time: expiry, price: last?.close ?? signal.currentPrice });
+    if (status === 'Pending') status = 'Closed';
+    finish(expiry);
+  }
+
+  if (events.length === (signal.events?.length ?? 0) && lastDataTimestamp === signal.lastDataTimestamp && resolvedAt === undefined) return null;
+  return { status, hitTps: hitTps.sort((a, b) => a - b), events, resolvedAt, lastDataTimestamp };
+}
+
+/**
+ * Fetches the candles each unresolved signal hasn't been checked against yet and resolves it.
+ * Signals are processed one at a time to stay within the exchanges' rate limits; a signal whose
+ * candles can't be fetched is skipped until the next run.
+ */
+export async function resolvePendingSignals(signals: SavedSignal[], now = Date.now()): Promise<Map<string, SignalResolution>> {
+  const updates = new Map<string, SignalResolution>();
+  for (const signal of signals.filter(isUnresolved)) {
+    const expiry = expiryOf(signal);
+    const timeframe = resolverTimeframe(signal);
+    const candleMs = TIMEFRAME_SECONDS[timeframe] * 1000;
+    const start = cursorOf(signal, timeframe);
+    const end = Math.min(now, start + MAX_CANDLES_PER_RUN * candleMs, expiry !== null ? expiry + candleMs : Infinity);
+    if (end <= start) continue;
+    try {
+      const candles = await fetchHistoricalData(signal.exchange ?? 'binance', signal.symbol, timeframe, start, end);
+      const resolution = resolveSignalFromCandles(signal, candles, timeframe, now);
+      if (resolution) updates.set(signal.id, resolution);
+    } catch (error) {
+      console.warn(`Could not resolve ${signal.symbol} signal ${signal.id}:`, error);
+    }
+  }
+  return updates;
+}
@@ -0,0 +1,146 @@
+import type { Signal, Timeframe } from '@/types';
+
+/**
+ * Sanity checks for AI signal responses, shared by the client (`geminiService`) and the serverless
+ * functions (`api/`). A response is parsed into a Signal, checked against the live price and its own
+ * levels, and its derived fields are recomputed. When checks fail, the model is asked again with a
+ * correction prompt that lists what was wrong.
+ */
+
+export const MAX_SIGNAL_REPAIRS = 2;
+
+// How far the middle of the entry range may sit from the live price, by timeframe (%)
+const MAX_ENTRY_DISTANCE_PCT: Record<Timeframe, number> = {
+  '1m': 1.5, '3m': 1.5, '5m': 2, '15m': 2, '30m': 3, '1h': 3, '2h': 5, '4h': 5, '1d': 10, '1w': 15,
+};
+
+export interface SignalValidationContext {
+  livePrice: number;
+  timeframe: Timeframe;
+}
+
+export interface SignalValidationResult {
+  // The repaired signal, or null when any check failed
+  signal: Signal | null;
+  issues: string[];
+}
+
+const isPrice = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+/**
+ * Reward to risk from the middle of the entry range to the first take profit, rounded to 2 decimals.
+ */
+export function computeRrRatio(direction: Signal['direction'], entryRange: [number, number], takeProfit: number[], stopLoss: number): number {
+  const entry = (entryRange[0] + entryRange[1]) / 2;
+  const risk = direction === 'LONG' ? entry - stopLoss : stopLoss - entry;
+  const reward = direction === 'LONG' ? takeProfit[0] - entry : entry - takeProfit[0];
+  return risk > 0 ? Number((reward / risk).toFixed(2)) : 0;
+}
+
+/**
+ * Parses a model's JSON response into a Signal and checks it. Structural problems are reported
+ * first, since the level checks need the levels. The entry range is sorted, confidence is clamped to
+ * 0–100 and rrRatio is recomputed from the levels.
+ */
+export function validateSignal(raw: unknown, { livePrice, timeframe }: SignalValidationContext): SignalValidationResult {
+  if (!raw || typeof raw !== 'object') {
+    return { signal: null, issues: ['The response is not a JSON object.'] };
+  }
+  const response = raw as Record<string, any>;
+  const issues: string[] = [];
+
+  if (response.direction !== 'LONG' && response.direction !== 'SHORT') issues.push('direction must be "LONG" or "SHORT".');
+  if (!Array.isArray(response.entryRange) || response.entryRange.length !== 2 || !response.entryRange.every(isPrice)) {
+    issues.push('entryRange must be two positive prices.');
+  }
+  if (!Array.isArray(response.takeProfit) || response.takeProfit.length === 0 || !response.takeProfit.every(isPrice)) {
+    issues.push('takeProfit must be a non-empty list of positive prices.');
+  }
+  if (!isPrice(response.stopLoss)) issues.push('stopLoss must be a positive price.');
+  if (typeof response.confidence !== 'number' || !Number.isFinite(response.confidence)) issues.push('confidence must be a number from 0 to 100.');
+  if (!isPrice(response.leverage)) issues.push('leverage must be a positive number.');
+  if (issues.length > 0) return { signal: null, issues };
+
+  const direction: Signal['direction'] = response.direction;
+  const [low, high] = [...response.entryRange as number[]].sort((a, b) => a - b);
+  const takeProfit: number[] = response.takeProfit;
+  const stopLoss: number = response.stopLoss;
+  const isLong = direction === 'LONG';
+
+  if (isLong ? stopLoss >= low : stopLoss <= high) {
+    issues.push(`stopLoss ${stopLoss} must be ${isLong ? 'below' : 'above'} the entry range ${low}–${high} for a ${direction}.`);
+  }
+  const wrongSide = takeProfit.filter(tp => isLong ? tp <= high : tp >= low);
+  if (wrongSide.length > 0) {
+    issues.push(`takeProfit ${wrongSide.join(', ')} must be ${isLong ? 'above' : 'below'} the entry range ${low}–${high} for a ${direction}.`);
+  }
+  const ordered = takeProfit.every((tp, index) => index === 0 || (isLong ? tp > takeProfit[index - 1] : tp < takeProfit[index - 1]));
+  if (!ordered) {
+    issues.push(`takeProfit must be in ${isLong ? 'ascending' : 'descending'} order, nearest target first, without repeats.`);
+  }
+  const entryDistancePct = Math.abs((low + high) / 2 - livePrice) / livePrice * 100;
+  const maxDistancePct = MAX_ENTRY_DISTANCE_PCT[timeframe] ?? 5;
+  if (entryDistancePct > maxDistancePct) {
+    issues.push(`The entry range ${low}–${high} is ${entryDistancePct.toFixed(1)}% from the current price ${livePrice}; keep it within ${maxDistancePct}% on the ${timeframe} timeframe.`);
+  }
+  if (issues.length > 0) return { signal: null, issues };
+
+  const { predictedMoveDuration, ...rest } = response;
+  const entryRange: [number, number] = [low, high];
+  return {
+    signal: {
+      ...rest,
+      direction,
+      entryRange,
+      takeProfit,
+      stopLoss,
+      tradeDuration: rest.tradeDuration ?? predictedMoveDuration,
+      confidence: Math.round(Math.min(100, Math.max(0, response.confidence))),
+      rrRatio: computeRrRatio(direction, entryRange, takeProfit, stopLoss),
+    } as Signal,
+    issues: [],
+  };
+}
+
+/**
+ * The prompt for a retry: the original prompt, the rejected response and what was wrong with it.
+ */
+export function buildCorrectionPrompt(prompt: string, rejected: unknown, issues: string[]): string {
+  return `${prompt}
+
+        **Correction Required:**
+        Your previous response was rejected by the app's sanity checks:
+        ${rejected === undefined ? '(not valid JSON)' : JSON.stringify(rejected)}
+
+        Problems:
+        ${issues.map(issue => `- ${issue}`).join('\n        ')}
+
+        Re-check the levels against the market data and respond again in the specified JSON format with every problem fixed.
+    `;
+}
+
+/**
+ * Asks the model for a signal until one passes validation, sending a correction prompt after each
+ * rejected response. A response that is not valid JSON (the providers' JSON.parse throws a SyntaxError)
+ * is retried the same way. Throws with the last response's issues once MAX_SIGNAL_REPAIRS retries are spent.
+ */
+export async function requestValidatedSignal(generate: (prompt: string) => Promise<unknown>, prompt: string, context: SignalValidationContext): Promise<Signal> {
+  let nextPrompt = prompt;
+  let issues: string[] = [];
+  for (let attempt = 0; attempt <= MAX_SIGNAL_REPAIRS; attempt++) {
+    let response: unknown;
+    try {
+      response = await generate(nextPrompt);
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      issues = [`The response was not valid JSON (${error.message}).`];
+      nextPrompt = buildCorrectionPrompt(prompt, undefined, issues);
+      continue;
+    }
+    const result = validateSignal(response, context);
+    if (result.signal) return result.signal;
+    issues = result.issues;
+    nextPrompt = buildCorrectionPrompt(prompt, response, issues);
+  }
+  throw new Error(`Received an invalid signal from AI after ${MAX_SIGNAL_REPAIRS + 1} attempts: ${issues.join(' ')}`);
+}
@@ -1,18 +1,17 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import supabaseService from '@/services/supabaseService';
-import type { Page, ChatIconType, Theme, ThemeMode, ThemeAccent } from '@/types';
+import type { Page, ChatIconType, Theme, ThemeMode, ThemeAccent, BrokerId } from '@/types';
+import type { LinkedExchange } from '@/services/brokers/types';
 
 interface AppState {
-  // API Keys
-  bybitApiKey: string;
-  bybitApiSecret: string;
-  binanceApiKey: string;
-  binanceApiSecret: string;
-  setBybitApiKey: (key: string) => void;
-  setBybitApiSecret: (key: string) => void;
-  setBinanceApiKey: (key: string) => void;
-  setBinanceApiSecret: (key: string) => void;
+  // Exchange API keys live (encrypted) on the server; only which exchanges are linked is known here
+  linkedExchanges: LinkedExchange[];
+  setLinkedExchanges: (linkedExchanges: LinkedExchange[]) => void;
+
+  // Order execution
+  brokerId: BrokerId;
+  setBrokerId: (brokerId: BrokerId) => void;
 
   // Auth State
   isAuthenticated: boolean;
@@ -63,10 +62,8 @@ export const useStore = create<AppState>()(
   persist(
     (set, get) => ({
       // --- STATE & SETTERS ---
-      bybitApiKey: '',
-      bybitApiSecret: '',
-      binanceApiKey: '',
-      binanceApiSecret: '',
+      linkedExchanges: [],
+      brokerId: 'paper',
       isAuthenticated: false,
       user: null,
       currentPage: 'dashboard',
@@ -84,10 +81,8 @@ export const useStore = create<AppState>()(
       tourStep: 0,
       isTourCompleted: false,
 
-      setBybitApiKey: (key) => set({ bybitApiKey: key }),
-      setBybitApiSecret: (key) => set({ bybitApiSecret: key }),
-      setBinanceApiKey: (key) => set({ binanceApiKey: key }),
-      setBinanceApiSecret: (key) => set({ binanceApiSecret: key }),
+      setLinkedExchanges: (linkedExchanges) => set({ linkedExchanges }),
+      setBrokerId: (brokerId) => set({ brokerId }),
       login: () => set({ isAuthenticated: true }), // This will be kept for backward compatibility
       logout: async () => {
         try {
@@ -122,12 +117,16 @@ export const useStore = create<AppState>()(
     }),
     {
       name: 'signal-gen-storage',
-      // Persist only settings and API keys. UI state is transient.
+      // Version 1 moved exchange API keys to the server; drop any copies left in local storage
+      version: 1,
+      migrate: (persistedState: any) => {
+        const { bybitApiKey, bybitApiSecret, binanceApiKey, binanceApiSecret, ...rest } = persistedState ?? {};
+        return rest;
+      },
+      // Persist only settings. UI state is transient.
       partialize: (state) => ({
-        bybitApiKey: state.bybitApiKey,
-        bybitApiSecret: state.bybitApiSecret,
-        binanceApiKey: state.binanceApiKey,
-        binanceApiSecret: state.binanceApiSecret,
+        linkedExchanges: state.linkedExchanges,
+        brokerId: state.brokerId,
         isAuthenticated: state.isAuthenticated, // Persist auth state
         theme: state.theme,
         audioAlertsEnabled: state.audioAlertsEnabled,
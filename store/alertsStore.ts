@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { MarketAlert } from '@/types';
+
+export type NewAlert = Pick<MarketAlert, 'exchange' | 'symbol' | 'timeframe' | 'condition'> & Partial<Pick<MarketAlert, 'note' | 'repeat'>>;
+export type AlertChanges = Partial<Pick<MarketAlert, 'exchange' | 'symbol' | 'timeframe' | 'condition' | 'note' | 'repeat'>>;
+
+interface AlertsState {
+  alerts: MarketAlert[];
+  addAlert: (alert: NewAlert) => string;
+  updateAlert: (id: string, changes: AlertChanges) => void;
+  deleteAlert: (id: string) => void;
+  snoozeAlert: (id: string, until: number) => void;
+  // Pausing keeps the alert; resuming also re-arms a triggered alert and ends any snooze
+  setAlertPaused: (id: string, paused: boolean) => void;
+  recordTrigger: (id: string, time: number) => void;
+}
+
+export const useAlertsStore = create<AlertsState>()(
+  persist(
+    (set) => ({
+      alerts: [],
+      addAlert: (alert) => {
+        const newAlert: MarketAlert = {
+          ...alert,
+          id: crypto.randomUUID(),
+          repeat: alert.repeat ?? false,
+          status: 'active',
+          createdAt: Date.now(),
+          triggerCount: 0,
+        };
+        set(state => ({ alerts: [newAlert, ...state.alerts] }));
+        return newAlert.id;
+      },
+      updateAlert: (id, changes) => {
+        set(state => ({
+          alerts: state.alerts.map(alert => (alert.id === id ? { ...alert, ...changes } : alert)),
+        }));
+      },
+      deleteAlert: (id) => {
+        set(state => ({ alerts: state.alerts.filter(alert => alert.id !== id) }));
+      },
+      snoozeAlert: (id, until) => {
+        set(state => ({
+          alerts: state.alerts.map(alert => (alert.id === id ? { ...alert, snoozedUntil: until } : alert)),
+        }));
+      },
+      setAlertPaused: (id, paused) => {
+        set(state => ({
+          alerts: state.alerts.map(alert => {
+            if (alert.id !== id) return alert;
+            return paused ? { ...alert, status: 'paused' } : { ...alert, status: 'active', snoozedUntil: undefined };
+          }),
+        }));
+      },
+      recordTrigger: (id, time) => {
+        set(state => ({
+          alerts: state.alerts.map(alert => (alert.id === id ? {
+            ...alert,
+            status: alert.repeat ? alert.status : 'triggered',
+            lastTriggeredAt: time,
+            triggerCount: alert.triggerCount + 1,
+          } : alert)),
+        }));
+      },
+    }),
+    {
+      name: 'alerts-storage',
+    }
+  )
+);
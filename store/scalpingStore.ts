@@ -12,9 +12,13 @@ import type {
   AutopilotSettings,
   AutopilotSessionStats,
   AutopilotScanMode,
+  AutopilotLogEntry,
+  AutoExecutionBasis,
 } from '@/types';
 import { AI_MODELS } from '@/constants';
 
+const MAX_AUTOPILOT_LOG_ENTRIES = 500;
+
 interface WindowsState {
   orderBook: { isOpen: boolean; isMinimized: boolean; position: { x: number; y: number } };
   timeAndSales: { isOpen: boolean; isMinimized: boolean; position: { x: number; y: number } };
@@ -39,6 +43,7 @@ export interface ScalpingState {
   isAutoExecutionEnabled: boolean;
   autoExecutionThreshold: number;
   autoExecutionType: 'market' | 'trailing';
+  autoExecutionBasis: AutoExecutionBasis;
   oneClickTradingEnabled: boolean;
   autopilotSettings: AutopilotSettings;
   autopilotScanMode: AutopilotScanMode;
@@ -55,6 +60,7 @@ export interface ScalpingState {
   autopilotState: AutopilotState;
   autopilotSessionStats: AutopilotSessionStats;
   activeAutopilotPositionId: string | null;
+  autopilotSessionLog: AutopilotLogEntry[];
 
   // Actions
   setScalpingPresets: (fn: (prev: ScalpingPreset[]) => ScalpingPreset[]) => void;
@@ -69,6 +75,7 @@ export interface ScalpingState {
   setIsAutoExecutionEnabled: (enabled: boolean) => void;
   setAutoExecutionThreshold: (threshold: number) => void;
   setAutoExecutionType: (type: 'market' | 'trailing') => void;
+  setAutoExecutionBasis: (basis: AutoExecutionBasis) => void;
   setOneClickTradingEnabled: (enabled: boolean) => void;
   setAutopilotSettings: (settings: AutopilotSettings) => void;
   setAutopilotScanMode: (mode: AutopilotScanMode) => void;
@@ -83,6 +90,8 @@ export interface ScalpingState {
   setAutopilotState: (state: AutopilotState) => void;
   setAutopilotSessionStats: (fn: (prev: AutopilotSessionStats) => AutopilotSessionStats) => void;
   setActiveAutopilotPositionId: (id: string | null) => void;
+  appendAutopilotLogEntry: (entry: AutopilotLogEntry) => void;
+  clearAutopilotSessionLog: () => void;
 
   handlePositionChange: (id: keyof WindowsState, newPosition: { x: number, y: number }) => void;
   toggleWindow: (id: keyof WindowsState) => void;
@@ -124,6 +133,7 @@ export const useScalpingStore = create<ScalpingState>()(
       isAutoExecutionEnabled: false,
       autoExecutionThreshold: 85,
       autoExecutionType: 'trailing',
+      autoExecutionBasis: 'confidence',
       oneClickTradingEnabled: false,
       autopilotSettings: {
         sessionCapital: 1000, tradeSizeMode: 'fixed', tradeSizeValue: 25, cooldownMinutes: 5, maxSessionDrawdown: 10, maxTrades: 20,
@@ -148,6 +158,7 @@ export const useScalpingStore = create<ScalpingState>()(
         initialCapital: 0, currentCapital: 0, startTime: null, pnl: 0, tradesExecuted: 0, drawdown: 0, statusMessage: 'Ready to start.',
       },
       activeAutopilotPositionId: null,
+      autopilotSessionLog: [],
 
       // Actions
       setFormData: functionalSetter(set, 'formData'),
@@ -163,6 +174,7 @@ export const useScalpingStore = create<ScalpingState>()(
       setIsAutoExecutionEnabled: (enabled) => set({ isAutoExecutionEnabled: enabled }),
       setAutoExecutionThreshold: (threshold) => set({ autoExecutionThreshold: threshold }),
       setAutoExecutionType: (type) => set({ autoExecutionType: type }),
+      setAutoExecutionBasis: (basis) => set({ autoExecutionBasis: basis }),
       setOneClickTradingEnabled: (enabled) => set({ oneClickTradingEnabled: enabled }),
       setAutopilotSettings: (settings) => set({ autopilotSettings: settings }),
       setAutopilotScanMode: (mode) => set({ autopilotScanMode: mode }),
@@ -177,6 +189,8 @@ export const useScalpingStore = create<ScalpingState>()(
       setAutopilotState: (state) => set({ autopilotState: state }),
       setAutopilotSessionStats: functionalSetter(set, 'autopilotSessionStats'),
       setActiveAutopilotPositionId: (id) => set({ activeAutopilotPositionId: id }),
+      appendAutopilotLogEntry: (entry) => set(state => ({ autopilotSessionLog: [...state.autopilotSessionLog, entry].slice(-MAX_AUTOPILOT_LOG_ENTRIES) })),
+      clearAutopilotSessionLog: () => set({ autopilotSessionLog: [] }),
       
       handlePositionChange: (id, newPosition) => set(state => ({
         windowsState: { ...state.windowsState, [id]: { ...state.windowsState[id], position: newPosition } }
@@ -203,9 +217,11 @@ export const useScalpingStore = create<ScalpingState>()(
         isAutoExecutionEnabled: state.isAutoExecutionEnabled,
         autoExecutionThreshold: state.autoExecutionThreshold,
         autoExecutionType: state.autoExecutionType,
+        autoExecutionBasis: state.autoExecutionBasis,
         oneClickTradingEnabled: state.oneClickTradingEnabled,
         autopilotSettings: state.autopilotSettings,
         autopilotScanMode: state.autopilotScanMode,
+        autopilotSessionLog: state.autopilotSessionLog,
       }),
     }
   )
@@ -1,28 +1,35 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ScreenerRun, ScreenerResult } from '@/types';
+import type { ScreenerRun, ScreenerResult, Exchange, ScreenerMode, SavedScreenerQuery } from '@/types';
 
 const SEVEN_DAYS_IN_MS = 7 * 24 * 60 * 60 * 1000;
 
 interface ScreenerState {
   runs: ScreenerRun[];
-  startScan: (query: string) => string;
+  savedQueries: SavedScreenerQuery[];
+  startScan: (query: string, exchange?: Exchange, mode?: ScreenerMode) => string;
+  updateProgress: (id: string, done: number, total: number) => void;
   completeScan: (id: string, results: ScreenerResult[]) => void;
   failScan: (id: string, error: string) => void;
   deleteScan: (id: string) => void;
   clearHistory: () => void;
   pruneOldScans: () => void;
+  saveQuery: (query: string) => void;
+  deleteSavedQuery: (id: string) => void;
 }
 
 export const useScreenerStore = create<ScreenerState>()(
   persist(
     (set, get) => ({
       runs: [],
-      startScan: (query) => {
+      savedQueries: [],
+      startScan: (query, exchange, mode = 'ai') => {
         const newRun: ScreenerRun = {
           id: crypto.randomUUID(),
           timestamp: Date.now(),
           query,
+          mode,
+          exchange,
           results: [],
           isLoading: true,
           error: null,
@@ -30,17 +37,24 @@ export const useScreenerStore = create<ScreenerState>()(
         set(state => ({ runs: [newRun, ...state.runs] }));
         return newRun.id;
       },
+      updateProgress: (id, done, total) => {
+        set(state => ({
+          runs: state.runs.map(run =>
+            run.id === id ? { ...run, progress: { done, total } } : run
+          ),
+        }));
+      },
       completeScan: (id, results) => {
         set(state => ({
           runs: state.runs.map(run => 
-            run.id === id ? { ...run, results, isLoading: false, error: null } : run
+            run.id === id ? { ...run, results, isLoading: false, error: null, progress: undefined } : run
           ),
         }));
       },
       failScan: (id, error) => {
         set(state => ({
           runs: state.runs.map(run => 
-            run.id === id ? { ...run, isLoading: false, error } : run
+            run.id === id ? { ...run, isLoading: false, error, progress: undefined } : run
           ),
         }));
       },
@@ -56,6 +70,15 @@ export const useScreenerStore = create<ScreenerState>()(
           runs: state.runs.filter(run => now - run.timestamp < SEVEN_DAYS_IN_MS),
         }));
       },
+      saveQuery: (query) => {
+        const trimmed = query.trim();
+        if (!trimmed || get().savedQueries.some(saved => saved.query === trimmed)) return;
+        const saved: SavedScreenerQuery = { id: crypto.randomUUID(), query: trimmed, createdAt: Date.now() };
+        set(state => ({ savedQueries: [saved, ...state.savedQueries] }));
+      },
+      deleteSavedQuery: (id) => {
+        set(state => ({ savedQueries: state.savedQueries.filter(saved => saved.id !== id) }));
+      },
     }),
     {
       name: 'market-screener-storage',
@@ -1,4 +1,4 @@
-import type { Timeframe } from '@/types';
+import type { AutoExecutionBasis, Timeframe } from '@/types';
 import type { StateCreator } from 'zustand';
 import type { SignalGenState } from '../types';
 
@@ -8,12 +8,14 @@ export interface FeaturesSlice {
   isAutoExecutionEnabled: boolean;
   autoExecutionThreshold: number;
   autoExecutionType: 'market' | 'trailing';
+  autoExecutionBasis: AutoExecutionBasis;
   isScanningSymbol: string | null;
   setIsScannerEnabled: (enabled: boolean) => void;
   setScannerTimeframe: (timeframe: Timeframe) => void;
   setIsAutoExecutionEnabled: (enabled: boolean) => void;
   setAutoExecutionThreshold: (threshold: number) => void;
   setAutoExecutionType: (type: 'market' | 'trailing') => void;
+  setAutoExecutionBasis: (basis: AutoExecutionBasis) => void;
   setIsScanningSymbol: (symbol: string | null) => void;
 }
 
@@ -23,11 +25,13 @@ export const createFeaturesSlice: StateCreator<SignalGenState, [], [], FeaturesS
   isAutoExecutionEnabled: false,
   autoExecutionThreshold: 85,
   autoExecutionType: 'trailing',
+  autoExecutionBasis: 'confidence',
   isScanningSymbol: null,
   setIsScannerEnabled: (enabled) => set({ isScannerEnabled: enabled }),
   setScannerTimeframe: (timeframe) => set({ scannerTimeframe: timeframe }),
   setIsAutoExecutionEnabled: (enabled) => set({ isAutoExecutionEnabled: enabled }),
   setAutoExecutionThreshold: (threshold) => set({ autoExecutionThreshold: threshold }),
   setAutoExecutionType: (type) => set({ autoExecutionType: type }),
+  setAutoExecutionBasis: (basis) => set({ autoExecutionBasis: basis }),
   setIsScanningSymbol: (symbol) => set({ isScanningSymbol: symbol }),
 });
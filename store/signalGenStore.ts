@@ -26,6 +26,7 @@ export const useSignalGenStore = create<SignalGenState>()(
         isAutoExecutionEnabled: state.isAutoExecutionEnabled,
         autoExecutionThreshold: state.autoExecutionThreshold,
         autoExecutionType: state.autoExecutionType,
+        autoExecutionBasis: state.autoExecutionBasis,
         windowsState: state.windowsState,
       }),
     }
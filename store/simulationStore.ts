@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import type { SimulationSetup, Exchange } from '@/types';
+import type { BacktestResult } from '@/services/backtest/types';
 
 interface SimulationState {
   simulations: SimulationSetup[];
@@ -11,6 +12,8 @@ interface SimulationState {
   setActiveSimulation: (sim: SimulationSetup | null) => void;
   isAutoPlay: boolean;
   setIsAutoPlay: (autoPlay: boolean) => void;
+  backtestResult: BacktestResult | null; // Latest signal history backtest, kept for the session only
+  setBacktestResult: (result: BacktestResult | null) => void;
 }
 
 export const useSimulationStore = create<SimulationState>()(
@@ -24,6 +27,8 @@ export const useSimulationStore = create<SimulationState>()(
       setActiveSimulation: (sim) => set({ activeSimulation: sim }),
       isAutoPlay: false,
       setIsAutoPlay: (autoPlay) => set({ isAutoPlay: autoPlay }),
+      backtestResult: null,
+      setBacktestResult: (result) => set({ backtestResult: result }),
     }),
     {
       name: 'simulation-storage',
@@ -0,0 +1,71 @@
+import { expect, test } from '@playwright/test';
+import { conditionState, describeAlert, isTriggered, mergeCandle, unhandledSignalEvents, validateAlertCondition } from '../services/alertEngine';
+import type { CandleStick, SavedSignal } from '../types';
+
+const candle = (time: number, open: number, close: number): CandleStick => ({ time, open, high: Math.max(open, close), low: Math.min(open, close), close, volume: 1 });
+
+// Closes step from `start` by `step`, one minute apart
+const trend = (count: number, start: number, step: number) =>
+  Array.from({ length: count }, (_, index) => candle(1_700_000_000 + index * 60, start + index * step, start + (index + 1) * step));
+
+test.describe('alert engine', () => {
+  test('triggers a price cross only in the watched direction', () => {
+    const above = { type: 'price_cross' as const, price: 100, direction: 'above' as const };
+    const below = conditionState(above, [candle(0, 98, 99)]);
+    const over = conditionState(above, [candle(0, 99, 101)]);
+
+    expect(isTriggered(above, below, over)).toBe(true);
+    expect(isTriggered(above, over, below)).toBe(false);
+    expect(isTriggered({ ...above, direction: 'either' }, over, below)).toBe(true);
+    // The first evaluation only records the state
+    expect(isTriggered(above, null, over)).toBe(false);
+  });
+
+  test('measures percent moves from the open of the current candle', () => {
+    const condition = { type: 'percent_move' as const, percent: 2, direction: 'down' as const };
+    expect(conditionState(condition, [candle(0, 100, 98.5)])).toBe(false);
+    expect(conditionState(condition, [candle(0, 100, 97.9)])).toBe(true);
+    expect(conditionState({ ...condition, direction: 'up' }, [candle(0, 100, 97.9)])).toBe(false);
+  });
+
+  test('evaluates RSI and moving average crosses once enough candles are loaded', () => {
+    const rsiAbove = { type: 'rsi' as const, period: 14, level: 70, direction: 'above' as const };
+    expect(conditionState(rsiAbove, trend(10, 100, 1))).toBe(null);
+    expect(conditionState(rsiAbove, trend(30, 100, 1))).toBe(true);
+    expect(conditionState({ ...rsiAbove, direction: 'below', level: 30 }, trend(30, 100, 1))).toBe(false);
+
+    const bullish = { type: 'ma_cross' as const, maType: 'EMA' as const, fastPeriod: 5, slowPeriod: 20, direction: 'bullish' as const };
+    const falling = trend(40, 200, -1);
+    const rebound = [...falling, ...trend(15, 160, 2).map((c, index) => ({ ...c, time: falling[falling.length - 1].time + (index + 1) * 60 }))];
+    expect(conditionState(bullish, falling)).toBe(false);
+    expect(conditionState(bullish, rebound)).toBe(true);
+  });
+
+  test('replaces the forming candle and keeps the newest candles', () => {
+    const candles = [candle(60, 1, 2), candle(120, 2, 3)];
+    expect(mergeCandle(candles, candle(120, 2, 4)).map(c => c.close)).toEqual([2, 4]);
+    expect(mergeCandle(candles, candle(180, 3, 5), 2).map(c => c.time)).toEqual([120, 180]);
+    expect(mergeCandle(candles, candle(60, 1, 9))).toBe(candles);
+  });
+
+  test('hands out each matching signal event once', () => {
+    const signal = {
+      events: [
+        { type: 'Entry', time: 1, price: 100, source: 'live' },
+        { type: 'Take Profit', time: 2, price: 102, tpIndex: 0, source: 'live' },
+        { type: 'Take Profit', time: 3, price: 104, tpIndex: 1, source: 'candles' },
+      ],
+    } as SavedSignal;
+    const condition = { type: 'signal_event' as const, signalId: 'a', event: 'take_profit' as const, handledEvents: 1 };
+    expect(unhandledSignalEvents(condition, signal).map(event => event.price)).toEqual([104]);
+    expect(unhandledSignalEvents({ ...condition, event: 'entry', handledEvents: 0 }, signal)).toHaveLength(1);
+  });
+
+  test('validates and describes conditions', () => {
+    expect(validateAlertCondition({ type: 'price_cross', price: NaN, direction: 'either' })).toBe('Enter a price above zero.');
+    expect(validateAlertCondition({ type: 'ma_cross', maType: 'SMA', fastPeriod: 50, slowPeriod: 20, direction: 'bullish' })).toMatch(/fast period must be shorter/);
+    expect(validateAlertCondition({ type: 'rsi', period: 14, level: 30, direction: 'below' })).toBe(null);
+    expect(describeAlert({ symbol: 'ETHUSDT', timeframe: '4h', condition: { type: 'rsi', period: 14, level: 30, direction: 'below' } })).toBe('ETHUSDT RSI(14) below 30 on 4h');
+    expect(describeAlert({ symbol: 'BTCUSDT', timeframe: '1m', condition: { type: 'price_cross', price: 70000, direction: 'above' } })).toBe('BTCUSDT crosses above $70,000.00');
+  });
+});
@@ -0,0 +1,242 @@
+import { expect, test } from '@playwright/test';
+import type { AutopilotLogEntry, AutopilotSettings, LivePosition, Signal } from '../types';
+import { AutopilotEngine, type AutopilotConfig, type AutopilotSnapshot } from '../services/autopilotEngine';
+
+const NOW = 1_700_000_000_000;
+const PRICE = 100;
+
+// $1,000 session, $100 margin per trade; a 5% drawdown is a $50 loss
+const SETTINGS: AutopilotSettings = { sessionCapital: 1_000, tradeSizeMode: 'fixed', tradeSizeValue: 100, cooldownMinutes: 5, maxSessionDrawdown: 5, maxTrades: 3 };
+
+const signal = (overrides: Partial<Signal> = {}): Signal => ({
+  direction: 'LONG', entryRange: [99.5, 100.5], takeProfit: [103], stopLoss: 90, confidence: 80, rrRatio: 0.3, leverage: 10, tradeDuration: '15m', reasoning: '',
+  ...overrides,
+});
+
+const ensembleSignal = (confidence: number, consensus: number) => signal({ confidence, ensemble: { consensus, members: [], dissent: [] } });
+
+// Resolves once every pending promise callback has run
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+/**
+ * An engine wired to fakes: signals come from `signalFor`, positions open at PRICE with the signal's
+ * levels, and closes are only recorded, the way a broker reports them later. setTimeout is replaced
+ * while the test runs, so scheduled steps can be inspected and fired by hand.
+ */
+async function withEngine(
+  config: Partial<AutopilotConfig>,
+  signalFor: (symbol: string) => Promise<Signal>,
+  run: (harness: ReturnType<typeof createHarness>) => Promise<void>,
+) {
+  const realSetTimeout = globalThis.setTimeout;
+  const realClearTimeout = globalThis.clearTimeout;
+  const timers = new Map<number, { step: () => void; delay: number }>();
+  let nextTimer = 1;
+  globalThis.setTimeout = ((step: () => void, delay = 0) => { timers.set(nextTimer, { step, delay }); return nextTimer++; }) as unknown as typeof setTimeout;
+  globalThis.clearTimeout = ((id: number) => { timers.delete(id); }) as unknown as typeof clearTimeout;
+  try {
+    await run(createHarness({ settings: SETTINGS, scanMode: 'current', currentSymbol: 'BTCUSDT', favoriteSymbols: [], autoExecutionThreshold: 75, ...config }, signalFor, timers));
+  } finally {
+    globalThis.setTimeout = realSetTimeout;
+    globalThis.clearTimeout = realClearTimeout;
+  }
+}
+
+function createHarness(config: AutopilotConfig, signalFor: (symbol: string) => Promise<Signal>, timers: Map<number, { step: () => void; delay: number }>) {
+  const scans: string[] = [];
+  const opened: LivePosition[] = [];
+  const closed: LivePosition[] = [];
+  const log: AutopilotLogEntry[] = [];
+  let snapshot: AutopilotSnapshot | null = null;
+
+  const engine = new AutopilotEngine({
+    getConfig: () => config,
+    generateSignal: async symbol => {
+      scans.push(symbol);
+      return { signal: await signalFor(symbol), price: PRICE };
+    },
+    openPosition: async (symbol, entrySignal, margin, price) => {
+      const position: LivePosition = {
+        id: `position-${opened.length + 1}`, symbol, side: entrySignal.direction === 'LONG' ? 'Long' : 'Short', entryPrice: price,
+        quantity: margin * entrySignal.leverage / price, margin, leverage: entrySignal.leverage, entryDate: NOW,
+        takeProfit: entrySignal.takeProfit[0], stopLoss: entrySignal.stopLoss,
+      };
+      opened.push(position);
+      return position;
+    },
+    closePosition: async position => { closed.push(position); },
+    onUpdate: next => { snapshot = next; },
+    onLog: entry => log.push(entry),
+    now: () => NOW,
+  });
+
+  return {
+    engine, scans, opened, closed, log,
+    state: () => snapshot?.state,
+    status: () => snapshot?.stats.statusMessage,
+    delays: () => [...timers.values()].map(timer => timer.delay),
+    // Runs every scheduled step, as if their delays had passed
+    fireTimers: async () => {
+      const due = [...timers.values()];
+      timers.clear();
+      due.forEach(timer => timer.step());
+      await flush();
+    },
+    messages: (kind: AutopilotLogEntry['kind']) => log.filter(entry => entry.kind === kind).map(entry => entry.message),
+  };
+}
+
+test.describe('Autopilot entries', () => {
+  test('enters the highest confidence signal that clears the threshold', async () => {
+    const signals: Record<string, Signal> = { AAAUSDT: signal({ confidence: 70 }), BBBUSDT: signal({ confidence: 85 }), CCCUSDT: signal({ confidence: 80, direction: 'SHORT', entryRange: [99.5, 100.5], takeProfit: [97], stopLoss: 110 }) };
+    await withEngine({ scanMode: 'favorites-top-5', favoriteSymbols: Object.keys(signals) }, async symbol => signals[symbol], async harness => {
+      harness.engine.start();
+      await flush();
+
+      expect(harness.scans).toEqual(['AAAUSDT', 'BBBUSDT', 'CCCUSDT']);
+      expect(harness.messages('skip')).toEqual(['AAAUSDT confidence 70% is below the 75% threshold.']);
+      expect(harness.opened.map(position => position.symbol)).toEqual(['BBBUSDT']);
+      expect(harness.state()).toBe('monitoring');
+    });
+  });
+
+  test('the consensus basis scores ensemble signals by consensus and single-model signals by confidence', async () => {
+    const signals: Record<string, Signal> = { AAAUSDT: ensembleSignal(95, 50), BBBUSDT: signal({ confidence: 78 }), CCCUSDT: ensembleSignal(60, 83) };
+    await withEngine({ scanMode: 'favorites-top-5', favoriteSymbols: Object.keys(signals), autoExecutionBasis: 'consensus' }, async symbol => signals[symbol], async harness => {
+      harness.engine.start();
+      await flush();
+
+      expect(harness.messages('skip')).toEqual(['AAAUSDT consensus 50% is below the 75% threshold.']);
+      expect(harness.opened.map(position => position.symbol)).toEqual(['CCCUSDT']);
+    });
+  });
+
+  test('rescans after a delay when nothing qualifies or the price left the entry range', async () => {
+    const signals: Record<string, Signal> = { AAAUSDT: signal({ confidence: 60 }), BBBUSDT: signal({ entryRange: [104, 105], takeProfit: [110], stopLoss: 99 }) };
+    await withEngine({ scanMode: 'favorites-top-5', favoriteSymbols: Object.keys(signals) }, async symbol => signals[symbol], async harness => {
+      harness.engine.start();
+      await flush();
+
+      expect(harness.opened).toEqual([]);
+      expect(harness.messages('skip')).toEqual(['AAAUSDT confidence 60% is below the 75% threshold.', 'BBBUSDT: price 100 is outside the entry range 104-105.']);
+      expect(harness.status()).toBe('No qualifying setup. Rescanning shortly...');
+      expect(harness.delays()).toEqual([60_000]);
+
+      await harness.fireTimers();
+      expect(harness.scans).toHaveLength(4);
+    });
+  });
+});
+
+test.describe('Autopilot session', () => {
+  test('closes at the stop loss on the price feed, ignoring other symbols', async () => {
+    await withEngine({}, async () => signal({ stopLoss: 98 }), async harness => {
+      harness.engine.start();
+      await flush();
+
+      harness.engine.onPrice('ETHUSDT', 50);
+      harness.engine.onPrice('BTCUSDT', 99);
+      expect(harness.closed).toEqual([]);
+
+      harness.engine.onPrice('BTCUSDT', 97.5);
+      harness.engine.onPrice('BTCUSDT', 97); // Already closing
+      await flush();
+      expect(harness.closed).toHaveLength(1);
+      expect(harness.messages('exit')).toEqual(['Closing BTCUSDT: Stop loss 98 reached at 97.5.']);
+    });
+  });
+
+  test('closes before an open loss breaches the session drawdown, then ends the session', async () => {
+    await withEngine({}, async () => signal(), async harness => {
+      harness.engine.start();
+      await flush();
+      const [position] = harness.opened;
+      expect(position.quantity).toBe(10);
+
+      harness.engine.onPrice('BTCUSDT', 95.5); // A $45 open loss is 4.5% of the session
+      expect(harness.closed).toEqual([]);
+
+      harness.engine.onPrice('BTCUSDT', 95);
+      await flush();
+      expect(harness.closed).toEqual([position]);
+      expect(harness.messages('exit')).toEqual(['Closing BTCUSDT: Open loss of -$50.00 would breach the 5% session drawdown limit.']);
+
+      harness.engine.onPositionClosed(position.id, -50, 95);
+      expect(harness.messages('limit')).toEqual(['Drawdown of -5.00% reached the 5% limit.']);
+      expect(harness.state()).toBe('stopped');
+      expect(harness.engine.isRunning).toBe(false);
+    });
+  });
+
+  test('cools down for the configured minutes between trades', async () => {
+    await withEngine({}, async () => signal(), async harness => {
+      harness.engine.start();
+      await flush();
+
+      harness.engine.onPositionClosed(harness.opened[0].id, 20, 102);
+      expect(harness.state()).toBe('cooldown');
+      expect(harness.delays()).toEqual([5 * 60_000]);
+      expect(harness.scans).toHaveLength(1);
+
+      await harness.fireTimers();
+      expect(harness.scans).toHaveLength(2);
+      expect(harness.state()).toBe('monitoring');
+    });
+  });
+
+  test('ends the session after maxTrades', async () => {
+    await withEngine({ settings: { ...SETTINGS, maxTrades: 2, cooldownMinutes: 0 } }, async () => signal(), async harness => {
+      harness.engine.start();
+      await flush();
+      harness.engine.onPositionClosed(harness.opened[0].id, 10, 101);
+      await harness.fireTimers();
+      harness.engine.onPositionClosed(harness.opened[1].id, 10, 101);
+
+      expect(harness.opened).toHaveLength(2);
+      expect(harness.messages('limit')).toEqual(['Reached the limit of 2 trades.']);
+      expect(harness.state()).toBe('stopped');
+      expect(harness.delays()).toEqual([]);
+    });
+  });
+
+  test('ignores positions it did not open', async () => {
+    await withEngine({}, async () => signal(), async harness => {
+      harness.engine.start();
+      await flush();
+      harness.engine.onPositionClosed('someone-else', -500, 50);
+      expect(harness.state()).toBe('monitoring');
+      expect(harness.messages('exit')).toEqual([]);
+    });
+  });
+});
+
+test.describe('Autopilot stop', () => {
+  test('drops a signal that arrives after the session was stopped', async () => {
+    let resolveSignal: (value: Signal) => void = () => {};
+    await withEngine({}, () => new Promise<Signal>(resolve => { resolveSignal = resolve; }), async harness => {
+      harness.engine.start();
+      await flush();
+      harness.engine.stop();
+      resolveSignal(signal());
+      await flush();
+
+      expect(harness.opened).toEqual([]);
+      expect(harness.messages('signal')).toEqual([]);
+      expect(harness.state()).toBe('stopped');
+    });
+  });
+
+  test('leaves an open position to the user and stops watching it', async () => {
+    await withEngine({}, async () => signal(), async harness => {
+      harness.engine.start();
+      await flush();
+      harness.engine.stop();
+      expect(harness.messages('session').pop()).toBe('Session stopped by user. The BTCUSDT position was left open.');
+
+      harness.engine.onPrice('BTCUSDT', 80);
+      harness.engine.onPositionClosed(harness.opened[0].id, -200, 80);
+      expect(harness.closed).toEqual([]);
+      expect(harness.messages('exit')).toEqual([]);
+    });
+  });
+});
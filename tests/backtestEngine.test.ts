@@ -0,0 +1,133 @@
+import { expect, test } from '@playwright/test';
+import type { CandleStick } from '../types';
+import { runBacktest } from '../services/backtest/engine';
+import { maxDrawdownOf } from '../services/backtest/metrics';
+import { signalsFromRule } from '../services/backtest/rules';
+import type { BacktestConfig, BacktestSignal } from '../services/backtest/types';
+
+const HOUR = 3600;
+const T0 = 59028 * 8 * HOUR; // Aligned to a funding boundary
+
+// [open, high, low, close] per hourly bar, starting at T0
+const candles = (bars: [number, number, number, number][]): CandleStick[] =>
+  bars.map(([open, high, low, close], i) => ({ time: T0 + i * HOUR, open, high, low, close, volume: 1 }));
+
+const frictionless: Partial<BacktestConfig> = { takerFeeRate: 0, makerFeeRate: 0, slippageBps: 0, fundingRatePer8h: 0 };
+
+const signal = (overrides: Partial<BacktestSignal>): BacktestSignal => ({
+  id: 's1', symbol: 'BTCUSDT', direction: 'LONG', entryType: 'limit', entryRange: [99, 100],
+  stopLoss: 95, takeProfit: [105, 110], leverage: 10, timestamp: T0 * 1000, ...overrides,
+});
+
+test.describe('runBacktest', () => {
+  test('fills a limit entry and scales out at each take profit', () => {
+    const result = runBacktest([signal({})], {
+      BTCUSDT: candles([[101, 101, 100.5, 101], [101, 101, 99.5, 100], [100, 106, 100, 105], [105, 111, 104, 110]]),
+    }, { ...frictionless, tpAllocation: [0.5, 0.5] });
+
+    const [trade] = result.trades;
+    expect(trade.status).toBe('Closed');
+    expect(trade.entryPrice).toBe(100);
+    expect(trade.qty).toBe(50); // 5% of 10k margin at 10x
+    expect(trade.exits.map(e => [e.reason, e.price, e.qty])).toEqual([['Take Profit', 105, 25], ['Take Profit', 110, 25]]);
+    expect(trade.pnl).toBe(375);
+    expect(trade.barsHeld).toBe(2);
+    expect(result.metrics.endingEquity).toBe(10_375);
+    expect(result.equityCurve[result.equityCurve.length - 1].equity).toBe(10_375);
+  });
+
+  test('assumes the stop loss is hit first and charges taker fees', () => {
+    const result = runBacktest([signal({ direction: 'SHORT', entryType: 'market', stopLoss: 102, takeProfit: [95], leverage: 5 })], {
+      BTCUSDT: candles([[100, 100.5, 99.5, 100], [100, 103, 94, 96]]),
+    }, { ...frictionless, takerFeeRate: 0.001 });
+
+    const [trade] = result.trades;
+    expect(trade.exits.map(e => e.reason)).toEqual(['Stop Loss']);
+    expect(trade.grossPnl).toBe(-50);
+    expect(trade.fees.toFixed(2)).toBe('5.05');
+    expect(trade.pnl.toFixed(2)).toBe('-55.05');
+  });
+
+  test('charges funding at 8h boundaries and closes trades held too long', () => {
+    const flat = Array.from({ length: 12 }, (): [number, number, number, number] => [100, 100, 100, 100]);
+    const result = runBacktest([signal({ entryType: 'market', stopLoss: 50, takeProfit: [200], leverage: 1, timestamp: (T0 + HOUR) * 1000 })], {
+      BTCUSDT: candles(flat),
+    }, { ...frictionless, fundingRatePer8h: 0.0001, maxBarsInTrade: 10 });
+
+    const [trade] = result.trades;
+    expect(trade.funding.toFixed(4)).toBe('0.0500'); // 5 BTC * 100 * 0.01%, once at T0 + 8h
+    expect(trade.exits.map(e => e.reason)).toEqual(['Timed Out']);
+    expect(trade.barsHeld).toBe(10);
+    expect(trade.pnl.toFixed(4)).toBe('-0.0500');
+  });
+
+  test('reports unfilled and skipped signals without counting them as trades', () => {
+    const result = runBacktest([
+      signal({ id: 'never', entryRange: [80, 81], stopLoss: 75 }),
+      signal({ id: 'first', entryType: 'market', stopLoss: 50, takeProfit: [200] }),
+      signal({ id: 'second', entryType: 'market', stopLoss: 50, takeProfit: [200] }),
+    ], {
+      BTCUSDT: candles([[100, 101, 99, 100], [100, 101, 99, 100], [100, 101, 99, 100]]),
+    }, { ...frictionless, entryTimeoutBars: 2, maxOpenPositions: 1 });
+
+    const byId = Object.fromEntries(result.trades.map(t => [t.signalId, t]));
+    expect(byId.never.status).toBe('Unfilled');
+    expect(byId.never.statusReason).toMatch(/2 bars/);
+    expect(byId.first.status).toBe('Closed');
+    expect(byId.first.exits[0].reason).toBe('End of Data');
+    expect(byId.second.status).toBe('Skipped');
+    expect(result.metrics.totalTrades).toBe(1);
+    expect(result.metrics.unfilledSignals).toBe(1);
+    expect(result.metrics.skippedSignals).toBe(1);
+  });
+
+  test('computes profit factor, expectancy and per-symbol breakdowns', () => {
+    const up: [number, number, number, number][] = [[100, 100, 100, 100], [100, 106, 100, 105]];
+    const down: [number, number, number, number][] = [[100, 100, 100, 100], [100, 100, 94, 95]];
+    const market = { entryType: 'market' as const, stopLoss: 95, takeProfit: [105], leverage: 1 };
+    const result = runBacktest([
+      signal({ id: 'win', symbol: 'BTCUSDT', ...market }),
+      signal({ id: 'loss', symbol: 'ETHUSDT', ...market }),
+    ], { BTCUSDT: candles(up), ETHUSDT: candles(down) }, { ...frictionless, marginPerTrade: 10 });
+
+    expect(result.metrics.totalTrades).toBe(2);
+    expect(result.metrics.winRate).toBe(50);
+    expect(result.metrics.profitFactor).toBe(1);
+    expect(result.metrics.expectancy).toBe(0);
+    expect(result.metrics.bySymbol.map(b => [b.key, b.netPnl])).toEqual([['BTCUSDT', 50], ['ETHUSDT', -50]]);
+  });
+});
+
+test.describe('maxDrawdownOf', () => {
+  test('measures the deepest decline from a running peak', () => {
+    const curve = [100, 120, 90, 130, 117].map((equity, i) => ({ time: i, equity }));
+    expect(maxDrawdownOf(curve)).toEqual({ maxDrawdown: 30, maxDrawdownPct: 25 });
+  });
+});
+
+test.describe('signalsFromRule', () => {
+  const rule = { id: 'r', name: 'Breakout', query: 'close > 100', direction: 'LONG' as const, stopLossPercent: 2, takeProfitPercents: [4], leverage: 3, cooldownBars: 1 };
+
+  test('enters at the next bar after each match, respecting the cooldown', () => {
+    const bars = candles([[99, 99, 99, 99], [101, 101, 101, 101], [102, 102, 102, 102], [103, 103, 103, 103], [104, 104, 104, 104]]);
+    const signals = signalsFromRule(rule, 'BTCUSDT', bars, '1h');
+    expect(signals.map(s => s.timestamp)).toEqual([(T0 + 2 * HOUR) * 1000, (T0 + 4 * HOUR) * 1000]);
+  });
+
+  test('places the levels from the open the entry fills at, not the signal bar close', () => {
+    const bars = candles([[101, 101, 101, 101], [105, 105, 105, 105], [105, 110, 105, 109]]); // Gaps up after the match
+    const signals = signalsFromRule(rule, 'BTCUSDT', bars, '1h');
+    expect(signals).toHaveLength(1);
+    expect(signals[0].entryRange).toEqual([105, 105]);
+    expect(signals[0].stopLoss.toFixed(2)).toBe('102.90');
+    expect(signals[0].takeProfit[0].toFixed(2)).toBe('109.20');
+
+    const [trade] = runBacktest(signals, { BTCUSDT: bars }, frictionless).trades;
+    expect(trade.entryPrice).toBe(105);
+    expect(trade.exits.map(e => [e.reason, e.price])).toEqual([['Take Profit', 109.2]]);
+  });
+
+  test('rejects queries on another timeframe', () => {
+    expect(() => signalsFromRule({ ...rule, query: 'close(4h) > 100' }, 'BTCUSDT', candles([]), '1h')).toThrow(/4h/);
+  });
+});
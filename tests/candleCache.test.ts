@@ -0,0 +1,45 @@
+import { expect, test } from '@playwright/test';
+import { findGaps, mergeRanges } from '../services/candleCache';
+
+const MINUTE = 60_000;
+
+test.describe('Candle cache coverage', () => {
+  test('merges overlapping and touching ranges in any order without mutating them', () => {
+    const ranges = [{ start: 5 * MINUTE, end: 9 * MINUTE }, { start: 0, end: 3 * MINUTE }, { start: 2 * MINUTE, end: 5 * MINUTE }];
+    expect(mergeRanges(ranges)).toEqual([{ start: 0, end: 9 * MINUTE }]);
+    expect(ranges[1]).toEqual({ start: 0, end: 3 * MINUTE });
+    expect(mergeRanges([{ start: 0, end: 10 * MINUTE }, { start: 2 * MINUTE, end: 3 * MINUTE }])).toEqual([{ start: 0, end: 10 * MINUTE }]);
+  });
+
+  test('merges adjacent candles only when given the timeframe as the gap', () => {
+    // The last candle of one range opens one timeframe before the first candle of the next
+    const adjacent = [{ start: 0, end: MINUTE }, { start: 2 * MINUTE, end: 3 * MINUTE }];
+    expect(mergeRanges(adjacent)).toHaveLength(2);
+    expect(mergeRanges(adjacent, MINUTE)).toEqual([{ start: 0, end: 3 * MINUTE }]);
+    expect(mergeRanges([{ start: 0, end: MINUTE }, { start: 2 * MINUTE + 1, end: 3 * MINUTE }], MINUTE)).toHaveLength(2);
+  });
+
+  test('finds nothing missing when the range is covered up to its inclusive ends', () => {
+    expect(findGaps({ start: 0, end: 5 * MINUTE }, [{ start: 0, end: 5 * MINUTE }])).toEqual([]);
+    expect(findGaps({ start: MINUTE, end: 2 * MINUTE }, [{ start: 0, end: 5 * MINUTE }])).toEqual([]);
+    expect(findGaps({ start: 0, end: 5 * MINUTE }, [{ start: 0, end: 2 * MINUTE }, { start: 2 * MINUTE, end: 5 * MINUTE }])).toEqual([]);
+  });
+
+  test('returns the uncovered parts, excluding the covered ends', () => {
+    expect(findGaps({ start: 0, end: 5 * MINUTE }, [])).toEqual([{ start: 0, end: 5 * MINUTE }]);
+    // Leading, middle and trailing gaps
+    expect(findGaps({ start: 0, end: 10 * MINUTE }, [{ start: 2 * MINUTE, end: 4 * MINUTE }, { start: 6 * MINUTE, end: 8 * MINUTE }])).toEqual([
+      { start: 0, end: 2 * MINUTE - 1 },
+      { start: 4 * MINUTE + 1, end: 6 * MINUTE - 1 },
+      { start: 8 * MINUTE + 1, end: 10 * MINUTE },
+    ]);
+    // Coverage that only touches the range on its first or last millisecond
+    expect(findGaps({ start: MINUTE, end: 3 * MINUTE }, [{ start: 0, end: MINUTE }])).toEqual([{ start: MINUTE + 1, end: 3 * MINUTE }]);
+    expect(findGaps({ start: 0, end: 3 * MINUTE }, [{ start: 3 * MINUTE, end: 5 * MINUTE }])).toEqual([{ start: 0, end: 3 * MINUTE - 1 }]);
+  });
+
+  test('ignores coverage outside the range', () => {
+    const covered = [{ start: 0, end: MINUTE }, { start: 20 * MINUTE, end: 30 * MINUTE }];
+    expect(findGaps({ start: 5 * MINUTE, end: 10 * MINUTE }, covered)).toEqual([{ start: 5 * MINUTE, end: 10 * MINUTE }]);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect, test } from '@playwright/test';
+import { getChartSnapshot, getPerpTradeStats, getSpotHoldings, querySignalHistory } from '../services/chatDataTools';
+import type { CandleStick, PerpTrade, SavedSignal, SpotTrade } from '../types';
+
+const at = (date: string) => new Date(`${date}T12:00:00`).getTime();
+
+const signal = (id: string, symbol: string, status: SavedSignal['status'], type: SavedSignal['type'], date: string) =>
+  ({ id, symbol, status, type, timestamp: at(date), timeframe: '5m', direction: 'LONG', entryRange: [1, 2], stopLoss: 0.5, takeProfit: [3] }) as SavedSignal;
+
+const perpTrade = (symbol: string, pnl: number, date: string): PerpTrade => ({
+  id: `${symbol}-${date}`, symbol, side: 'Long', status: 'Closed', entryDate: at(date), exitDate: at(date),
+  entryPrice: 100, exitPrice: 100, quantity: 1, margin: 10, leverage: 10, pnl, fees: 1,
+});
+
+const spotTrade = (side: SpotTrade['side'], price: number, quantity: number, date: string): SpotTrade => ({
+  id: `${side}-${date}`, symbol: 'ETHUSDT', side, date: at(date), price, quantity, total: price * quantity, fees: 0,
+});
+
+test.describe('chat data tools', () => {
+  test('answers the win rate of one symbol\'s scalps over a date range', () => {
+    const signals = [
+      signal('a', 'SOLUSDT', 'Win', 'Scalp', '2026-10-02'),
+      signal('b', 'SOLUSDT', 'Loss', 'Scalp', '2026-10-05'),
+      signal('c', 'SOLUSDT', 'Win', 'Scalp', '2026-10-09'),
+      signal('d', 'SOLUSDT', 'Win', 'Swing', '2026-10-09'),
+      signal('e', 'BTCUSDT', 'Loss', 'Scalp', '2026-10-09'),
+      signal('f', 'SOLUSDT', 'Loss', 'Scalp', '2026-09-30'),
+    ];
+    const result = querySignalHistory(signals, { symbol: 'sol', type: 'Scalp', since: '2026-10-01', until: '2026-10-31' });
+    expect(result.matched).toBe(3);
+    expect(result.winRatePct).toBe(66.67);
+    expect(result.signals.map(s => s.id)).toEqual(['c', 'b', 'a']);
+    expect(() => querySignalHistory(signals, { since: 'last month' })).toThrow(/YYYY-MM-DD/);
+  });
+
+  test('summarises closed perp trades per symbol', () => {
+    const stats = getPerpTradeStats([perpTrade('SOLUSDT', 30, '2026-10-01'), perpTrade('SOLUSDT', -10, '2026-10-02'), perpTrade('ETHUSDT', 5, '2026-10-03')]);
+    expect(stats.winRatePct).toBe(66.67);
+    expect(stats.netPnl).toBe(25);
+    expect(stats.profitFactor).toBe(3.5);
+    expect(stats.bestTrade?.pnl).toBe(30);
+    expect(stats.bySymbol.map(s => [s.symbol, s.netPnl])).toEqual([['SOLUSDT', 20], ['ETHUSDT', 5]]);
+  });
+
+  test('keeps spot holdings at average cost', () => {
+    const trades = [spotTrade('Buy', 100, 2, '2026-10-01'), spotTrade('Buy', 200, 2, '2026-10-02'), spotTrade('Sell', 250, 2, '2026-10-03')];
+    const [holding] = getSpotHoldings(trades);
+    expect(holding.quantity).toBe(2);
+    expect(holding.averageCost).toBe(150);
+    expect(holding.realizedPnl).toBe(200);
+    expect(getSpotHoldings([...trades, spotTrade('Sell', 100, 2, '2026-10-04')])).toHaveLength(0);
+  });
+
+  test('summarises a chart from its candles', () => {
+    const candles: CandleStick[] = Array.from({ length: 30 }, (_, i) => ({ time: 1_790_000_000 + i * 60, open: 100 + i, high: 102 + i, low: 99 + i, close: 101 + i, volume: 1 }));
+    const snapshot = getChartSnapshot(candles, { exchange: 'binance', symbol: 'SOLUSDT', timeframe: '1m' });
+    expect(snapshot.changePct).toBe(30);
+    expect(snapshot.high).toBe(131);
+    expect(snapshot.recentCandles).toHaveLength(12);
+    expect(snapshot.indicators?.close).toBe(130);
+    expect(() => getChartSnapshot([], { exchange: 'binance', symbol: 'SOLUSDT', timeframe: '1m' })).toThrow(/No 1m candles/);
+  });
+});
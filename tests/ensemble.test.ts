@@ -0,0 +1,66 @@
+import { expect, test } from '@playwright/test';
+import { ensembleRuns, mergeEnsemble, type EnsembleRun } from '../services/ensemble';
+import type { Signal, UserParams } from '../types';
+
+const signal = (direction: Signal['direction'], confidence: number, entry: [number, number], takeProfit: number[], stopLoss: number): Signal => ({
+  direction,
+  entryRange: entry,
+  takeProfit,
+  stopLoss,
+  confidence,
+  rrRatio: 2,
+  leverage: 10,
+  tradeDuration: '1hr',
+  reasoning: `${direction} at ${confidence}`,
+});
+
+const run = (model: string, sample: number, result: Signal | string): EnsembleRun =>
+  typeof result === 'string' ? { model, sample, error: result } : { model, sample, signal: result };
+
+test.describe('ensemble', () => {
+  test('plans one run per model and sample, capped', () => {
+    const params = { model: 'gemini-2.5-flash', ensemble: { enabled: true, models: ['gemini-2.5-flash', 'gemini-2.5-pro'], samplesPerModel: 2 } } as UserParams;
+    expect(ensembleRuns(params).map(r => `${r.model}#${r.sample}`)).toEqual(['gemini-2.5-flash#1', 'gemini-2.5-flash#2', 'gemini-2.5-pro#1', 'gemini-2.5-pro#2']);
+    expect(ensembleRuns({ ...params, ensemble: { enabled: true, models: [], samplesPerModel: 10 } })).toHaveLength(6);
+    expect(ensembleRuns({ ...params, ensemble: { ...params.ensemble!, enabled: false } })).toHaveLength(1);
+  });
+
+  test('takes the majority direction and merges its levels by median', () => {
+    const merged = mergeEnsemble([
+      run('a', 1, signal('LONG', 70, [100, 98], [110, 120], 95)),
+      run('a', 2, signal('LONG', 80, [99, 101], [112], 94)),
+      run('b', 1, signal('LONG', 90, [97, 100], [108, 118], 96)),
+      run('b', 2, signal('SHORT', 85, [101, 102], [90], 105)),
+      run('c', 1, 'Quota exceeded'),
+    ]);
+    expect(merged.direction).toBe('LONG');
+    expect(merged.entryRange).toEqual([98, 100]);
+    expect(merged.takeProfit).toEqual([110, 119]);
+    expect(merged.stopLoss).toBe(95);
+    expect(merged.confidence).toBe(80);
+    expect(merged.rrRatio).toBe(2.75); // From the merged levels: (110 - 99) / (99 - 95), not the runs' 2
+    expect(merged.ensemble!.consensus).toBe(60); // The failed run counts against it
+    expect(merged.ensemble!.members).toHaveLength(5);
+    expect(merged.ensemble!.dissent.map(member => member.model)).toEqual(['b']);
+    expect(merged.reasoning).toMatch(/3 of 5 runs called LONG \(60% consensus, 1 failed\)/);
+  });
+
+  test('breaks a split vote on total confidence and fails when every run failed', () => {
+    const merged = mergeEnsemble([run('a', 1, signal('LONG', 60, [99, 100], [105], 97)), run('b', 1, signal('SHORT', 80, [100, 101], [95, 92], 103))]);
+    expect(merged.direction).toBe('SHORT');
+    expect(merged.takeProfit).toEqual([95, 92]);
+    expect(merged.ensemble!.consensus).toBe(50);
+    expect(() => mergeEnsemble([run('a', 1, 'Timeout')])).toThrow();
+  });
+
+  test('a lone survivor of a mostly failed ensemble is not full agreement', () => {
+    const merged = mergeEnsemble([
+      run('a', 1, signal('LONG', 90, [99, 100], [105], 97)),
+      ...[2, 3, 4, 5, 6].map(sample => run('a', sample, 'Quota exceeded')),
+    ]);
+    expect(merged.direction).toBe('LONG');
+    expect(merged.ensemble!.consensus).toBe(17);
+    expect(merged.ensemble!.members).toHaveLength(6);
+    expect(merged.reasoning).toMatch(/1 of 6 runs called LONG \(17% consensus, 5 failed\)/);
+  });
+});
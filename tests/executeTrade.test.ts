@@ -0,0 +1,160 @@
+import { expect, test } from '@playwright/test';
+import { createHmac } from 'node:crypto';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { forwardSignedRequest, isAllowedRequest } from '../services/brokers/signing';
+
+// A local stand-in for the exchange: records every request and answers with the queued responses
+interface RecordedRequest {
+  method: string;
+  url: URL;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+const credentials = { apiKey: 'test-key', apiSecret: 'test-secret' };
+const sign = (payload: string) => createHmac('sha256', credentials.apiSecret).update(payload).digest('hex');
+
+let server: Server;
+let baseUrl: string;
+let received: RecordedRequest[] = [];
+let responses: { status: number; body: unknown }[] = [];
+
+test.beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      received.push({ method: req.method!, url: new URL(req.url!, baseUrl), headers: req.headers, body });
+      const { status, body: responseBody } = responses.shift() ?? { status: 200, body: { retCode: 0, result: {} } };
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(responseBody));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(() => {
+  received = [];
+  responses = [];
+});
+
+test.describe('Signed exchange requests', () => {
+  test('signs Bybit order requests over the JSON body', async () => {
+    responses.push({ status: 200, body: { retCode: 0, result: { orderId: 'o-1', orderLinkId: 'sg-abc' } } });
+
+    const { status, body } = await forwardSignedRequest({
+      exchange: 'bybit',
+      method: 'POST',
+      path: '/v5/order/create',
+      params: { category: 'linear', symbol: 'BTCUSDT', side: 'Buy', orderType: 'Market', qty: '0.01', orderLinkId: 'sg-abc' },
+    }, credentials, { baseUrl, now: () => 1700000000000 });
+
+    expect(status).toBe(200);
+    expect(body.result.orderId).toBe('o-1');
+    const [request] = received;
+    expect(request.url.pathname).toBe('/v5/order/create');
+    expect(request.headers['x-bapi-api-key']).toBe('test-key');
+    expect(request.headers['x-bapi-timestamp']).toBe('1700000000000');
+    expect(request.headers['x-bapi-sign']).toBe(sign(`1700000000000test-key5000${request.body}`));
+    expect(JSON.parse(request.body).orderLinkId).toBe('sg-abc');
+  });
+
+  test('signs Bybit queries over the query string', async () => {
+    await forwardSignedRequest({
+      exchange: 'bybit',
+      method: 'GET',
+      path: '/v5/position/list',
+      params: { category: 'linear', settleCoin: 'USDT', symbol: undefined },
+    }, credentials, { baseUrl, now: () => 1700000000000 });
+
+    const [request] = received;
+    expect(request.url.search).toBe('?category=linear&settleCoin=USDT');
+    expect(request.headers['x-bapi-sign']).toBe(sign('1700000000000test-key5000category=linear&settleCoin=USDT'));
+  });
+
+  test('signs Binance requests over the whole query string', async () => {
+    responses.push({ status: 200, body: { orderId: 42 } });
+
+    await forwardSignedRequest({
+      exchange: 'binance',
+      method: 'POST',
+      path: '/fapi/v1/order',
+      params: { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.01' },
+    }, credentials, { baseUrl, now: () => 1700000000000 });
+
+    const [request] = received;
+    const signature = request.url.searchParams.get('signature');
+    const signedQuery = request.url.search.slice(1).replace(`&signature=${signature}`, '');
+    expect(request.headers['x-mbx-apikey']).toBe('test-key');
+    expect(signature).toBe(sign(signedQuery));
+    expect(request.url.searchParams.get('timestamp')).toBe('1700000000000');
+    // Order creation always carries a client order id
+    expect(request.url.searchParams.get('newClientOrderId')).toMatch(/^sg-/);
+  });
+
+  test('rejects endpoints the brokers do not use', () => {
+    expect(isAllowedRequest({ exchange: 'bybit', method: 'POST', path: '/v5/order/create', params: {} })).toBe(true);
+    expect(isAllowedRequest({ exchange: 'bybit', method: 'POST', path: '/v5/asset/withdraw/create', params: {} })).toBe(false);
+    expect(isAllowedRequest({ exchange: 'binance', method: 'GET', path: '/fapi/v1/leverage', params: {} })).toBe(false);
+  });
+});
+
+test.describe('Idempotent order creation', () => {
+  test('retries a failed Bybit order once with the same orderLinkId', async () => {
+    responses.push({ status: 502, body: { message: 'Bad gateway' } });
+    responses.push({ status: 200, body: { retCode: 0, result: { orderId: 'o-2' } } });
+
+    const { body } = await forwardSignedRequest({
+      exchange: 'bybit',
+      method: 'POST',
+      path: '/v5/order/create',
+      params: { category: 'linear', symbol: 'BTCUSDT', side: 'Buy', orderType: 'Market', qty: '0.01' },
+    }, credentials, { baseUrl });
+
+    expect(body.result.orderId).toBe('o-2');
+    expect(received).toHaveLength(2);
+    const [first, second] = received.map(request => JSON.parse(request.body).orderLinkId);
+    expect(first).toMatch(/^sg-/);
+    expect(second).toBe(first);
+  });
+
+  test('resolves a duplicate Bybit orderLinkId to the existing order', async () => {
+    responses.push({ status: 200, body: { retCode: 110072, retMsg: 'OrderLinkedID is duplicate' } });
+    responses.push({ status: 200, body: { retCode: 0, result: { list: [{ orderId: 'o-3', orderLinkId: 'sg-dup' }] } } });
+
+    const { status, body } = await forwardSignedRequest({
+      exchange: 'bybit',
+      method: 'POST',
+      path: '/v5/order/create',
+      params: { category: 'linear', symbol: 'BTCUSDT', side: 'Buy', orderType: 'Market', qty: '0.01', orderLinkId: 'sg-dup' },
+    }, credentials, { baseUrl });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ retCode: 0, retMsg: 'OK', result: { orderId: 'o-3', orderLinkId: 'sg-dup' } });
+    expect(received[1].url.pathname).toBe('/v5/order/realtime');
+    expect(received[1].url.searchParams.get('orderLinkId')).toBe('sg-dup');
+  });
+
+  test('resolves a duplicate Binance newClientOrderId to the existing order', async () => {
+    responses.push({ status: 400, body: { code: -4116, msg: 'ClientOrderId is duplicated.' } });
+    responses.push({ status: 200, body: { orderId: 7, clientOrderId: 'sg-dup', status: 'FILLED' } });
+
+    const { status, body } = await forwardSignedRequest({
+      exchange: 'binance',
+      method: 'POST',
+      path: '/fapi/v1/order',
+      params: { symbol: 'BTCUSDT', side: 'BUY', type: 'MARKET', quantity: '0.01', newClientOrderId: 'sg-dup' },
+    }, credentials, { baseUrl });
+
+    expect(status).toBe(200);
+    expect(body.orderId).toBe(7);
+    expect(received[1].method).toBe('GET');
+    expect(received[1].url.searchParams.get('origClientOrderId')).toBe('sg-dup');
+  });
+});
@@ -0,0 +1,127 @@
+import { expect, test } from '@playwright/test';
+import type { CandleStick } from '../types';
+import { ADX, ATR, BollingerBands, EMA, MACD, OBV, RSI, SMA, Stochastic, VWAP, adx, atr, bollinger, ema, macd, obv, rsi, sma, stochastic, vwap } from '../utils/indicators';
+
+const CLOSES = [100, 102, 101, 105, 107, 106, 110, 108, 111, 115, 113, 112, 116, 118, 117, 121, 119, 122, 120, 124];
+const DAY_START = 1700006400; // A UTC midnight; the series crosses it at index 10
+
+// Hourly candles that open at the previous close, with wicks of +1.5 / -1
+const CANDLES: CandleStick[] = CLOSES.map((close, i) => {
+  const open = i > 0 ? CLOSES[i - 1] : 99;
+  return {
+    time: DAY_START - 10 * 3600 + i * 3600,
+    open, high: Math.max(open, close) + 1.5, low: Math.min(open, close) - 1, close,
+    volume: 10 + (i * 7) % 13,
+  };
+});
+const LAST = CANDLES.length - 1;
+
+// Rounds every number so series built along different paths compare despite float noise
+const rounded = (value: unknown) => JSON.stringify(value, (_, v) => typeof v === 'number' ? Number(v.toFixed(8)) : v);
+
+// Reference values computed independently with the textbook formulas
+test.describe('Indicator reference values', () => {
+  test('moving averages', () => {
+    expect(sma(CANDLES, 3).slice(-3).map(v => v!.toFixed(6))).toEqual(['120.666667', '120.333333', '122.000000']);
+    expect(sma(CANDLES, 3)[1]).toBe(null);
+
+    const ema3 = ema(CANDLES, 3);
+    expect(ema3.slice(0, 4)).toEqual([null, null, 101, 103]); // Seeded with the SMA of the first three closes
+    expect(ema3[LAST]!.toFixed(6)).toBe('122.110565');
+  });
+
+  test('RSI uses Wilder smoothing', () => {
+    const values = rsi(CANDLES, 5);
+    expect(values.slice(0, 5)).toEqual([null, null, null, null, null]);
+    expect(values[5]).toBe(80); // Gains 8 / losses 2 over the first five changes
+    expect(values[6]!.toFixed(6)).toBe('86.666667');
+    expect(values[LAST]!.toFixed(6)).toBe('73.804945');
+  });
+
+  test('MACD', () => {
+    const values = macd(CANDLES, 3, 6, 4);
+    expect(values.findIndex(v => v !== null)).toBe(8);
+    const { macd: line, signal, histogram } = values[LAST]!;
+    expect([line, signal, histogram].map(v => v.toFixed(6))).toEqual(['1.659121', '1.595454', '0.063667']);
+  });
+
+  test('Stochastic', () => {
+    const values = stochastic(CANDLES, 5, 3);
+    expect(values[3]).toBe(null);
+    expect(values[4]!.k.toFixed(6)).toBe('85.714286');
+    expect(values[4]!.d).toBe(null);
+    expect(values[LAST]!.k.toFixed(6)).toBe('84.210526');
+    expect(values[LAST]!.d!.toFixed(6)).toBe('73.298934');
+  });
+
+  test('Bollinger Bands use the population standard deviation', () => {
+    const { upper, middle, lower, bandwidth } = bollinger(CANDLES, 5, 2)[LAST]!;
+    expect([upper, middle, lower].map(v => v.toFixed(6))).toEqual(['124.640930', '121.200000', '117.759070']);
+    expect(bandwidth.toFixed(6)).toBe('0.056781');
+  });
+
+  test('ATR', () => {
+    const values = atr(CANDLES, 5);
+    expect(values[3]).toBe(null);
+    expect(values[4]).toBe(4.5);
+    expect(values[LAST]!.toFixed(6)).toBe('5.249959');
+  });
+
+  test('ADX', () => {
+    const values = adx(CANDLES, 3);
+    expect(values[2]).toBe(null);
+    expect(values[3]!.adx).toBe(null); // The DIs are ready before ADX has smoothed enough DX values
+    expect(values[3]!.plusDI.toFixed(6)).toBe('34.482759');
+    expect(values[5]!.adx).toBe(100);
+    const { adx: strength, plusDI, minusDI } = values[LAST]!;
+    expect([strength!, plusDI, minusDI].map(v => v.toFixed(6))).toEqual(['93.901343', '21.399162', '0.238784']);
+  });
+
+  test('VWAP resets at the UTC day boundary', () => {
+    const values = vwap(CANDLES);
+    expect(values[9]!.toFixed(6)).toBe('106.678495');
+    expect(values[10]!.toFixed(6)).toBe('113.833333'); // The typical price of the first candle of the day
+    expect(values[LAST]!.toFixed(6)).toBe('117.739651');
+  });
+
+  test('OBV', () => {
+    const values = obv(CANDLES);
+    expect(values[0]).toBe(0);
+    expect(values[1]).toBe(17);
+    expect(values[LAST]).toBe(16);
+  });
+});
+
+test.describe('Indicator updates', () => {
+  const factories = {
+    SMA: () => new SMA(3), EMA: () => new EMA(3), RSI: () => new RSI(5), MACD: () => new MACD(3, 6, 4),
+    Stochastic: () => new Stochastic(5, 3), BollingerBands: () => new BollingerBands(5, 2), ATR: () => new ATR(5),
+    ADX: () => new ADX(3), VWAP: () => new VWAP(), OBV: () => new OBV(),
+  };
+
+  // A forming candle: it opens flat and swings both ways before settling on the final values
+  const revisionsOf = (candle: CandleStick): CandleStick[] => [
+    { ...candle, high: candle.open, low: candle.open, close: candle.open, volume: 0 },
+    { ...candle, high: candle.high + 3, low: candle.open, close: candle.high + 2, volume: candle.volume / 3 },
+    { ...candle, low: candle.low - 4, close: candle.low - 3, volume: candle.volume * 2 },
+  ];
+
+  for (const [name, create] of Object.entries(factories)) {
+    test(`${name}: revising every candle before it closes matches appending the final candles`, () => {
+      const appended = create();
+      const revised = create();
+      for (const candle of CANDLES) {
+        revisionsOf(candle).forEach(revision => revised.update(revision));
+        const expected = appended.update(candle);
+        expect(rounded(revised.update(candle))).toBe(rounded(expected));
+      }
+    });
+  }
+
+  test('older candles are ignored', () => {
+    const indicator = new SMA(3);
+    CANDLES.slice(0, 5).forEach(candle => indicator.update(candle));
+    const value = indicator.value;
+    expect(indicator.update({ ...CANDLES[1], close: 1_000 })).toBe(value);
+  });
+});
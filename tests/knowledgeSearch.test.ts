@@ -0,0 +1,35 @@
+import { expect, test } from '@playwright/test';
+import { KnowledgeIndex, markdownDocuments, splitIntoPassages, strategyDocuments, tutorialDocuments } from '../services/knowledgeSearch';
+
+const DOCS = {
+  '/docs/alerts/alerts.md': '# Alerts\n\nWatch the market without a chart.\n\n## Managing Alerts\n\n-   **Snooze** an alert for 15 minutes or 1 hour.\n-   **Pause** or **Resume** it.',
+  '/docs/introduction.md': '# Introduction\n\nSignal Gen generates trading signals with AI.',
+};
+
+test.describe('knowledge search', () => {
+  test('splits documents at headings and long paragraphs', () => {
+    const [alerts] = markdownDocuments(DOCS, path => path.includes('alerts') ? 'alerts' : null);
+    expect(alerts.title).toBe('Alerts');
+    expect(splitIntoPassages(alerts).map(passage => passage.section)).toEqual([null, 'Managing Alerts']);
+
+    const long = { ...alerts, text: Array.from({ length: 5 }, (_, i) => `Paragraph ${i} ${'word '.repeat(60)}`).join('\n\n') };
+    expect(splitIntoPassages(long)).toHaveLength(3);
+  });
+
+  test('ranks the passage that answers the question first and cites its page', () => {
+    const index = new KnowledgeIndex([
+      ...markdownDocuments(DOCS, path => path.includes('alerts') ? 'alerts' : null),
+      ...tutorialDocuments({ Concepts: [{ title: 'Fair Value Gaps (FVG)', content: 'A fair value gap is a three candle imbalance.' }] }),
+      ...strategyDocuments([{ id: 's1', authorUsername: 'trader', title: 'RSI Divergence', description: 'Buy bullish divergence.', tags: ['rsi'], isPublic: false, createdAt: 0 }]),
+    ]);
+
+    const [snooze] = index.search('how do I snooze alerts?');
+    expect(snooze.section).toBe('Managing Alerts');
+    expect(snooze.citation).toBe('[Alerts › Managing Alerts](#/alerts)');
+
+    expect(index.search('fair value gap')[0].link).toBe('#/tutorials');
+    expect(index.search('rsi divergence')[0].citation).toBe('[RSI Divergence](#/strategies)');
+    expect(index.search('generates signals')[0].citation).toBe('Introduction (docs/introduction.md)');
+    expect(index.search('the of and')).toEqual([]);
+  });
+});
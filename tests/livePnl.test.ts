@@ -0,0 +1,55 @@
+import { expect, test } from '@playwright/test';
+import { computeLivePnl } from '../services/livePnl';
+import type { LivePosition, PerpTrade } from '../types';
+
+const position: LivePosition = {
+  id: 'order-1', symbol: 'BTCUSDT', side: 'Long', entryPrice: 100, quantity: 2, margin: 20, leverage: 10,
+  entryDate: Date.UTC(2026, 0, 1), takeProfit: 110, stopLoss: 95,
+};
+
+const trade: PerpTrade = {
+  id: 'perp-1', symbol: 'ETHUSDT', side: 'Short', status: 'Open', entryDate: Date.UTC(2026, 0, 2), entryPrice: 50,
+  quantity: 4, margin: 40, leverage: 5, fees: 1, fundingFees: 0.5, exchange: 'bybit', marginMode: 'isolated',
+};
+
+test.describe('live P&L', () => {
+  test('marks every open position to the live price', async () => {
+    const requested: string[] = [];
+    const report = await computeLivePnl(
+      { livePositions: [position], perpTrades: [trade, { ...trade, id: 'perp-2', status: 'Closed' }], scalpingExchange: 'binance' },
+      async (exchange, symbol) => { requested.push(`${exchange}:${symbol}`); return symbol === 'BTCUSDT' ? 104 : 45; },
+    );
+
+    expect(requested).toEqual(['binance:BTCUSDT', 'bybit:ETHUSDT']);
+    expect(report.positions).toHaveLength(2);
+
+    const [scalp, perp] = report.positions;
+    expect(scalp.unrealizedPnl).toBe(8);
+    expect(scalp.roePct).toBe(40);
+    // (104 - 95) / 104 and (110 - 104) / 104
+    expect(scalp.distanceToStopPct).toBe(8.65);
+    expect(scalp.distanceToTakeProfitPct).toBe(5.77);
+
+    // (50 - 45) * 4 less fees and funding
+    expect(perp.unrealizedPnl).toBe(18.5);
+    expect(perp.distanceToStopPct).toBe(null);
+    expect(perp.liquidationPrice !== null && perp.liquidationPrice > 50).toBe(true);
+
+    expect(report.totalUnrealizedPnl).toBe(26.5);
+    expect(report.totalMargin).toBe(60);
+  });
+
+  test('reports symbols it could not price instead of failing', async () => {
+    const report = await computeLivePnl(
+      { livePositions: [position], perpTrades: [trade], scalpingExchange: 'okx' },
+      async (_exchange, symbol) => { if (symbol === 'ETHUSDT') throw new Error('Network error'); return 90; },
+    );
+
+    expect(report.unpricedSymbols).toEqual(['ETHUSDT']);
+    expect(report.positions[1].unrealizedPnl).toBe(null);
+    expect(report.positions[0].exchange).toBe('okx');
+    // Past the stop: negative distance
+    expect(report.positions[0].distanceToStopPct).toBe(-5.56);
+    expect(report.totalUnrealizedPnl).toBe(-20);
+  });
+});
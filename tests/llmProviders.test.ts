@@ -0,0 +1,104 @@
+import { expect, test } from '@playwright/test';
+import { FixtureProvider } from '../services/llm/fixtureProvider';
+import { DEFAULT_FIXTURES } from '../services/llm/fixtures';
+import { validateSignal } from '../services/signalValidation';
+import { runToolAssistedScreener, type ScreenerFeatureRow } from '../services/screenerService';
+import type { ScreenerMetrics } from '../types';
+
+const MODEL = 'gemini-2.5-flash';
+
+test.describe('fixture provider', () => {
+  test('replays the first matching fixture and records every call', async () => {
+    const provider = new FixtureProvider([
+      { kind: 'text', match: /title/, response: 'A Title' },
+      { kind: 'text', response: 'Anything else' },
+    ]);
+
+    expect(await provider.generateText({ model: MODEL, prompt: 'Generate a title' })).toBe('A Title');
+    expect(await provider.generateText({ model: MODEL, prompt: 'Explain this' })).toBe('Anything else');
+    expect(provider.calls.map(call => call.input)).toEqual(['Generate a title', 'Explain this']);
+  });
+
+  test('returns a fresh copy of JSON fixtures and throws when nothing matches', async () => {
+    const provider = new FixtureProvider([{ kind: 'json', match: 'signal', response: { levels: [1, 2] } }]);
+    const schema = { type: 'object' as const };
+
+    const first = await provider.generateJson<{ levels: number[] }>({ model: MODEL, prompt: 'a signal', schema });
+    first.levels.push(3);
+    expect(await provider.generateJson({ model: MODEL, prompt: 'a signal', schema })).toEqual({ levels: [1, 2] });
+
+    await expect(provider.generateJson({ model: MODEL, prompt: 'something else', schema })).rejects.toThrow('No json fixture matches');
+  });
+
+  test('streams chat text word by word, then the tool calls', async () => {
+    const provider = new FixtureProvider([
+      { kind: 'chat', match: 'getLivePnl', response: { text: 'You are up $10.' } },
+      { kind: 'chat', response: { text: 'Let me check.', toolCalls: [{ name: 'getLivePnl', args: {} }] } },
+    ]);
+
+    const chunks = [];
+    for await (const chunk of provider.streamChat({ model: MODEL, messages: [{ role: 'user', text: 'How am I doing?' }] })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([
+      { type: 'text', text: 'Let ' },
+      { type: 'text', text: 'me ' },
+      { type: 'text', text: 'check.' },
+      { type: 'toolCalls', toolCalls: [{ id: 'fixture_call_1', name: 'getLivePnl', args: {} }] },
+    ]);
+
+    // The follow-up turn is matched on the tool result
+    const reply = await provider.chat({
+      model: MODEL,
+      messages: [{ role: 'tool', results: [{ id: 'fixture_call_1', name: 'getLivePnl', response: { pnl: 10 } }] }],
+    });
+    expect(reply).toEqual({ text: 'You are up $10.', toolCalls: [] });
+  });
+
+  test('stops a stream once its signal is aborted', async () => {
+    const provider = new FixtureProvider([{ kind: 'chat', response: { text: 'One two three four.' } }]);
+    const controller = new AbortController();
+
+    const words: string[] = [];
+    const read = async () => {
+      for await (const chunk of provider.streamChat({ model: MODEL, messages: [{ role: 'user', text: 'Count' }], signal: controller.signal })) {
+        if (chunk.type === 'text') words.push(chunk.text);
+        if (words.length === 2) controller.abort();
+      }
+    };
+    await expect(read()).rejects.toThrow('aborted');
+    expect(words).toEqual(['One ', 'two ']);
+  });
+
+  test('drives the screener tool loop offline', async () => {
+    const provider = new FixtureProvider([
+      {
+        kind: 'chat',
+        match: 'Market Feature Table',
+        response: {
+          toolCalls: [{
+            name: 'submitScreenerResults',
+            args: { results: [{ symbol: 'BTCUSDT', rationale: 'RSI is low.' }, { symbol: 'NOTLISTED', rationale: 'Invented.' }] },
+          }],
+        },
+      },
+    ]);
+    const metrics = { price: 100, change24hPct: 1, timeframes: {} } as unknown as ScreenerMetrics;
+    const rows: ScreenerFeatureRow[] = [{ symbol: 'BTCUSDT', metrics }];
+
+    const results = await runToolAssistedScreener(provider, MODEL, 'oversold', 'binance', rows);
+    expect(results).toEqual([{ symbol: 'BTCUSDT', rationale: 'RSI is low.', metrics }]);
+  });
+
+  test('has a default signal fixture that passes validation at the prompt price', async () => {
+    const provider = new FixtureProvider(DEFAULT_FIXTURES);
+    const response = await provider.generateJson({
+      model: MODEL,
+      prompt: '- Current Market Price (from last closed candle): 2500\nProvide a trading signal in the specified JSON format.',
+      schema: { type: 'object' },
+    });
+    const { signal, issues } = validateSignal(response, { livePrice: 2500, timeframe: '15m' });
+    expect(issues).toEqual([]);
+    expect(signal?.entryRange).toEqual([2495, 2500]);
+  });
+});
@@ -0,0 +1,109 @@
+import { expect, test } from '@playwright/test';
+import type { CandleStick, FundingRate } from '../types';
+import { fetchCandlesBackwards, fetchCandlesForwards, fetchFundingBackwards } from '../services/exchanges/pagination';
+
+const MINUTE = 60_000;
+const FIRST = 1_700_000_040_000; // Open time of the exchange's oldest candle, in ms (a whole minute)
+const COUNT = 25; // Candles the fake exchange has
+const PAGE = 10;
+
+const candleAt = (ms: number): CandleStick => ({ time: ms / 1000, open: 1, high: 1, low: 1, close: 1, volume: 1 });
+const ALL = Array.from({ length: COUNT }, (_, i) => candleAt(FIRST + i * MINUTE));
+const openTime = (index: number) => FIRST + index * MINUTE;
+const indexesOf = (candles: CandleStick[]) => candles.map(candle => (candle.time * 1000 - FIRST) / MINUTE);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// An exchange that pages backwards: up to PAGE candles strictly older than `before`, newest first
+const backwardsExchange = () => {
+  const cursors: (number | null)[] = [];
+  const fetchPage = async (before: number | null) => {
+    cursors.push(before);
+    return ALL.filter(candle => before === null || candle.time * 1000 < before).slice(-PAGE).reverse();
+  };
+  return { fetchPage, cursors };
+};
+
+test.describe('Paging backwards', () => {
+  test('collects the most recent candles up to the limit across pages', async () => {
+    const { fetchPage, cursors } = backwardsExchange();
+    const candles = await fetchCandlesBackwards(fetchPage, { limit: 15 });
+    expect(indexesOf(candles)).toEqual(range(10, 24));
+    expect(cursors).toEqual([null, openTime(15)]);
+  });
+
+  test('stops at startTime, which is inclusive, and treats endTime as exclusive', async () => {
+    const { fetchPage, cursors } = backwardsExchange();
+    const candles = await fetchCandlesBackwards(fetchPage, { startTime: openTime(12), endTime: openTime(20) });
+    expect(indexesOf(candles)).toEqual(range(12, 19));
+    expect(cursors).toEqual([openTime(20)]); // The first page already reached startTime
+  });
+
+  test('stops when a page reaches startTime exactly', async () => {
+    const { fetchPage, cursors } = backwardsExchange();
+    const candles = await fetchCandlesBackwards(fetchPage, { startTime: openTime(5), endTime: openTime(25) });
+    expect(indexesOf(candles)).toEqual(range(5, 24));
+    expect(cursors).toEqual([openTime(25), openTime(15)]);
+  });
+
+  test('stops when the exchange runs dry', async () => {
+    const { fetchPage, cursors } = backwardsExchange();
+    const candles = await fetchCandlesBackwards(fetchPage, {});
+    expect(indexesOf(candles)).toEqual(range(0, 24));
+    expect(cursors).toEqual([null, openTime(15), openTime(5), openTime(0)]);
+  });
+
+  test('stops when a page returns the same oldest candle again', async () => {
+    // An exchange that ignores the cursor and always answers with the latest page
+    let pages = 0;
+    const candles = await fetchCandlesBackwards(async () => { pages++; return ALL.slice(-PAGE); }, { startTime: openTime(0) });
+    expect(pages).toBe(2);
+    expect(indexesOf(candles)).toEqual(range(15, 24));
+  });
+});
+
+test.describe('Paging forwards', () => {
+  // An exchange that pages forwards: up to PAGE candles opening at or after `from`, oldest first
+  const forwardsExchange = () => {
+    const cursors: number[] = [];
+    const fetchPage = async (from: number) => {
+      cursors.push(from);
+      return ALL.filter(candle => candle.time * 1000 >= from).slice(0, PAGE);
+    };
+    return { fetchPage, cursors };
+  };
+
+  test('continues after the newest candle of each page and includes both ends', async () => {
+    const { fetchPage, cursors } = forwardsExchange();
+    const candles = await fetchCandlesForwards(fetchPage, { startTime: openTime(3), endTime: openTime(20) });
+    expect(indexesOf(candles)).toEqual(range(3, 20));
+    expect(cursors).toEqual([openTime(3), openTime(12) + 1]);
+  });
+
+  test('stops when the exchange returns nothing new or runs dry', async () => {
+    let pages = 0;
+    const stale = await fetchCandlesForwards(async () => { pages++; return ALL.slice(0, PAGE); }, { startTime: openTime(0), endTime: openTime(24) });
+    expect(pages).toBe(2);
+    expect(indexesOf(stale)).toEqual(range(0, 9));
+
+    const { fetchPage, cursors } = forwardsExchange();
+    const all = await fetchCandlesForwards(fetchPage, { startTime: openTime(0), endTime: openTime(40) });
+    expect(indexesOf(all)).toEqual(range(0, 24));
+    expect(cursors).toEqual([openTime(0), openTime(9) + 1, openTime(19) + 1, openTime(24) + 1]);
+  });
+});
+
+test.describe('Paging funding backwards', () => {
+  const HOURS_8 = 8 * 60 * MINUTE;
+  const RATES: FundingRate[] = Array.from({ length: 12 }, (_, i) => ({ time: FIRST + i * HOURS_8, rate: 0.0001 }));
+
+  test('includes settlements at both ends and stops at startTime', async () => {
+    const cursors: number[] = [];
+    const rates = await fetchFundingBackwards(async before => {
+      cursors.push(before);
+      return RATES.filter(rate => rate.time < before).slice(-4).reverse();
+    }, { startTime: RATES[2].time, endTime: RATES[9].time });
+
+    expect(rates.map(rate => rate.time)).toEqual(RATES.slice(2, 10).map(rate => rate.time));
+    expect(cursors).toEqual([RATES[9].time + 1, RATES[6].time]);
+  });
+});
@@ -0,0 +1,150 @@
+import { expect, test } from '@playwright/test';
+import { PaperBroker } from '../services/brokers/paperBroker';
+import type { BrokerEvent } from '../services/brokers/types';
+
+const SYMBOL = 'BTCUSDT';
+const TAKER_FEE_RATE = 0.00055;
+const MAKER_FEE_RATE = 0.0002;
+
+// A fresh account with a two-level book on each side: asks 100 x1, 101 x2 / bids 99 x1, 98 x2
+const createBroker = (balance = 10_000) => {
+  const broker = new PaperBroker(balance);
+  broker.onOrderBook(SYMBOL, { asks: [['100', '1'], ['101', '2']], bids: [['99', '1'], ['98', '2']] });
+  return broker;
+};
+
+const balanceOf = async (broker: PaperBroker) => (await broker.getBalances())[0];
+
+test.describe('Paper broker', () => {
+  test('market orders walk the book and pay the taker fee', async () => {
+    const broker = createBroker();
+    const order = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 2, leverage: 10 });
+
+    expect(order.status).toBe('Filled');
+    expect(order.avgFillPrice).toBe(100.5);
+    expect(order.fee.toFixed(5)).toBe((201 * TAKER_FEE_RATE).toFixed(5));
+
+    const fills = await broker.getFills(SYMBOL);
+    expect(fills.map(f => [f.price, f.qty])).toEqual([[101, 1], [100, 1]]); // Most recent first
+
+    const [position] = await broker.getPositions();
+    expect(position.side).toBe('Long');
+    expect(position.quantity).toBe(2);
+    expect(position.entryPrice).toBe(100.5);
+    expect(position.margin).toBe(20.1);
+
+    const balance = await balanceOf(broker);
+    expect(balance.total.toFixed(5)).toBe((10_000 - 201 * TAKER_FEE_RATE).toFixed(5));
+    expect(balance.available.toFixed(5)).toBe((10_000 - 201 * TAKER_FEE_RATE - 20.1).toFixed(5));
+  });
+
+  test('fills what the book cannot cover at the worst level seen', async () => {
+    const broker = createBroker();
+    const order = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 5 });
+    expect(order.filledQty).toBe(5);
+    expect(order.avgFillPrice).toBe((100 + 101 * 4) / 5);
+  });
+
+  test('applies Bybit deltas to the book before filling', async () => {
+    const broker = createBroker();
+    broker.onOrderBook(SYMBOL, { type: 'delta', asks: [['100', '0'], ['100.5', '3']], bids: [] });
+    const order = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 1 });
+    expect(order.avgFillPrice).toBe(100.5);
+
+    broker.onOrderBook(SYMBOL, { type: 'snapshot', asks: [['105', '1']], bids: [['104', '1']] });
+    const next = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 1 });
+    expect(next.avgFillPrice).toBe(105);
+  });
+
+  test('reduce-only orders never open or grow a position', async () => {
+    const broker = createBroker();
+    const rejected = await broker.placeOrder({ symbol: SYMBOL, side: 'Sell', type: 'Market', qty: 1, reduceOnly: true });
+    expect(rejected.status).toBe('Rejected');
+    expect(rejected.rejectReason).toBe('Reduce-only order has no position to reduce.');
+
+    await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 2 });
+    const close = await broker.placeOrder({ symbol: SYMBOL, side: 'Sell', type: 'Market', qty: 5, reduceOnly: true });
+    expect(close.qty).toBe(2);
+    expect(close.avgFillPrice).toBe(98.5);
+    expect(await broker.getPositions()).toEqual([]);
+
+    const realized = (await broker.getFills(SYMBOL)).filter(f => f.orderId === close.id).reduce((sum, f) => sum + f.realizedPnl, 0);
+    expect(realized).toBe((99 - 100.5) + (98 - 100.5));
+  });
+
+  test('an order larger than the position flips it', async () => {
+    const broker = createBroker();
+    await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 1 });
+    await broker.placeOrder({ symbol: SYMBOL, side: 'Sell', type: 'Market', qty: 3 });
+
+    const positions = await broker.getPositions();
+    expect(positions).toHaveLength(1);
+    expect(positions[0].side).toBe('Short');
+    expect(positions[0].quantity).toBe(2);
+    expect(positions[0].entryPrice).toBe(98); // The first level closed the long, the rest opened the short
+  });
+
+  test('take profit and stop loss trigger on the price feed at their levels', async () => {
+    const broker = createBroker();
+    const events: BrokerEvent[] = [];
+    broker.subscribe(event => events.push(event));
+
+    await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Market', qty: 1, takeProfit: 110, stopLoss: 95 });
+    broker.onPrice(SYMBOL, 105);
+    expect(events.some(e => e.type === 'positionClosed')).toBe(false);
+
+    broker.onTrade(SYMBOL, { id: 1, price: '111', quantity: '0.5', time: 0, isBuyerMaker: false });
+    const closed = events.find(e => e.type === 'positionClosed');
+    expect(closed).toEqual({ type: 'positionClosed', symbol: SYMBOL, reason: 'TakeProfit', exitPrice: 110, realizedPnl: 10, fee: 110 * TAKER_FEE_RATE });
+    expect(await broker.getPositions()).toEqual([]);
+
+    await broker.placeOrder({ symbol: SYMBOL, side: 'Sell', type: 'Market', qty: 1, takeProfit: 90, stopLoss: 102 });
+    broker.onPrice(SYMBOL, 103);
+    const stopped = events.filter(e => e.type === 'positionClosed')[1];
+    expect(stopped.type === 'positionClosed' && stopped.reason).toBe('StopLoss');
+    expect(stopped.type === 'positionClosed' && stopped.realizedPnl).toBe(99 - 102);
+  });
+
+  test('limit orders take liquidity up to their price and rest the remainder', async () => {
+    const broker = createBroker();
+    const order = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Limit', qty: 2, price: 100 });
+    expect(order.status).toBe('PartiallyFilled');
+    expect(order.filledQty).toBe(1);
+
+    const [resting] = await broker.getOpenOrders(SYMBOL);
+    expect(resting.id).toBe(order.id);
+    expect(resting.qty - resting.filledQty).toBe(1);
+  });
+
+  test('resting limit orders fill as a maker when a trade prints through them', async () => {
+    const broker = createBroker();
+    const order = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Limit', qty: 1, price: 97, leverage: 10 });
+    expect(order.status).toBe('New');
+
+    broker.onPrice(SYMBOL, 98);
+    expect(await broker.getOpenOrders()).toHaveLength(1);
+
+    broker.onPrice(SYMBOL, 96.5);
+    expect(await broker.getOpenOrders()).toEqual([]);
+    const [fill] = await broker.getFills(SYMBOL);
+    expect(fill.isMaker).toBe(true);
+    expect(fill.price).toBe(97);
+    expect(fill.fee).toBe(97 * MAKER_FEE_RATE);
+
+    const [position] = await broker.getPositions();
+    expect(position.entryPrice).toBe(97);
+  });
+
+  test('resting limit orders reserve margin until they are cancelled', async () => {
+    const broker = createBroker(1_000);
+    const first = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Limit', qty: 90, price: 90, leverage: 10 });
+    expect((await balanceOf(broker)).available).toBe(1_000 - 810);
+
+    const second = await broker.placeOrder({ symbol: SYMBOL, side: 'Buy', type: 'Limit', qty: 25, price: 90, leverage: 10 });
+    expect(second.status).toBe('Rejected');
+    expect(second.rejectReason).toBe('Insufficient available balance.');
+
+    await broker.cancelOrder(SYMBOL, first.id);
+    expect((await balanceOf(broker)).available).toBe(1_000);
+  });
+});
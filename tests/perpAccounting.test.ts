@@ -0,0 +1,60 @@
+import { expect, test } from '@playwright/test';
+import { computePerpPnl, fundingBetween, fundingRateAt, isLiquidated, liquidationPrice } from '../services/perpAccounting';
+import type { FundingRate } from '../types';
+
+const HOUR_MS = 3600 * 1000;
+const rates: FundingRate[] = [
+  { time: 8 * HOUR_MS, rate: 0.0001, markPrice: 110 },
+  { time: 16 * HOUR_MS, rate: -0.0002 },
+  { time: 24 * HOUR_MS, rate: 0.0003 },
+];
+
+test.describe('perpAccounting', () => {
+  test('puts the isolated liquidation price where the margin falls to the maintenance margin', () => {
+    const long = liquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 10, maintenanceMarginRate: 0.005 });
+    const short = liquidationPrice({ side: 'SHORT', entryPrice: 100, leverage: 10, maintenanceMarginRate: 0.005 });
+    expect(long.toFixed(4)).toBe('90.4523');
+    expect(short.toFixed(4)).toBe('109.4527');
+    // Margin 10 + loss at the liquidation price equals the maintenance margin on the notional there
+    expect((10 + (long - 100)).toFixed(6)).toBe((0.005 * long).toFixed(6));
+    expect(liquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 1 })).toBe(0);
+  });
+
+  test('uses the whole account balance under cross margin', () => {
+    const isolated = liquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 10, quantity: 1 });
+    const cross = liquidationPrice({ side: 'LONG', entryPrice: 100, leverage: 10, quantity: 1, marginMode: 'cross', accountBalance: 50 });
+    expect(cross < isolated).toBe(true);
+    expect(cross.toFixed(4)).toBe('50.2513');
+  });
+
+  test('liquidates on the mark price crossing the liquidation price', () => {
+    expect(isLiquidated('LONG', 90, 90)).toBe(true);
+    expect(isLiquidated('LONG', 90, 91)).toBe(false);
+    expect(isLiquidated('SHORT', 110, 111)).toBe(true);
+    expect(isLiquidated('LONG', 0, 1)).toBe(false);
+  });
+
+  test('charges funding for settlements after opening, up to and including closing', () => {
+    // Long 2 units from 4h to 16h: pays 0.01% at 110, receives 0.02% at the fallback price
+    expect(fundingBetween(rates, 'LONG', 2, 4 * HOUR_MS, 16 * HOUR_MS, 100).toFixed(4)).toBe('-0.0180');
+    expect(fundingBetween(rates, 'SHORT', 2, 4 * HOUR_MS, 16 * HOUR_MS, 100).toFixed(4)).toBe('0.0180');
+    expect(fundingBetween(rates, 'LONG', 2, 8 * HOUR_MS, 8 * HOUR_MS, 100)).toBe(0);
+  });
+
+  test('falls back to the latest known funding rate', () => {
+    expect(fundingRateAt(rates, 20 * HOUR_MS)?.rate).toBe(-0.0002);
+    expect(fundingRateAt(rates, 40 * HOUR_MS)?.rate).toBe(0.0003);
+    expect(fundingRateAt(rates, HOUR_MS)).toBe(null);
+  });
+
+  test('nets fees and funding out of the price P&L', () => {
+    const byRate = computePerpPnl({ side: 'LONG', entryPrice: 100, exitPrice: 110, quantity: 2, margin: 20, entryFeeRate: 0.0002, exitFeeRate: 0.0005, funding: 0.5 });
+    expect(byRate.grossPnl).toBe(20);
+    expect(byRate.fees.toFixed(4)).toBe('0.1500');
+    expect(byRate.netPnl.toFixed(4)).toBe('19.3500');
+    expect(byRate.roe.toFixed(2)).toBe('96.75');
+
+    const logged = computePerpPnl({ side: 'SHORT', entryPrice: 100, exitPrice: 110, quantity: 2, margin: 20, fees: 1 });
+    expect(logged.netPnl).toBe(-21);
+  });
+});
@@ -0,0 +1,57 @@
+import { expect, test } from '@playwright/test';
+import { expectancyBands, percentile, runMonteCarlo, walkForward } from '../services/backtest/robustness';
+import type { TradeOutcome } from '../services/backtest/types';
+
+const DAY_MS = 24 * 3600 * 1000;
+const outcome = (day: number, returnPct: number, label = 'Swing'): TradeOutcome => ({ time: day * DAY_MS, returnPct, label });
+
+test.describe('robustness', () => {
+  test('interpolates percentiles', () => {
+    expect(percentile([1, 2, 3, 4, 5], 50)).toBe(3);
+    expect(percentile([0, 10], 25)).toBe(2.5);
+    expect(percentile([], 50)).toBe(0);
+  });
+
+  test('compounds identical trades into identical paths', () => {
+    const result = runMonteCarlo([outcome(1, 20), outcome(2, 20)], { paths: 50, marginPerTrade: 10, horizon: 3 });
+    expect(result.bands).toHaveLength(4);
+    // Each trade adds 2% of equity: 1.02^3
+    expect(result.finalReturn.p5.toFixed(4)).toBe('6.1208');
+    expect(result.finalReturn.p95.toFixed(4)).toBe('6.1208');
+    expect(result.riskOfRuin).toBe(0);
+    expect(result.probabilityOfLoss).toBe(0);
+  });
+
+  test('counts paths that hit the ruin drawdown and repeats with the same seed', () => {
+    const trades = [outcome(1, 100), outcome(2, -100)];
+    const first = runMonteCarlo(trades, { paths: 500, marginPerTrade: 50, ruinDrawdown: 60, horizon: 20, seed: 7 });
+    const second = runMonteCarlo(trades, { paths: 500, marginPerTrade: 50, ruinDrawdown: 60, horizon: 20, seed: 7 });
+    expect(first.riskOfRuin > 0).toBe(true);
+    expect(first.riskOfRuin < 100).toBe(true);
+    expect(second.riskOfRuin).toBe(first.riskOfRuin);
+    expect(second.finalReturn.p50).toBe(first.finalReturn.p50);
+  });
+
+  test('only calls an edge when the whole expectancy band clears zero', () => {
+    const steady = Array.from({ length: 30 }, (_, i) => outcome(i, 5 + (i % 3), 'Scalp'));
+    const coinFlip = Array.from({ length: 30 }, (_, i) => outcome(i, i % 2 === 0 ? 50 : -50, 'Swing'));
+    const [all, scalp, swing] = expectancyBands([...steady, ...coinFlip]);
+    expect(all.key).toBe('All');
+    expect(all.trades).toBe(60);
+    expect(scalp.verdict).toBe('edge');
+    expect(swing.verdict).toBe('noise');
+    expect(scalp.low <= scalp.expectancy && scalp.expectancy <= scalp.high).toBe(true);
+  });
+
+  test('trades only the labels that were profitable before each test window', () => {
+    // Scalps win throughout; swings win early and lose later
+    const trades = Array.from({ length: 40 }, (_, i) => [outcome(i, 10, 'Scalp'), outcome(i, i < 10 ? 20 : -20, 'Swing')]).flat();
+    const result = walkForward(trades, { folds: 3 });
+    expect(result.folds).toHaveLength(3);
+    expect(result.folds[0].selected).toEqual(['Scalp', 'Swing']);
+    expect(result.folds[0].outOfSampleExpectancy).toBe(-5);
+    expect(result.folds[2].selected).toEqual(['Scalp']);
+    expect(result.folds[2].outOfSampleExpectancy).toBe(10);
+    expect(walkForward(trades.slice(0, 2), { folds: 3 }).folds).toHaveLength(0);
+  });
+});
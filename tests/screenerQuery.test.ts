@@ -0,0 +1,103 @@
+import { expect, test } from '@playwright/test';
+import { compileQuery, describeEvaluation, evaluateQuery, evaluateQuerySeries } from '../utils/screenerQuery';
+import type { CandleStick } from '../types';
+
+// Closes rise by 1 per candle from 100
+const rising = (count: number): CandleStick[] =>
+  Array.from({ length: count }, (_, i) => ({ time: 1_700_000_000 + i * 3600, open: 100 + i, high: 101 + i, low: 99 + i, close: 101 + i, volume: 10 }));
+
+const matches = (source: string, candles: CandleStick[]) => evaluateQuery(compileQuery(source), { '1h': candles }).matched;
+
+test.describe('screener query language', () => {
+  test('parses with the usual precedence', () => {
+    const { ast } = compileQuery('close > 1 or close < 1 and not close > 2');
+    expect(ast.kind === 'binary' && ast.op).toBe('or');
+    expect(ast.kind === 'binary' && ast.right.kind === 'binary' && ast.right.op).toBe('and');
+
+    const { ast: arithmetic } = compileQuery('close - 1 * 2 > -3');
+    expect(JSON.stringify(arithmetic)).toBe(JSON.stringify({
+      kind: 'binary', op: '>',
+      left: { kind: 'binary', op: '-', left: { kind: 'call', name: 'close', args: [], source: 'close' }, right: { kind: 'binary', op: '*', left: { kind: 'number', value: 1 }, right: { kind: 'number', value: 2 } } },
+      right: { kind: 'unary', op: '-', operand: { kind: 'number', value: 3 } },
+    }));
+
+    // Parentheses override precedence, and a % suffix is only cosmetic
+    const candles = rising(30);
+    expect(matches('(close > 1 or close < 1) and close < 0', candles)).toBe(false);
+    expect(matches('close > 1 or close < 1 and close < 0', candles)).toBe(true);
+    expect(matches('change(24h) > 5% and change(24h) < 30', candles)).toBe(true);
+  });
+
+  test('reports syntax and type errors with readable messages', () => {
+    expect(() => compileQuery('  ')).toThrow('The query is empty.');
+    expect(() => compileQuery('rsi(14) and 3')).toThrow(/"and" must join two conditions/);
+    expect(() => compileQuery('rsi(14)')).toThrow(/must be a condition/);
+    expect(() => compileQuery('not close')).toThrow(/"not" expects a boolean operand/);
+    expect(() => compileQuery('-(close > 1) < 2')).toThrow(/"-" expects a number operand/);
+    expect(() => compileQuery('(close > 1) + 1 > 2')).toThrow(/expects numeric operands/);
+    expect(() => compileQuery('close >')).toThrow(/Expected a value at position 8 \(found end of query\)/);
+    expect(() => compileQuery('close > 1 )')).toThrow(/Unexpected input at position 11/);
+    expect(() => compileQuery('close > 1 # 2')).toThrow(/Unexpected character "#"/);
+    expect(() => compileQuery('foo(3) > 1')).toThrow(/Unknown function "foo"/);
+    expect(() => compileQuery('sma() > 1')).toThrow(/sma\(\) requires a period argument/);
+    expect(() => compileQuery('rsi(14.5) < 30')).toThrow(/must be a positive whole number/);
+    expect(() => compileQuery('rsi(14, 20, 1h) < 30')).toThrow(/Too many arguments/);
+    expect(() => compileQuery('change(5) > 1')).toThrow(/expects a single duration/);
+    expect(() => compileQuery('24h > 1')).toThrow(/can only be used as a function argument/);
+  });
+
+  test('takes a trailing timeframe argument and sizes candle requests per timeframe', () => {
+    expect(compileQuery('rsi(14,4h) < 30 and close(4h) > ema(200,4h) and change(24h) > 5%').requirements).toEqual([
+      { timeframe: '4h', limit: 600 },
+      { timeframe: '1h', limit: 25 },
+    ]);
+    // Defaults: 1h candles and enough history to warm the indicator up
+    expect(compileQuery('rsi() < 30').requirements).toEqual([{ timeframe: '1h', limit: 250 }]);
+    expect(compileQuery('sma(500) > 1').requirements).toEqual([{ timeframe: '1h', limit: 1000 }]);
+    expect(compileQuery('relvol(20, 15m) > 2').requirements).toEqual([{ timeframe: '15m', limit: 21 }]);
+    // Durations are measured on daily, hourly or minute candles
+    expect(compileQuery('change(7d) > 1').requirements).toEqual([{ timeframe: '1d', limit: 8 }]);
+    expect(compileQuery('change(90m) > 1').requirements).toEqual([{ timeframe: '1m', limit: 91 }]);
+    expect(() => compileQuery('rsi(14, 7m) < 30')).toThrow(/"7m" is not a supported timeframe/);
+  });
+
+  test('evaluates against candles and reports every value', () => {
+    const candles = rising(300);
+    const evaluation = evaluateQuery(compileQuery('close > sma(20) and rsi(14) > 70 and close / 0 > 1 or volume == 10'), { '1h': candles });
+    expect(evaluation.matched).toBe(true);
+    expect(evaluation.values.close).toBe(400);
+    expect(evaluation.values['sma(20)']).toBe(390.5);
+    expect(evaluation.values.volume).toBe(10);
+    expect(matches('change(24h) > 6.3 and change(24h) < 6.4', candles)).toBe(true);
+    expect(describeEvaluation(evaluateQuery(compileQuery('close > 1 and rsi(14) < 30'), { '1h': rising(5) }))).toBe('close = 105; rsi(14) = n/a');
+  });
+
+  test('treats values without enough history as unknown', () => {
+    const short = rising(5);
+    expect(matches('rsi(14) < 30', short)).toBe(false);
+    expect(matches('not rsi(14) < 30', short)).toBe(false);
+    expect(matches('not (rsi(14) == 30)', short)).toBe(matches('rsi(14) != 30', short));
+    expect(matches('rsi(14) < 30 and close > 0', short)).toBe(false);
+    expect(matches('rsi(14) < 30 or close > 0', short)).toBe(true);
+    // A false side settles "and" and "not" turns it true, whatever the unknown side is
+    expect(matches('not (rsi(14) < 30 and close < 0)', short)).toBe(true);
+    expect(matches('not (rsi(14) < 30 or close < 0)', short)).toBe(false);
+    // Missing timeframes are unknown too
+    expect(evaluateQuery(compileQuery('not rsi(14, 4h) > 50'), { '1h': rising(300) }).matched).toBe(false);
+
+    const long = rising(300);
+    expect(matches('not rsi(14) < 30', long)).toBe(true);
+  });
+
+  test('evaluates every candle of a series like the screener evaluates the latest one', () => {
+    // Closes swing by ±3 around a slow climb, so the conditions flip back and forth
+    const candles = rising(60).map((candle, i) => ({ ...candle, close: candle.close + (i % 4 < 2 ? 3 : -3) }));
+    const query = compileQuery('sma(5) > sma(10) and bbwidth(5) > 2 or change(3h) < -2 and volume >= relvol(3) * 10');
+    const series = evaluateQuerySeries(query, '1h', candles);
+
+    expect(series).toEqual(candles.map((_, i) => evaluateQuery(query, { '1h': candles.slice(0, i + 1) }).matched));
+    expect(series.some(Boolean)).toBe(true);
+    expect(series.every(Boolean)).toBe(false);
+    expect(evaluateQuerySeries(compileQuery('close(4h) > 0'), '1h', candles).some(Boolean)).toBe(false);
+  });
+});
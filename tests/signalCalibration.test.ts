@@ -0,0 +1,62 @@
+import { expect, test } from '@playwright/test';
+import { brierScore, buildCalibrationReport, calibrationBreakdown, reliabilityBuckets } from '../utils/signalCalibration';
+import type { SavedSignal } from '../types';
+
+let nextId = 0;
+const signal = (confidence: number, status: SavedSignal['status'], overrides: Partial<SavedSignal> = {}): SavedSignal => ({
+  id: `sig-${nextId++}`,
+  symbol: 'BTCUSDT',
+  timeframe: '1h',
+  timestamp: 0,
+  status,
+  currentPrice: 100,
+  direction: 'LONG',
+  entryRange: [99, 100],
+  stopLoss: 95,
+  takeProfit: [110],
+  confidence,
+  rrRatio: 2,
+  leverage: 10,
+  tradeDuration: '4hr',
+  reasoning: '',
+  ...overrides,
+} as SavedSignal);
+
+test.describe('signal calibration', () => {
+  test('scores confidence against outcomes', () => {
+    expect(brierScore([signal(80, 'Win'), signal(80, 'Loss')])!.toFixed(2)).toBe('0.34');
+    expect(brierScore([])).toBe(null);
+  });
+
+  test('buckets resolved signals by confidence and skips the rest', () => {
+    const buckets = reliabilityBuckets([
+      signal(62, 'Win'), signal(68, 'Loss'), signal(100, 'Win'),
+      signal(90, 'Pending'), signal(70, 'Closed'), signal(0, 'Win', { type: 'Manual' }),
+    ]);
+    expect(buckets.map(bucket => bucket.range)).toEqual(['60-70', '90-100']);
+    expect(buckets[0].winRate).toBe(50);
+    expect(buckets[0].avgConfidence).toBe(65);
+    expect(buckets[1].signals).toBe(1);
+  });
+
+  test('breaks win rate down by model and falls back for older signals', () => {
+    const signals = [
+      signal(70, 'Win', { model: 'gemini-2.5-pro' }),
+      signal(70, 'Win', { model: 'gemini-2.5-pro' }),
+      signal(70, 'Loss', { model: 'gemini-2.5-flash' }),
+      signal(70, 'Loss'),
+    ];
+    const groups = calibrationBreakdown(signals, 'model');
+    expect(groups.map(group => group.key)).toEqual(['Gemini 2.5 Pro', 'Gemini 2.5 Flash', 'Unknown']);
+    expect(groups[0].winRate).toBe(100);
+    expect(calibrationBreakdown(signals, 'type')[0].key).toBe('Swing');
+  });
+
+  test('compares the Brier score with always guessing the win rate', () => {
+    const report = buildCalibrationReport([signal(90, 'Win'), signal(90, 'Win'), signal(20, 'Loss'), signal(60, 'Pending')]);
+    expect(report.resolved).toBe(3);
+    expect(report.unresolved).toBe(1);
+    expect(report.baselineBrierScore!.toFixed(4)).toBe('0.2222');
+    expect(report.brierScore! < report.baselineBrierScore!).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+import { expect, test } from '@playwright/test';
+import { SIGNAL_PROMPTS, SIGNAL_RESPONSE_SCHEMA, type SignalMarketData } from '../services/signalPipeline';
+import { FixtureProvider } from '../services/llm/fixtureProvider';
+import { DEFAULT_FIXTURES } from '../services/llm/fixtures';
+import { validateSignal } from '../services/signalValidation';
+import type { CandleStick, UserParams } from '../types';
+
+const candles = (count: number, close: number): CandleStick[] =>
+  Array.from({ length: count }, (_, index) => ({ time: 1_700_000_000 + index * 60, open: close, high: close + 1, low: close - 1, close, volume: 10 }));
+
+const params = {
+  exchange: 'binance',
+  model: 'gemini-2.5-flash',
+  symbol: 'ETHUSDT',
+  timeframe: '15m',
+  opportunityDuration: '1-4 hours',
+  allowHighLeverage: false,
+  customAiParams: '',
+  tradingStyle: 'Range Scalp',
+} as UserParams;
+
+const data: SignalMarketData = { livePrice: 2500, primary: candles(150, 2500), htf: candles(100, 2490), ltf: candles(20, 2501) };
+
+test.describe('signal pipeline', () => {
+  test('versions every template', () => {
+    expect(SIGNAL_PROMPTS.swing.version).toBe('swing-v2');
+    expect(SIGNAL_PROMPTS.scalp.version).toBe('scalp-v1');
+  });
+
+  test('builds the swing prompt with the lower timeframe and opportunity duration', () => {
+    const prompt = SIGNAL_PROMPTS.swing.build(params, data, {});
+    expect(prompt).toMatch(/Desired Opportunity Duration: 1-4 hours/);
+    expect(prompt).toMatch(/Lower Timeframe Confirmation \(Last 20 candles\)/);
+    expect(prompt).toMatch(/Current Market Price \(from last closed candle\): 2500/);
+  });
+
+  test('builds the scalping prompt with order flow and trading style', () => {
+    const prompt = SIGNAL_PROMPTS.scalp.build(params, data, { orderBook: null, liveTrades: [] });
+    expect(prompt).toMatch(/- Price: 2500/);
+    expect(prompt).toMatch(/Preferred Trading Style: Range Scalp/);
+    expect(prompt).toMatch(/Order Book Snapshot:\nNot available\./);
+  });
+
+  test('both templates replay offline into a valid signal', async () => {
+    const provider = new FixtureProvider(DEFAULT_FIXTURES);
+    for (const template of [SIGNAL_PROMPTS.swing, SIGNAL_PROMPTS.scalp]) {
+      const response = await provider.generateJson({
+        model: params.model,
+        prompt: template.build(params, data, {}),
+        systemInstruction: template.systemInstruction,
+        schema: SIGNAL_RESPONSE_SCHEMA,
+      });
+      expect(validateSignal(response, { livePrice: data.livePrice, timeframe: params.timeframe }).issues).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,78 @@
+import { expect, test } from '@playwright/test';
+import { isUnresolved, resolveSignalFromCandles, resolverTimeframe } from '../services/signalResolver';
+import type { CandleStick, SavedSignal } from '../types';
+
+const MINUTE = 60;
+const START = 1_700_000_040; // seconds, on a minute boundary
+
+const signal = (overrides: Partial<SavedSignal> = {}): SavedSignal => ({
+  id: 'sig-1',
+  symbol: 'BTCUSDT',
+  timeframe: '1m',
+  timestamp: START * 1000,
+  status: 'Pending',
+  currentPrice: 101,
+  direction: 'LONG',
+  entryRange: [99, 100],
+  stopLoss: 97,
+  takeProfit: [103, 105],
+  tradeDuration: '30m',
+  hitTps: [],
+  ...overrides,
+} as SavedSignal);
+
+const candle = (minute: number, low: number, high: number, open = (low + high) / 2): CandleStick =>
+  ({ time: START + minute * MINUTE, open, high, low, close: open, volume: 1 } as CandleStick);
+
+const afterMinutes = (minutes: number) => (START + minutes * MINUTE) * 1000;
+
+test.describe('signal resolver', () => {
+  test('waits for the entry, then records take profits in order', () => {
+    const candles = [candle(0, 100.5, 102), candle(1, 99.5, 101), candle(2, 100, 103.5), candle(3, 102, 105.2)];
+    const result = resolveSignalFromCandles(signal(), candles, '1m', afterMinutes(10))!;
+    expect(result.status).toBe('Win');
+    expect(result.hitTps).toEqual([0, 1]);
+    expect(result.events!.map(event => event.type)).toEqual(['Entry', 'Take Profit', 'Take Profit']);
+    expect(result.events![0].time).toBe(afterMinutes(1));
+    expect(result.resolvedAt).toBe(afterMinutes(3));
+  });
+
+  test('checks only the stop on the entry candle and the stop first after it', () => {
+    const entryCandle = resolveSignalFromCandles(signal(), [candle(0, 99, 104)], '1m', afterMinutes(10))!;
+    expect(entryCandle.status).toBe('Pending');
+    expect(entryCandle.resolvedAt).toBe(undefined);
+
+    const both = resolveSignalFromCandles(signal(), [candle(0, 99, 100.5), candle(1, 96, 104)], '1m', afterMinutes(10))!;
+    expect(both.status).toBe('Loss');
+    expect(both.hitTps).toEqual([]);
+    expect(both.events![1].type).toBe('Stop Loss');
+  });
+
+  test('expires a signal that never filled', () => {
+    const candles = Array.from({ length: 35 }, (_, minute) => candle(minute, 101, 102));
+    const result = resolveSignalFromCandles(signal(), candles, '1m', afterMinutes(40))!;
+    expect(result.status).toBe('Closed');
+    expect(result.events!.map(event => event.type)).toEqual(['Expired']);
+    expect(result.resolvedAt).toBe(afterMinutes(30));
+    expect(isUnresolved({ ...signal(), ...result })).toBe(false);
+  });
+
+  test('resumes from the last checked candle and ignores candles still forming', () => {
+    const first = resolveSignalFromCandles(signal(), [candle(0, 99.5, 101), candle(1, 100, 101), candle(2, 100, 104)], '1m', afterMinutes(2) + 30_000)!;
+    expect(first.lastDataTimestamp).toBe(START + MINUTE);
+    expect(first.hitTps).toEqual([]);
+
+    const resumed = { ...signal(), ...first };
+    expect(resolveSignalFromCandles(resumed, [candle(1, 100, 101)], '1m', afterMinutes(3))).toBe(null);
+    const second = resolveSignalFromCandles(resumed, [candle(1, 96, 101), candle(2, 100, 104)], '1m', afterMinutes(3))!;
+    expect(second.status).toBe('Win');
+    expect(second.hitTps).toEqual([0]);
+    expect(second.events!.filter(event => event.type === 'Entry')).toHaveLength(1);
+  });
+
+  test('picks coarser candles for longer-lived signals', () => {
+    expect(resolverTimeframe(signal())).toBe('1m');
+    expect(resolverTimeframe(signal({ tradeDuration: '48hr' }))).toBe('5m');
+    expect(resolverTimeframe(signal({ tradeDuration: 'Any time frame', type: 'Swing' }))).toBe('15m');
+  });
+});
@@ -0,0 +1,81 @@
+import { expect, test } from '@playwright/test';
+import { requestValidatedSignal, validateSignal, MAX_SIGNAL_REPAIRS } from '../services/signalValidation';
+
+const context = { livePrice: 100, timeframe: '1h' as const };
+
+const response = (overrides: Record<string, unknown> = {}) => ({
+  direction: 'LONG',
+  entryRange: [100, 99],
+  takeProfit: [103, 106],
+  stopLoss: 98,
+  confidence: 104.4,
+  rrRatio: 9,
+  leverage: 10,
+  predictedMoveDuration: '2-4 hours',
+  reasoning: 'Test',
+  ...overrides,
+});
+
+test.describe('signal validation', () => {
+  test('repairs derived fields of a valid response', () => {
+    const { signal, issues } = validateSignal(response(), context);
+    expect(issues).toEqual([]);
+    expect(signal?.entryRange).toEqual([99, 100]);
+    expect(signal?.tradeDuration).toBe('2-4 hours');
+    expect(signal?.confidence).toBe(100);
+    // (103 - 99.5) / (99.5 - 98)
+    expect(signal?.rrRatio).toBe(2.33);
+  });
+
+  test('rejects levels on the wrong side of the entry or out of order', () => {
+    const short = validateSignal(response({ direction: 'SHORT', takeProfit: [95, 97], stopLoss: 99.5 }), context);
+    expect(short.signal).toBe(null);
+    expect(short.issues).toHaveLength(2);
+    expect(short.issues[0]).toMatch(/stopLoss 99.5 must be above/);
+    expect(short.issues[1]).toMatch(/descending order/);
+
+    const long = validateSignal(response({ takeProfit: [99.5, 103] }), context);
+    expect(long.issues).toEqual(['takeProfit 99.5 must be above the entry range 99–100 for a LONG.']);
+  });
+
+  test('rejects entries far from the live price and malformed responses', () => {
+    expect(validateSignal(response(), { livePrice: 110, timeframe: '1h' }).issues[0]).toMatch(/9.5% from the current price 110; keep it within 3%/);
+    expect(validateSignal(response({ entryRange: [99], stopLoss: 'low' }), context).issues).toEqual([
+      'entryRange must be two positive prices.',
+      'stopLoss must be a positive price.',
+    ]);
+  });
+
+  test('retries with a correction prompt, then gives up', async () => {
+    const prompts: string[] = [];
+    const signal = await requestValidatedSignal(async prompt => {
+      prompts.push(prompt);
+      return prompts.length === 1 ? response({ stopLoss: 101 }) : response();
+    }, 'Base prompt', context);
+    expect(signal.stopLoss).toBe(98);
+    expect(prompts[1]).toMatch(/^Base prompt[\s\S]*"stopLoss":101[\s\S]*- stopLoss 101 must be below the entry range 99–100 for a LONG\./);
+
+    let attempts = 0;
+    await expect(requestValidatedSignal(async () => { attempts++; return response({ stopLoss: 101 }); }, 'Base prompt', context))
+      .rejects.toThrow('invalid signal from AI after 3 attempts');
+    expect(attempts).toBe(MAX_SIGNAL_REPAIRS + 1);
+  });
+
+  test('retries responses that are not valid JSON, but not other failures', async () => {
+    const prompts: string[] = [];
+    const signal = await requestValidatedSignal(async prompt => {
+      prompts.push(prompt);
+      return prompts.length === 1 ? JSON.parse('{"direction": "LONG",') : response();
+    }, 'Base prompt', context);
+    expect(signal.stopLoss).toBe(98);
+    expect(prompts[1]).toMatch(/^Base prompt[\s\S]*\(not valid JSON\)[\s\S]*- The response was not valid JSON \(/);
+
+    let attempts = 0;
+    await expect(requestValidatedSignal(async () => { attempts++; throw new Error('Quota exceeded'); }, 'Base prompt', context))
+      .rejects.toThrow('Quota exceeded');
+    expect(attempts).toBe(1);
+
+    await expect(requestValidatedSignal(async () => JSON.parse('not json'), 'Base prompt', context))
+      .rejects.toThrow(/invalid signal from AI after 3 attempts: The response was not valid JSON/);
+  });
+});
@@ -0,0 +1,178 @@
+import { expect, test } from '@playwright/test';
+import type { CandleStick, IntrabarPolicy, SimulationSetup } from '../types';
+import { createSimulatedTrade, priceMovementSince, simulatedPnl, stepSimulatedTrade, type SimulatedTrade } from '../utils/simulationTrade';
+
+const START = 1_700_000_000;
+
+const bar = (index: number, open: number, high: number, low: number, close: number): CandleStick =>
+  ({ time: START + index * 3600, open, high, low, close, volume: 100 });
+
+// Long from 100 at 10x: TP1 102 (50%), TP2 104 (30%), TP3 106 (the rest), stop 98. No slippage, so exits fill at their level.
+const setup = (overrides: Partial<SimulationSetup> = {}): SimulationSetup => ({
+  id: 'sim-1', exchange: 'binance', symbol: 'BTCUSDT', direction: 'LONG',
+  entryRange: [100, 101], takeProfit: [102, 104, 106], stopLoss: 98, leverage: 10,
+  timestamp: START * 1000, endTime: (START + 86400) * 1000, mode: 'replay', status: 'running', slippageBps: 0,
+  ...overrides,
+});
+
+// A trade that entered at 100 on the first candle without touching anything else
+const enteredTrade = (simulation: SimulationSetup): SimulatedTrade => {
+  const trade = createSimulatedTrade(simulation);
+  expect(stepSimulatedTrade(trade, simulation, bar(0, 101, 101.5, 99.8, 101), 0)).toEqual({ outcome: null, isComplete: false });
+  expect(trade.isActive).toBe(true);
+  return trade;
+};
+
+// Touches the stop (98) and TP1 (102) in the same hour
+const AMBIGUOUS_GREEN = bar(1, 100, 102.5, 97.5, 101);
+const AMBIGUOUS_RED = bar(1, 101, 102.5, 97.5, 100);
+
+test.describe('Simulated trade exits', () => {
+  test('scales out at each take profit and weights the realized P&L by the share closed', () => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+
+    expect(stepSimulatedTrade(trade, simulation, bar(1, 101, 102.5, 100.5, 102), 1).outcome).toBe('TP1 Hit');
+    expect(trade.openPercent).toBe(50);
+    expect(trade.realizedPnl).toBe(10); // 50% of a 2% move at 10x
+    expect(trade.stop).toBe(100);
+    expect(trade.stopKind).toBe('breakeven');
+
+    expect(stepSimulatedTrade(trade, simulation, bar(2, 102, 104.2, 101.5, 104), 2).outcome).toBe('TP2 Hit');
+    expect(trade.openPercent).toBe(20);
+    expect(trade.realizedPnl.toFixed(6)).toBe('22.000000'); // + 30% of a 4% move at 10x
+
+    expect(stepSimulatedTrade(trade, simulation, bar(3, 104, 104.5, 99.9, 100.5), 3)).toEqual({ outcome: 'Breakeven', isComplete: true });
+    expect(trade.exits.map(({ reason, price, percent }) => [reason, price, percent])).toEqual([
+      ['Take Profit', 102, 50], ['Take Profit', 104, 30], ['Breakeven', 100, 20],
+    ]);
+    expect(trade.realizedPnl.toFixed(6)).toBe('22.000000');
+
+    // Maker fees on the entry and both targets, a taker fee on the stop; Binance VIP 0, as % of margin
+    const fees = 0.0002 * 1000 * (1 + 0.5 * 1.02 + 0.3 * 1.04) + 0.0005 * 1000 * 0.2;
+    expect(trade.fees.toFixed(6)).toBe(fees.toFixed(6));
+    expect(simulatedPnl(trade, simulation, 100).toFixed(6)).toBe((22 - fees).toFixed(6));
+  });
+
+  test('the last take profit closes whatever is left', () => {
+    const simulation = setup({ scaling: { tpAllocation: [50, 30, 20], breakevenAfterTp1: false, trailingStop: 'none', trailingDistance: 1.5, atrPeriod: 14 } });
+    const trade = enteredTrade(simulation);
+    expect(stepSimulatedTrade(trade, simulation, bar(1, 101, 106.5, 100.5, 106), 1)).toEqual({ outcome: 'TP3 Hit', isComplete: true });
+    expect(trade.exits.map(exit => exit.percent)).toEqual([50, 30, 20]);
+    expect(trade.realizedPnl.toFixed(6)).toBe((10 + 12 + 12).toFixed(6));
+    expect(trade.stop).toBe(98);
+  });
+
+  test('a stop on the entry candle closes the trade on that candle', () => {
+    const simulation = setup();
+    const trade = createSimulatedTrade(simulation);
+    expect(stepSimulatedTrade(trade, simulation, bar(0, 101, 101, 97.5, 98.5), 0)).toEqual({ outcome: 'SL Hit', isComplete: true });
+    expect(trade.entryCandleIndex).toBe(0);
+    expect(trade.realizedPnl).toBe(-20);
+  });
+
+  test('a trailing stop only takes effect from the candle after it moved', () => {
+    const simulation = setup({ scaling: { tpAllocation: [50, 30, 20], breakevenAfterTp1: true, trailingStop: 'percent', trailingDistance: 1, atrPeriod: 14 } });
+    const trade = enteredTrade(simulation);
+
+    // Trails to 101.8 - 1% = 100.782, below this candle's low of 100.5 but only from the next candle
+    expect(stepSimulatedTrade(trade, simulation, bar(1, 101, 101.8, 100.5, 101.5), 1).outcome).toBe(null);
+    expect(trade.stop.toFixed(3)).toBe('100.782');
+    expect(trade.stopKind).toBe('trailing');
+
+    expect(stepSimulatedTrade(trade, simulation, bar(2, 101.5, 101.6, 100.7, 100.9), 2)).toEqual({ outcome: 'Trailing Stop', isComplete: true });
+    expect(trade.exits[0].price.toFixed(3)).toBe('100.782');
+  });
+});
+
+test.describe('Simulated trade intrabar ordering', () => {
+  const resolve = (candle: CandleStick, policy: IntrabarPolicy) => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+    const step = stepSimulatedTrade(trade, simulation, candle, 1, { policy });
+    return { step, trade };
+  };
+
+  test('the pessimistic policy takes the stop first', () => {
+    const { step, trade } = resolve(AMBIGUOUS_GREEN, 'pessimistic');
+    expect(step).toEqual({ outcome: 'SL Hit', isComplete: true });
+    expect(trade.realizedPnl).toBe(-20);
+    expect(trade.exits[0].resolvedBy).toBe('pessimistic');
+    expect(trade.ambiguousCandles).toBe(1);
+    expect(trade.resolvedByData).toBe(0);
+  });
+
+  test('the optimistic policy takes TP1 first, then the breakeven stop', () => {
+    const { step, trade } = resolve(AMBIGUOUS_GREEN, 'optimistic');
+    expect(step).toEqual({ outcome: 'Breakeven', isComplete: true });
+    expect(trade.exits.map(({ reason, percent }) => [reason, percent])).toEqual([['Take Profit', 50], ['Breakeven', 50]]);
+    expect(trade.realizedPnl).toBe(10);
+  });
+
+  test('the OHLC policy follows the candle colour', () => {
+    // Green: open → low → high, so a long is stopped first
+    expect(resolve(AMBIGUOUS_GREEN, 'ohlc').step.outcome).toBe('SL Hit');
+    // Red: open → high → low, so TP1 fills before the price falls back through breakeven
+    expect(resolve(AMBIGUOUS_RED, 'ohlc').step.outcome).toBe('Breakeven');
+  });
+});
+
+test.describe('Simulated trade sub-candles', () => {
+  test('1m candles decide which level came first', () => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+    const subCandles = [
+      { ...AMBIGUOUS_GREEN, high: 102.5, low: 100.5, close: 102 }, // TP1 first
+      { ...AMBIGUOUS_GREEN, time: AMBIGUOUS_GREEN.time + 60, open: 102, high: 102, low: 97.5, close: 101 },
+    ];
+    const step = stepSimulatedTrade(trade, simulation, AMBIGUOUS_GREEN, 1, { policy: 'pessimistic', subCandles });
+
+    expect(step).toEqual({ outcome: 'Breakeven', isComplete: true });
+    expect(trade.exits.map(({ reason, resolvedBy }) => [reason, resolvedBy])).toEqual([['Take Profit', 'data'], ['Breakeven', 'data']]);
+    expect(trade.ambiguousCandles).toBe(1);
+    expect(trade.resolvedByData).toBe(1);
+  });
+
+  test('falls back to the policy when a 1m candle is ambiguous too, or there are too few of them', () => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+    const subCandles = [AMBIGUOUS_GREEN, { ...AMBIGUOUS_GREEN, time: AMBIGUOUS_GREEN.time + 60 }];
+    expect(stepSimulatedTrade(trade, simulation, AMBIGUOUS_GREEN, 1, { policy: 'optimistic', subCandles }).outcome).toBe('Breakeven');
+    expect(trade.exits[0].resolvedBy).toBe('optimistic');
+    expect(trade.resolvedByData).toBe(0);
+
+    const single = enteredTrade(simulation);
+    expect(stepSimulatedTrade(single, simulation, AMBIGUOUS_GREEN, 1, { policy: 'pessimistic', subCandles: [AMBIGUOUS_GREEN] }).outcome).toBe('SL Hit');
+    expect(single.exits[0].resolvedBy).toBe('pessimistic');
+  });
+});
+
+test.describe('Simulated trade live candles', () => {
+  // Three updates of the same forming candle: a dip to 99.6, a rally through TP1, then a pullback to 101.5
+  const updates = [bar(1, 101, 101, 99.6, 100.5), bar(1, 101, 102.5, 99.6, 102.2), bar(1, 101, 102.5, 99.6, 101.5)];
+
+  test('only the range traded since the previous update is acted on', () => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+    updates.forEach((candle, i) => {
+      const movement = i > 0 ? priceMovementSince(updates[i - 1], candle) : undefined;
+      stepSimulatedTrade(trade, simulation, candle, 1, { policy: 'pessimistic', movement });
+    });
+    // The dip to 99.6 came before TP1 moved the stop to 100, so it must not close the rest
+    expect(trade.isActive).toBe(true);
+    expect(trade.openPercent).toBe(50);
+    expect(trade.exits.map(exit => exit.reason)).toEqual(['Take Profit']);
+  });
+
+  test('without the movement, the old low would hit the moved stop', () => {
+    const simulation = setup();
+    const trade = enteredTrade(simulation);
+    const outcomes = updates.map(candle => stepSimulatedTrade(trade, simulation, candle, 1).outcome);
+    expect(outcomes).toEqual([null, 'TP1 Hit', 'Breakeven']);
+  });
+
+  test('the movement runs from the previous close through any new extreme', () => {
+    expect(priceMovementSince(updates[0], updates[1])).toEqual({ ...updates[1], open: 100.5, high: 102.5, low: 100.5 });
+    expect(priceMovementSince(updates[1], updates[2])).toEqual({ ...updates[2], open: 102.2, high: 102.2, low: 101.5 });
+  });
+});
@@ -1,4 +1,9 @@
-export type Exchange = 'binance' | 'bybit';
+import type { ExchangeName } from '@/services/exchanges/registry';
+import type { BrokerName } from '@/services/brokers/registry';
+import type { LlmProviderName } from '@/services/llm/registry';
+
+export type Exchange = ExchangeName;
+export type BrokerId = BrokerName;
 
 export type Page =
   | 'dashboard'
@@ -21,7 +26,8 @@ export type Page =
   | 'settings'
   | 'discover'
   | 'messages'
-  | 'manual-studio';
+  | 'manual-studio'
+  | 'alerts';
 
 // PageContext interface is defined here to break circular dependencies
 export interface PageContext {
@@ -38,7 +44,7 @@ export interface PageContext {
 export interface AiModel {
   id: string;
   name: string;
-  provider: 'gemini';
+  provider: LlmProviderName;
   description: string;
 }
 
@@ -51,6 +57,15 @@ export interface CandleStick {
   high: number;
   low: number;
   close: number;
+  volume: number; // Base asset volume traded during the candle
+  quoteVolume?: number; // Quote asset (USDT) volume, when the exchange provides it
+  trades?: number; // Number of trades, when the exchange provides it
+}
+
+export interface FundingRate {
+  time: number; // Settlement time, in ms
+  rate: number; // Fraction of notional paid by longs to shorts (negative: shorts pay longs)
+  markPrice?: number; // Mark price at settlement, when the exchange provides it
 }
 
 export interface UserParams {
@@ -67,6 +82,7 @@ export interface UserParams {
   allowHighLeverage: boolean;
   customAiParams: string;
   tradingStyle?: string;
+  ensemble?: EnsembleSettings;
 }
 
 export interface Signal {
@@ -88,8 +104,36 @@ export interface Signal {
     midTerm: 'Bullish' | 'Bearish' | 'Neutral';
     longTerm: 'Bullish' | 'Bearish' | 'Neutral';
   };
+  ensemble?: EnsembleResult; // Set when the signal merges several model runs
+  promptVersion?: string; // SIGNAL_PROMPTS template version, e.g. 'swing-v2'. Missing on manual and older signals
+}
+
+export interface EnsembleSettings {
+  enabled: boolean;
+  models: string[]; // AI_MODELS ids. The selected model alone when empty
+  samplesPerModel: number;
+}
+
+export interface EnsembleMember {
+  model: string;
+  sample: number; // 1-based, per model
+  direction?: Signal['direction'];
+  confidence?: number;
+  entryRange?: [number, number];
+  takeProfit?: number[];
+  stopLoss?: number;
+  reasoning?: string;
+  error?: string; // Set instead of the levels when the run failed
+}
+
+export interface EnsembleResult {
+  consensus: number; // 0-100, share of all runs, failed ones included, that agree with the merged direction
+  members: EnsembleMember[];
+  dissent: EnsembleMember[]; // Successful runs that called the other direction
 }
 
+export type AutoExecutionBasis = 'confidence' | 'consensus';
+
 export interface SavedSignal extends Signal {
   id: string;
   symbol: string;
@@ -100,6 +144,19 @@ export interface SavedSignal extends Signal {
   lastDataTimestamp?: number; // Timestamp of the last candle used
   type?: 'Scalp' | 'Swing' | 'Manual'; // New field to categorize the signal
   hitTps?: number[]; // Array of TP indices hit (e.g., [0, 1] for TP1 and TP2)
+  exchange?: Exchange; // Where the signal's candles came from; binance when missing
+  model?: string; // AI_MODELS id the signal was generated with
+  tradingStyle?: string; // UserParams.tradingStyle at generation
+  events?: SignalEvent[]; // Entry fill, take profits, stop loss and expiry, oldest first
+  resolvedAt?: number; // ms. Set once nothing more can happen to the signal
+}
+
+export interface SignalEvent {
+  type: 'Entry' | 'Take Profit' | 'Stop Loss' | 'Expired';
+  time: number; // ms
+  price: number;
+  tpIndex?: number;
+  source: 'live' | 'candles'; // Seen on the live price, or found later in historical candles
 }
 
 export interface TrackedSignal {
@@ -126,10 +183,42 @@ export interface NewsArticle {
   category?: string;
 }
 
+export interface PositionScaling {
+  tpAllocation: number[]; // Percentage of the position closed at each TP; the last TP closes whatever is left
+  breakevenAfterTp1: boolean; // Move the stop to the entry price once TP1 is hit
+  trailingStop: 'none' | 'percent' | 'atr';
+  trailingDistance: number; // Percent of price, or a multiple of the ATR
+  atrPeriod: number;
+}
+
+// How to order the stop and a take profit touched by the same candle when lower-timeframe data can't tell:
+// stop first, take profit first, or along the open → high/low → close path implied by the candle's colour
+export type IntrabarPolicy = 'pessimistic' | 'optimistic' | 'ohlc';
+
+export interface SimulationExit {
+  reason: 'Take Profit' | 'Stop Loss' | 'Breakeven' | 'Trailing Stop' | 'Liquidated' | 'Expired' | 'Stopped';
+  price: number; // Fill price, after slippage for market exits
+  percent: number; // Share of the original position closed by this exit
+  time: number; // Candle time, in seconds
+  tpIndex?: number;
+  resolvedBy?: 'data' | IntrabarPolicy; // Set when the candle touched both the stop and a take profit
+}
+
 export interface SimulationResult {
-  outcome: "TP1 Hit" | "TP2 Hit" | "TP3 Hit" | "SL Hit" | "Expired" | "Stopped";
+  outcome: "TP1 Hit" | "TP2 Hit" | "TP3 Hit" | "SL Hit" | "Breakeven" | "Trailing Stop" | "Liquidated" | "Expired" | "Stopped";
   duration: string;
-  pnl: number;
+  pnl: number; // Leveraged return on margin, weighted across all partial exits, net of fees and funding
+  exits?: SimulationExit[];
+  costs?: {
+    fees: number; // Entry and exit fees, as % of margin
+    funding: number; // Funding paid (negative: received), as % of margin
+    liquidationPrice: number;
+  };
+  intrabar?: {
+    policy: IntrabarPolicy;
+    ambiguousCandles: number; // Candles that touched both the stop and a take profit
+    resolvedByData: number; // ...of which 1m candles settled the order without the policy
+  };
 }
 
 export interface SimulationSetup {
@@ -145,8 +234,15 @@ export interface SimulationSetup {
   endTime: number;
   mode: 'replay' | 'live';
   status: 'pending' | 'running' | 'completed' | 'paused';
+  signalType?: SavedSignal['type']; // Type of the saved signal being replayed; manual setups have none
+  scaling?: PositionScaling; // Falls back to DEFAULT_POSITION_SCALING
+  replayTimeframe?: Timeframe; // Candles a replay steps through, '1m' by default
+  intrabarPolicy?: IntrabarPolicy; // Falls back to 'pessimistic'
+  feeTier?: string; // Name of one of the venue's VENUE_FEE_TIERS, its base tier by default
+  slippageBps?: number; // Adverse slippage on market exits, DEFAULT_SLIPPAGE_BPS by default
   result?: SimulationResult;
   historicalData?: CandleStick[];
+  fundingRates?: FundingRate[]; // Funding settlements for the period, fetched with the candles
 }
 
 export interface SpotTrade {
@@ -175,9 +271,12 @@ export interface PerpTrade {
   quantity: number;
   margin: number;
   leverage: number;
-  pnl?: number; // Profit and Loss
+  pnl?: number; // Net Profit and Loss, after fees and funding
   pnlPercentage?: number;
   fees: number;
+  fundingFees?: number; // Funding paid over the trade's life (negative: received)
+  exchange?: Exchange; // Venue, for fee tiers and funding history
+  marginMode?: 'isolated' | 'cross';
   notes?: string; // Can store HTML content
   strategyTags?: string[];
   chartImageUrl?: string;
@@ -192,6 +291,7 @@ export interface ScalpingPreset {
 export interface OrderBookUpdate {
   asks: [string, string][]; // [price, quantity]
   bids: [string, string][];
+  type?: 'snapshot' | 'delta'; // Bybit only; deltas carry just the changed levels
 }
 
 export interface LiveTrade {
@@ -203,7 +303,7 @@ export interface LiveTrade {
 }
 
 export interface LivePosition {
-  id: string; // Corresponds to the mock orderId
+  id: string; // The broker orderId that opened the position
   symbol: string;
   side: 'Long' | 'Short';
   entryPrice: number;
@@ -213,6 +313,87 @@ export interface LivePosition {
   entryDate: number; // timestamp
   takeProfit?: number;
   stopLoss?: number;
+  broker?: BrokerId; // Unset for positions that only exist in the app (autopilot simulation)
+}
+
+// --- Order execution ---
+
+export type OrderSide = 'Buy' | 'Sell';
+export type OrderType = 'Market' | 'Limit';
+export type OrderStatus = 'New' | 'PartiallyFilled' | 'Filled' | 'Cancelled' | 'Rejected';
+
+export interface OrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  qty: number;
+  price?: number; // Required for limit orders
+  takeProfit?: number;
+  stopLoss?: number;
+  reduceOnly?: boolean;
+  leverage?: number;
+  clientOrderId?: string; // Idempotency key; generated when omitted
+}
+
+export interface AmendOrderRequest {
+  symbol: string;
+  orderId: string;
+  qty?: number;
+  price?: number;
+  takeProfit?: number;
+  stopLoss?: number;
+}
+
+export interface BrokerOrder {
+  id: string;
+  clientOrderId?: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  qty: number;
+  price?: number;
+  status: OrderStatus;
+  filledQty: number;
+  avgFillPrice: number | null;
+  fee: number; // Cumulative fees paid in the quote asset
+  reduceOnly: boolean;
+  takeProfit?: number;
+  stopLoss?: number;
+  createdAt: number; // timestamp
+  updatedAt: number; // timestamp
+  rejectReason?: string;
+}
+
+export interface BrokerPosition {
+  symbol: string;
+  side: 'Long' | 'Short';
+  quantity: number;
+  entryPrice: number;
+  leverage: number;
+  margin: number;
+  unrealizedPnl: number;
+  takeProfit?: number;
+  stopLoss?: number;
+  liquidationPrice?: number;
+}
+
+export interface BrokerBalance {
+  asset: string;
+  total: number;
+  available: number;
+}
+
+export interface BrokerFill {
+  id: string;
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  price: number;
+  qty: number;
+  fee: number;
+  isMaker: boolean;
+  realizedPnl?: number; // Not every exchange reports PnL per fill
+  time: number; // timestamp
 }
 
 export type AutopilotState = 'inactive' | 'searching' | 'monitoring' | 'cooldown' | 'stopped';
@@ -237,6 +418,20 @@ export interface AutopilotSessionStats {
   statusMessage: string;
 }
 
+export type AutopilotLogKind = 'session' | 'scan' | 'signal' | 'skip' | 'entry' | 'exit' | 'limit' | 'error';
+
+/**
+ * One decision made by the autopilot, kept so a session can be audited afterwards.
+ */
+export interface AutopilotLogEntry {
+  id: string;
+  timestamp: number;
+  kind: AutopilotLogKind;
+  message: string;
+  symbol?: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
 export interface Strategy {
   id: string;
   authorUsername: string;
@@ -338,18 +533,54 @@ export interface DirectMessageConversation {
 
 export interface Notification {
   id: string;
-  type: 'new_message' | 'new_follower' | 'post_like';
-  fromUsername: string;
-  relatedEntityId?: string; // e.g., conversationId or postId
+  type: 'new_message' | 'new_follower' | 'post_like' | 'alert';
+  fromUsername: string; // The alert's symbol for 'alert' notifications
+  relatedEntityId?: string; // e.g., conversationId, postId or alertId
+  message?: string; // What an 'alert' notification says
   timestamp: number;
   isRead: boolean;
 }
 
 
+// --- ALERT TYPES ---
+export type AlertCondition =
+  | { type: 'price_cross'; price: number; direction: 'above' | 'below' | 'either' }
+  // Change from the open of the current candle, in percent
+  | { type: 'percent_move'; percent: number; direction: 'up' | 'down' | 'either' }
+  | { type: 'rsi'; period: number; level: number; direction: 'above' | 'below' }
+  | { type: 'ma_cross'; maType: 'SMA' | 'EMA'; fastPeriod: number; slowPeriod: number; direction: 'bullish' | 'bearish' }
+  // handledEvents counts the matching signal events already seen, so each one triggers once
+  | { type: 'signal_event'; signalId: string; event: 'entry' | 'take_profit'; handledEvents: number };
+
+export interface MarketAlert {
+  id: string;
+  exchange: Exchange;
+  symbol: string;
+  timeframe: Timeframe; // Candles the condition is evaluated on
+  condition: AlertCondition;
+  note?: string;
+  repeat: boolean; // Stays active after triggering instead of switching to 'triggered'
+  status: 'active' | 'paused' | 'triggered';
+  snoozedUntil?: number; // ms. Triggers are dropped until then
+  createdAt: number;
+  lastTriggeredAt?: number;
+  triggerCount: number;
+}
+
+
 // --- CHATBOT TYPES ---
+export interface ChatToolCall {
+  id: string;
+  name: string;
+  args: Record<string, any>;
+  status: 'running' | 'done' | 'error' | 'cancelled';
+  result?: unknown; // What was sent back to the model
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   content: string;
+  toolCalls?: ChatToolCall[]; // Tools the model called in this turn, answered before its next turn
 }
 
 export interface ChatConversation {
@@ -393,15 +624,49 @@ export interface Theme {
 }
 
 // --- SCREENER TYPES ---
+export interface ScreenerTimeframeMetrics {
+  rsi14: number | null;
+  ema50DistancePct: number | null; // % above (+) or below (-) EMA(50)
+  ema200DistancePct: number | null; // % above (+) or below (-) EMA(200)
+  macdHistogram: number | null;
+  bollingerBandwidthPct: number | null;
+  atrPct: number | null; // ATR(14) as a % of price
+  adx: number | null;
+  stochK: number | null;
+  relativeVolume: number | null; // Last candle volume / 20-candle average
+}
+
+export interface ScreenerMetrics {
+  price: number;
+  change24hPct: number | null;
+  quoteVolume24h: number | null;
+  timeframes: Partial<Record<Timeframe, ScreenerTimeframeMetrics>>;
+}
+
 export interface ScreenerResult {
     symbol: string;
     rationale: string;
+    metrics?: ScreenerMetrics; // The computed data that justified the match
+    values?: Record<string, number | null>; // Rule-screen values, keyed by the query expression
+    verificationQuery?: string; // Rule query the AI proposed to back its claim
+    verified?: boolean; // Whether the symbol satisfied verificationQuery when evaluated locally
+}
+
+export type ScreenerMode = 'ai' | 'rule';
+
+export interface SavedScreenerQuery {
+  id: string;
+  query: string;
+  createdAt: number;
 }
 
 export interface ScreenerRun {
   id: string;
   timestamp: number;
   query: string;
+  mode?: ScreenerMode; // Missing on runs saved before rule screens existed; treated as 'ai'
+  exchange?: Exchange;
+  progress?: { done: number; total: number };
   results: ScreenerResult[];
   isLoading: boolean;
   error?: string | null;
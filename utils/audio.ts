@@ -14,9 +14,9 @@ const initializeAudioContext = () => {
  * Plays a sound for a given event type.
  * It initializes the AudioContext on first use and resumes it if suspended,
  * which is common in modern browsers before user interaction.
- * @param type The type of sound to play: 'new-signal', 'tp-hit', or 'scanner-find'.
+ * @param type The type of sound to play: 'new-signal', 'tp-hit', 'scanner-find', 'sl-hit' or 'alert'.
  */
-export function playSound(type: 'new-signal' | 'tp-hit' | 'scanner-find' | 'sl-hit') {
+export function playSound(type: 'new-signal' | 'tp-hit' | 'scanner-find' | 'sl-hit' | 'alert') {
   initializeAudioContext();
   if (!audioContext) return;
   
@@ -74,6 +74,18 @@ export function playSound(type: 'new-signal' | 'tp-hit' | 'scanner-find' | 'sl-h
     oscillator.frequency.setValueAtTime(440, t); // A4
     oscillator.frequency.setValueAtTime(349.23, t + 0.1); // F4
 
+    gainNode.gain.exponentialRampToValueAtTime(0.0001, t + 0.3);
+    oscillator.start(t);
+    oscillator.stop(t + 0.3);
+  } else if (type === 'alert') {
+    // Two short beeps on the same note
+    oscillator.type = 'square';
+    const t = audioContext.currentTime;
+    oscillator.frequency.setValueAtTime(987.77, t); // B5
+
+    gainNode.gain.linearRampToValueAtTime(0.15, t + 0.01);
+    gainNode.gain.setValueAtTime(0, t + 0.1);
+    gainNode.gain.setValueAtTime(0.15, t + 0.18);
     gainNode.gain.exponentialRampToValueAtTime(0.0001, t + 0.3);
     oscillator.start(t);
     oscillator.stop(t + 0.3);
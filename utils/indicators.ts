@@ -0,0 +1,435 @@
+import type { CandleStick } from '@/types';
+
+/**
+ * Deterministic technical indicator engine.
+ *
+ * Every indicator is a small stateful object fed one candle at a time through `update()`.
+ * Feeding a candle with a new `time` appends it; feeding a candle with the same `time` as the
+ * previous one revises that candle (this is how a forming websocket kline arrives). Both cases
+ * cost O(1) with respect to the length of the series, so live charts never recompute history.
+ *
+ * The batch helpers at the bottom of this file (`sma`, `rsi`, ...) simply replay a candle array
+ * through the same classes, which keeps chart overlays, AI prompts and the screener in agreement.
+ */
+
+export type PriceSource = 'open' | 'high' | 'low' | 'close' | 'hl2' | 'hlc3';
+
+const getPrice = (candle: CandleStick, source: PriceSource): number => {
+    switch (source) {
+        case 'hl2': return (candle.high + candle.low) / 2;
+        case 'hlc3': return (candle.high + candle.low + candle.close) / 3;
+        default: return candle[source];
+    }
+};
+
+/**
+ * Base class handling the append-vs-revise bookkeeping.
+ * Subclasses implement `step`, which must not mutate the state it is given: the previous
+ * committed state is kept so the last candle can be replayed when it is revised.
+ */
+abstract class Indicator<S, T> {
+    private committed: S;
+    private current: S;
+    private lastTime: number | null = null;
+    private _value: T | null = null;
+
+    constructor(initialState: S) {
+        this.committed = initialState;
+        this.current = initialState;
+    }
+
+    protected abstract step(state: S, candle: CandleStick, revising: boolean): S;
+    protected abstract output(state: S): T | null;
+
+    /**
+     * Feeds a candle and returns the indicator value after it (null while warming up).
+     * Candles older than the last one seen are ignored.
+     */
+    update(candle: CandleStick): T | null {
+        if (this.lastTime !== null && candle.time < this.lastTime) return this._value;
+        const revising = this.lastTime === candle.time;
+        if (!revising) {
+            this.committed = this.current;
+            this.lastTime = candle.time;
+        }
+        this.current = this.step(this.committed, candle, revising);
+        this._value = this.output(this.current);
+        return this._value;
+    }
+
+    get value(): T | null {
+        return this._value;
+    }
+}
+
+/**
+ * Fixed-size window with running sums. `replaceLast` lets a revised candle swap its value in place.
+ */
+class RollingWindow {
+    private values: number[] = [];
+    private sum = 0;
+    private sumSq = 0;
+
+    constructor(private readonly size: number) {}
+
+    push(value: number) {
+        this.values.push(value);
+        this.sum += value;
+        this.sumSq += value * value;
+        if (this.values.length > this.size) {
+            const removed = this.values.shift()!;
+            this.sum -= removed;
+            this.sumSq -= removed * removed;
+        }
+    }
+
+    replaceLast(value: number) {
+        if (this.values.length === 0) return this.push(value);
+        const old = this.values[this.values.length - 1];
+        this.values[this.values.length - 1] = value;
+        this.sum += value - old;
+        this.sumSq += value * value - old * old;
+    }
+
+    write(value: number, revising: boolean) {
+        if (revising) this.replaceLast(value); else this.push(value);
+    }
+
+    get isFull() { return this.values.length >= this.size; }
+    get mean() { return this.sum / this.values.length; }
+    get stdDev() { return Math.sqrt(Math.max(0, this.sumSq / this.values.length - this.mean ** 2)); }
+    get max() { return Math.max(...this.values); }
+    get min() { return Math.min(...this.values); }
+}
+
+/**
+ * Scalar exponential smoothing step shared by EMA, MACD and the Wilder-smoothed indicators.
+ * The first `period` inputs are averaged to seed the average.
+ */
+interface SmoothingState { count: number; seedSum: number; value: number | null; }
+const initialSmoothing: SmoothingState = { count: 0, seedSum: 0, value: null };
+
+const smooth = (state: SmoothingState, input: number, period: number, alpha: number): SmoothingState => {
+    if (state.value !== null) {
+        return { ...state, count: state.count + 1, value: state.value + alpha * (input - state.value) };
+    }
+    const count = state.count + 1;
+    const seedSum = state.seedSum + input;
+    return { count, seedSum, value: count >= period ? seedSum / period : null };
+};
+
+// --- MOVING AVERAGES ---
+
+export class SMA extends Indicator<null, number> {
+    private window: RollingWindow;
+
+    constructor(private readonly period: number, private readonly source: PriceSource = 'close') {
+        super(null);
+        this.window = new RollingWindow(period);
+    }
+
+    protected step(_: null, candle: CandleStick, revising: boolean) {
+        this.window.write(getPrice(candle, this.source), revising);
+        return null;
+    }
+
+    protected output() {
+        return this.window.isFull ? this.window.mean : null;
+    }
+}
+
+export class EMA extends Indicator<SmoothingState, number> {
+    constructor(private readonly period: number, private readonly source: PriceSource = 'close') {
+        super(initialSmoothing);
+    }
+
+    protected step(state: SmoothingState, candle: CandleStick) {
+        return smooth(state, getPrice(candle, this.source), this.period, 2 / (this.period + 1));
+    }
+
+    protected output(state: SmoothingState) {
+        return state.value;
+    }
+}
+
+// --- OSCILLATORS ---
+
+interface RsiState { prevClose: number | null; gain: SmoothingState; loss: SmoothingState; }
+
+export class RSI extends Indicator<RsiState, number> {
+    constructor(private readonly period = 14) {
+        super({ prevClose: null, gain: initialSmoothing, loss: initialSmoothing });
+    }
+
+    protected step(state: RsiState, candle: CandleStick): RsiState {
+        if (state.prevClose === null) return { ...state, prevClose: candle.close };
+        const change = candle.close - state.prevClose;
+        const alpha = 1 / this.period; // Wilder smoothing
+        return {
+            prevClose: candle.close,
+            gain: smooth(state.gain, Math.max(change, 0), this.period, alpha),
+            loss: smooth(state.loss, Math.max(-change, 0), this.period, alpha),
+        };
+    }
+
+    protected output(state: RsiState) {
+        const { gain, loss } = state;
+        if (gain.value === null || loss.value === null) return null;
+        if (loss.value === 0) return gain.value === 0 ? 50 : 100;
+        return 100 - 100 / (1 + gain.value / loss.value);
+    }
+}
+
+export interface MacdValue { macd: number; signal: number; histogram: number; }
+interface MacdState { fast: SmoothingState; slow: SmoothingState; signal: SmoothingState; }
+
+export class MACD extends Indicator<MacdState, MacdValue> {
+    constructor(private readonly fastPeriod = 12, private readonly slowPeriod = 26, private readonly signalPeriod = 9) {
+        super({ fast: initialSmoothing, slow: initialSmoothing, signal: initialSmoothing });
+    }
+
+    protected step(state: MacdState, candle: CandleStick): MacdState {
+        const fast = smooth(state.fast, candle.close, this.fastPeriod, 2 / (this.fastPeriod + 1));
+        const slow = smooth(state.slow, candle.close, this.slowPeriod, 2 / (this.slowPeriod + 1));
+        if (fast.value === null || slow.value === null) return { fast, slow, signal: state.signal };
+        const signal = smooth(state.signal, fast.value - slow.value, this.signalPeriod, 2 / (this.signalPeriod + 1));
+        return { fast, slow, signal };
+    }
+
+    protected output(state: MacdState) {
+        if (state.fast.value === null || state.slow.value === null || state.signal.value === null) return null;
+        const macd = state.fast.value - state.slow.value;
+        return { macd, signal: state.signal.value, histogram: macd - state.signal.value };
+    }
+}
+
+export interface StochasticValue { k: number; d: number | null; }
+
+export class Stochastic extends Indicator<null, StochasticValue> {
+    private highs: RollingWindow;
+    private lows: RollingWindow;
+    private kWindow: RollingWindow;
+    private k: number | null = null;
+
+    constructor(private readonly kPeriod = 14, dPeriod = 3) {
+        super(null);
+        this.highs = new RollingWindow(kPeriod);
+        this.lows = new RollingWindow(kPeriod);
+        this.kWindow = new RollingWindow(dPeriod);
+    }
+
+    protected step(_: null, candle: CandleStick, revising: boolean) {
+        this.highs.write(candle.high, revising);
+        this.lows.write(candle.low, revising);
+        if (!this.highs.isFull) {
+            this.k = null;
+            return null;
+        }
+        const highest = this.highs.max;
+        const lowest = this.lows.min;
+        const k = highest === lowest ? 50 : ((candle.close - lowest) / (highest - lowest)) * 100;
+        // The %K window only starts receiving values once %K exists, so a revision of the
+        // first %K candle must still be treated as a push.
+        this.kWindow.write(k, revising && this.k !== null);
+        this.k = k;
+        return null;
+    }
+
+    protected output() {
+        if (this.k === null) return null;
+        return { k: this.k, d: this.kWindow.isFull ? this.kWindow.mean : null };
+    }
+}
+
+// --- VOLATILITY ---
+
+export interface BollingerValue { upper: number; middle: number; lower: number; bandwidth: number; }
+
+export class BollingerBands extends Indicator<null, BollingerValue> {
+    private window: RollingWindow;
+
+    constructor(period = 20, private readonly multiplier = 2) {
+        super(null);
+        this.window = new RollingWindow(period);
+    }
+
+    protected step(_: null, candle: CandleStick, revising: boolean) {
+        this.window.write(candle.close, revising);
+        return null;
+    }
+
+    protected output() {
+        if (!this.window.isFull) return null;
+        const middle = this.window.mean;
+        const offset = this.window.stdDev * this.multiplier;
+        return { upper: middle + offset, middle, lower: middle - offset, bandwidth: middle !== 0 ? (2 * offset) / middle : 0 };
+    }
+}
+
+const trueRange = (candle: CandleStick, prevClose: number | null) => prevClose === null
+    ? candle.high - candle.low
+    : Math.max(candle.high - candle.low, Math.abs(candle.high - prevClose), Math.abs(candle.low - prevClose));
+
+interface AtrState { prevClose: number | null; atr: SmoothingState; }
+
+export class ATR extends Indicator<AtrState, number> {
+    constructor(private readonly period = 14) {
+        super({ prevClose: null, atr: initialSmoothing });
+    }
+
+    protected step(state: AtrState, candle: CandleStick): AtrState {
+        return {
+            prevClose: candle.close,
+            atr: smooth(state.atr, trueRange(candle, state.prevClose), this.period, 1 / this.period),
+        };
+    }
+
+    protected output(state: AtrState) {
+        return state.atr.value;
+    }
+}
+
+// --- TREND STRENGTH ---
+
+export interface AdxValue { adx: number | null; plusDI: number; minusDI: number; }
+interface AdxState {
+    prev: CandleStick | null;
+    tr: SmoothingState; plusDM: SmoothingState; minusDM: SmoothingState; adx: SmoothingState;
+    plusDI: number | null; minusDI: number | null;
+}
+
+export class ADX extends Indicator<AdxState, AdxValue> {
+    constructor(private readonly period = 14) {
+        super({ prev: null, tr: initialSmoothing, plusDM: initialSmoothing, minusDM: initialSmoothing, adx: initialSmoothing, plusDI: null, minusDI: null });
+    }
+
+    protected step(state: AdxState, candle: CandleStick): AdxState {
+        if (state.prev === null) return { ...state, prev: candle };
+        const alpha = 1 / this.period;
+        const upMove = candle.high - state.prev.high;
+        const downMove = state.prev.low - candle.low;
+        const tr = smooth(state.tr, trueRange(candle, state.prev.close), this.period, alpha);
+        const plusDM = smooth(state.plusDM, upMove > downMove && upMove > 0 ? upMove : 0, this.period, alpha);
+        const minusDM = smooth(state.minusDM, downMove > upMove && downMove > 0 ? downMove : 0, this.period, alpha);
+        if (tr.value === null || plusDM.value === null || minusDM.value === null) {
+            return { ...state, prev: candle, tr, plusDM, minusDM };
+        }
+        const plusDI = tr.value === 0 ? 0 : (plusDM.value / tr.value) * 100;
+        const minusDI = tr.value === 0 ? 0 : (minusDM.value / tr.value) * 100;
+        const diSum = plusDI + minusDI;
+        const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100;
+        return { prev: candle, tr, plusDM, minusDM, adx: smooth(state.adx, dx, this.period, alpha), plusDI, minusDI };
+    }
+
+    protected output(state: AdxState) {
+        if (state.plusDI === null || state.minusDI === null) return null;
+        return { adx: state.adx.value, plusDI: state.plusDI, minusDI: state.minusDI };
+    }
+}
+
+// --- VOLUME ---
+
+interface VwapState { session: number | null; cumPV: number; cumVolume: number; }
+
+/**
+ * Session VWAP, reset at every UTC day boundary.
+ */
+export class VWAP extends Indicator<VwapState, number> {
+    constructor() {
+        super({ session: null, cumPV: 0, cumVolume: 0 });
+    }
+
+    protected step(state: VwapState, candle: CandleStick): VwapState {
+        const session = Math.floor(candle.time / 86400);
+        const base = state.session === session ? state : { session, cumPV: 0, cumVolume: 0 };
+        return {
+            session,
+            cumPV: base.cumPV + getPrice(candle, 'hlc3') * candle.volume,
+            cumVolume: base.cumVolume + candle.volume,
+        };
+    }
+
+    protected output(state: VwapState) {
+        return state.cumVolume > 0 ? state.cumPV / state.cumVolume : null;
+    }
+}
+
+interface ObvState { prevClose: number | null; obv: number; }
+
+export class OBV extends Indicator<ObvState, number> {
+    constructor() {
+        super({ prevClose: null, obv: 0 });
+    }
+
+    protected step(state: ObvState, candle: CandleStick): ObvState {
+        if (state.prevClose === null) return { prevClose: candle.close, obv: 0 };
+        const direction = Math.sign(candle.close - state.prevClose);
+        return { prevClose: candle.close, obv: state.obv + direction * candle.volume };
+    }
+
+    protected output(state: ObvState) {
+        return state.prevClose === null ? null : state.obv;
+    }
+}
+
+// --- BATCH HELPERS ---
+
+/**
+ * Replays a candle series through an indicator and returns one value per candle (null during warm-up).
+ */
+export function computeSeries<T>(indicator: { update(candle: CandleStick): T | null }, candles: CandleStick[]): (T | null)[] {
+    return candles.map(candle => indicator.update(candle));
+}
+
+export const sma = (candles: CandleStick[], period: number, source: PriceSource = 'close') => computeSeries(new SMA(period, source), candles);
+export const ema = (candles: CandleStick[], period: number, source: PriceSource = 'close') => computeSeries(new EMA(period, source), candles);
+export const rsi = (candles: CandleStick[], period = 14) => computeSeries(new RSI(period), candles);
+export const macd = (candles: CandleStick[], fast = 12, slow = 26, signal = 9) => computeSeries(new MACD(fast, slow, signal), candles);
+export const bollinger = (candles: CandleStick[], period = 20, multiplier = 2) => computeSeries(new BollingerBands(period, multiplier), candles);
+export const atr = (candles: CandleStick[], period = 14) => computeSeries(new ATR(period), candles);
+export const vwap = (candles: CandleStick[]) => computeSeries(new VWAP(), candles);
+export const stochastic = (candles: CandleStick[], kPeriod = 14, dPeriod = 3) => computeSeries(new Stochastic(kPeriod, dPeriod), candles);
+export const obv = (candles: CandleStick[]) => computeSeries(new OBV(), candles);
+export const adx = (candles: CandleStick[], period = 14) => computeSeries(new ADX(period), candles);
+
+/**
+ * The latest value of every standard indicator for a candle series.
+ * This is the single source of truth for indicator values shown to the AI and used by the screener.
+ */
+export interface IndicatorSnapshot {
+    close: number;
+    sma20: number | null;
+    sma200: number | null;
+    ema20: number | null;
+    ema50: number | null;
+    ema200: number | null;
+    rsi14: number | null;
+    macd: MacdValue | null;
+    bollinger: BollingerValue | null;
+    atr14: number | null;
+    vwap: number | null;
+    stochastic: StochasticValue | null;
+    obv: number | null;
+    adx: AdxValue | null;
+}
+
+export function getIndicatorSnapshot(candles: CandleStick[]): IndicatorSnapshot | null {
+    if (candles.length === 0) return null;
+    const last = <T,>(series: (T | null)[]) => series[series.length - 1] ?? null;
+    return {
+        close: candles[candles.length - 1].close,
+        sma20: last(sma(candles, 20)),
+        sma200: last(sma(candles, 200)),
+        ema20: last(ema(candles, 20)),
+        ema50: last(ema(candles, 50)),
+        ema200: last(ema(candles, 200)),
+        rsi14: last(rsi(candles, 14)),
+        macd: last(macd(candles)),
+        bollinger: last(bollinger(candles)),
+        atr14: last(atr(candles, 14)),
+        vwap: last(vwap(candles)),
+        stochastic: last(stochastic(candles)),
+        obv: last(obv(candles)),
+        adx: last(adx(candles)),
+    };
+}
@@ -0,0 +1,25 @@
+import type { OrderBookUpdate } from '@/types';
+
+type Level = [string, string];
+
+const applyLevels = (levels: Level[], changes: Level[], descending: boolean): Level[] => {
+    const book = new Map(levels);
+    for (const [price, size] of changes) {
+        // A size of zero removes the level
+        if (parseFloat(size) === 0) book.delete(price);
+        else book.set(price, size);
+    }
+    return [...book.entries()].sort((a, b) => descending ? parseFloat(b[0]) - parseFloat(a[0]) : parseFloat(a[0]) - parseFloat(b[0]));
+};
+
+/**
+ * Applies a depth message to the book it updates. Snapshots (every exchange except Bybit, and
+ * Bybit's first message) replace the book; Bybit deltas only carry the levels that changed.
+ */
+export function mergeOrderBook(book: OrderBookUpdate | null | undefined, update: OrderBookUpdate): OrderBookUpdate {
+    if (update.type !== 'delta' || !book) return { bids: update.bids, asks: update.asks };
+    return {
+        bids: applyLevels(book.bids, update.bids, true),
+        asks: applyLevels(book.asks, update.asks, false),
+    };
+}
@@ -0,0 +1,497 @@
+import type { CandleStick, Timeframe } from '@/types';
+import { SMA, EMA, RSI, ATR, ADX, MACD, BollingerBands, Stochastic, VWAP, OBV, computeSeries } from '@/utils/indicators';
+
+/**
+ * Rule-based screener query language.
+ *
+ * Example: `rsi(14,1h) < 30 and close > ema(200,4h) and change(24h) > 5%`
+ *
+ * - Boolean operators: `and`, `or`, `not`, parentheses.
+ * - Comparisons: `<`, `<=`, `>`, `>=`, `==`, `!=`. Arithmetic: `+`, `-`, `*`, `/`.
+ * - Numbers may carry a `%` suffix, which is purely cosmetic: `5%` is the number 5,
+ *   matching functions such as `change()` that already return percentages.
+ * - Functions take an optional trailing timeframe argument; when omitted, `1h` is used.
+ *
+ * Queries are parsed into an AST, type-checked (the whole query must be a boolean and every
+ * function receives the right kind of argument), and then evaluated against candles.
+ */
+
+export const DEFAULT_QUERY_TIMEFRAME: Timeframe = '1h';
+const VALID_TIMEFRAMES: Timeframe[] = ['1m', '3m', '5m', '15m', '30m', '1h', '2h', '4h', '1d', '1w'];
+const MIN_CANDLES = 250;
+const MAX_CANDLES = 1000;
+
+// --- AST ---
+
+type ValueType = 'number' | 'boolean';
+type CompareOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+type ArithOp = '+' | '-' | '*' | '/';
+
+export type QueryNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'duration'; text: string; seconds: number }
+    | { kind: 'call'; name: string; args: QueryNode[]; source: string }
+    | { kind: 'unary'; op: '-' | 'not'; operand: QueryNode }
+    | { kind: 'binary'; op: CompareOp | ArithOp | 'and' | 'or'; left: QueryNode; right: QueryNode };
+
+// --- TOKENIZER ---
+
+type Token =
+    | { type: 'number'; value: number; pos: number }
+    | { type: 'duration'; text: string; seconds: number; pos: number }
+    | { type: 'ident'; value: string; pos: number }
+    | { type: 'op'; value: string; pos: number }
+    | { type: 'eof'; pos: number };
+
+const UNIT_SECONDS: Record<string, number> = { m: 60, h: 3600, d: 86400, w: 604800 };
+
+function tokenize(input: string): Token[] {
+    const tokens: Token[] = [];
+    const re = /\s*(?:(\d+(?:\.\d+)?)([mhdw])?(?![a-z0-9_])|([a-z_][a-z0-9_]*)|(<=|>=|==|!=|[<>()+\-*\/,%]))/iy;
+    let pos = 0;
+    while (pos < input.length) {
+        if (/^\s*$/.test(input.slice(pos))) break;
+        re.lastIndex = pos;
+        const match = re.exec(input);
+        if (!match) throw new Error(`Unexpected character "${input.slice(pos).trim()[0]}" at position ${pos + 1}.`);
+        const start = match.index + match[0].length - match[0].trimStart().length;
+        if (match[1] !== undefined && match[2]) {
+            const unit = match[2].toLowerCase();
+            tokens.push({ type: 'duration', text: `${match[1]}${unit}`, seconds: parseFloat(match[1]) * UNIT_SECONDS[unit], pos: start });
+        } else if (match[1] !== undefined) {
+            tokens.push({ type: 'number', value: parseFloat(match[1]), pos: start });
+        } else if (match[3] !== undefined) {
+            tokens.push({ type: 'ident', value: match[3].toLowerCase(), pos: start });
+        } else {
+            tokens.push({ type: 'op', value: match[4], pos: start });
+        }
+        pos = re.lastIndex;
+    }
+    tokens.push({ type: 'eof', pos: input.length });
+    return tokens;
+}
+
+// --- PARSER ---
+
+class Parser {
+    private index = 0;
+
+    constructor(private readonly tokens: Token[], private readonly input: string) {}
+
+    parse(): QueryNode {
+        const node = this.parseOr();
+        const next = this.peek();
+        if (next.type !== 'eof') this.fail(next, 'Unexpected input');
+        return node;
+    }
+
+    private peek() { return this.tokens[this.index]; }
+    private advance() { return this.tokens[this.index++]; }
+
+    private fail(token: Token, message: string): never {
+        const found = token.type === 'eof' ? 'end of query' : `"${this.input.slice(token.pos).split(/\s/)[0]}"`;
+        throw new Error(`${message} at position ${token.pos + 1} (found ${found}).`);
+    }
+
+    private isKeyword(value: string) {
+        const token = this.peek();
+        return token.type === 'ident' && token.value === value;
+    }
+
+    private isOp(...values: string[]) {
+        const token = this.peek();
+        return token.type === 'op' && values.includes(token.value);
+    }
+
+    private expectOp(value: string) {
+        if (!this.isOp(value)) this.fail(this.peek(), `Expected "${value}"`);
+        this.advance();
+    }
+
+    private parseOr(): QueryNode {
+        let left = this.parseAnd();
+        while (this.isKeyword('or')) {
+            this.advance();
+            left = { kind: 'binary', op: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): QueryNode {
+        let left = this.parseNot();
+        while (this.isKeyword('and')) {
+            this.advance();
+            left = { kind: 'binary', op: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): QueryNode {
+        if (this.isKeyword('not')) {
+            this.advance();
+            return { kind: 'unary', op: 'not', operand: this.parseNot() };
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): QueryNode {
+        const left = this.parseSum();
+        if (this.isOp('<', '<=', '>', '>=', '==', '!=')) {
+            const op = (this.advance() as { value: string }).value as CompareOp;
+            return { kind: 'binary', op, left, right: this.parseSum() };
+        }
+        return left;
+    }
+
+    private parseSum(): QueryNode {
+        let left = this.parseProduct();
+        while (this.isOp('+', '-')) {
+            const op = (this.advance() as { value: string }).value as ArithOp;
+            left = { kind: 'binary', op, left, right: this.parseProduct() };
+        }
+        return left;
+    }
+
+    private parseProduct(): QueryNode {
+        let left = this.parseUnary();
+        while (this.isOp('*', '/')) {
+            const op = (this.advance() as { value: string }).value as ArithOp;
+            left = { kind: 'binary', op, left, right: this.parseUnary() };
+        }
+        return left;
+    }
+
+    private parseUnary(): QueryNode {
+        if (this.isOp('-')) {
+            this.advance();
+            return { kind: 'unary', op: '-', operand: this.parseUnary() };
+        }
+        return this.parsePrimary();
+    }
+
+    private parsePrimary(): QueryNode {
+        const token = this.advance();
+        if (token.type === 'number') {
+            if (this.isOp('%')) this.advance();
+            return { kind: 'number', value: token.value };
+        }
+        if (token.type === 'duration') {
+            return { kind: 'duration', text: token.text, seconds: token.seconds };
+        }
+        if (token.type === 'ident') {
+            if (['and', 'or', 'not'].includes(token.value)) this.fail(token, 'Expected a value');
+            const args: QueryNode[] = [];
+            if (this.isOp('(')) {
+                this.advance();
+                if (!this.isOp(')')) {
+                    args.push(this.parseSum());
+                    while (this.isOp(',')) {
+                        this.advance();
+                        args.push(this.parseSum());
+                    }
+                }
+                this.expectOp(')');
+            }
+            const end = this.peek().pos;
+            return { kind: 'call', name: token.value, args, source: this.input.slice(token.pos, end).trim() };
+        }
+        if (token.type === 'op' && token.value === '(') {
+            const node = this.parseOr();
+            this.expectOp(')');
+            return node;
+        }
+        return this.fail(token, 'Expected a value');
+    }
+}
+
+// --- FUNCTIONS ---
+
+interface CallContext {
+    candles: CandleStick[];
+    numbers: number[];
+}
+
+interface FunctionSpec {
+    description: string;
+    // Numeric parameters with their defaults (undefined = required)
+    params: { name: string; default?: number }[];
+    // When set, the function takes a duration instead of a trailing timeframe
+    takesDuration?: boolean;
+    // How many candles the function needs on its timeframe for the given numeric arguments
+    lookback: (numbers: number[]) => number;
+    evaluate: (ctx: CallContext) => number | null;
+    // The value at every candle, for functions backed by an incremental indicator
+    series?: (ctx: CallContext) => (number | null)[];
+}
+
+const lastValue = <T,>(series: (T | null)[]) => series[series.length - 1] ?? null;
+const lastCandle = (candles: CandleStick[]) => candles[candles.length - 1];
+const warmup = (period: number) => Math.min(MAX_CANDLES, Math.max(MIN_CANDLES, period * 3));
+
+// An indicator function: the screener reads the last value of its series, backtests read all of them
+const indicatorFunction = (spec: Omit<FunctionSpec, 'evaluate' | 'series'> & { series: NonNullable<FunctionSpec['series']> }): FunctionSpec =>
+    ({ ...spec, evaluate: ctx => lastValue(spec.series(ctx)) });
+
+const FUNCTIONS: Record<string, FunctionSpec> = {
+    close: { description: 'Last close price', params: [], lookback: () => 1, evaluate: ({ candles }) => lastCandle(candles)?.close ?? null },
+    open: { description: 'Last open price', params: [], lookback: () => 1, evaluate: ({ candles }) => lastCandle(candles)?.open ?? null },
+    high: { description: 'Last high price', params: [], lookback: () => 1, evaluate: ({ candles }) => lastCandle(candles)?.high ?? null },
+    low: { description: 'Last low price', params: [], lookback: () => 1, evaluate: ({ candles }) => lastCandle(candles)?.low ?? null },
+    volume: { description: 'Last candle volume', params: [], lookback: () => 1, evaluate: ({ candles }) => lastCandle(candles)?.volume ?? null },
+    relvol: {
+        description: 'Last candle volume divided by the average of the previous N candles',
+        params: [{ name: 'period', default: 20 }],
+        lookback: ([period]) => period + 1,
+        evaluate: ({ candles, numbers: [period] }) => {
+            const window = candles.slice(-(period + 1), -1);
+            if (window.length < period) return null;
+            const avg = window.reduce((sum, c) => sum + c.volume, 0) / period;
+            return avg > 0 ? lastCandle(candles).volume / avg : null;
+        },
+    },
+    sma: indicatorFunction({ description: 'Simple moving average', params: [{ name: 'period' }], lookback: ([p]) => warmup(p), series: ({ candles, numbers: [p] }) => computeSeries(new SMA(p), candles) }),
+    ema: indicatorFunction({ description: 'Exponential moving average', params: [{ name: 'period' }], lookback: ([p]) => warmup(p), series: ({ candles, numbers: [p] }) => computeSeries(new EMA(p), candles) }),
+    rsi: indicatorFunction({ description: 'Relative strength index', params: [{ name: 'period', default: 14 }], lookback: ([p]) => warmup(p), series: ({ candles, numbers: [p] }) => computeSeries(new RSI(p), candles) }),
+    atr: indicatorFunction({ description: 'Average true range', params: [{ name: 'period', default: 14 }], lookback: ([p]) => warmup(p), series: ({ candles, numbers: [p] }) => computeSeries(new ATR(p), candles) }),
+    atrpct: indicatorFunction({
+        description: 'Average true range as a percent of price',
+        params: [{ name: 'period', default: 14 }],
+        lookback: ([p]) => warmup(p),
+        series: ({ candles, numbers: [p] }) => computeSeries(new ATR(p), candles).map((value, i) => value === null ? null : (value / candles[i].close) * 100),
+    }),
+    adx: indicatorFunction({ description: 'Average directional index', params: [{ name: 'period', default: 14 }], lookback: ([p]) => warmup(p), series: ({ candles, numbers: [p] }) => computeSeries(new ADX(p), candles).map(value => value?.adx ?? null) }),
+    macd: indicatorFunction({ description: 'MACD histogram (12, 26, 9)', params: [], lookback: () => MIN_CANDLES, series: ({ candles }) => computeSeries(new MACD(), candles).map(value => value?.histogram ?? null) }),
+    bbwidth: indicatorFunction({
+        description: 'Bollinger Band width as a percent of the middle band',
+        params: [{ name: 'period', default: 20 }],
+        lookback: ([p]) => p,
+        series: ({ candles, numbers: [p] }) => computeSeries(new BollingerBands(p), candles).map(value => value === null ? null : value.bandwidth * 100),
+    }),
+    stoch: indicatorFunction({ description: 'Stochastic %K', params: [{ name: 'period', default: 14 }], lookback: ([p]) => p + 3, series: ({ candles, numbers: [p] }) => computeSeries(new Stochastic(p), candles).map(value => value?.k ?? null) }),
+    vwap: indicatorFunction({ description: 'Session VWAP', params: [], lookback: () => MIN_CANDLES, series: ({ candles }) => computeSeries(new VWAP(), candles) }),
+    obv: indicatorFunction({ description: 'On-balance volume', params: [], lookback: () => MIN_CANDLES, series: ({ candles }) => computeSeries(new OBV(), candles) }),
+    change: {
+        description: 'Percent price change over a duration, e.g. change(24h)',
+        params: [],
+        takesDuration: true,
+        lookback: ([bars]) => bars + 1,
+        evaluate: ({ candles, numbers: [bars] }) => {
+            if (candles.length < bars + 1) return null;
+            const from = candles[candles.length - 1 - bars].close;
+            return from !== 0 ? ((lastCandle(candles).close - from) / from) * 100 : null;
+        },
+    },
+};
+
+export const QUERY_FUNCTION_NAMES = Object.keys(FUNCTIONS);
+
+/**
+ * Picks the candle timeframe used to measure a duration and how many bars it spans.
+ */
+function resolveDuration(seconds: number): { timeframe: Timeframe; bars: number } {
+    if (seconds >= 7 * 86400 && seconds % 86400 === 0) return { timeframe: '1d', bars: seconds / 86400 };
+    if (seconds >= 3600 && seconds % 3600 === 0) return { timeframe: '1h', bars: seconds / 3600 };
+    return { timeframe: '1m', bars: Math.max(1, Math.round(seconds / 60)) };
+}
+
+// --- TYPE CHECKING ---
+
+export interface CandleRequirement {
+    timeframe: Timeframe;
+    limit: number;
+}
+
+export interface ResolvedCall {
+    source: string;
+    spec: FunctionSpec;
+    timeframe: Timeframe;
+    numbers: number[];
+}
+
+export interface CompiledQuery {
+    source: string;
+    ast: QueryNode;
+    calls: Map<QueryNode, ResolvedCall>;
+    requirements: CandleRequirement[];
+}
+
+function resolveCall(node: Extract<QueryNode, { kind: 'call' }>): ResolvedCall {
+    const spec = FUNCTIONS[node.name];
+    if (!spec) throw new Error(`Unknown function "${node.name}". Available: ${QUERY_FUNCTION_NAMES.join(', ')}.`);
+
+    const args = [...node.args];
+    if (spec.takesDuration) {
+        const [duration] = args;
+        if (args.length !== 1 || duration.kind !== 'duration') throw new Error(`${node.name}() expects a single duration, e.g. ${node.name}(24h).`);
+        const { timeframe, bars } = resolveDuration(duration.seconds);
+        return { source: node.source, spec, timeframe, numbers: [bars] };
+    }
+
+    let timeframe = DEFAULT_QUERY_TIMEFRAME;
+    const trailing = args[args.length - 1];
+    if (trailing?.kind === 'duration') {
+        if (!VALID_TIMEFRAMES.includes(trailing.text as Timeframe)) {
+            throw new Error(`"${trailing.text}" is not a supported timeframe in ${node.source}. Use one of ${VALID_TIMEFRAMES.join(', ')}.`);
+        }
+        timeframe = trailing.text as Timeframe;
+        args.pop();
+    }
+    if (args.length > spec.params.length) throw new Error(`Too many arguments in ${node.source}.`);
+
+    const numbers = spec.params.map((param, i) => {
+        const arg = args[i];
+        if (!arg) {
+            if (param.default === undefined) throw new Error(`${node.name}() requires a ${param.name} argument.`);
+            return param.default;
+        }
+        if (arg.kind !== 'number' || !Number.isInteger(arg.value) || arg.value <= 0) {
+            throw new Error(`The ${param.name} argument of ${node.source} must be a positive whole number.`);
+        }
+        return arg.value;
+    });
+    return { source: node.source, spec, timeframe, numbers };
+}
+
+function typeOf(node: QueryNode, calls: Map<QueryNode, ResolvedCall>): ValueType {
+    switch (node.kind) {
+        case 'number':
+            return 'number';
+        case 'duration':
+            throw new Error(`"${node.text}" can only be used as a function argument.`);
+        case 'call':
+            calls.set(node, resolveCall(node));
+            return 'number';
+        case 'unary': {
+            const operand = typeOf(node.operand, calls);
+            const expected: ValueType = node.op === 'not' ? 'boolean' : 'number';
+            if (operand !== expected) throw new Error(`"${node.op}" expects a ${expected} operand.`);
+            return expected;
+        }
+        case 'binary': {
+            const left = typeOf(node.left, calls);
+            const right = typeOf(node.right, calls);
+            if (node.op === 'and' || node.op === 'or') {
+                if (left !== 'boolean' || right !== 'boolean') throw new Error(`"${node.op}" must join two conditions, e.g. rsi(14) < 30 ${node.op} close > ema(200).`);
+                return 'boolean';
+            }
+            if (left !== 'number' || right !== 'number') throw new Error(`"${node.op}" expects numeric operands.`);
+            return ['+', '-', '*', '/'].includes(node.op) ? 'number' : 'boolean';
+        }
+    }
+}
+
+/**
+ * Parses and type-checks a query. Throws an Error with a readable message when the query is invalid.
+ */
+export function compileQuery(source: string): CompiledQuery {
+    if (!source.trim()) throw new Error('The query is empty.');
+    const ast = new Parser(tokenize(source), source).parse();
+    const calls = new Map<QueryNode, ResolvedCall>();
+    if (typeOf(ast, calls) !== 'boolean') {
+        throw new Error('The query must be a condition, e.g. rsi(14,1h) < 30.');
+    }
+
+    const limits = new Map<Timeframe, number>();
+    calls.forEach(call => {
+        const needed = Math.min(MAX_CANDLES, call.spec.lookback(call.numbers));
+        limits.set(call.timeframe, Math.max(limits.get(call.timeframe) ?? 0, needed));
+    });
+    const requirements = [...limits.entries()].map(([timeframe, limit]) => ({ timeframe, limit }));
+    return { source, ast, calls, requirements };
+}
+
+// --- EVALUATION ---
+
+export interface QueryEvaluation {
+    matched: boolean;
+    values: Record<string, number | null>; // Value of every function call, keyed by its source text
+}
+
+// Evaluates a node with three-valued logic, reading each function call's value from `valueOf`
+function evaluateNode(query: CompiledQuery, node: QueryNode, valueOf: (call: ResolvedCall) => number | null): number | boolean | null {
+    const evalNode = (child: QueryNode) => evaluateNode(query, child, valueOf);
+    switch (node.kind) {
+        case 'number':
+            return node.value;
+        case 'duration':
+            return null;
+        case 'call':
+            return valueOf(query.calls.get(node)!);
+        case 'unary': {
+            const operand = evalNode(node.operand);
+            if (operand === null) return null;
+            return node.op === 'not' ? !operand : -(operand as number);
+        }
+        case 'binary': {
+            if (node.op === 'and' || node.op === 'or') {
+                // No short-circuiting, so every value is reported
+                const left = evalNode(node.left) as boolean | null;
+                const right = evalNode(node.right) as boolean | null;
+                if (node.op === 'and') {
+                    if (left === false || right === false) return false;
+                    return left === null || right === null ? null : true;
+                }
+                if (left === true || right === true) return true;
+                return left === null || right === null ? null : false;
+            }
+            const left = evalNode(node.left) as number | null;
+            const right = evalNode(node.right) as number | null;
+            if (left === null || right === null) return null;
+            switch (node.op) {
+                case '+': return left + right;
+                case '-': return left - right;
+                case '*': return left * right;
+                case '/': return right !== 0 ? left / right : null;
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                case '>=': return left >= right;
+                case '==': return left === right;
+                case '!=': return left !== right;
+            }
+        }
+    }
+}
+
+/**
+ * Evaluates a compiled query for one symbol with three-valued logic: a comparison involving a value
+ * that could not be computed (not enough history) is unknown (null), `not` keeps it unknown, and
+ * `and`/`or` only decide when the known side settles the result. A symbol matches only when the
+ * whole query is true, so `not rsi(14) < 30` never matches a symbol without an RSI.
+ */
+export function evaluateQuery(query: CompiledQuery, candlesByTimeframe: Partial<Record<Timeframe, CandleStick[]>>): QueryEvaluation {
+    const values: Record<string, number | null> = {};
+    const matched = evaluateNode(query, query.ast, call => {
+        const candles = candlesByTimeframe[call.timeframe] ?? [];
+        const value = candles.length > 0 ? call.spec.evaluate({ candles, numbers: call.numbers }) : null;
+        values[call.source] = value;
+        return value;
+    }) === true;
+    return { matched, values };
+}
+
+/**
+ * Evaluates a query at every candle of one timeframe, as if each were the latest, for backtests.
+ * Indicator functions run once over the whole series; the others see each candle's lookback window.
+ * Calls on other timeframes have no data, so they are unknown.
+ */
+export function evaluateQuerySeries(query: CompiledQuery, timeframe: Timeframe, candles: CandleStick[]): boolean[] {
+    const seriesByCall = new Map<ResolvedCall, (number | null)[]>();
+    query.calls.forEach(call => {
+        const { spec, numbers } = call;
+        const lookback = Math.min(MAX_CANDLES, spec.lookback(numbers));
+        seriesByCall.set(call, call.timeframe !== timeframe
+            ? candles.map(() => null)
+            : spec.series?.({ candles, numbers })
+                ?? candles.map((_, i) => spec.evaluate({ candles: candles.slice(Math.max(0, i + 1 - lookback), i + 1), numbers })));
+    });
+    return candles.map((_, i) => evaluateNode(query, query.ast, call => seriesByCall.get(call)![i]) === true);
+}
+
+/**
+ * Human-readable summary of the values behind a match, used as the screener rationale.
+ */
+export function describeEvaluation(evaluation: QueryEvaluation): string {
+    const format = (value: number | null) => value === null ? 'n/a' : Number(value.toPrecision(6)).toString();
+    return Object.entries(evaluation.values).map(([source, value]) => `${source} = ${format(value)}`).join('; ');
+}
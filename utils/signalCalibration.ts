@@ -0,0 +1,133 @@
+import type { SavedSignal } from '@/types';
+import { AI_MODELS } from '@/constants';
+
+/**
+ * How well signal confidence predicts outcomes. Only signals that ended in a Win or a Loss count:
+ * a Closed signal expired or was closed by hand without either, so it says nothing about the call.
+ * Confidence is read as the predicted probability of a win; manual signals saved without an AI
+ * second opinion have a confidence of 0 and are left out.
+ */
+
+export interface CalibrationBucket {
+  range: string; // e.g. "60-70"
+  from: number;
+  to: number;
+  signals: number;
+  avgConfidence: number; // 0-100
+  winRate: number; // 0-100
+}
+
+export interface CalibrationGroup {
+  key: string;
+  signals: number;
+  wins: number;
+  losses: number;
+  winRate: number; // 0-100
+  avgConfidence: number; // 0-100
+  brierScore: number;
+}
+
+export type CalibrationDimension = 'model' | 'timeframe' | 'symbol' | 'type' | 'tradingStyle' | 'biasSource' | 'promptVersion';
+
+export interface CalibrationReport {
+  resolved: number;
+  unresolved: number; // Still Pending
+  winRate: number;
+  avgConfidence: number;
+  brierScore: number | null;
+  // Brier score of always predicting the overall win rate. A useful confidence scores lower
+  baselineBrierScore: number | null;
+  buckets: CalibrationBucket[];
+  breakdowns: Record<CalibrationDimension, CalibrationGroup[]>;
+}
+
+const BUCKET_SIZE = 10;
+
+const isResolved = (signal: SavedSignal) => (signal.status === 'Win' || signal.status === 'Loss') && signal.confidence > 0;
+const probabilityOf = (signal: SavedSignal) => Math.min(100, Math.max(0, signal.confidence)) / 100;
+const outcomeOf = (signal: SavedSignal) => signal.status === 'Win' ? 1 : 0;
+
+export const brierScore = (signals: SavedSignal[]): number | null =>
+  signals.length > 0 ? signals.reduce((total, signal) => total + (probabilityOf(signal) - outcomeOf(signal)) ** 2, 0) / signals.length : null;
+
+const keyOf: Record<CalibrationDimension, (signal: SavedSignal) => string> = {
+  model: signal => signal.ensemble ? 'Ensemble' : AI_MODELS.find(model => model.id === signal.model)?.name ?? signal.model ?? (signal.type === 'Manual' ? 'Manual' : 'Unknown'),
+  timeframe: signal => signal.timeframe,
+  symbol: signal => signal.symbol,
+  type: signal => signal.type ?? 'Swing',
+  tradingStyle: signal => signal.tradingStyle || 'Unspecified',
+  biasSource: signal => signal.biasSource ?? 'Unspecified',
+  promptVersion: signal => signal.promptVersion ?? 'Unversioned',
+};
+
+function groupStats(key: string, signals: SavedSignal[]): CalibrationGroup {
+  const wins = signals.filter(signal => signal.status === 'Win').length;
+  return {
+    key,
+    signals: signals.length,
+    wins,
+    losses: signals.length - wins,
+    winRate: wins / signals.length * 100,
+    avgConfidence: signals.reduce((total, signal) => total + probabilityOf(signal), 0) / signals.length * 100,
+    brierScore: brierScore(signals)!,
+  };
+}
+
+/**
+ * Resolved signals grouped by one dimension, most signals first.
+ */
+export function calibrationBreakdown(signals: SavedSignal[], dimension: CalibrationDimension): CalibrationGroup[] {
+  const groups = new Map<string, SavedSignal[]>();
+  signals.filter(isResolved).forEach(signal => {
+    const key = keyOf[dimension](signal);
+    groups.set(key, [...(groups.get(key) ?? []), signal]);
+  });
+  return [...groups.entries()]
+    .map(([key, group]) => groupStats(key, group))
+    .sort((a, b) => b.signals - a.signals || a.key.localeCompare(b.key));
+}
+
+/**
+ * Reliability diagram points: resolved signals in 10-point confidence buckets, skipping empty ones.
+ * A well calibrated model's win rate matches its average confidence in every bucket.
+ */
+export function reliabilityBuckets(signals: SavedSignal[]): CalibrationBucket[] {
+  const buckets: CalibrationBucket[] = [];
+  const resolved = signals.filter(isResolved);
+  for (let from = 0; from < 100; from += BUCKET_SIZE) {
+    const to = from + BUCKET_SIZE;
+    // 100 belongs in the last bucket
+    const inBucket = resolved.filter(signal => {
+      const confidence = probabilityOf(signal) * 100;
+      return confidence >= from && (confidence < to || (to === 100 && confidence === 100));
+    });
+    if (inBucket.length === 0) continue;
+    const stats = groupStats(`${from}-${to}`, inBucket);
+    buckets.push({ range: stats.key, from, to, signals: stats.signals, avgConfidence: stats.avgConfidence, winRate: stats.winRate });
+  }
+  return buckets;
+}
+
+export function buildCalibrationReport(signals: SavedSignal[]): CalibrationReport {
+  const resolved = signals.filter(isResolved);
+  const overall = resolved.length > 0 ? groupStats('All', resolved) : null;
+  const baseRate = overall ? overall.winRate / 100 : 0;
+  return {
+    resolved: resolved.length,
+    unresolved: signals.filter(signal => signal.status === 'Pending').length,
+    winRate: overall?.winRate ?? 0,
+    avgConfidence: overall?.avgConfidence ?? 0,
+    brierScore: overall?.brierScore ?? null,
+    baselineBrierScore: overall ? baseRate * (1 - baseRate) : null,
+    buckets: reliabilityBuckets(signals),
+    breakdowns: {
+      model: calibrationBreakdown(signals, 'model'),
+      timeframe: calibrationBreakdown(signals, 'timeframe'),
+      symbol: calibrationBreakdown(signals, 'symbol'),
+      type: calibrationBreakdown(signals, 'type'),
+      tradingStyle: calibrationBreakdown(signals, 'tradingStyle'),
+      biasSource: calibrationBreakdown(signals, 'biasSource'),
+      promptVersion: calibrationBreakdown(signals, 'promptVersion'),
+    },
+  };
+}
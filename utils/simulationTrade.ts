@@ -0,0 +1,300 @@
+import type { CandleStick, IntrabarPolicy, PositionScaling, SimulationExit, SimulationSetup } from '@/types';
+import { ATR } from '@/utils/indicators';
+import { DEFAULT_SLIPPAGE_BPS, FUNDING_INTERVAL_MS, applySlippage, fundingPayment, fundingRateAt, getFeeTier, isLiquidated, liquidationPrice } from '@/services/perpAccounting';
+
+/**
+ * Position management for simulated trades: partial exits at each take profit, an optional move
+ * of the stop to breakeven after TP1, and percent- or ATR-based trailing stops. The same step
+ * function drives replay and live simulations, so both resolve a trade identically.
+ *
+ * Costs follow `perpAccounting`: the limit entry and take profits pay the venue's maker fee, stops
+ * and other market exits pay the taker fee and fill with slippage, funding is settled every 8 hours,
+ * and an isolated position is liquidated when the price (standing in for the mark price) crosses
+ * its liquidation price before the stop.
+ */
+
+export const DEFAULT_POSITION_SCALING: PositionScaling = {
+  tpAllocation: [50, 30, 20],
+  breakevenAfterTp1: true,
+  trailingStop: 'none',
+  trailingDistance: 1.5,
+  atrPeriod: 14,
+};
+
+/**
+ * The scaling preset for an auto-execution type: "Execute with Trailing SL" trails the stop at 1.5x ATR.
+ */
+export function scalingForExecutionType(type: 'market' | 'trailing'): PositionScaling {
+  return type === 'trailing' ? { ...DEFAULT_POSITION_SCALING, trailingStop: 'atr' } : DEFAULT_POSITION_SCALING;
+}
+
+export interface SimulatedTrade {
+  isActive: boolean;
+  entryPrice: number;
+  entryCandleIndex: number;
+  stop: number;
+  stopKind: 'initial' | 'breakeven' | 'trailing';
+  openPercent: number; // Share of the position still open, 0-100
+  nextTp: number; // Index of the next take profit to watch
+  realizedPnl: number; // Leveraged % return banked by the exits so far, weighted by their size
+  fees: number; // Fees paid so far, as % of margin
+  funding: number; // Funding paid so far (negative: received), as % of margin
+  fundedUntil: number; // Time of the last funding check, in ms
+  liquidationPrice: number;
+  exits: SimulationExit[];
+  atr: ATR;
+  ambiguousCandles: number;
+  resolvedByData: number;
+}
+
+export interface SimulatedTradeStep {
+  outcome: string | null; // e.g. "TP1 Hit", set when something happened on this candle
+  isComplete: boolean;
+}
+
+export interface IntrabarOptions {
+  policy: IntrabarPolicy;
+  subCandles?: CandleStick[]; // 1m candles inside the candle, used to tell whether the stop or the take profit came first
+  movement?: CandleStick; // For a revised live candle: only the range traded since the previous update
+}
+
+export function createSimulatedTrade(simulation: SimulationSetup): SimulatedTrade {
+  const scaling = simulation.scaling ?? DEFAULT_POSITION_SCALING;
+  return {
+    isActive: false,
+    entryPrice: 0,
+    entryCandleIndex: -1,
+    stop: simulation.stopLoss,
+    stopKind: 'initial',
+    openPercent: 0,
+    nextTp: 0,
+    realizedPnl: 0,
+    fees: 0,
+    funding: 0,
+    fundedUntil: 0,
+    liquidationPrice: 0,
+    exits: [],
+    atr: new ATR(scaling.atrPeriod),
+    ambiguousCandles: 0,
+    resolvedByData: 0,
+  };
+}
+
+const returnAt = (simulation: SimulationSetup, entryPrice: number, price: number) =>
+  ((price - entryPrice) / entryPrice) * 100 * simulation.leverage * (simulation.direction === 'LONG' ? 1 : -1);
+
+// Fee on a fill of `percent` of the position at `price`, as % of margin
+const feeAt = (trade: SimulatedTrade, simulation: SimulationSetup, price: number, percent: number, feeRate: number) =>
+  (percent / 100) * (price / trade.entryPrice) * feeRate * simulation.leverage * 100;
+
+const feeTierOf = (simulation: SimulationSetup) => getFeeTier(simulation.exchange, simulation.feeTier);
+
+/**
+ * Realised P&L of the closed portions plus the open remainder marked at `price`, net of fees and
+ * funding so far, as a leveraged % of margin.
+ */
+export function simulatedPnl(trade: SimulatedTrade, simulation: SimulationSetup, price: number): number {
+  if (!trade.isActive) return 0;
+  return trade.realizedPnl + (trade.openPercent / 100) * returnAt(simulation, trade.entryPrice, price) - trade.fees - trade.funding;
+}
+
+function closePortion(trade: SimulatedTrade, simulation: SimulationSetup, exit: SimulationExit) {
+  // A liquidation forfeits the whole margin of the open share; the exchange keeps what's left of it
+  trade.realizedPnl += exit.reason === 'Liquidated' ? -exit.percent : (exit.percent / 100) * returnAt(simulation, trade.entryPrice, exit.price);
+  trade.openPercent = Math.max(0, trade.openPercent - exit.percent);
+  trade.exits.push(exit);
+}
+
+// Closes part of the position with a market order: taker fee, and a fill slipped away from `price`
+function closeAtMarket(trade: SimulatedTrade, simulation: SimulationSetup, exit: SimulationExit) {
+  const price = applySlippage(exit.price, simulation.direction === 'SHORT', simulation.slippageBps ?? DEFAULT_SLIPPAGE_BPS);
+  trade.fees += feeAt(trade, simulation, price, exit.percent, feeTierOf(simulation).taker);
+  closePortion(trade, simulation, { ...exit, price });
+}
+
+/**
+ * Closes whatever is still open at `price`, e.g. when the replay runs out of data or the user stops it.
+ */
+export function closeSimulatedTrade(trade: SimulatedTrade, simulation: SimulationSetup, reason: 'Expired' | 'Stopped', price: number, time: number) {
+  if (!trade.isActive || trade.openPercent <= 0) return;
+  closeAtMarket(trade, simulation, { reason, price, percent: trade.openPercent, time });
+}
+
+// Settles every funding interval boundary passed since the last check on the open share of the position
+function settleFunding(trade: SimulatedTrade, simulation: SimulationSetup, time: number, markPrice: number) {
+  const rates = simulation.fundingRates ?? [];
+  if (rates.length > 0 && trade.openPercent > 0) {
+    const quantity = (trade.openPercent / 100) * simulation.leverage * 100 / trade.entryPrice;
+    for (let settlement = Math.floor(trade.fundedUntil / FUNDING_INTERVAL_MS + 1) * FUNDING_INTERVAL_MS; settlement <= time; settlement += FUNDING_INTERVAL_MS) {
+      const rate = fundingRateAt(rates, settlement);
+      if (rate) trade.funding += fundingPayment(simulation.direction, quantity, rate.markPrice ?? markPrice, rate.rate);
+    }
+  }
+  trade.fundedUntil = Math.max(trade.fundedUntil, time);
+}
+
+const touches = (candle: CandleStick, level: number, isAbove: boolean) => isAbove ? candle.high >= level : candle.low <= level;
+
+/**
+ * Whether the candle reaches both the stop (or an earlier liquidation price) and the next take profit,
+ * counting an entry on this candle, so the order in which they were hit decides the outcome.
+ */
+export function isIntrabarAmbiguous(trade: SimulatedTrade, simulation: SimulationSetup, candle: CandleStick): boolean {
+  const isLong = simulation.direction === 'LONG';
+  const nextTp = simulation.takeProfit[trade.nextTp];
+  if (nextTp === undefined) return false;
+  const entered = trade.isActive || touches(candle, simulation.entryRange[0], !isLong);
+  const liquidationFirst = trade.liquidationPrice > 0 && (isLong ? trade.liquidationPrice > trade.stop : trade.liquidationPrice < trade.stop);
+  const adverse = liquidationFirst ? trade.liquidationPrice : trade.stop;
+  return entered && touches(candle, adverse, !isLong) && touches(candle, nextTp, isLong);
+}
+
+/**
+ * The range a forming candle traded between two updates: from the previous close to the new close,
+ * through any new high or low. Older extremes were already acted on.
+ */
+export function priceMovementSince(previous: CandleStick, candle: CandleStick): CandleStick {
+  return {
+    ...candle,
+    open: previous.close,
+    high: candle.high > previous.high ? candle.high : Math.max(previous.close, candle.close),
+    low: candle.low < previous.low ? candle.low : Math.min(previous.close, candle.close),
+  };
+}
+
+function exitOrder(policy: IntrabarPolicy, candle: CandleStick, isLong: boolean): 'stop-first' | 'tp-first' {
+  if (policy === 'pessimistic') return 'stop-first';
+  if (policy === 'optimistic') return 'tp-first';
+  // A green candle is assumed to trade open → low → high → close, a red one open → high → low → close
+  const lowFirst = candle.close >= candle.open;
+  return lowFirst === isLong ? 'stop-first' : 'tp-first';
+}
+
+function applyCandle(
+  trade: SimulatedTrade,
+  simulation: SimulationSetup,
+  candle: CandleStick,
+  candleIndex: number,
+  atr: number | null,
+  order: 'stop-first' | 'tp-first',
+  resolvedBy?: SimulationExit['resolvedBy'],
+): SimulatedTradeStep {
+  const scaling = simulation.scaling ?? DEFAULT_POSITION_SCALING;
+  const isLong = simulation.direction === 'LONG';
+
+  if (!trade.isActive) {
+    if (!touches(candle, simulation.entryRange[0], !isLong)) return { outcome: null, isComplete: false };
+    trade.isActive = true;
+    trade.entryPrice = simulation.entryRange[0];
+    trade.entryCandleIndex = candleIndex;
+    trade.openPercent = 100;
+    trade.fees += feeAt(trade, simulation, trade.entryPrice, 100, feeTierOf(simulation).maker);
+    trade.fundedUntil = candle.time * 1000;
+    trade.liquidationPrice = liquidationPrice({ side: simulation.direction, entryPrice: trade.entryPrice, leverage: simulation.leverage });
+  }
+
+  const checkStop = (): SimulatedTradeStep | null => {
+    // Only a stop beyond the liquidation price leaves room for the position to be liquidated first
+    const liquidationFirst = isLong ? trade.liquidationPrice >= trade.stop : trade.liquidationPrice <= trade.stop;
+    if (liquidationFirst && isLiquidated(simulation.direction, trade.liquidationPrice, isLong ? candle.low : candle.high)) {
+      closePortion(trade, simulation, { reason: 'Liquidated', price: trade.liquidationPrice, percent: trade.openPercent, time: candle.time, resolvedBy });
+      return { outcome: 'Liquidated', isComplete: true };
+    }
+    if (!touches(candle, trade.stop, !isLong)) return null;
+    const reason = trade.stopKind === 'breakeven' ? 'Breakeven' : trade.stopKind === 'trailing' ? 'Trailing Stop' : 'Stop Loss';
+    closeAtMarket(trade, simulation, { reason, price: trade.stop, percent: trade.openPercent, time: candle.time, resolvedBy });
+    return { outcome: reason === 'Stop Loss' ? 'SL Hit' : reason, isComplete: true };
+  };
+
+  if (order === 'stop-first') {
+    const stopped = checkStop();
+    if (stopped) return stopped;
+  }
+
+  let outcome: string | null = null;
+  while (trade.nextTp < simulation.takeProfit.length && trade.openPercent > 0) {
+    const tp = simulation.takeProfit[trade.nextTp];
+    if (!touches(candle, tp, isLong)) break;
+    const tpIndex = trade.nextTp++;
+    const isLast = trade.nextTp === simulation.takeProfit.length;
+    const percent = isLast ? trade.openPercent : Math.min(trade.openPercent, Math.max(0, scaling.tpAllocation[tpIndex] ?? 0));
+    trade.fees += feeAt(trade, simulation, tp, percent, feeTierOf(simulation).maker);
+    closePortion(trade, simulation, { reason: 'Take Profit', price: tp, percent, time: candle.time, tpIndex, resolvedBy });
+    outcome = `TP${tpIndex + 1} Hit`;
+
+    if (tpIndex === 0 && scaling.breakevenAfterTp1 && (isLong ? trade.stop < trade.entryPrice : trade.stop > trade.entryPrice)) {
+      trade.stop = trade.entryPrice;
+      trade.stopKind = 'breakeven';
+    }
+  }
+  if (trade.openPercent <= 0) return { outcome, isComplete: true };
+
+  if (order === 'tp-first') {
+    // The candle came back through the (possibly moved) stop after the targets
+    const stopped = checkStop();
+    if (stopped) return stopped;
+  }
+
+  if (scaling.trailingStop !== 'none') {
+    const extreme = isLong ? candle.high : candle.low;
+    const distance = scaling.trailingStop === 'percent' ? extreme * scaling.trailingDistance / 100 : atr !== null ? atr * scaling.trailingDistance : null;
+    if (distance !== null) {
+      const candidate = isLong ? extreme - distance : extreme + distance;
+      if (isLong ? candidate > trade.stop : candidate < trade.stop) {
+        trade.stop = candidate;
+        trade.stopKind = 'trailing';
+      }
+    }
+  }
+  return { outcome, isComplete: false };
+}
+
+/**
+ * Advances the trade by one candle. Live candles may be fed repeatedly while they form.
+ *
+ * Order within a candle: entry, then the stop as it stood before this candle, then take profits in
+ * sequence (each closing its allocation), and finally the trailing stop is moved using this candle's
+ * extreme, so it only takes effect from the next candle. Funding settled since the previous candle is
+ * charged first, and a liquidation is checked alongside the stop. When the candle touches both the
+ * stop and a take profit, its 1m `subCandles` are replayed instead to find which came first; where
+ * they can't tell either, the intrabar policy decides.
+ */
+export function stepSimulatedTrade(
+  trade: SimulatedTrade,
+  simulation: SimulationSetup,
+  candle: CandleStick,
+  candleIndex: number,
+  options: IntrabarOptions = { policy: 'pessimistic' },
+): SimulatedTradeStep {
+  const isLong = simulation.direction === 'LONG';
+  const atr = trade.atr.update(candle);
+  const traded = options.movement ?? candle;
+  if (trade.isActive) settleFunding(trade, simulation, candle.time * 1000, traded.open);
+
+  if (!isIntrabarAmbiguous(trade, simulation, traded)) {
+    return applyCandle(trade, simulation, traded, candleIndex, atr, 'stop-first');
+  }
+  trade.ambiguousCandles++;
+
+  const subCandles = options.subCandles ?? [];
+  if (subCandles.length < 2) {
+    return applyCandle(trade, simulation, traded, candleIndex, atr, exitOrder(options.policy, traded, isLong), options.policy);
+  }
+
+  let outcome: string | null = null;
+  let resolvedByData = true;
+  for (const sub of subCandles) {
+    const ambiguous = isIntrabarAmbiguous(trade, simulation, sub);
+    if (ambiguous) resolvedByData = false;
+    const step = ambiguous
+      ? applyCandle(trade, simulation, sub, candleIndex, atr, exitOrder(options.policy, sub, isLong), options.policy)
+      : applyCandle(trade, simulation, sub, candleIndex, atr, 'stop-first', 'data');
+    outcome = step.outcome ?? outcome;
+    if (step.isComplete) {
+      if (resolvedByData) trade.resolvedByData++;
+      return { outcome, isComplete: true };
+    }
+  }
+  if (resolvedByData) trade.resolvedByData++;
+  return { outcome, isComplete: false };
+}
@@ -0,0 +1,7 @@
+import type { Timeframe } from '@/types';
+
+// Length of one candle for each timeframe, in seconds.
+export const TIMEFRAME_SECONDS: Record<Timeframe, number> = {
+    '1m': 60, '3m': 180, '5m': 300, '15m': 900, '30m': 1800,
+    '1h': 3600, '2h': 7200, '4h': 14400, '1d': 86400, '1w': 604800,
+};